@@ -45,6 +45,15 @@ async function main() {
       },
     });
 
+    const commerceCategory = await prisma.configCategory.upsert({
+      where: { name: 'commerce' },
+      update: {},
+      create: {
+        name: 'commerce',
+        description: 'Checkout, tax and order settings',
+      },
+    });
+
     // ==================== CONFIGURATION KEYS ====================
     console.log('Creating configuration keys...');
 
@@ -206,6 +215,53 @@ async function main() {
       },
     });
 
+    // Payment Configuration
+    const paymentMockWebhookSecret = await prisma.configKey.upsert({
+      where: { key: 'PAYMENT_MOCK_WEBHOOK_SECRET' },
+      update: {},
+      create: {
+        key: 'PAYMENT_MOCK_WEBHOOK_SECRET',
+        description: 'Secret used to sign webhooks for the mock payment provider',
+        categoryId: serviceCategory.id,
+        isSecret: true,
+        valueType: ValueType.STRING,
+      },
+    });
+
+    const paymentMockEnabled = await prisma.configKey.upsert({
+      where: { key: 'PAYMENT_MOCK_ENABLED' },
+      update: {},
+      create: {
+        key: 'PAYMENT_MOCK_ENABLED',
+        description: 'Allow payments through the mock provider (enabled outside production by default)',
+        categoryId: serviceCategory.id,
+        valueType: ValueType.BOOLEAN,
+      },
+    });
+
+    const paymentCodEnabled = await prisma.configKey.upsert({
+      where: { key: 'PAYMENT_COD_ENABLED' },
+      update: {},
+      create: {
+        key: 'PAYMENT_COD_ENABLED',
+        description: 'Allow cash on delivery payments',
+        categoryId: commerceCategory.id,
+        defaultValue: 'true',
+        valueType: ValueType.BOOLEAN,
+      },
+    });
+
+    const paymentCodMaxAmount = await prisma.configKey.upsert({
+      where: { key: 'PAYMENT_COD_MAX_AMOUNT' },
+      update: {},
+      create: {
+        key: 'PAYMENT_COD_MAX_AMOUNT',
+        description: 'Largest order total accepted for cash on delivery (empty for no limit)',
+        categoryId: commerceCategory.id,
+        valueType: ValueType.NUMBER,
+      },
+    });
+
     // Feature Flags
     const enableSmsNotifications = await prisma.configKey.upsert({
       where: { key: 'enable-sms-notifications' },
@@ -256,6 +312,522 @@ async function main() {
       },
     });
 
+    // Tax Configuration
+    const taxSellerState = await prisma.configKey.upsert({
+      where: { key: 'TAX_SELLER_STATE' },
+      update: {},
+      create: {
+        key: 'TAX_SELLER_STATE',
+        description: 'GST state code, abbreviation or name of the seller (decides CGST/SGST vs IGST)',
+        categoryId: commerceCategory.id,
+        valueType: ValueType.STRING,
+      },
+    });
+
+    const taxPricesIncludeTax = await prisma.configKey.upsert({
+      where: { key: 'TAX_PRICES_INCLUDE_TAX' },
+      update: {},
+      create: {
+        key: 'TAX_PRICES_INCLUDE_TAX',
+        description: 'Whether catalog prices already include GST',
+        categoryId: commerceCategory.id,
+        defaultValue: 'false',
+        valueType: ValueType.BOOLEAN,
+      },
+    });
+
+    // Invoice Configuration
+    const invoiceSellerName = await prisma.configKey.upsert({
+      where: { key: 'INVOICE_SELLER_NAME' },
+      update: {},
+      create: {
+        key: 'INVOICE_SELLER_NAME',
+        description: 'Legal name of the seller printed on tax invoices',
+        categoryId: commerceCategory.id,
+        valueType: ValueType.STRING,
+      },
+    });
+
+    const invoiceSellerGstin = await prisma.configKey.upsert({
+      where: { key: 'INVOICE_SELLER_GSTIN' },
+      update: {},
+      create: {
+        key: 'INVOICE_SELLER_GSTIN',
+        description: 'GSTIN of the seller printed on tax invoices',
+        categoryId: commerceCategory.id,
+        valueType: ValueType.STRING,
+      },
+    });
+
+    const invoiceSellerAddress = await prisma.configKey.upsert({
+      where: { key: 'INVOICE_SELLER_ADDRESS' },
+      update: {},
+      create: {
+        key: 'INVOICE_SELLER_ADDRESS',
+        description: 'Registered address of the seller printed on tax invoices',
+        categoryId: commerceCategory.id,
+        valueType: ValueType.STRING,
+      },
+    });
+
+    // Returns Configuration
+    const returnWindowDays = await prisma.configKey.upsert({
+      where: { key: 'RETURN_WINDOW_DAYS' },
+      update: {},
+      create: {
+        key: 'RETURN_WINDOW_DAYS',
+        description: 'Days after delivery within which a return can be raised',
+        categoryId: commerceCategory.id,
+        defaultValue: '7',
+        valueType: ValueType.NUMBER,
+      },
+    });
+
+    const returnTicketCategory = await prisma.configKey.upsert({
+      where: { key: 'RETURN_TICKET_CATEGORY' },
+      update: {},
+      create: {
+        key: 'RETURN_TICKET_CATEGORY',
+        description: 'Support ticket category that return tickets are filed under',
+        categoryId: commerceCategory.id,
+        defaultValue: '"Returns"',
+        valueType: ValueType.STRING,
+      },
+    });
+
+    // Shipping Configuration
+    const shippingDefaultWeight = await prisma.configKey.upsert({
+      where: { key: 'SHIPPING_DEFAULT_WEIGHT' },
+      update: {},
+      create: {
+        key: 'SHIPPING_DEFAULT_WEIGHT',
+        description: 'Weight in kg assumed for products without a weight',
+        categoryId: commerceCategory.id,
+        defaultValue: '0.5',
+        valueType: ValueType.NUMBER,
+      },
+    });
+
+    const shippingVolumetricDivisor = await prisma.configKey.upsert({
+      where: { key: 'SHIPPING_VOLUMETRIC_DIVISOR' },
+      update: {},
+      create: {
+        key: 'SHIPPING_VOLUMETRIC_DIVISOR',
+        description: 'Divisor converting L x W x H in cm to volumetric weight in kg',
+        categoryId: commerceCategory.id,
+        defaultValue: '5000',
+        valueType: ValueType.NUMBER,
+      },
+    });
+
+    const shippingDispatchDays = await prisma.configKey.upsert({
+      where: { key: 'SHIPPING_DISPATCH_DAYS' },
+      update: {},
+      create: {
+        key: 'SHIPPING_DISPATCH_DAYS',
+        description: 'Working days needed to dispatch an order, added to delivery estimates',
+        categoryId: commerceCategory.id,
+        defaultValue: '1',
+        valueType: ValueType.NUMBER,
+      },
+    });
+
+    // Inventory Configuration
+    const inventoryAllocationStrategy = await prisma.configKey.upsert({
+      where: { key: 'INVENTORY_ALLOCATION_STRATEGY' },
+      update: {},
+      create: {
+        key: 'INVENTORY_ALLOCATION_STRATEGY',
+        description: 'How orders pick a warehouse: nearest (to the delivery pincode) or most_stock',
+        categoryId: commerceCategory.id,
+        defaultValue: 'nearest',
+        valueType: ValueType.STRING,
+      },
+    });
+
+    const reservationTtl = await prisma.configKey.upsert({
+      where: { key: 'RESERVATION_TTL_MINUTES' },
+      update: {},
+      create: {
+        key: 'RESERVATION_TTL_MINUTES',
+        description: 'Minutes a cart or checkout session holds stock before it returns to sale; 0 holds until released',
+        categoryId: commerceCategory.id,
+        defaultValue: '15',
+        valueType: ValueType.NUMBER,
+      },
+    });
+
+    const orderReservationTtl = await prisma.configKey.upsert({
+      where: { key: 'ORDER_RESERVATION_TTL_MINUTES' },
+      update: {},
+      create: {
+        key: 'ORDER_RESERVATION_TTL_MINUTES',
+        description: 'Minutes an unpaid order holds stock before the order is cancelled; 0 holds until paid or cancelled',
+        categoryId: commerceCategory.id,
+        defaultValue: '30',
+        valueType: ValueType.NUMBER,
+      },
+    });
+
+    const reservationSweepInterval = await prisma.configKey.upsert({
+      where: { key: 'RESERVATION_SWEEP_INTERVAL_SECONDS' },
+      update: {},
+      create: {
+        key: 'RESERVATION_SWEEP_INTERVAL_SECONDS',
+        description: 'How often expired stock reservations are returned to stock',
+        categoryId: commerceCategory.id,
+        defaultValue: '60',
+        valueType: ValueType.NUMBER,
+      },
+    });
+
+    const lotExpiryWarningDays = await prisma.configKey.upsert({
+      where: { key: 'LOT_EXPIRY_WARNING_DAYS' },
+      update: {},
+      create: {
+        key: 'LOT_EXPIRY_WARNING_DAYS',
+        description: 'Days ahead of expiry that stock lots appear in the near-expiry report',
+        categoryId: commerceCategory.id,
+        defaultValue: '60',
+        valueType: ValueType.NUMBER,
+      },
+    });
+
+    // Stock Alert Configuration
+    const stockAlertEmails = await prisma.configKey.upsert({
+      where: { key: 'STOCK_ALERT_EMAILS' },
+      update: {},
+      create: {
+        key: 'STOCK_ALERT_EMAILS',
+        description: 'Comma-separated email addresses notified of low, out-of-stock and restocked items',
+        categoryId: commerceCategory.id,
+        valueType: ValueType.STRING,
+      },
+    });
+
+    const stockAlertPhones = await prisma.configKey.upsert({
+      where: { key: 'STOCK_ALERT_PHONES' },
+      update: {},
+      create: {
+        key: 'STOCK_ALERT_PHONES',
+        description: 'Comma-separated phone numbers texted stock alerts',
+        categoryId: commerceCategory.id,
+        valueType: ValueType.STRING,
+      },
+    });
+
+    const stockAlertWebhookUrls = await prisma.configKey.upsert({
+      where: { key: 'STOCK_ALERT_WEBHOOK_URLS' },
+      update: {},
+      create: {
+        key: 'STOCK_ALERT_WEBHOOK_URLS',
+        description: 'Comma-separated URLs that stock alerts are posted to as JSON',
+        categoryId: commerceCategory.id,
+        valueType: ValueType.STRING,
+      },
+    });
+
+    const stockAlertWebhookSecret = await prisma.configKey.upsert({
+      where: { key: 'STOCK_ALERT_WEBHOOK_SECRET' },
+      update: {},
+      create: {
+        key: 'STOCK_ALERT_WEBHOOK_SECRET',
+        description: 'Secret used to sign stock alert webhooks in the x-stock-alert-signature header',
+        categoryId: commerceCategory.id,
+        isSecret: true,
+        valueType: ValueType.STRING,
+      },
+    });
+
+    const stockAlertCooldown = await prisma.configKey.upsert({
+      where: { key: 'STOCK_ALERT_COOLDOWN_MINUTES' },
+      update: {},
+      create: {
+        key: 'STOCK_ALERT_COOLDOWN_MINUTES',
+        description: 'Minimum minutes between stock alerts for one item, except when it runs out',
+        categoryId: commerceCategory.id,
+        defaultValue: '60',
+        valueType: ValueType.NUMBER,
+      },
+    });
+
+    const stockAlertInterval = await prisma.configKey.upsert({
+      where: { key: 'STOCK_ALERT_INTERVAL_SECONDS' },
+      update: {},
+      create: {
+        key: 'STOCK_ALERT_INTERVAL_SECONDS',
+        description: 'How often items whose stock changed are checked for alerts',
+        categoryId: commerceCategory.id,
+        defaultValue: '30',
+        valueType: ValueType.NUMBER,
+      },
+    });
+
+    // Catalog Import Configuration
+    const productImportMaxRows = await prisma.configKey.upsert({
+      where: { key: 'PRODUCT_IMPORT_MAX_ROWS' },
+      update: {},
+      create: {
+        key: 'PRODUCT_IMPORT_MAX_ROWS',
+        description: 'Maximum number of data rows accepted in one product import file',
+        categoryId: commerceCategory.id,
+        defaultValue: '5000',
+        valueType: ValueType.NUMBER,
+      },
+    });
+
+    const productImportBatchSize = await prisma.configKey.upsert({
+      where: { key: 'PRODUCT_IMPORT_BATCH_SIZE' },
+      update: {},
+      create: {
+        key: 'PRODUCT_IMPORT_BATCH_SIZE',
+        description: 'Number of products written per transaction when an import is committed',
+        categoryId: commerceCategory.id,
+        defaultValue: '25',
+        valueType: ValueType.NUMBER,
+      },
+    });
+
+    const productVariantSkuPattern = await prisma.configKey.upsert({
+      where: { key: 'PRODUCT_VARIANT_SKU_PATTERN' },
+      update: {},
+      create: {
+        key: 'PRODUCT_VARIANT_SKU_PATTERN',
+        description: 'SKU pattern for generated variants; supports {productSku}, {slug}, {options}, {index} and {<axis name>}',
+        categoryId: commerceCategory.id,
+        defaultValue: '"{productSku}-{options}"',
+        valueType: ValueType.STRING,
+      },
+    });
+
+    // Product Publishing Configuration
+    const productPublishInterval = await prisma.configKey.upsert({
+      where: { key: 'PRODUCT_PUBLISH_INTERVAL_SECONDS' },
+      update: {},
+      create: {
+        key: 'PRODUCT_PUBLISH_INTERVAL_SECONDS',
+        description: 'How often the scheduler publishes and unpublishes products whose scheduled time has passed',
+        categoryId: commerceCategory.id,
+        defaultValue: '60',
+        valueType: ValueType.NUMBER,
+      },
+    });
+
+    // Price Schedule Configuration
+    const priceScheduleInterval = await prisma.configKey.upsert({
+      where: { key: 'PRICE_SCHEDULE_INTERVAL_SECONDS' },
+      update: {},
+      create: {
+        key: 'PRICE_SCHEDULE_INTERVAL_SECONDS',
+        description: 'How often scheduled price changes are applied and reverted',
+        categoryId: commerceCategory.id,
+        defaultValue: '60',
+        valueType: ValueType.NUMBER,
+      },
+    });
+
+    const priceDropWindow = await prisma.configKey.upsert({
+      where: { key: 'PRICE_DROP_WINDOW_DAYS' },
+      update: {},
+      create: {
+        key: 'PRICE_DROP_WINDOW_DAYS',
+        description: 'Days of price history compared with the current price to report a price drop',
+        categoryId: commerceCategory.id,
+        defaultValue: '30',
+        valueType: ValueType.NUMBER,
+      },
+    });
+
+    // Storage Configuration
+    const storageDriver = await prisma.configKey.upsert({
+      where: { key: 'STORAGE_DRIVER' },
+      update: {},
+      create: {
+        key: 'STORAGE_DRIVER',
+        description: 'Storage backend for uploaded files (local or s3)',
+        categoryId: serviceCategory.id,
+        defaultValue: 'local',
+        valueType: ValueType.STRING,
+      },
+    });
+
+    const storageLocalPath = await prisma.configKey.upsert({
+      where: { key: 'STORAGE_LOCAL_PATH' },
+      update: {},
+      create: {
+        key: 'STORAGE_LOCAL_PATH',
+        description: 'Directory the local storage driver writes uploaded files to',
+        categoryId: serviceCategory.id,
+        defaultValue: 'uploads',
+        valueType: ValueType.STRING,
+      },
+    });
+
+    const storagePublicUrl = await prisma.configKey.upsert({
+      where: { key: 'STORAGE_PUBLIC_URL' },
+      update: {},
+      create: {
+        key: 'STORAGE_PUBLIC_URL',
+        description: 'Base URL for files from the local driver; defaults to the /storage endpoint',
+        categoryId: serviceCategory.id,
+        valueType: ValueType.STRING,
+      },
+    });
+
+    const storageS3Bucket = await prisma.configKey.upsert({
+      where: { key: 'STORAGE_S3_BUCKET' },
+      update: {},
+      create: {
+        key: 'STORAGE_S3_BUCKET',
+        description: 'Bucket used by the S3 storage driver',
+        categoryId: serviceCategory.id,
+        valueType: ValueType.STRING,
+      },
+    });
+
+    const storageS3Region = await prisma.configKey.upsert({
+      where: { key: 'STORAGE_S3_REGION' },
+      update: {},
+      create: {
+        key: 'STORAGE_S3_REGION',
+        description: 'Region of the S3 bucket',
+        categoryId: serviceCategory.id,
+        defaultValue: 'us-east-1',
+        valueType: ValueType.STRING,
+      },
+    });
+
+    const storageS3Endpoint = await prisma.configKey.upsert({
+      where: { key: 'STORAGE_S3_ENDPOINT' },
+      update: {},
+      create: {
+        key: 'STORAGE_S3_ENDPOINT',
+        description: 'Endpoint for S3-compatible services such as MinIO or R2; empty for AWS',
+        categoryId: serviceCategory.id,
+        valueType: ValueType.STRING,
+      },
+    });
+
+    const storageS3AccessKeyId = await prisma.configKey.upsert({
+      where: { key: 'STORAGE_S3_ACCESS_KEY_ID' },
+      update: {},
+      create: {
+        key: 'STORAGE_S3_ACCESS_KEY_ID',
+        description: 'Access key ID for the S3 storage driver',
+        categoryId: serviceCategory.id,
+        valueType: ValueType.STRING,
+      },
+    });
+
+    const storageS3SecretAccessKey = await prisma.configKey.upsert({
+      where: { key: 'STORAGE_S3_SECRET_ACCESS_KEY' },
+      update: {},
+      create: {
+        key: 'STORAGE_S3_SECRET_ACCESS_KEY',
+        description: 'Secret access key for the S3 storage driver',
+        categoryId: serviceCategory.id,
+        isSecret: true,
+        valueType: ValueType.STRING,
+      },
+    });
+
+    const storageS3PublicUrl = await prisma.configKey.upsert({
+      where: { key: 'STORAGE_S3_PUBLIC_URL' },
+      update: {},
+      create: {
+        key: 'STORAGE_S3_PUBLIC_URL',
+        description: 'Public or CDN base URL for stored objects; defaults to the bucket URL',
+        categoryId: serviceCategory.id,
+        valueType: ValueType.STRING,
+      },
+    });
+
+    const storageS3ForcePathStyle = await prisma.configKey.upsert({
+      where: { key: 'STORAGE_S3_FORCE_PATH_STYLE' },
+      update: {},
+      create: {
+        key: 'STORAGE_S3_FORCE_PATH_STYLE',
+        description: 'Use path-style bucket addressing, required by most S3-compatible services',
+        categoryId: serviceCategory.id,
+        defaultValue: 'false',
+        valueType: ValueType.BOOLEAN,
+      },
+    });
+
+    // Upload Limits Configuration
+    const mediaUploadMaxBytes = await prisma.configKey.upsert({
+      where: { key: 'MEDIA_UPLOAD_MAX_BYTES' },
+      update: {},
+      create: {
+        key: 'MEDIA_UPLOAD_MAX_BYTES',
+        description: 'Maximum size in bytes of each uploaded product media file',
+        categoryId: commerceCategory.id,
+        defaultValue: '10485760',
+        valueType: ValueType.NUMBER,
+      },
+    });
+
+    const supportAttachmentMaxBytes = await prisma.configKey.upsert({
+      where: { key: 'SUPPORT_ATTACHMENT_MAX_BYTES' },
+      update: {},
+      create: {
+        key: 'SUPPORT_ATTACHMENT_MAX_BYTES',
+        description: 'Maximum size in bytes of each support ticket attachment',
+        categoryId: commerceCategory.id,
+        defaultValue: '5242880',
+        valueType: ValueType.NUMBER,
+      },
+    });
+
+    // Catalog Export Configuration
+    const catalogStorefrontUrl = await prisma.configKey.upsert({
+      where: { key: 'CATALOG_STOREFRONT_URL' },
+      update: {},
+      create: {
+        key: 'CATALOG_STOREFRONT_URL',
+        description: 'Public storefront base URL used for product links in catalog feeds',
+        categoryId: commerceCategory.id,
+        defaultValue: '""',
+        valueType: ValueType.STRING,
+      },
+    });
+
+    const catalogFeedTitle = await prisma.configKey.upsert({
+      where: { key: 'CATALOG_FEED_TITLE' },
+      update: {},
+      create: {
+        key: 'CATALOG_FEED_TITLE',
+        description: 'Channel title of the Google Merchant product feed',
+        categoryId: commerceCategory.id,
+        defaultValue: '"Product catalog"',
+        valueType: ValueType.STRING,
+      },
+    });
+
+    const catalogCurrency = await prisma.configKey.upsert({
+      where: { key: 'CATALOG_CURRENCY' },
+      update: {},
+      create: {
+        key: 'CATALOG_CURRENCY',
+        description: 'ISO 4217 currency code of catalog prices in exports and feeds',
+        categoryId: commerceCategory.id,
+        defaultValue: '"INR"',
+        valueType: ValueType.STRING,
+      },
+    });
+
+    const catalogFeedToken = await prisma.configKey.upsert({
+      where: { key: 'CATALOG_FEED_TOKEN' },
+      update: {},
+      create: {
+        key: 'CATALOG_FEED_TOKEN',
+        description: 'Token Google Merchant Center passes to fetch the public product feed; the feed is disabled when empty',
+        categoryId: commerceCategory.id,
+        isSecret: true,
+        valueType: ValueType.STRING,
+      },
+    });
+
     // ==================== NETWORK CONFIGURATIONS ====================
     console.log('Creating network configurations...');
 
@@ -547,6 +1119,34 @@ async function main() {
       },
     });
 
+    // ==================== TAX CLASSES ====================
+    console.log('Creating GST tax classes...');
+
+    for (const gstRate of [0, 5, 12, 18, 28]) {
+      await prisma.taxClass.upsert({
+        where: { name: `GST ${gstRate}%` },
+        update: {},
+        create: {
+          name: `GST ${gstRate}%`,
+          description: `Goods taxed at the ${gstRate}% GST slab`,
+          gstRate,
+          isDefault: gstRate === 18,
+        },
+      });
+    }
+
+    // ==================== SUPPORT TICKET CATEGORIES ====================
+    console.log('Creating support ticket categories...');
+
+    await prisma.ticketCategory.upsert({
+      where: { name: 'Returns' },
+      update: {},
+      create: {
+        name: 'Returns',
+        description: 'Return and refund requests',
+      },
+    });
+
     console.log('Database seeding completed successfully');
   } catch (error) {
     console.error('Error during seeding operation:', error);
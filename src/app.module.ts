@@ -8,6 +8,7 @@ import { NetworkModule } from './network/network.module';
 import { CacheModule } from './cache/cache.module';
 import { EmailModule } from './email/email.module';
 import { SmsModule } from './sms/sms.module';
+import { StorageModule } from './storage/storage.module';
 import { AnalyticsModule } from './analytics/analytics.module';
 import { FeatureModule } from './feature/feature.module';
 import { AuthModule } from './auth/auth.module';
@@ -16,6 +17,15 @@ import { CategoryModule } from './category/category.module';
 import { SupportModule } from './support/support.module';
 import { ProductModule } from './product/product.module';
 import { FreeItemModule } from './free-item/free-item.module';
+import { CartModule } from './cart/cart.module';
+import { OrderModule } from './order/order.module';
+import { PromotionModule } from './promotion/promotion.module';
+import { TaxModule } from './tax/tax.module';
+import { InvoiceModule } from './invoice/invoice.module';
+import { PaymentModule } from './payment/payment.module';
+import { ShippingModule } from './shipping/shipping.module';
+import { ReturnModule } from './return/return.module';
+import { WarehouseModule } from './warehouse/warehouse.module';
 import { JwtAuthGuard } from './auth/guards/jwt-auth.guard';
 import { PermissionGuard } from './auth/guards/permission.guard';
 
@@ -27,6 +37,7 @@ import { PermissionGuard } from './auth/guards/permission.guard';
     CacheModule,
     EmailModule,
     SmsModule,
+    StorageModule,
     AnalyticsModule,
     FeatureModule,
     AuthModule.forRoot({
@@ -38,6 +49,15 @@ import { PermissionGuard } from './auth/guards/permission.guard';
     ProductModule,
     SupportModule,
     FreeItemModule,
+    CartModule,
+    OrderModule,
+    PromotionModule,
+    TaxModule,
+    InvoiceModule,
+    PaymentModule,
+    ShippingModule,
+    ReturnModule,
+    WarehouseModule,
   ],
   controllers: [AppController],
   providers: [
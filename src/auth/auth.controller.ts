@@ -14,6 +14,7 @@ import {
   Res,
 } from '@nestjs/common';
 import { AuthService } from './auth.service';
+import { getGuestCartKey } from '../cart/guest-cart-key';
 import { OtpService } from './otp/otp.service';
 import { LocalAuthGuard } from './guards/local-auth.guard';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
@@ -111,6 +112,7 @@ export class AuthController {
       deviceId,
       ipAddress,
       userAgent,
+      getGuestCartKey(req),
     );
     
     // If the response indicates verification is needed
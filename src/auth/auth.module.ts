@@ -18,6 +18,7 @@ import { PermissionService } from '../permission/permission.service';
 import { SmsModule } from '../sms/sms.module';
 import { EmailModule } from '../email/email.module';
 import { AnalyticsModule } from '../analytics/analytics.module';
+import { CartModule } from '../cart/cart.module';
 
 @Global()
 @Module({
@@ -39,6 +40,7 @@ import { AnalyticsModule } from '../analytics/analytics.module';
     SmsModule,
     EmailModule,
     AnalyticsModule,
+    CartModule,
   ],
   controllers: [AuthController],
   providers: [
@@ -9,6 +9,7 @@ import { RefreshTokenService } from './token/refresh-token.service';
 import { RoleService } from '../role/role.service';
 import { PermissionService } from '../permission/permission.service';
 import { AnalyticsService } from '../analytics/analytics.service';
+import { CartService } from '../cart/cart.service';
 import { PlatformType, User, OTPType } from '@prisma/client';
 import * as bcrypt from 'bcrypt';
 import { v4 as uuidv4 } from 'uuid';
@@ -51,6 +52,7 @@ export class AuthService {
     private readonly roleService: RoleService,
     private readonly permissionService: PermissionService,
     private readonly analyticsService: AnalyticsService,
+    private readonly cartService: CartService,
     @Inject('PLATFORM_AUTH_STRATEGIES') private readonly platformStrategies: Record<string, any>,
   ) {}
 
@@ -94,8 +96,9 @@ export class AuthService {
 
   /**
    * Login with username/email and password
+   * @param guestCartKey Guest cart key (analyticsId) whose cart is merged into the user's cart
    */
-  async login(user: any, platform: PlatformType, deviceId?: string, ipAddress?: string, userAgent?: string): Promise<LoginResponse> {
+  async login(user: any, platform: PlatformType, deviceId?: string, ipAddress?: string, userAgent?: string, guestCartKey?: string): Promise<LoginResponse> {
     // Check if user has either verified email OR verified phone
     const hasVerifiedEmail = user.email && user.isEmailVerified;
     const hasVerifiedPhone = user.phone && user.isPhoneVerified;
@@ -211,6 +214,11 @@ export class AuthService {
       this.logger.error(`Failed to track login event: ${err.message}`, err.stack);
     });
 
+    // Merge the guest cart into the user's cart
+    await this.cartService.mergeGuestCart(guestCartKey, user.id).catch(err => {
+      this.logger.error(`Failed to merge guest cart: ${err.message}`, err.stack);
+    });
+
     // Log the login event
     this.logAuthEvent(user.id, 'login', platform, { deviceId, ipAddress, analyticsId });
 
@@ -16,8 +16,17 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
       context.getClass(),
     ]);
 
-    // If the route is public, allow access without authentication
+    // If the route is public, allow access without authentication,
+    // but still resolve the user when a bearer token is supplied
     if (isPublic) {
+      const request = context.switchToHttp().getRequest();
+      if (request.headers?.authorization) {
+        try {
+          await super.canActivate(context);
+        } catch {
+          // Ignore invalid tokens on public routes
+        }
+      }
       return true;
     }
 
@@ -0,0 +1,109 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Req,
+  Res,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { Public } from '../auth/decorators/public.decorator';
+import { CartService, CartOwner } from './cart.service';
+import { getGuestCartKey } from './guest-cart-key';
+import { AddCartItemDto } from './dto/add-cart-item.dto';
+import { UpdateCartItemDto } from './dto/update-cart-item.dto';
+
+interface RequestWithOptionalUser extends Request {
+  user?: {
+    sub: string;
+    username: string;
+    email?: string;
+    roles: string[];
+  };
+}
+
+@Controller('cart')
+@Public()
+export class CartController {
+  constructor(
+    private readonly cartService: CartService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  @Get()
+  async getCart(
+    @Req() req: RequestWithOptionalUser,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    return this.cartService.getCart(this.resolveOwner(req, res));
+  }
+
+  @Post('items')
+  @HttpCode(HttpStatus.OK)
+  async addItem(
+    @Body() addItemDto: AddCartItemDto,
+    @Req() req: RequestWithOptionalUser,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    return this.cartService.addItem(this.resolveOwner(req, res), addItemDto);
+  }
+
+  @Patch('items/:itemId')
+  async updateItem(
+    @Param('itemId') itemId: string,
+    @Body() updateItemDto: UpdateCartItemDto,
+    @Req() req: RequestWithOptionalUser,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    return this.cartService.updateItem(this.resolveOwner(req, res), itemId, updateItemDto);
+  }
+
+  @Delete('items/:itemId')
+  async removeItem(
+    @Param('itemId') itemId: string,
+    @Req() req: RequestWithOptionalUser,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    return this.cartService.removeItem(this.resolveOwner(req, res), itemId);
+  }
+
+  @Delete()
+  async clear(
+    @Req() req: RequestWithOptionalUser,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    return this.cartService.clear(this.resolveOwner(req, res));
+  }
+
+  /**
+   * Resolve the cart owner from the authenticated user or the guest analyticsId,
+   * issuing a new analyticsId cookie for first-time guests
+   */
+  private resolveOwner(req: RequestWithOptionalUser, res: Response): CartOwner {
+    if (req.user?.sub) {
+      return { userId: req.user.sub };
+    }
+
+    let guestKey = getGuestCartKey(req);
+
+    if (!guestKey) {
+      guestKey = uuidv4();
+      res.cookie('analyticsId', guestKey, {
+        httpOnly: false, // Allow JavaScript access for client-side analytics
+        secure: this.configService.get<string>('NODE_ENV') === 'production',
+        sameSite: 'strict' as const,
+        maxAge: 365 * 24 * 60 * 60 * 1000, // 1 year
+        path: '/',
+      });
+    }
+
+    return { guestKey };
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { CartService } from './cart.service';
+import { CartController } from './cart.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { ProductModule } from '../product/product.module';
+
+@Module({
+  imports: [PrismaModule, ProductModule],
+  controllers: [CartController],
+  providers: [CartService],
+  exports: [CartService],
+})
+export class CartModule {}
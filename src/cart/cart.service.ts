@@ -0,0 +1,455 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { Prisma } from '@prisma/client';
+import { ProductInventoryService } from '../product/product-inventory.service';
+import { ProductPricingService, PricingContext } from '../product/product-pricing.service';
+import { AddCartItemDto } from './dto/add-cart-item.dto';
+import { UpdateCartItemDto } from './dto/update-cart-item.dto';
+
+/**
+ * Identifies the owner of a cart: an authenticated user or a guest key
+ */
+export interface CartOwner {
+  userId?: string;
+  guestKey?: string;
+}
+
+export type CartIssueType = 'PRICE_CHANGED' | 'OUT_OF_STOCK' | 'UNAVAILABLE';
+
+export interface CartIssue {
+  itemId: string;
+  type: CartIssueType;
+  message: string;
+}
+
+const cartItemInclude = {
+  product: {
+    select: {
+      id: true,
+      name: true,
+      slug: true,
+      sku: true,
+      price: true,
+      dealerPrice: true,
+      isActive: true,
+      hasVariants: true,
+      media: {
+        orderBy: {
+          position: 'asc' as const,
+        },
+        take: 1,
+      },
+    },
+  },
+  variant: {
+    select: {
+      id: true,
+      name: true,
+      sku: true,
+      price: true,
+      dealerPrice: true,
+      isActive: true,
+      options: true,
+    },
+  },
+};
+
+@Injectable()
+export class CartService {
+  private readonly logger = new Logger(CartService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly inventoryService: ProductInventoryService,
+    private readonly pricingService: ProductPricingService,
+  ) {}
+
+  /**
+   * Get the cart for an owner, revalidating prices and stock
+   */
+  async getCart(owner: CartOwner) {
+    const cart = await this.getOrCreateCart(owner);
+    return this.buildCartView(cart.id);
+  }
+
+  /**
+   * Add a product or variant to the cart
+   */
+  async addItem(owner: CartOwner, addItemDto: AddCartItemDto) {
+    const { productId, variantId, quantity = 1 } = addItemDto;
+    const cart = await this.getOrCreateCart(owner);
+
+    // Merge with an existing line for the same product/variant
+    const existingItem = await this.prisma.cartItem.findFirst({
+      where: {
+        cartId: cart.id,
+        productId,
+        variantId: variantId ?? null,
+      },
+    });
+
+    const totalQuantity = quantity + (existingItem?.quantity ?? 0);
+    const pricing = await this.pricingService.resolveContextForUser(cart.userId);
+    const unitPrice = await this.validateLine(productId, variantId, totalQuantity, pricing);
+
+    if (existingItem) {
+      await this.prisma.cartItem.update({
+        where: { id: existingItem.id },
+        data: {
+          quantity: totalQuantity,
+          unitPrice,
+        },
+      });
+    } else {
+      await this.prisma.cartItem.create({
+        data: {
+          cartId: cart.id,
+          productId,
+          variantId,
+          quantity,
+          unitPrice,
+        },
+      });
+    }
+
+    return this.buildCartView(cart.id);
+  }
+
+  /**
+   * Update the quantity of a cart line
+   */
+  async updateItem(owner: CartOwner, itemId: string, updateItemDto: UpdateCartItemDto) {
+    const cart = await this.getOrCreateCart(owner);
+    const item = await this.findCartItem(cart.id, itemId);
+
+    const pricing = await this.pricingService.resolveContextForUser(cart.userId);
+    const unitPrice = await this.validateLine(
+      item.productId,
+      item.variantId ?? undefined,
+      updateItemDto.quantity,
+      pricing,
+    );
+
+    await this.prisma.cartItem.update({
+      where: { id: item.id },
+      data: {
+        quantity: updateItemDto.quantity,
+        unitPrice,
+      },
+    });
+
+    return this.buildCartView(cart.id);
+  }
+
+  /**
+   * Remove a line from the cart
+   */
+  async removeItem(owner: CartOwner, itemId: string) {
+    const cart = await this.getOrCreateCart(owner);
+    const item = await this.findCartItem(cart.id, itemId);
+
+    await this.prisma.cartItem.delete({
+      where: { id: item.id },
+    });
+
+    return this.buildCartView(cart.id);
+  }
+
+  /**
+   * Remove all lines from the cart
+   */
+  async clear(owner: CartOwner) {
+    const cart = await this.getOrCreateCart(owner);
+
+    await this.prisma.cartItem.deleteMany({
+      where: { cartId: cart.id },
+    });
+
+    return this.buildCartView(cart.id);
+  }
+
+  /**
+   * Merge a guest cart into a user's cart (called at login)
+   */
+  async mergeGuestCart(guestKey: string | undefined, userId: string): Promise<void> {
+    if (!guestKey) {
+      return;
+    }
+
+    const guestCart = await this.prisma.cart.findUnique({
+      where: { guestKey },
+      include: { items: true },
+    });
+
+    if (!guestCart) {
+      return;
+    }
+
+    if (guestCart.items.length === 0) {
+      await this.prisma.cart.delete({ where: { id: guestCart.id } });
+      return;
+    }
+
+    const userCart = await this.getOrCreateCart({ userId });
+
+    await this.prisma.$transaction(async (tx) => {
+      const userItems = await tx.cartItem.findMany({
+        where: { cartId: userCart.id },
+      });
+
+      for (const guestItem of guestCart.items) {
+        const match = userItems.find(item =>
+          item.productId === guestItem.productId &&
+          item.variantId === guestItem.variantId
+        );
+
+        if (match) {
+          await tx.cartItem.update({
+            where: { id: match.id },
+            data: {
+              quantity: match.quantity + guestItem.quantity,
+            },
+          });
+        } else {
+          await tx.cartItem.update({
+            where: { id: guestItem.id },
+            data: { cartId: userCart.id },
+          });
+        }
+      }
+
+      await tx.cart.delete({
+        where: { id: guestCart.id },
+      });
+    });
+
+    this.logger.log(`Merged guest cart ${guestCart.id} into cart of user ${userId}`);
+  }
+
+  /**
+   * Find the cart for an owner, creating it if needed
+   */
+  private async getOrCreateCart(owner: CartOwner) {
+    if (owner.userId) {
+      return this.prisma.cart.upsert({
+        where: { userId: owner.userId },
+        update: {},
+        create: { userId: owner.userId },
+      });
+    }
+
+    if (owner.guestKey) {
+      return this.prisma.cart.upsert({
+        where: { guestKey: owner.guestKey },
+        update: {},
+        create: { guestKey: owner.guestKey },
+      });
+    }
+
+    throw new BadRequestException('A user or guest key is required to access a cart');
+  }
+
+  /**
+   * Find a cart line belonging to a cart
+   */
+  private async findCartItem(cartId: string, itemId: string) {
+    const item = await this.prisma.cartItem.findFirst({
+      where: {
+        id: itemId,
+        cartId,
+      },
+    });
+
+    if (!item) {
+      throw new NotFoundException(`Cart item with ID ${itemId} not found`);
+    }
+
+    return item;
+  }
+
+  /**
+   * Validate that a product/variant can be added in the given quantity
+   * and return its current unit price for the caller's price tier
+   */
+  private async validateLine(
+    productId: string,
+    variantId: string | undefined,
+    quantity: number,
+    pricing: PricingContext,
+  ): Promise<Prisma.Decimal> {
+    const product = await this.prisma.product.findUnique({
+      where: { id: productId },
+    });
+
+    if (!product || !product.isActive) {
+      throw new NotFoundException(`Product with ID ${productId} not found`);
+    }
+
+    if (product.hasVariants && !variantId) {
+      throw new BadRequestException(`Product ${productId} has variants. Please select a variant.`);
+    }
+
+    if (variantId) {
+      const variant = await this.prisma.productVariant.findUnique({
+        where: { id: variantId },
+      });
+
+      if (!variant || variant.productId !== productId || !variant.isActive) {
+        throw new NotFoundException(`Variant with ID ${variantId} not found`);
+      }
+
+      // Orders reserve stock when placed, so the cart only takes what is in stock
+      const inStock = await this.inventoryService.isVariantInStock(variantId, quantity);
+      if (!inStock) {
+        throw new BadRequestException(`Not enough inventory for variant ${variantId}`);
+      }
+
+      return this.pricingService.resolveUnitPrice(product, variant, pricing);
+    }
+
+    const inStock = await this.inventoryService.isInStock(productId, quantity);
+    if (!inStock) {
+      throw new BadRequestException(`Not enough inventory for product ${productId}`);
+    }
+
+    return this.pricingService.resolveUnitPrice(product, null, pricing);
+  }
+
+  /**
+   * Build the cart response, revalidating every line against current
+   * prices and stock and listing the free items that come with it
+   */
+  private async buildCartView(cartId: string) {
+    const cart = await this.prisma.cart.findUnique({
+      where: { id: cartId },
+      include: {
+        items: {
+          include: cartItemInclude,
+          orderBy: {
+            createdAt: 'asc',
+          },
+        },
+      },
+    });
+
+    if (!cart) {
+      throw new NotFoundException(`Cart with ID ${cartId} not found`);
+    }
+
+    const pricing = await this.pricingService.resolveContextForUser(cart.userId);
+
+    // Load free items attached to the products in this cart
+    const productIds = [...new Set(cart.items.map(item => item.productId))];
+    const freeItemLinks = productIds.length > 0
+      ? await this.prisma.freeItemProduct.findMany({
+          where: {
+            productId: { in: productIds },
+            freeItem: { isActive: true },
+          },
+          include: {
+            freeItem: true,
+          },
+          orderBy: {
+            freeItem: { sortOrder: 'asc' },
+          },
+        })
+      : [];
+
+    const issues: CartIssue[] = [];
+    let subtotal = new Prisma.Decimal(0);
+    let itemCount = 0;
+
+    const items: any[] = [];
+    for (const item of cart.items) {
+      const { product, variant } = item;
+      const isAvailable = product.isActive && (!variant || variant.isActive);
+      const currentPrice = this.pricingService.resolveUnitPrice(product, variant, pricing);
+
+      let inStock = false;
+      if (isAvailable) {
+        inStock = variant
+          ? await this.inventoryService.isVariantInStock(variant.id, item.quantity)
+          : await this.inventoryService.isInStock(product.id, item.quantity);
+      }
+
+      if (!isAvailable) {
+        issues.push({
+          itemId: item.id,
+          type: 'UNAVAILABLE',
+          message: `${product.name} is no longer available`,
+        });
+      } else if (!inStock) {
+        issues.push({
+          itemId: item.id,
+          type: 'OUT_OF_STOCK',
+          message: `${product.name} does not have enough stock for the requested quantity`,
+        });
+      }
+
+      // Keep the stored price in sync and report the change once
+      const priceChanged = !currentPrice.equals(item.unitPrice);
+      if (priceChanged) {
+        issues.push({
+          itemId: item.id,
+          type: 'PRICE_CHANGED',
+          message: `Price of ${product.name} changed from ${item.unitPrice.toString()} to ${currentPrice.toString()}`,
+        });
+
+        await this.prisma.cartItem.update({
+          where: { id: item.id },
+          data: { unitPrice: currentPrice },
+        });
+      }
+
+      const lineTotal = currentPrice.mul(item.quantity);
+      if (isAvailable && inStock) {
+        subtotal = subtotal.plus(lineTotal);
+        itemCount += item.quantity;
+      }
+
+      items.push({
+        id: item.id,
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: item.quantity,
+        unitPrice: currentPrice,
+        previousUnitPrice: priceChanged ? item.unitPrice : undefined,
+        lineTotal,
+        isAvailable,
+        inStock,
+        // Dealer prices are only used to price the line, never shown
+        product: {
+          id: product.id,
+          name: product.name,
+          slug: product.slug,
+          sku: product.sku,
+          price: product.price,
+          isActive: product.isActive,
+          hasVariants: product.hasVariants,
+          media: product.media,
+        },
+        variant: variant
+          ? {
+              id: variant.id,
+              name: variant.name,
+              sku: variant.sku,
+              options: variant.options,
+            }
+          : null,
+        freeItems: freeItemLinks
+          .filter(link => link.productId === item.productId)
+          .map(link => link.freeItem),
+      });
+    }
+
+    return {
+      id: cart.id,
+      userId: cart.userId,
+      items,
+      issues,
+      itemCount,
+      subtotal,
+      updatedAt: cart.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,23 @@
+import { 
+  IsString, 
+  IsOptional, 
+  IsInt, 
+  IsNotEmpty,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class AddCartItemDto {
+  @IsString()
+  @IsNotEmpty()
+  productId: string;
+
+  @IsString()
+  @IsOptional()
+  variantId?: string;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  quantity: number = 1;
+}
@@ -0,0 +1,9 @@
+import { IsInt, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class UpdateCartItemDto {
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
@@ -0,0 +1,11 @@
+import { Request } from 'express';
+
+/**
+ * Read the key of a guest's cart: the analyticsId cookie set for browsers,
+ * or the x-analytics-id header sent by apps that do not keep cookies
+ */
+export function getGuestCartKey(req: Request): string | undefined {
+  const headerKey = req.headers['x-analytics-id'];
+
+  return req.cookies?.analyticsId || (typeof headerKey === 'string' ? headerKey : undefined);
+}
@@ -21,6 +21,44 @@ interface UpdateCategoryAttributeDto {
   sortOrder?: number;
 }
 
+export type AttributeValidationErrorCode =
+  | 'REQUIRED'
+  | 'INVALID_NUMBER'
+  | 'INVALID_BOOLEAN'
+  | 'INVALID_DATE'
+  | 'INVALID_OPTION'
+  | 'INVALID_COLOR'
+  | 'INVALID_URL';
+
+export interface AttributeValidationError {
+  attribute: string;
+  code: AttributeValidationErrorCode;
+  message: string;
+  value?: string;
+}
+
+export interface ProductAttributeInput {
+  name: string;
+  value: string;
+  type?: AttributeType;
+  isVariantOption?: boolean;
+}
+
+const COLOR_PATTERN = /^(#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})|(rgb|hsl)a?\([\d\s.,%/]+\)|[a-z]+( [a-z]+)*)$/i;
+
+const parseBoolean = (value: string): boolean | null => {
+  const lower = value.toLowerCase();
+  if (['true', 'yes', '1'].includes(lower)) return true;
+  if (['false', 'no', '0'].includes(lower)) return false;
+  return null;
+};
+
+const splitOptions = (value: string): string[] =>
+  value.split(',').map(option => option.trim()).filter(Boolean);
+
+const matchOption = (options: string[], value: string): string | undefined =>
+  options.find(option => option.toLowerCase() === value.toLowerCase());
+
 @Injectable()
 export class CategoryAttributeService {
   private readonly logger = new Logger(CategoryAttributeService.name);
@@ -243,4 +281,218 @@ export class CategoryAttributeService {
       throw error;
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Get the attribute definitions that apply to a set of categories, keyed by lowercase name
+   * Definitions are inherited down the category tree; the nearest category wins, and
+   * between the given categories the first one listed wins
+   */
+  async findForCategories(categoryIds: string[]): Promise<Map<string, CategoryAttribute>> {
+    const definitions = new Map<string, CategoryAttribute>();
+
+    if (categoryIds.length === 0) {
+      return definitions;
+    }
+
+    // Walk each category up to the root, collecting the chain nearest-first
+    const parents = new Map<string, string | null>();
+    let pending = [...new Set(categoryIds)];
+
+    while (pending.length > 0) {
+      const categories = await this.prisma.category.findMany({
+        where: { id: { in: pending } },
+        select: { id: true, parentId: true },
+      });
+
+      categories.forEach(category => parents.set(category.id, category.parentId));
+      pending = categories
+        .map(category => category.parentId)
+        .filter((parentId): parentId is string => !!parentId && !parents.has(parentId));
+    }
+
+    const chain: string[] = [];
+    for (const categoryId of categoryIds) {
+      let current: string | null | undefined = categoryId;
+      while (current && !chain.includes(current)) {
+        chain.push(current);
+        current = parents.get(current);
+      }
+    }
+
+    const attributes = await this.prisma.categoryAttribute.findMany({
+      where: { categoryId: { in: chain } },
+      orderBy: [
+        { sortOrder: 'asc' },
+        { name: 'asc' },
+      ],
+    });
+
+    for (const categoryId of chain) {
+      for (const attribute of attributes.filter(attr => attr.categoryId === categoryId)) {
+        const key = attribute.name.toLowerCase();
+        if (!definitions.has(key)) {
+          definitions.set(key, attribute);
+        }
+      }
+    }
+
+    return definitions;
+  }
+
+  /**
+   * Check a value against an attribute definition
+   * Returns a structured error, or null when the value is acceptable
+   */
+  validateValue(attribute: CategoryAttribute, value: string): AttributeValidationError | null {
+    const trimmed = value.trim();
+    const error = (code: AttributeValidationErrorCode, message: string): AttributeValidationError => ({
+      attribute: attribute.name,
+      code,
+      message,
+      value,
+    });
+
+    if (trimmed === '') {
+      return attribute.isRequired ? error('REQUIRED', `${attribute.name} is required`) : null;
+    }
+
+    switch (attribute.type) {
+      case AttributeType.NUMBER:
+        return Number.isFinite(Number(trimmed)) ? null : error('INVALID_NUMBER', `${attribute.name} must be a number`);
+      case AttributeType.BOOLEAN:
+        return parseBoolean(trimmed) === null
+          ? error('INVALID_BOOLEAN', `${attribute.name} must be true or false`)
+          : null;
+      case AttributeType.DATE:
+        return Number.isNaN(Date.parse(trimmed)) ? error('INVALID_DATE', `${attribute.name} must be a valid date`) : null;
+      case AttributeType.DROPDOWN:
+        return matchOption(attribute.options, trimmed)
+          ? null
+          : error('INVALID_OPTION', `${attribute.name} must be one of: ${attribute.options.join(', ')}`);
+      case AttributeType.MULTISELECT: {
+        const invalid = splitOptions(trimmed).filter(option => !matchOption(attribute.options, option));
+        return invalid.length === 0
+          ? null
+          : error('INVALID_OPTION', `${attribute.name} has invalid options: ${invalid.join(', ')}`);
+      }
+      case AttributeType.COLOR:
+        return COLOR_PATTERN.test(trimmed)
+          ? null
+          : error('INVALID_COLOR', `${attribute.name} must be a hex color, rgb()/hsl() value or color name`);
+      case AttributeType.IMAGE:
+        return /^https?:\/\//i.test(trimmed) ? null : error('INVALID_URL', `${attribute.name} must be an http(s) URL`);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Store a valid value in its canonical form: numbers and booleans as written by JS,
+   * dates as YYYY-MM-DD, options spelled as defined and hex colors in lowercase
+   */
+  normalizeValue(attribute: CategoryAttribute, value: string): string {
+    const trimmed = value.trim();
+
+    switch (attribute.type) {
+      case AttributeType.NUMBER:
+        return String(Number(trimmed));
+      case AttributeType.BOOLEAN:
+        return String(parseBoolean(trimmed));
+      case AttributeType.DATE:
+        return /^\d{4}-\d{2}-\d{2}$/.test(trimmed) ? trimmed : new Date(trimmed).toISOString().slice(0, 10);
+      case AttributeType.DROPDOWN:
+        return matchOption(attribute.options, trimmed) ?? trimmed;
+      case AttributeType.MULTISELECT:
+        return [...new Set(splitOptions(trimmed).map(option => matchOption(attribute.options, option) ?? option))].join(', ');
+      case AttributeType.COLOR:
+        return trimmed.startsWith('#') ? trimmed.toLowerCase() : trimmed;
+      default:
+        return trimmed;
+    }
+  }
+
+  /**
+   * Validate a product's attributes against the schema of its categories (and their parents).
+   * Values are normalized and typed from their definitions, and definitions with a default
+   * value that the product does not set are filled in.
+   */
+  async validateProductAttributes<T extends ProductAttributeInput>(
+    categoryIds: string[],
+    attributes: T[],
+  ): Promise<{ attributes: Array<T | ProductAttributeInput>; errors: AttributeValidationError[] }> {
+    const definitions = await this.findForCategories(categoryIds);
+    const errors: AttributeValidationError[] = [];
+    const resolved: Array<T | ProductAttributeInput> = [];
+    const provided = new Set<string>();
+
+    for (const attribute of attributes) {
+      const key = attribute.name.toLowerCase();
+      const definition = definitions.get(key);
+      provided.add(key);
+
+      if (!definition) {
+        resolved.push(attribute);
+        continue;
+      }
+
+      // A variant option lists every value the variants use, so a dropdown holds several
+      const schema = attribute.isVariantOption && definition.type === AttributeType.DROPDOWN
+        ? { ...definition, type: AttributeType.MULTISELECT }
+        : definition;
+
+      const error = this.validateValue(schema, attribute.value);
+      if (error) {
+        errors.push(error);
+        continue;
+      }
+
+      resolved.push({
+        ...attribute,
+        name: definition.name,
+        value: this.normalizeValue(schema, attribute.value),
+        type: schema.type,
+      });
+    }
+
+    for (const [key, definition] of definitions) {
+      if (provided.has(key)) {
+        continue;
+      }
+
+      if (definition.defaultValue) {
+        resolved.push({
+          name: definition.name,
+          value: this.normalizeValue(definition, definition.defaultValue),
+          type: definition.type,
+        });
+      } else if (definition.isRequired) {
+        errors.push({
+          attribute: definition.name,
+          code: 'REQUIRED',
+          message: `${definition.name} is required for this category`,
+        });
+      }
+    }
+
+    return { attributes: resolved, errors };
+  }
+
+  /**
+   * Like validateProductAttributes, but throws a BadRequestException listing every violation
+   */
+  async assertProductAttributes<T extends ProductAttributeInput>(
+    categoryIds: string[],
+    attributes: T[],
+  ): Promise<Array<T | ProductAttributeInput>> {
+    const result = await this.validateProductAttributes(categoryIds, attributes);
+
+    if (result.errors.length > 0) {
+      throw new BadRequestException({
+        message: 'Product attributes do not match the category schema',
+        errors: result.errors,
+      });
+    }
+
+    return result.attributes;
+  }
+}
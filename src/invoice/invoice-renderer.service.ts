@@ -0,0 +1,317 @@
+import { Injectable } from '@nestjs/common';
+import * as PDFDocument from 'pdfkit';
+
+/**
+ * Everything needed to render a tax invoice
+ */
+export interface InvoiceDocument {
+  invoiceNumber: string;
+  issuedAt: Date;
+  orderNumber: string;
+  currency: string;
+  seller: {
+    name: string;
+    gstin?: string | null;
+    address?: string | null;
+    state?: string | null;
+  };
+  buyer: {
+    name: string;
+    gstin?: string | null;
+    addressLines: string[];
+    phone?: string | null;
+  };
+  placeOfSupply?: string | null;
+  supplyType: 'INTRA_STATE' | 'INTER_STATE';
+  usesUtgst: boolean;
+  items: Array<{
+    description: string;
+    sku?: string | null;
+    hsnCode?: string | null;
+    quantity: number;
+    unitPrice: string;
+    discount: string;
+    taxableValue: string;
+    gstRate: string;
+    cgst: string;
+    sgst: string;
+    igst: string;
+    total: string;
+  }>;
+  hsnSummary: Array<{
+    hsnCode?: string | null;
+    gstRate: string;
+    taxableValue: string;
+    cgst: string;
+    sgst: string;
+    igst: string;
+    taxTotal: string;
+  }>;
+  totals: {
+    subtotal: string;
+    discountTotal: string;
+    taxableValue: string;
+    cgst: string;
+    sgst: string;
+    igst: string;
+    taxTotal: string;
+    shippingTotal: string;
+    total: string;
+  };
+}
+
+const escapeHtml = (value: string | number | null | undefined): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+@Injectable()
+export class InvoiceRendererService {
+  /**
+   * Render an invoice as a standalone HTML document
+   */
+  renderHtml(invoice: InvoiceDocument): string {
+    const stateTaxLabel = invoice.usesUtgst ? 'UTGST' : 'SGST';
+    const intraState = invoice.supplyType === 'INTRA_STATE';
+
+    const itemRows = invoice.items.map((item, index) => `
+        <tr>
+          <td>${index + 1}</td>
+          <td>${escapeHtml(item.description)}${item.sku ? `<br><small>SKU: ${escapeHtml(item.sku)}</small>` : ''}</td>
+          <td>${escapeHtml(item.hsnCode ?? '-')}</td>
+          <td class="num">${item.quantity}</td>
+          <td class="num">${escapeHtml(item.unitPrice)}</td>
+          <td class="num">${escapeHtml(item.discount)}</td>
+          <td class="num">${escapeHtml(item.taxableValue)}</td>
+          <td class="num">${escapeHtml(item.gstRate)}%</td>
+          ${intraState
+            ? `<td class="num">${escapeHtml(item.cgst)}</td><td class="num">${escapeHtml(item.sgst)}</td>`
+            : `<td class="num">${escapeHtml(item.igst)}</td>`}
+          <td class="num">${escapeHtml(item.total)}</td>
+        </tr>`).join('');
+
+    const hsnRows = invoice.hsnSummary.map(row => `
+        <tr>
+          <td>${escapeHtml(row.hsnCode ?? '-')}</td>
+          <td class="num">${escapeHtml(row.gstRate)}%</td>
+          <td class="num">${escapeHtml(row.taxableValue)}</td>
+          ${intraState
+            ? `<td class="num">${escapeHtml(row.cgst)}</td><td class="num">${escapeHtml(row.sgst)}</td>`
+            : `<td class="num">${escapeHtml(row.igst)}</td>`}
+          <td class="num">${escapeHtml(row.taxTotal)}</td>
+        </tr>`).join('');
+
+    const taxHeaders = intraState
+      ? `<th>CGST</th><th>${stateTaxLabel}</th>`
+      : '<th>IGST</th>';
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Tax Invoice ${escapeHtml(invoice.invoiceNumber)}</title>
+  <style>
+    body { font-family: Arial, Helvetica, sans-serif; font-size: 12px; color: #222; margin: 24px; }
+    h1 { font-size: 20px; margin: 0 0 16px; }
+    table { width: 100%; border-collapse: collapse; margin-bottom: 16px; }
+    th, td { border: 1px solid #ccc; padding: 6px; text-align: left; vertical-align: top; }
+    th { background: #f3f3f3; }
+    .num { text-align: right; }
+    .parties td { width: 50%; border: none; padding: 0 12px 12px 0; }
+    .totals { width: 40%; margin-left: auto; }
+  </style>
+</head>
+<body>
+  <h1>Tax Invoice</h1>
+  <table class="parties">
+    <tr>
+      <td>
+        <strong>${escapeHtml(invoice.seller.name)}</strong><br>
+        ${escapeHtml(invoice.seller.address ?? '')}<br>
+        ${invoice.seller.gstin ? `GSTIN: ${escapeHtml(invoice.seller.gstin)}<br>` : ''}
+        ${invoice.seller.state ? `State: ${escapeHtml(invoice.seller.state)}` : ''}
+      </td>
+      <td>
+        Invoice No: <strong>${escapeHtml(invoice.invoiceNumber)}</strong><br>
+        Invoice Date: ${escapeHtml(invoice.issuedAt.toISOString().slice(0, 10))}<br>
+        Order No: ${escapeHtml(invoice.orderNumber)}<br>
+        Place of Supply: ${escapeHtml(invoice.placeOfSupply ?? '-')}
+      </td>
+    </tr>
+    <tr>
+      <td colspan="2">
+        <strong>Bill To</strong><br>
+        ${escapeHtml(invoice.buyer.name)}<br>
+        ${invoice.buyer.addressLines.map(escapeHtml).join('<br>')}<br>
+        ${invoice.buyer.phone ? `Phone: ${escapeHtml(invoice.buyer.phone)}<br>` : ''}
+        ${invoice.buyer.gstin ? `GSTIN: ${escapeHtml(invoice.buyer.gstin)}` : ''}
+      </td>
+    </tr>
+  </table>
+
+  <table>
+    <thead>
+      <tr>
+        <th>#</th><th>Item</th><th>HSN</th><th>Qty</th><th>Rate</th><th>Discount</th>
+        <th>Taxable Value</th><th>GST</th>${taxHeaders}<th>Amount</th>
+      </tr>
+    </thead>
+    <tbody>${itemRows}
+    </tbody>
+  </table>
+
+  <table>
+    <thead>
+      <tr><th>HSN</th><th>GST Rate</th><th>Taxable Value</th>${taxHeaders}<th>Total Tax</th></tr>
+    </thead>
+    <tbody>${hsnRows}
+    </tbody>
+  </table>
+
+  <table class="totals">
+    <tr><td>Subtotal</td><td class="num">${escapeHtml(invoice.totals.subtotal)}</td></tr>
+    <tr><td>Discount</td><td class="num">-${escapeHtml(invoice.totals.discountTotal)}</td></tr>
+    <tr><td>Taxable Value</td><td class="num">${escapeHtml(invoice.totals.taxableValue)}</td></tr>
+    ${intraState
+      ? `<tr><td>CGST</td><td class="num">${escapeHtml(invoice.totals.cgst)}</td></tr>
+    <tr><td>${stateTaxLabel}</td><td class="num">${escapeHtml(invoice.totals.sgst)}</td></tr>`
+      : `<tr><td>IGST</td><td class="num">${escapeHtml(invoice.totals.igst)}</td></tr>`}
+    <tr><td>Shipping</td><td class="num">${escapeHtml(invoice.totals.shippingTotal)}</td></tr>
+    <tr><th>Total (${escapeHtml(invoice.currency)})</th><th class="num">${escapeHtml(invoice.totals.total)}</th></tr>
+  </table>
+
+  <p><small>This is a computer-generated invoice.</small></p>
+</body>
+</html>`;
+  }
+
+  /**
+   * Render an invoice as a PDF
+   */
+  renderPdf(invoice: InvoiceDocument): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({ size: 'A4', margin: 40 });
+      const chunks: Buffer[] = [];
+
+      doc.on('data', chunk => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      const stateTaxLabel = invoice.usesUtgst ? 'UTGST' : 'SGST';
+      const intraState = invoice.supplyType === 'INTRA_STATE';
+
+      // Header
+      doc.fontSize(18).text('Tax Invoice', { align: 'center' });
+      doc.moveDown();
+
+      doc.fontSize(10);
+      doc.font('Helvetica-Bold').text(invoice.seller.name);
+      doc.font('Helvetica');
+      if (invoice.seller.address) doc.text(invoice.seller.address);
+      if (invoice.seller.gstin) doc.text(`GSTIN: ${invoice.seller.gstin}`);
+      if (invoice.seller.state) doc.text(`State: ${invoice.seller.state}`);
+      doc.moveDown();
+
+      doc.text(`Invoice No: ${invoice.invoiceNumber}`);
+      doc.text(`Invoice Date: ${invoice.issuedAt.toISOString().slice(0, 10)}`);
+      doc.text(`Order No: ${invoice.orderNumber}`);
+      doc.text(`Place of Supply: ${invoice.placeOfSupply ?? '-'}`);
+      doc.moveDown();
+
+      doc.font('Helvetica-Bold').text('Bill To');
+      doc.font('Helvetica').text(invoice.buyer.name);
+      invoice.buyer.addressLines.forEach(line => doc.text(line));
+      if (invoice.buyer.phone) doc.text(`Phone: ${invoice.buyer.phone}`);
+      if (invoice.buyer.gstin) doc.text(`GSTIN: ${invoice.buyer.gstin}`);
+      doc.moveDown();
+
+      // Line items
+      const taxColumns = intraState ? ['CGST', stateTaxLabel] : ['IGST'];
+      const headers = ['Item', 'HSN', 'Qty', 'Rate', 'Taxable', 'GST %', ...taxColumns, 'Amount'];
+      const widths = intraState
+        ? [145, 50, 30, 50, 55, 35, 45, 45, 60]
+        : [165, 55, 30, 55, 60, 40, 50, 60];
+
+      this.drawRow(doc, headers, widths, true);
+      invoice.items.forEach(item => {
+        const taxValues = intraState ? [item.cgst, item.sgst] : [item.igst];
+        this.drawRow(doc, [
+          item.description,
+          item.hsnCode ?? '-',
+          String(item.quantity),
+          item.unitPrice,
+          item.taxableValue,
+          item.gstRate,
+          ...taxValues,
+          item.total,
+        ], widths);
+      });
+      doc.moveDown();
+
+      // HSN summary
+      doc.font('Helvetica-Bold').text('HSN Summary');
+      doc.font('Helvetica');
+      const summaryHeaders = ['HSN', 'GST %', 'Taxable', ...taxColumns, 'Total Tax'];
+      const summaryWidths = intraState ? [90, 60, 90, 80, 80, 90] : [100, 70, 100, 100, 100];
+
+      this.drawRow(doc, summaryHeaders, summaryWidths, true);
+      invoice.hsnSummary.forEach(row => {
+        const taxValues = intraState ? [row.cgst, row.sgst] : [row.igst];
+        this.drawRow(doc, [row.hsnCode ?? '-', row.gstRate, row.taxableValue, ...taxValues, row.taxTotal], summaryWidths);
+      });
+      doc.moveDown();
+
+      // Totals
+      const totals: Array<[string, string]> = [
+        ['Subtotal', invoice.totals.subtotal],
+        ['Discount', `-${invoice.totals.discountTotal}`],
+        ['Taxable Value', invoice.totals.taxableValue],
+        ...(intraState
+          ? [['CGST', invoice.totals.cgst], [stateTaxLabel, invoice.totals.sgst]] as Array<[string, string]>
+          : [['IGST', invoice.totals.igst]] as Array<[string, string]>),
+        ['Shipping', invoice.totals.shippingTotal],
+        [`Total (${invoice.currency})`, invoice.totals.total],
+      ];
+
+      totals.forEach(([label, value], index) => {
+        const isLast = index === totals.length - 1;
+        doc.font(isLast ? 'Helvetica-Bold' : 'Helvetica');
+        const y = doc.y;
+        doc.text(label, 320, y, { width: 120 });
+        doc.text(value, 440, y, { width: 115, align: 'right' });
+      });
+
+      doc.moveDown(2);
+      doc.font('Helvetica').fontSize(8).text('This is a computer-generated invoice.', 40);
+
+      doc.end();
+    });
+  }
+
+  /**
+   * Draw one table row, wrapping text within each column
+   */
+  private drawRow(doc: PDFKit.PDFDocument, values: string[], widths: number[], header = false) {
+    const startX = 40;
+    const startY = doc.y;
+    let x = startX;
+    let rowHeight = 0;
+
+    doc.font(header ? 'Helvetica-Bold' : 'Helvetica').fontSize(8);
+
+    values.forEach((value, index) => {
+      const align = index === 0 ? 'left' : 'right';
+      const height = doc.heightOfString(value, { width: widths[index] - 4 });
+      doc.text(value, x + 2, startY, { width: widths[index] - 4, align });
+      rowHeight = Math.max(rowHeight, height);
+      x += widths[index];
+    });
+
+    doc.y = startY + rowHeight + 4;
+    doc.moveTo(startX, doc.y - 2).lineTo(x, doc.y - 2).strokeColor('#cccccc').stroke();
+    doc.fontSize(10);
+  }
+}
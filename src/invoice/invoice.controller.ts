@@ -0,0 +1,97 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  Req,
+  Res,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { InvoiceService } from './invoice.service';
+import { InvoiceQueryDto } from './dto/invoice-query.dto';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+
+interface RequestWithUser extends Request {
+  user: {
+    sub: string;
+    username: string;
+    email?: string;
+    roles: string[];
+  };
+}
+
+@Controller('invoices')
+export class InvoiceController {
+  constructor(private readonly invoiceService: InvoiceService) {}
+
+  @Get()
+  @RequirePermissions({ resource: 'invoices', action: 'read' })
+  async findAll(@Query() query: InvoiceQueryDto) {
+    return this.invoiceService.findAll(query);
+  }
+
+  @Post('orders/:orderId')
+  @RequirePermissions({ resource: 'invoices', action: 'create' })
+  async generate(@Param('orderId') orderId: string) {
+    return this.invoiceService.generateForOrder(orderId);
+  }
+
+  @Get('orders/:orderId')
+  async findByOrder(
+    @Param('orderId') orderId: string,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.invoiceService.findByOrder(orderId, this.ownerScope(req));
+  }
+
+  @Get(':id')
+  async findOne(
+    @Param('id') id: string,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.invoiceService.findOne(id, this.ownerScope(req));
+  }
+
+  @Get(':id/html')
+  async renderHtml(
+    @Param('id') id: string,
+    @Req() req: RequestWithUser,
+    @Res() res: Response,
+  ) {
+    const { html } = await this.invoiceService.renderHtml(id, this.ownerScope(req));
+    res.type('html').send(html);
+  }
+
+  @Get(':id/pdf')
+  async renderPdf(
+    @Param('id') id: string,
+    @Req() req: RequestWithUser,
+    @Res() res: Response,
+  ) {
+    const { invoiceNumber, pdf } = await this.invoiceService.renderPdf(id, this.ownerScope(req));
+
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${invoiceNumber}.pdf"`,
+      'Content-Length': pdf.length,
+    });
+    res.send(pdf);
+  }
+
+  @Post(':id/email')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions({ resource: 'invoices', action: 'update' })
+  async resend(@Param('id') id: string) {
+    return this.invoiceService.sendInvoiceEmail(id);
+  }
+
+  /**
+   * Admins can access any invoice, customers only their own
+   */
+  private ownerScope(req: RequestWithUser): string | undefined {
+    return req.user.roles.includes('admin') ? undefined : req.user.sub;
+  }
+}
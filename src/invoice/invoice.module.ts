@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { InvoiceService } from './invoice.service';
+import { InvoiceRendererService } from './invoice-renderer.service';
+import { InvoiceController } from './invoice.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { TaxModule } from '../tax/tax.module';
+
+@Module({
+  imports: [PrismaModule, TaxModule],
+  controllers: [InvoiceController],
+  providers: [InvoiceService, InvoiceRendererService],
+  exports: [InvoiceService],
+})
+export class InvoiceModule {}
@@ -0,0 +1,466 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { Prisma, OrderStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ConfigService } from '../config/config.service';
+import { EmailService } from '../email/email.service';
+import { TaxService } from '../tax/tax.service';
+import { resolveGstState } from '../tax/gst-states';
+import { InvoiceRendererService, InvoiceDocument } from './invoice-renderer.service';
+import { InvoiceQueryDto } from './dto/invoice-query.dto';
+import type { OrderStatusEvent } from '../order/order.service';
+
+/**
+ * Orders in these statuses cannot be invoiced
+ */
+const NON_INVOICEABLE_STATUSES: OrderStatus[] = [OrderStatus.PENDING, OrderStatus.CANCELLED];
+
+/**
+ * Offset of Indian Standard Time from UTC; financial years roll over on 1 April IST
+ */
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+const invoiceInclude = {
+  order: {
+    include: {
+      items: true,
+      user: {
+        select: {
+          id: true,
+          email: true,
+          firstName: true,
+          lastName: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.InvoiceInclude;
+
+type InvoiceWithOrder = Prisma.InvoiceGetPayload<{ include: typeof invoiceInclude }>;
+
+type AddressSnapshot = {
+  fullName?: string;
+  phone?: string;
+  line1?: string;
+  line2?: string;
+  city?: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+  gstin?: string;
+};
+
+@Injectable()
+export class InvoiceService {
+  private readonly logger = new Logger(InvoiceService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly emailService: EmailService,
+    private readonly taxService: TaxService,
+    private readonly renderer: InvoiceRendererService,
+  ) {}
+
+  /**
+   * Issue the invoice for an order; returns the existing invoice if already issued
+   */
+  async generateForOrder(orderId: string) {
+    const existing = await this.prisma.invoice.findUnique({
+      where: { orderId },
+      include: invoiceInclude,
+    });
+
+    if (existing) {
+      return existing;
+    }
+
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+    });
+
+    if (!order) {
+      throw new NotFoundException(`Order with ID ${orderId} not found`);
+    }
+
+    if (NON_INVOICEABLE_STATUSES.includes(order.status)) {
+      throw new BadRequestException(`Cannot issue an invoice for an order in status ${order.status}`);
+    }
+
+    const sellerGstin = await this.configService.get<string>('INVOICE_SELLER_GSTIN');
+    const buyerAddress = (order.billingAddress ?? order.shippingAddress) as AddressSnapshot;
+    const issuedAt = new Date();
+    const financialYear = this.getFinancialYear(issuedAt);
+
+    // The next sequence number is read inside the transaction; a concurrent
+    // issue for the same year trips the unique constraint, so retry once
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        return await this.prisma.$transaction(async (tx) => {
+          const last = await tx.invoice.findFirst({
+            where: { financialYear },
+            orderBy: { sequence: 'desc' },
+            select: { sequence: true },
+          });
+
+          const sequence = (last?.sequence ?? 0) + 1;
+
+          return tx.invoice.create({
+            data: {
+              invoiceNumber: this.formatInvoiceNumber(financialYear, sequence),
+              financialYear,
+              sequence,
+              orderId: order.id,
+              sellerGstin: sellerGstin || null,
+              buyerGstin: buyerAddress?.gstin || null,
+              placeOfSupply: order.placeOfSupply,
+              subtotal: order.subtotal,
+              discountTotal: order.discountTotal,
+              taxTotal: order.taxTotal,
+              shippingTotal: order.shippingTotal,
+              total: order.total,
+              issuedAt,
+            },
+            include: invoiceInclude,
+          });
+        });
+      } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          // Another request may have issued this order's invoice meanwhile
+          const issued = await this.prisma.invoice.findUnique({
+            where: { orderId },
+            include: invoiceInclude,
+          });
+
+          if (issued) {
+            return issued;
+          }
+
+          if (attempt === 0) {
+            continue;
+          }
+        }
+        throw error;
+      }
+    }
+
+    throw new BadRequestException('Could not allocate an invoice number, please retry');
+  }
+
+  /**
+   * Get all invoices with pagination and filtering
+   */
+  async findAll(query: InvoiceQueryDto) {
+    const {
+      page = 1,
+      limit = 10,
+      financialYear,
+      from,
+      to,
+      search,
+    } = query;
+
+    const skip = (page - 1) * limit;
+
+    // Build where clause
+    const where: Prisma.InvoiceWhereInput = {};
+
+    if (financialYear) {
+      where.financialYear = financialYear;
+    }
+
+    if (from || to) {
+      where.issuedAt = {
+        ...(from && { gte: new Date(from) }),
+        ...(to && { lte: new Date(to) }),
+      };
+    }
+
+    if (search) {
+      where.OR = [
+        { invoiceNumber: { contains: search, mode: 'insensitive' } },
+        { order: { orderNumber: { contains: search, mode: 'insensitive' } } },
+      ];
+    }
+
+    const [invoices, total] = await Promise.all([
+      this.prisma.invoice.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: [{ financialYear: 'desc' }, { sequence: 'desc' }],
+        include: {
+          order: {
+            select: {
+              id: true,
+              orderNumber: true,
+              userId: true,
+              status: true,
+            },
+          },
+        },
+      }),
+      this.prisma.invoice.count({ where }),
+    ]);
+
+    return {
+      data: invoices,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Get an invoice by ID, optionally restricted to the order's owner
+   */
+  async findOne(id: string, userId?: string) {
+    const invoice = await this.prisma.invoice.findUnique({
+      where: { id },
+      include: invoiceInclude,
+    });
+
+    if (!invoice || (userId && invoice.order.userId !== userId)) {
+      throw new NotFoundException(`Invoice with ID ${id} not found`);
+    }
+
+    return invoice;
+  }
+
+  /**
+   * Get the invoice of an order, optionally restricted to the order's owner
+   */
+  async findByOrder(orderId: string, userId?: string) {
+    const invoice = await this.prisma.invoice.findUnique({
+      where: { orderId },
+      include: invoiceInclude,
+    });
+
+    if (!invoice || (userId && invoice.order.userId !== userId)) {
+      throw new NotFoundException(`No invoice found for order ${orderId}`);
+    }
+
+    return invoice;
+  }
+
+  /**
+   * Render an invoice as HTML
+   */
+  async renderHtml(id: string, userId?: string) {
+    const invoice = await this.findOne(id, userId);
+    const document = await this.buildDocument(invoice);
+
+    return {
+      invoiceNumber: invoice.invoiceNumber,
+      html: this.renderer.renderHtml(document),
+    };
+  }
+
+  /**
+   * Render an invoice as a PDF
+   */
+  async renderPdf(id: string, userId?: string) {
+    const invoice = await this.findOne(id, userId);
+    const document = await this.buildDocument(invoice);
+
+    return {
+      invoiceNumber: invoice.invoiceNumber,
+      pdf: await this.renderer.renderPdf(document),
+    };
+  }
+
+  /**
+   * Email an invoice to the customer as a PDF attachment
+   */
+  async sendInvoiceEmail(id: string) {
+    const invoice = await this.findOne(id);
+    return this.deliver(invoice);
+  }
+
+  /**
+   * Issue and email the invoice when an order is confirmed
+   */
+  @OnEvent('order.confirmed')
+  async handleOrderConfirmed(event: OrderStatusEvent) {
+    try {
+      const invoice = await this.generateForOrder(event.orderId);
+
+      if (!invoice.emailedAt) {
+        await this.deliver(invoice);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to issue invoice for order ${event.orderNumber}`, error);
+    }
+  }
+
+  /**
+   * Send the invoice email and record when it went out
+   */
+  private async deliver(invoice: InvoiceWithOrder) {
+    const email = invoice.order.user.email;
+
+    if (!email) {
+      throw new BadRequestException('Customer has no email address on file');
+    }
+
+    const document = await this.buildDocument(invoice);
+    const pdf = await this.renderer.renderPdf(document);
+
+    const sent = await this.emailService.sendEmail({
+      to: email,
+      subject: `Invoice ${invoice.invoiceNumber} for order ${invoice.order.orderNumber}`,
+      html: this.renderer.renderHtml(document),
+      attachments: [
+        {
+          filename: `${invoice.invoiceNumber}.pdf`,
+          content: pdf,
+          contentType: 'application/pdf',
+        },
+      ],
+    });
+
+    if (!sent) {
+      this.logger.warn(`Invoice ${invoice.invoiceNumber} could not be emailed to ${email}`);
+      return { sent: false, emailedAt: invoice.emailedAt };
+    }
+
+    const updated = await this.prisma.invoice.update({
+      where: { id: invoice.id },
+      data: { emailedAt: new Date() },
+    });
+
+    return { sent: true, emailedAt: updated.emailedAt };
+  }
+
+  /**
+   * Assemble the data printed on the invoice
+   */
+  private async buildDocument(invoice: InvoiceWithOrder): Promise<InvoiceDocument> {
+    const { order } = invoice;
+
+    const [sellerName, sellerAddress, sellerState] = await Promise.all([
+      this.configService.get<string>('INVOICE_SELLER_NAME'),
+      this.configService.get<string>('INVOICE_SELLER_ADDRESS'),
+      this.taxService.getSellerState(),
+    ]);
+
+    const buyerAddress = (order.billingAddress ?? order.shippingAddress) as AddressSnapshot;
+    const placeOfSupply = resolveGstState(invoice.placeOfSupply);
+    const supplyType = placeOfSupply && placeOfSupply.code !== sellerState.code ? 'INTER_STATE' : 'INTRA_STATE';
+
+    const addressLines = [
+      buyerAddress?.line1,
+      buyerAddress?.line2,
+      [buyerAddress?.city, buyerAddress?.state, buyerAddress?.postalCode].filter(Boolean).join(', '),
+      buyerAddress?.country,
+    ].filter((line): line is string => !!line);
+
+    const items = order.items.map(item => ({
+      description: item.variantName ? `${item.productName} (${item.variantName})` : item.productName,
+      sku: item.sku,
+      hsnCode: item.hsnCode,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice.toFixed(2),
+      discount: item.discount.toFixed(2),
+      taxableValue: item.taxableValue.toFixed(2),
+      gstRate: item.gstRate.toString(),
+      cgst: item.cgst.toFixed(2),
+      sgst: item.sgst.toFixed(2),
+      igst: item.igst.toFixed(2),
+      total: item.taxableValue.plus(item.taxAmount).toFixed(2),
+    }));
+
+    // Group by HSN code and rate for the summary table
+    const summary = new Map<string, InvoiceDocument['hsnSummary'][number] & { raw: Prisma.Decimal[] }>();
+
+    for (const item of order.items) {
+      const key = `${item.hsnCode ?? ''}|${item.gstRate.toString()}`;
+      const group = summary.get(key);
+      const values = [item.taxableValue, item.cgst, item.sgst, item.igst, item.taxAmount];
+
+      if (group) {
+        group.raw = group.raw.map((value, index) => value.plus(values[index]));
+      } else {
+        summary.set(key, {
+          hsnCode: item.hsnCode,
+          gstRate: item.gstRate.toString(),
+          taxableValue: '',
+          cgst: '',
+          sgst: '',
+          igst: '',
+          taxTotal: '',
+          raw: values,
+        });
+      }
+    }
+
+    const hsnSummary = [...summary.values()].map(({ raw, ...row }) => ({
+      ...row,
+      taxableValue: raw[0].toFixed(2),
+      cgst: raw[1].toFixed(2),
+      sgst: raw[2].toFixed(2),
+      igst: raw[3].toFixed(2),
+      taxTotal: raw[4].toFixed(2),
+    }));
+
+    const sum = (field: 'taxableValue' | 'cgst' | 'sgst' | 'igst') =>
+      order.items.reduce((total, item) => total.plus(item[field]), new Prisma.Decimal(0)).toFixed(2);
+
+    return {
+      invoiceNumber: invoice.invoiceNumber,
+      issuedAt: invoice.issuedAt,
+      orderNumber: order.orderNumber,
+      currency: order.currency,
+      seller: {
+        name: sellerName || 'Seller',
+        gstin: invoice.sellerGstin,
+        address: sellerAddress,
+        state: `${sellerState.name} (${sellerState.code})`,
+      },
+      buyer: {
+        name: buyerAddress?.fullName ?? [order.user.firstName, order.user.lastName].filter(Boolean).join(' '),
+        gstin: invoice.buyerGstin,
+        addressLines,
+        phone: buyerAddress?.phone,
+      },
+      placeOfSupply: placeOfSupply ? `${placeOfSupply.name} (${placeOfSupply.code})` : invoice.placeOfSupply,
+      supplyType,
+      usesUtgst: supplyType === 'INTRA_STATE' && !!placeOfSupply?.utgst,
+      items,
+      hsnSummary,
+      totals: {
+        subtotal: invoice.subtotal.toFixed(2),
+        discountTotal: invoice.discountTotal.toFixed(2),
+        taxableValue: sum('taxableValue'),
+        cgst: sum('cgst'),
+        sgst: sum('sgst'),
+        igst: sum('igst'),
+        taxTotal: invoice.taxTotal.toFixed(2),
+        shippingTotal: invoice.shippingTotal.toFixed(2),
+        total: invoice.total.toFixed(2),
+      },
+    };
+  }
+
+  /**
+   * Indian financial year (April to March) for a date, e.g. 2025-26
+   */
+  private getFinancialYear(date: Date): string {
+    const ist = new Date(date.getTime() + IST_OFFSET_MS);
+    const startYear = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+    const endYear = String((startYear + 1) % 100).padStart(2, '0');
+
+    return `${startYear}-${endYear}`;
+  }
+
+  /**
+   * Format an invoice number, e.g. INV-2526-00001
+   */
+  private formatInvoiceNumber(financialYear: string, sequence: number): string {
+    const [startYear, endYear] = financialYear.split('-');
+    return `INV-${startYear.slice(-2)}${endYear}-${String(sequence).padStart(5, '0')}`;
+  }
+}
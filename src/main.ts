@@ -6,7 +6,8 @@ import * as http from 'http';
 import * as https from 'https';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // Keep the raw body so payment webhook signatures can be verified
+  const app = await NestFactory.create(AppModule, { rawBody: true });
   
   // Get network service for configuration
   const networkService = app.get(NetworkService);
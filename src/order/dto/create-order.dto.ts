@@ -0,0 +1,69 @@
+import {
+  IsString,
+  IsOptional,
+  IsNotEmpty,
+  IsArray,
+  IsInt,
+  Min,
+  ValidateNested,
+  ArrayMinSize,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { OrderAddressDto } from './order-address.dto';
+
+export class OrderLineDto {
+  @IsString()
+  @IsNotEmpty()
+  productId: string;
+
+  @IsString()
+  @IsOptional()
+  variantId?: string;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
+
+export class CreateOrderDto {
+  /**
+   * Explicit order lines. When omitted, the order is placed from the user's cart.
+   */
+  @IsArray()
+  @IsOptional()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => OrderLineDto)
+  items?: OrderLineDto[];
+
+  /**
+   * Inline shipping address. When omitted, the saved address in shippingAddressId
+   * or the user's default shipping address is used.
+   */
+  @ValidateNested()
+  @IsOptional()
+  @Type(() => OrderAddressDto)
+  shippingAddress?: OrderAddressDto;
+
+  @IsString()
+  @IsOptional()
+  shippingAddressId?: string;
+
+  @ValidateNested()
+  @IsOptional()
+  @Type(() => OrderAddressDto)
+  billingAddress?: OrderAddressDto;
+
+  @IsString()
+  @IsOptional()
+  billingAddressId?: string;
+
+  @IsString()
+  @IsOptional()
+  notes?: string;
+
+  @IsString()
+  @IsOptional()
+  couponCode?: string;
+}
@@ -0,0 +1,72 @@
+import { IsString, IsNotEmpty, IsOptional, IsNumber, Matches } from 'class-validator';
+
+/**
+ * 15-character GSTIN: state code, PAN, entity number, 'Z' and a check character
+ */
+export const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export class OrderAddressDto {
+  @IsString()
+  @IsNotEmpty()
+  fullName: string;
+
+  @IsString()
+  @IsNotEmpty()
+  phone: string;
+
+  @IsString()
+  @IsNotEmpty()
+  line1: string;
+
+  @IsString()
+  @IsOptional()
+  line2?: string;
+
+  @IsString()
+  @IsOptional()
+  landmark?: string;
+
+  @IsString()
+  @IsOptional()
+  village?: string;
+
+  @IsString()
+  @IsOptional()
+  taluk?: string;
+
+  @IsString()
+  @IsOptional()
+  district?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  city: string;
+
+  @IsString()
+  @IsNotEmpty()
+  state: string;
+
+  @IsString()
+  @IsNotEmpty()
+  postalCode: string;
+
+  @IsString()
+  @IsOptional()
+  country?: string = 'IN';
+
+  @IsNumber()
+  @IsOptional()
+  latitude?: number;
+
+  @IsNumber()
+  @IsOptional()
+  longitude?: number;
+
+  /**
+   * Buyer GSTIN for business purchases
+   */
+  @IsString()
+  @IsOptional()
+  @Matches(GSTIN_PATTERN, { message: 'gstin must be a valid 15-character GSTIN' })
+  gstin?: string;
+}
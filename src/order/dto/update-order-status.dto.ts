@@ -0,0 +1,17 @@
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+import { OrderStatus } from '@prisma/client';
+
+export class UpdateOrderStatusDto {
+  @IsEnum(OrderStatus)
+  status: OrderStatus;
+
+  @IsString()
+  @IsOptional()
+  reason?: string;
+}
+
+export class CancelOrderDto {
+  @IsString()
+  @IsOptional()
+  reason?: string;
+}
@@ -0,0 +1,85 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  Req,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { PlatformType } from '@prisma/client';
+import { OrderService } from './order.service';
+import { CreateOrderDto } from './dto/create-order.dto';
+import { OrderQueryDto } from './dto/order-query.dto';
+import { UpdateOrderStatusDto, CancelOrderDto } from './dto/update-order-status.dto';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+
+interface RequestWithUser extends Request {
+  user: {
+    sub: string;
+    username: string;
+    email?: string;
+    roles: string[];
+    platform?: PlatformType;
+  };
+}
+
+@Controller('orders')
+export class OrderController {
+  constructor(private readonly orderService: OrderService) {}
+
+  @Post()
+  async create(
+    @Body() createOrderDto: CreateOrderDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.orderService.create(req.user.sub, createOrderDto, req.user.platform);
+  }
+
+  @Get()
+  @RequirePermissions({ resource: 'orders', action: 'read' })
+  async findAll(@Query() query: OrderQueryDto) {
+    return this.orderService.findAll(query);
+  }
+
+  @Get('my')
+  async findMine(
+    @Query() query: OrderQueryDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.orderService.findForUser(req.user.sub, query);
+  }
+
+  @Get(':id')
+  async findOne(
+    @Param('id') id: string,
+    @Req() req: RequestWithUser,
+  ) {
+    // Admins can view any order, customers only their own
+    const isAdmin = req.user.roles.includes('admin');
+    return this.orderService.findOne(id, isAdmin ? undefined : req.user.sub);
+  }
+
+  @Post(':id/cancel')
+  @HttpCode(HttpStatus.OK)
+  async cancel(
+    @Param('id') id: string,
+    @Body() cancelOrderDto: CancelOrderDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.orderService.cancelByCustomer(id, req.user.sub, cancelOrderDto.reason);
+  }
+
+  @Patch(':id/status')
+  @RequirePermissions({ resource: 'orders', action: 'update' })
+  async updateStatus(
+    @Param('id') id: string,
+    @Body() updateStatusDto: UpdateOrderStatusDto,
+  ) {
+    return this.orderService.updateStatus(id, updateStatusDto.status, updateStatusDto.reason);
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { OrderService } from './order.service';
+import { OrderController } from './order.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { ProductModule } from '../product/product.module';
+import { CartModule } from '../cart/cart.module';
+import { PromotionModule } from '../promotion/promotion.module';
+import { TaxModule } from '../tax/tax.module';
+import { ShippingModule } from '../shipping/shipping.module';
+import { UserModule } from '../user/user.module';
+
+@Module({
+  imports: [PrismaModule, ProductModule, CartModule, PromotionModule, TaxModule, ShippingModule, UserModule],
+  controllers: [OrderController],
+  providers: [OrderService],
+  exports: [OrderService],
+})
+export class OrderModule {}
@@ -0,0 +1,578 @@
+import { Injectable, Logger, NotFoundException, BadRequestException, ForbiddenException } from '@nestjs/common';
+import { EventEmitter2, OnEvent } from '@nestjs/event-emitter';
+import { Prisma, OrderStatus, PlatformType, ReservationOwnerType } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ProductInventoryService, BundleComponentLine, StockAllocation } from '../product/product-inventory.service';
+import { ProductReservationService, ReservationExpiredEvent } from '../product/product-reservation.service';
+import { ProductPricingService, PricingContext } from '../product/product-pricing.service';
+import { CartService } from '../cart/cart.service';
+import { PromotionService } from '../promotion/promotion.service';
+import { TaxService } from '../tax/tax.service';
+import { ShippingService } from '../shipping/shipping.service';
+import { UserAddressService } from '../user/user-address.service';
+import { CreateOrderDto, OrderLineDto } from './dto/create-order.dto';
+import { OrderQueryDto } from './dto/order-query.dto';
+import { dailySequencePrefix, nextSequenceNumber, retryOnSequenceClash } from '../utils/sequence-utils';
+
+/**
+ * Allowed status transitions for the order lifecycle
+ */
+const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.PENDING]: [OrderStatus.CONFIRMED, OrderStatus.CANCELLED],
+  [OrderStatus.CONFIRMED]: [OrderStatus.PACKED, OrderStatus.CANCELLED],
+  [OrderStatus.PACKED]: [OrderStatus.SHIPPED, OrderStatus.CANCELLED],
+  [OrderStatus.SHIPPED]: [OrderStatus.DELIVERED, OrderStatus.RETURNED],
+  [OrderStatus.DELIVERED]: [OrderStatus.RETURNED],
+  [OrderStatus.CANCELLED]: [],
+  [OrderStatus.RETURNED]: [],
+};
+
+/**
+ * Statuses from which a customer may cancel their own order
+ */
+const CUSTOMER_CANCELLABLE: OrderStatus[] = [OrderStatus.PENDING, OrderStatus.CONFIRMED];
+
+/**
+ * Attempts at placing an order when concurrent orders keep taking the same number
+ */
+const ORDER_NUMBER_ATTEMPTS = 3;
+
+const STATUS_TIMESTAMPS: Partial<Record<OrderStatus, string>> = {
+  [OrderStatus.CONFIRMED]: 'confirmedAt',
+  [OrderStatus.PACKED]: 'packedAt',
+  [OrderStatus.SHIPPED]: 'shippedAt',
+  [OrderStatus.DELIVERED]: 'deliveredAt',
+  [OrderStatus.CANCELLED]: 'cancelledAt',
+  [OrderStatus.RETURNED]: 'returnedAt',
+};
+
+export interface OrderStatusEvent {
+  orderId: string;
+  orderNumber: string;
+  userId: string;
+  previousStatus: OrderStatus | null;
+  status: OrderStatus;
+}
+
+const orderInclude = {
+  items: {
+    include: {
+      product: {
+        select: {
+          id: true,
+          name: true,
+          slug: true,
+          media: {
+            orderBy: {
+              position: 'asc' as const,
+            },
+            take: 1,
+          },
+        },
+      },
+    },
+  },
+};
+
+@Injectable()
+export class OrderService {
+  private readonly logger = new Logger(OrderService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly inventoryService: ProductInventoryService,
+    private readonly reservationService: ProductReservationService,
+    private readonly pricingService: ProductPricingService,
+    private readonly cartService: CartService,
+    private readonly promotionService: PromotionService,
+    private readonly taxService: TaxService,
+    private readonly shippingService: ShippingService,
+    private readonly addressService: UserAddressService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * Generate a unique order number
+   */
+  private async generateOrderNumber(tx: Prisma.TransactionClient): Promise<string> {
+    const prefix = dailySequencePrefix('ORD');
+
+    // Continue from today's highest number
+    const last = await tx.order.findFirst({
+      where: { orderNumber: { startsWith: prefix } },
+      orderBy: { orderNumber: 'desc' },
+      select: { orderNumber: true },
+    });
+
+    return nextSequenceNumber(prefix, last?.orderNumber);
+  }
+
+  /**
+   * Use inline addresses when given, otherwise snapshot saved ones from the address book
+   */
+  private async resolveAddresses(userId: string, createOrderDto: CreateOrderDto) {
+    let shippingAddress = createOrderDto.shippingAddress;
+    let billingAddress = createOrderDto.billingAddress;
+
+    if (!shippingAddress) {
+      const saved = createOrderDto.shippingAddressId
+        ? await this.addressService.findOne(userId, createOrderDto.shippingAddressId)
+        : await this.addressService.findDefault(userId, 'shipping');
+
+      if (!saved) {
+        throw new BadRequestException('A shipping address is required');
+      }
+
+      shippingAddress = this.addressService.toOrderAddress(saved);
+    }
+
+    if (!billingAddress && createOrderDto.billingAddressId) {
+      const saved = await this.addressService.findOne(userId, createOrderDto.billingAddressId);
+      billingAddress = this.addressService.toOrderAddress(saved);
+    }
+
+    return { shippingAddress, billingAddress };
+  }
+
+  /**
+   * Place an order from explicit lines or from the user's cart,
+   * reserving inventory for every line in a single transaction
+   */
+  async create(userId: string, createOrderDto: CreateOrderDto, platform?: PlatformType) {
+    const { notes, couponCode } = createOrderDto;
+    const { shippingAddress, billingAddress } = await this.resolveAddresses(userId, createOrderDto);
+    const fromCart = !createOrderDto.items || createOrderDto.items.length === 0;
+
+    let lines: OrderLineDto[];
+    if (fromCart) {
+      const cart = await this.cartService.getCart({ userId });
+
+      if (cart.items.length === 0) {
+        throw new BadRequestException('Cart is empty');
+      }
+
+      if (cart.issues.length > 0) {
+        throw new BadRequestException({
+          message: 'Cart needs attention before checkout',
+          issues: cart.issues,
+        });
+      }
+
+      lines = cart.items.map(item => ({
+        productId: item.productId,
+        variantId: item.variantId ?? undefined,
+        quantity: item.quantity,
+      }));
+    } else {
+      lines = createOrderDto.items!;
+    }
+
+    const pricing = await this.pricingService.resolveContextForUser(userId);
+
+    // Work out discounts before touching inventory
+    const pricedLines = await this.promotionService.priceLines(lines, pricing);
+    const evaluation = await this.promotionService.evaluateLines(pricedLines, {
+      userId,
+      platform,
+      couponCode,
+    });
+
+    if (evaluation.coupon && !evaluation.coupon.applied) {
+      throw new BadRequestException(evaluation.coupon.reason || 'Coupon code cannot be applied');
+    }
+
+    // GST on the discounted lines, split by the shipping state
+    const tax = await this.taxService.calculate(
+      evaluation.lines.map(line => ({
+        productId: line.productId,
+        variantId: line.variantId,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        discount: line.discount,
+      })),
+      shippingAddress.state,
+    );
+
+    // Delivery charge for the shipping pincode, after discounts
+    const shipping = await this.shippingService.quote(shippingAddress.postalCode, lines, evaluation.total);
+
+    if (!shipping.serviceable) {
+      throw new BadRequestException(shipping.reason || 'Delivery is not available to this pincode');
+    }
+
+    const order = await retryOnSequenceClash(() => this.prisma.$transaction(async (tx) => {
+      const orderItems: Prisma.OrderItemCreateWithoutOrderInput[] = [];
+      let subtotal = new Prisma.Decimal(0);
+
+      // Numbered up front so stock holds and movements can refer to the order
+      const orderNumber = await this.generateOrderNumber(tx);
+      const movement = { owner: { type: ReservationOwnerType.ORDER, id: orderNumber }, reference: orderNumber, userId };
+
+      for (const [index, line] of lines.entries()) {
+        const item = await this.buildOrderItem(tx, line, pricing);
+        const lineTax = tax.lines[index];
+        const components = item.bundleItems as BundleComponentLine[] | undefined;
+
+        // Reserve stock for the line from the warehouse nearest the delivery pincode;
+        // variants hold their own inventory and bundles reserve their components
+        let allocations: StockAllocation[];
+        try {
+          allocations = await this.inventoryService.reserveInventory(
+            line.variantId
+              ? { variantId: line.variantId, quantity: line.quantity, pincode: shippingAddress.postalCode, ...movement }
+              : { productId: line.productId, quantity: line.quantity, pincode: shippingAddress.postalCode, components, ...movement },
+            tx,
+          );
+        } catch (error) {
+          if (error instanceof NotFoundException) {
+            throw new BadRequestException(error.message);
+          }
+          throw new BadRequestException(error.message || 'Unable to reserve inventory');
+        }
+
+        // Remember where the stock came from so cancellations and returns go back to the same warehouse
+        const warehouseId = allocations[0]?.warehouseId;
+        const location = components
+          ? { bundleItems: components.map((component, position) => ({ ...component, warehouseId: allocations[position]?.warehouseId ?? null })) }
+          : warehouseId ? { warehouse: { connect: { id: warehouseId } } } : {};
+
+        subtotal = subtotal.plus(item.lineTotal as Prisma.Decimal);
+        orderItems.push({
+          ...item,
+          ...location,
+          discount: lineTax.discount,
+          hsnCode: lineTax.hsnCode,
+          gstRate: lineTax.gstRate,
+          taxableValue: lineTax.taxableValue,
+          cgst: lineTax.cgst,
+          sgst: lineTax.sgst,
+          igst: lineTax.igst,
+          taxAmount: lineTax.taxAmount,
+        });
+      }
+
+      const discountTotal = Prisma.Decimal.min(evaluation.discountTotal, subtotal);
+
+      const created = await tx.order.create({
+        data: {
+          orderNumber,
+          userId,
+          status: OrderStatus.PENDING,
+          subtotal,
+          discountTotal,
+          taxTotal: tax.totals.taxTotal,
+          shippingTotal: shipping.charge,
+          total: tax.totals.grandTotal.plus(shipping.charge),
+          estimatedDeliveryAt: shipping.estimatedDelivery?.latest,
+          couponCode: evaluation.coupon?.applied ? evaluation.coupon.code : undefined,
+          placeOfSupply: tax.placeOfSupply.code,
+          shippingAddress: { ...shippingAddress },
+          billingAddress: billingAddress ? { ...billingAddress } : undefined,
+          notes,
+          items: {
+            create: orderItems,
+          },
+        },
+        include: orderInclude,
+      });
+
+      await this.promotionService.recordRedemptions(evaluation, userId, created.id, tx);
+
+      return created;
+    }), 'orderNumber', 'an order number', ORDER_NUMBER_ATTEMPTS);
+
+    // Clear the cart once its contents have been turned into an order
+    if (fromCart) {
+      await this.cartService.clear({ userId }).catch(err => {
+        this.logger.error(`Failed to clear cart after order ${order.orderNumber}: ${err.message}`, err.stack);
+      });
+    }
+
+    this.emitStatusEvent(order, null);
+
+    return order;
+  }
+
+  /**
+   * Get all orders with filtering and pagination
+   */
+  async findAll(query: OrderQueryDto) {
+    const {
+      page = 1,
+      limit = 10,
+      sortBy = 'createdAt',
+      sortOrder = 'desc',
+      status,
+      userId,
+      search,
+    } = query;
+
+    const skip = (page - 1) * limit;
+
+    // Build where clause
+    const where: Prisma.OrderWhereInput = {};
+
+    if (status) {
+      where.status = status;
+    }
+
+    if (userId) {
+      where.userId = userId;
+    }
+
+    if (search) {
+      where.orderNumber = { contains: search, mode: 'insensitive' };
+    }
+
+    const [orders, total] = await Promise.all([
+      this.prisma.order.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { [sortBy]: sortOrder },
+        include: {
+          _count: {
+            select: {
+              items: true,
+            },
+          },
+        },
+      }),
+      this.prisma.order.count({ where }),
+    ]);
+
+    return {
+      data: orders,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Get orders for a specific user
+   */
+  async findForUser(userId: string, query: OrderQueryDto) {
+    return this.findAll({ ...query, userId });
+  }
+
+  /**
+   * Get an order by ID, optionally restricted to its owner
+   */
+  async findOne(id: string, userId?: string) {
+    const order = await this.prisma.order.findUnique({
+      where: { id },
+      include: orderInclude,
+    });
+
+    if (!order) {
+      throw new NotFoundException(`Order with ID ${id} not found`);
+    }
+
+    if (userId && order.userId !== userId) {
+      throw new ForbiddenException('You do not have access to this order');
+    }
+
+    return order;
+  }
+
+  /**
+   * Cancel an order on behalf of its owner
+   */
+  async cancelByCustomer(id: string, userId: string, reason?: string) {
+    const order = await this.findOne(id, userId);
+
+    if (!CUSTOMER_CANCELLABLE.includes(order.status)) {
+      throw new BadRequestException(`Order in status ${order.status} can no longer be cancelled`);
+    }
+
+    return this.updateStatus(id, OrderStatus.CANCELLED, reason);
+  }
+
+  /**
+   * Move an order to a new status, applying the inventory side effects
+   */
+  async updateStatus(id: string, status: OrderStatus, reason?: string) {
+    const order = await this.prisma.order.findUnique({
+      where: { id },
+      include: { items: true },
+    });
+
+    if (!order) {
+      throw new NotFoundException(`Order with ID ${id} not found`);
+    }
+
+    if (!ORDER_TRANSITIONS[order.status].includes(status)) {
+      throw new BadRequestException(`Cannot change order status from ${order.status} to ${status}`);
+    }
+
+    const previousStatus = order.status;
+    const owner = { type: ReservationOwnerType.ORDER, id: order.orderNumber };
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const timestampField = STATUS_TIMESTAMPS[status];
+
+      // Change the status only if nobody else has meanwhile, so stock is moved once
+      const { count } = await tx.order.updateMany({
+        where: { id, status: previousStatus },
+        data: {
+          status,
+          ...(timestampField ? { [timestampField]: new Date() } : {}),
+          ...(status === OrderStatus.CANCELLED ? { cancelReason: reason } : {}),
+        },
+      });
+
+      if (count === 0) {
+        throw new BadRequestException(`Order ${order.orderNumber} is no longer ${previousStatus}`);
+      }
+
+      // Paid orders keep their stock until they ship or are cancelled
+      if (status === OrderStatus.CONFIRMED) {
+        await this.reservationService.holdUntilSettled(owner, tx);
+      }
+
+      for (const item of order.items) {
+        // Bundle lines move the components reserved when the order was placed
+        const movement = { warehouseId: item.warehouseId, owner, reference: order.orderNumber, reason };
+        const target = item.variantId
+          ? { variantId: item.variantId, quantity: item.quantity, ...movement }
+          : item.productId
+            ? { productId: item.productId, quantity: item.quantity, components: item.bundleItems as BundleComponentLine[] | null, ...movement }
+            : null;
+
+        // Skip lines whose product has since been deleted
+        if (!target) {
+          continue;
+        }
+
+        if (status === OrderStatus.CANCELLED) {
+          // Return reserved stock to the available pool
+          await this.inventoryService.releaseInventory(target, tx);
+        } else if (status === OrderStatus.SHIPPED) {
+          // Stock has left the warehouse, so drop the reservation
+          await this.inventoryService.commitReservedInventory(target, tx);
+        } else if (status === OrderStatus.DELIVERED && item.productId) {
+          await tx.product.update({
+            where: { id: item.productId },
+            data: {
+              purchaseCount: {
+                increment: item.quantity,
+              },
+            },
+          });
+        }
+      }
+
+      return tx.order.findUniqueOrThrow({
+        where: { id },
+        include: orderInclude,
+      });
+    });
+
+    this.emitStatusEvent(updated, previousStatus);
+
+    return updated;
+  }
+
+  /**
+   * Cancel orders left unpaid until their stock hold lapsed; the sweeper has already returned the stock
+   */
+  @OnEvent('inventory.reservation.expired')
+  async handleReservationExpired(event: ReservationExpiredEvent) {
+    if (event.ownerType !== ReservationOwnerType.ORDER) {
+      return;
+    }
+
+    const order = await this.prisma.order.findUnique({
+      where: { orderNumber: event.ownerId },
+      select: { id: true, status: true },
+    });
+
+    if (order?.status !== OrderStatus.PENDING) {
+      return;
+    }
+
+    try {
+      await this.updateStatus(order.id, OrderStatus.CANCELLED, 'Payment not received before the stock hold expired');
+    } catch (error) {
+      this.logger.error(`Failed to cancel order ${event.ownerId} after its stock hold expired: ${error.message}`, error.stack);
+    }
+  }
+
+  /**
+   * Resolve product data and current price for an order line
+   */
+  private async buildOrderItem(
+    tx: Prisma.TransactionClient,
+    line: OrderLineDto,
+    pricing: PricingContext,
+  ): Promise<Prisma.OrderItemCreateWithoutOrderInput> {
+    const product = await tx.product.findUnique({
+      where: { id: line.productId },
+    });
+
+    if (!product || !product.isActive) {
+      throw new BadRequestException(`Product with ID ${line.productId} is not available`);
+    }
+
+    if (product.hasVariants && !line.variantId) {
+      throw new BadRequestException(`Product ${product.name} has variants. Please select a variant.`);
+    }
+
+    let unitPrice = this.pricingService.resolveUnitPrice(product, null, pricing);
+    let sku = product.sku;
+    let variantName: string | undefined;
+
+    if (line.variantId) {
+      const variant = await tx.productVariant.findUnique({
+        where: { id: line.variantId },
+      });
+
+      if (!variant || variant.productId !== product.id || !variant.isActive) {
+        throw new BadRequestException(`Variant with ID ${line.variantId} is not available`);
+      }
+
+      unitPrice = this.pricingService.resolveUnitPrice(product, variant, pricing);
+      sku = variant.sku ?? product.sku;
+      variantName = variant.name;
+    }
+
+    // Keep the bundle's make-up so later edits to the bundle don't change what this order holds
+    const bundleItems = line.variantId ? null : await this.inventoryService.getBundleComponents(product.id, tx);
+
+    return {
+      product: { connect: { id: product.id } },
+      ...(line.variantId ? { variant: { connect: { id: line.variantId } } } : {}),
+      productName: product.name,
+      variantName,
+      sku,
+      quantity: line.quantity,
+      unitPrice,
+      lineTotal: unitPrice.mul(line.quantity),
+      ...(bundleItems ? { bundleItems: bundleItems.map(({ productId, variantId, quantity }) => ({ productId, variantId, quantity })) } : {}),
+    };
+  }
+
+  /**
+   * Emit lifecycle events so other modules (invoices, notifications) can react
+   */
+  private emitStatusEvent(
+    order: { id: string; orderNumber: string; userId: string; status: OrderStatus },
+    previousStatus: OrderStatus | null,
+  ) {
+    const event: OrderStatusEvent = {
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      userId: order.userId,
+      previousStatus,
+      status: order.status,
+    };
+
+    const eventName = previousStatus ? `order.${order.status.toLowerCase()}` : 'order.created';
+    this.eventEmitter.emit(eventName, event);
+    this.eventEmitter.emit('order.status.changed', event);
+  }
+}
@@ -0,0 +1,7 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+
+export class CreatePaymentDto {
+  @IsString()
+  @IsNotEmpty()
+  provider: string;
+}
@@ -0,0 +1,16 @@
+import { IsOptional, IsNumber, IsString, Min, MaxLength } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class RefundPaymentDto {
+  /** Defaults to the full refundable amount */
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  amount?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
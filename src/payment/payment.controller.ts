@@ -0,0 +1,107 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Req,
+  HttpCode,
+  HttpStatus,
+  RawBodyRequest,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { PaymentService } from './payment.service';
+import { CreatePaymentDto } from './dto/create-payment.dto';
+import { RefundPaymentDto } from './dto/refund-payment.dto';
+import { PaymentQueryDto } from './dto/payment-query.dto';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { Public } from '../auth/decorators/public.decorator';
+
+interface RequestWithUser extends Request {
+  user: {
+    sub: string;
+    username: string;
+    email?: string;
+    roles: string[];
+  };
+}
+
+@Controller('payments')
+export class PaymentController {
+  constructor(private readonly paymentService: PaymentService) {}
+
+  @Get()
+  @RequirePermissions({ resource: 'payments', action: 'read' })
+  async findAll(@Query() query: PaymentQueryDto) {
+    return this.paymentService.findAll(query);
+  }
+
+  @Get('providers')
+  async getProviders(
+    @Query('amount') amount?: string,
+    @Query('pincode') pincode?: string,
+  ) {
+    return this.paymentService.getAvailableProviders(amount ? Number(amount) : undefined, pincode);
+  }
+
+  @Post('orders/:orderId')
+  async create(
+    @Param('orderId') orderId: string,
+    @Body() createPaymentDto: CreatePaymentDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.paymentService.createPayment(orderId, createPaymentDto, this.ownerScope(req));
+  }
+
+  @Get('orders/:orderId')
+  async findForOrder(
+    @Param('orderId') orderId: string,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.paymentService.findForOrder(orderId, this.ownerScope(req));
+  }
+
+  @Post('webhooks/:provider')
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  async webhook(
+    @Param('provider') provider: string,
+    @Body() payload: any,
+    @Req() req: RawBodyRequest<Request>,
+  ) {
+    return this.paymentService.handleWebhook(provider, req.rawBody, req.headers, payload);
+  }
+
+  @Get(':id')
+  async findOne(
+    @Param('id') id: string,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.paymentService.findOne(id, this.ownerScope(req));
+  }
+
+  @Post(':id/capture')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions({ resource: 'payments', action: 'update' })
+  async capture(@Param('id') id: string) {
+    return this.paymentService.capture(id);
+  }
+
+  @Post(':id/refund')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions({ resource: 'payments', action: 'refund' })
+  async refund(
+    @Param('id') id: string,
+    @Body() refundPaymentDto: RefundPaymentDto,
+  ) {
+    return this.paymentService.refund(id, refundPaymentDto);
+  }
+
+  /**
+   * Admins can access any order's payments, customers only their own
+   */
+  private ownerScope(req: RequestWithUser): string | undefined {
+    return req.user.roles.includes('admin') ? undefined : req.user.sub;
+  }
+}
@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { PaymentService } from './payment.service';
+import { PaymentController } from './payment.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { OrderModule } from '../order/order.module';
+import { ShippingModule } from '../shipping/shipping.module';
+import { PAYMENT_PROVIDERS } from './providers/payment-provider.interface';
+import { MockPaymentProvider } from './providers/mock-payment.provider';
+import { CodPaymentProvider } from './providers/cod-payment.provider';
+
+@Module({
+  imports: [PrismaModule, OrderModule, ShippingModule],
+  controllers: [PaymentController],
+  providers: [
+    PaymentService,
+    MockPaymentProvider,
+    CodPaymentProvider,
+    {
+      // Register additional gateways by adding them to this list
+      provide: PAYMENT_PROVIDERS,
+      useFactory: (mock: MockPaymentProvider, cod: CodPaymentProvider) => [mock, cod],
+      inject: [MockPaymentProvider, CodPaymentProvider],
+    },
+  ],
+  exports: [PaymentService],
+})
+export class PaymentModule {}
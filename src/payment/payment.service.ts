@@ -0,0 +1,586 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { Prisma, Payment, PaymentStatus, OrderStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { OrderService } from '../order/order.service';
+import type { OrderStatusEvent } from '../order/order.service';
+import { PAYMENT_PROVIDERS, PaymentProvider, ProviderWebhookEvent } from './providers/payment-provider.interface';
+import { CreatePaymentDto } from './dto/create-payment.dto';
+import { RefundPaymentDto } from './dto/refund-payment.dto';
+import { PaymentQueryDto } from './dto/payment-query.dto';
+
+/**
+ * Statuses in which a payment still holds money that can be refunded
+ */
+const REFUNDABLE_STATUSES: PaymentStatus[] = [PaymentStatus.CAPTURED, PaymentStatus.PARTIALLY_REFUNDED];
+
+const paymentInclude = {
+  refunds: {
+    orderBy: { createdAt: 'desc' },
+  },
+} satisfies Prisma.PaymentInclude;
+
+@Injectable()
+export class PaymentService {
+  private readonly logger = new Logger(PaymentService.name);
+  private readonly providers = new Map<string, PaymentProvider>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly orderService: OrderService,
+    @Inject(PAYMENT_PROVIDERS) providers: PaymentProvider[],
+  ) {
+    providers.forEach(provider => this.providers.set(provider.name, provider));
+  }
+
+  /**
+   * List providers that can take a payment of the given amount and delivery pincode
+   */
+  async getAvailableProviders(amount?: Prisma.Decimal | number, pincode?: string) {
+    const value = new Prisma.Decimal(amount ?? 0);
+
+    const results = await Promise.all(
+      [...this.providers.values()].map(async provider => ({
+        name: provider.name,
+        capturesOnDelivery: provider.capturesOnDelivery,
+        ...(await provider.isAvailable(value, pincode)),
+      })),
+    );
+
+    return results;
+  }
+
+  /**
+   * Start paying for an order with a provider
+   */
+  async createPayment(orderId: string, createPaymentDto: CreatePaymentDto, userId?: string) {
+    const provider = this.getProvider(createPaymentDto.provider);
+
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      include: {
+        payments: true,
+        user: {
+          select: {
+            email: true,
+            phone: true,
+          },
+        },
+      },
+    });
+
+    if (!order || (userId && order.userId !== userId)) {
+      throw new NotFoundException(`Order with ID ${orderId} not found`);
+    }
+
+    if (order.status !== OrderStatus.PENDING) {
+      throw new BadRequestException(`Order ${order.orderNumber} is not awaiting payment`);
+    }
+
+    if (order.payments.some(payment => payment.status === PaymentStatus.CAPTURED)) {
+      throw new BadRequestException(`Order ${order.orderNumber} has already been paid`);
+    }
+
+    // Reuse an open payment with the same provider; abandon open payments with others
+    const open = order.payments.filter(payment => payment.status === PaymentStatus.PENDING);
+    const reusable = open.find(payment => payment.provider === provider.name);
+
+    if (reusable) {
+      return this.findOne(reusable.id);
+    }
+
+    const { postalCode } = order.shippingAddress as { postalCode?: string };
+    const availability = await provider.isAvailable(order.total, postalCode);
+
+    if (!availability.available) {
+      throw new BadRequestException(availability.reason ?? `Payment provider '${provider.name}' is not available`);
+    }
+
+    if (open.length > 0) {
+      await this.prisma.payment.updateMany({
+        where: { id: { in: open.map(payment => payment.id) } },
+        data: { status: PaymentStatus.CANCELLED },
+      });
+    }
+
+    const payment = await this.prisma.payment.create({
+      data: {
+        orderId: order.id,
+        provider: provider.name,
+        amount: order.total,
+        currency: order.currency,
+      },
+    });
+
+    let intent;
+    try {
+      intent = await provider.createIntent({
+        paymentId: payment.id,
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        amount: order.total,
+        currency: order.currency,
+        customer: order.user,
+      });
+    } catch (error) {
+      await this.markFailed(payment, error instanceof Error ? error.message : 'Provider error');
+      throw new BadRequestException(`Could not start payment with '${provider.name}'`);
+    }
+
+    const updated = await this.prisma.payment.update({
+      where: { id: payment.id },
+      data: {
+        providerPaymentId: intent.providerPaymentId,
+        metadata: (intent.metadata ?? undefined) as Prisma.InputJsonValue | undefined,
+      },
+      include: paymentInclude,
+    });
+
+    // Cash on delivery needs no up-front payment, so the order goes ahead now
+    if (provider.capturesOnDelivery) {
+      await this.confirmOrder(order.id);
+    }
+
+    return {
+      ...updated,
+      clientSecret: intent.clientSecret,
+      redirectUrl: intent.redirectUrl,
+    };
+  }
+
+  /**
+   * Get all payments with pagination and filtering
+   */
+  async findAll(query: PaymentQueryDto) {
+    const { page = 1, limit = 10, status, provider, orderId } = query;
+    const skip = (page - 1) * limit;
+
+    // Build where clause
+    const where: Prisma.PaymentWhereInput = {};
+
+    if (status) {
+      where.status = status;
+    }
+
+    if (provider) {
+      where.provider = provider;
+    }
+
+    if (orderId) {
+      where.orderId = orderId;
+    }
+
+    const [payments, total] = await Promise.all([
+      this.prisma.payment.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        include: {
+          order: {
+            select: {
+              id: true,
+              orderNumber: true,
+              userId: true,
+              status: true,
+            },
+          },
+        },
+      }),
+      this.prisma.payment.count({ where }),
+    ]);
+
+    return {
+      data: payments,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Get the payments of an order, optionally restricted to its owner
+   */
+  async findForOrder(orderId: string, userId?: string) {
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      select: { userId: true },
+    });
+
+    if (!order || (userId && order.userId !== userId)) {
+      throw new NotFoundException(`Order with ID ${orderId} not found`);
+    }
+
+    return this.prisma.payment.findMany({
+      where: { orderId },
+      orderBy: { createdAt: 'desc' },
+      include: paymentInclude,
+    });
+  }
+
+  /**
+   * Get a payment by ID, optionally restricted to the order's owner
+   */
+  async findOne(id: string, userId?: string) {
+    const payment = await this.prisma.payment.findFirst({
+      where: {
+        id,
+        ...(userId ? { order: { userId } } : {}),
+      },
+      include: paymentInclude,
+    });
+
+    if (!payment) {
+      throw new NotFoundException(`Payment with ID ${id} not found`);
+    }
+
+    return payment;
+  }
+
+  /**
+   * Capture a pending payment
+   */
+  async capture(id: string) {
+    const payment = await this.findOne(id);
+
+    if (payment.status !== PaymentStatus.PENDING || !payment.providerPaymentId) {
+      throw new BadRequestException(`Cannot capture a payment in status ${payment.status}`);
+    }
+
+    const result = await this.getProvider(payment.provider).capture(payment.providerPaymentId, payment.amount);
+
+    if (!result.success) {
+      await this.markFailed(payment, result.failureReason ?? 'Capture declined');
+      throw new BadRequestException(`Capture failed: ${result.failureReason ?? 'declined by provider'}`);
+    }
+
+    await this.markCaptured(payment);
+    return this.findOne(id);
+  }
+
+  /**
+   * Refund part or all of a captured payment
+   */
+  async refund(id: string, refundPaymentDto: RefundPaymentDto) {
+    const payment = await this.findOne(id);
+
+    if (!REFUNDABLE_STATUSES.includes(payment.status) || !payment.providerPaymentId) {
+      throw new BadRequestException(`Cannot refund a payment in status ${payment.status}`);
+    }
+
+    const refundable = payment.amount.minus(payment.refundedAmount);
+    const amount = refundPaymentDto.amount != null
+      ? new Prisma.Decimal(refundPaymentDto.amount)
+      : refundable;
+
+    if (amount.greaterThan(refundable)) {
+      throw new BadRequestException(`At most ${refundable.toFixed(2)} can be refunded`);
+    }
+
+    const result = await this.getProvider(payment.provider).refund(
+      payment.providerPaymentId,
+      amount,
+      refundPaymentDto.reason,
+    );
+
+    if (!result.success) {
+      throw new BadRequestException(`Refund failed: ${result.failureReason ?? 'declined by provider'}`);
+    }
+
+    await this.recordRefund(payment, amount, refundPaymentDto.reason, result.providerRefundId);
+    return this.findOne(id);
+  }
+
+  /**
+   * Process a provider webhook. Each event is stored once, so redelivered
+   * events are acknowledged without being applied again.
+   */
+  async handleWebhook(
+    providerName: string,
+    rawBody: Buffer | undefined,
+    headers: Record<string, string | string[] | undefined>,
+    payload: any,
+  ) {
+    const provider = this.getProvider(providerName);
+
+    if (!rawBody || !(await provider.verifyWebhookSignature(rawBody, headers))) {
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+
+    const event = provider.parseWebhookEvent(payload);
+
+    let record = await this.prisma.paymentWebhookEvent.findUnique({
+      where: { provider_eventId: { provider: provider.name, eventId: event.eventId } },
+    });
+
+    if (record?.processedAt) {
+      return { received: true, duplicate: true };
+    }
+
+    if (!record) {
+      try {
+        record = await this.prisma.paymentWebhookEvent.create({
+          data: {
+            provider: provider.name,
+            eventId: event.eventId,
+            type: event.type,
+            payload,
+          },
+        });
+      } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          // A concurrent delivery of the same event is being handled
+          return { received: true, duplicate: true };
+        }
+        throw error;
+      }
+    }
+
+    await this.applyWebhookEvent(provider.name, event);
+
+    await this.prisma.paymentWebhookEvent.update({
+      where: { id: record.id },
+      data: { processedAt: new Date() },
+    });
+
+    return { received: true };
+  }
+
+  /**
+   * Cancel open payments, and refund captured ones, when an order is cancelled
+   */
+  @OnEvent('order.cancelled')
+  async handleOrderCancelled(event: OrderStatusEvent) {
+    try {
+      const payments = await this.prisma.payment.findMany({
+        where: { orderId: event.orderId },
+      });
+
+      for (const payment of payments) {
+        if (payment.status === PaymentStatus.PENDING) {
+          await this.prisma.payment.update({
+            where: { id: payment.id },
+            data: { status: PaymentStatus.CANCELLED },
+          });
+        } else if (REFUNDABLE_STATUSES.includes(payment.status)) {
+          await this.refund(payment.id, { reason: `Order ${event.orderNumber} cancelled` });
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Failed to settle payments for cancelled order ${event.orderNumber}`, error);
+    }
+  }
+
+  /**
+   * Capture cash-on-delivery payments once the order is delivered
+   */
+  @OnEvent('order.delivered')
+  async handleOrderDelivered(event: OrderStatusEvent) {
+    const codProviders = [...this.providers.values()]
+      .filter(provider => provider.capturesOnDelivery)
+      .map(provider => provider.name);
+
+    try {
+      const payments = await this.prisma.payment.findMany({
+        where: {
+          orderId: event.orderId,
+          provider: { in: codProviders },
+          status: PaymentStatus.PENDING,
+        },
+      });
+
+      for (const payment of payments) {
+        await this.capture(payment.id);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to capture delivery payment for order ${event.orderNumber}`, error);
+    }
+  }
+
+  /**
+   * Apply a verified webhook event to its payment
+   */
+  private async applyWebhookEvent(providerName: string, event: ProviderWebhookEvent) {
+    const payment = await this.prisma.payment.findUnique({
+      where: {
+        provider_providerPaymentId: {
+          provider: providerName,
+          providerPaymentId: event.providerPaymentId,
+        },
+      },
+    });
+
+    if (!payment) {
+      this.logger.warn(`Webhook ${event.eventId} refers to unknown payment ${event.providerPaymentId}`);
+      return;
+    }
+
+    switch (event.type) {
+      case 'payment.captured':
+        // A payment cancelled with its order can still be captured by the provider
+        if (payment.status === PaymentStatus.PENDING || payment.status === PaymentStatus.CANCELLED) {
+          await this.markCaptured(payment);
+        }
+        break;
+
+      case 'payment.failed':
+        if (payment.status === PaymentStatus.PENDING) {
+          await this.markFailed(payment, event.reason ?? 'Payment failed');
+        }
+        break;
+
+      case 'payment.refunded': {
+        if (!REFUNDABLE_STATUSES.includes(payment.status)) {
+          break;
+        }
+
+        const refundable = payment.amount.minus(payment.refundedAmount);
+        const amount = Prisma.Decimal.min(event.amount ?? refundable, refundable);
+
+        if (amount.greaterThan(0)) {
+          await this.recordRefund(payment, amount, event.reason);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Mark a payment captured and confirm its order. A capture for an order
+   * cancelled in the meantime (e.g. its reservation expired), or for a
+   * payment abandoned for another provider, is refunded
+   */
+  private async markCaptured(payment: Payment) {
+    await this.prisma.payment.update({
+      where: { id: payment.id },
+      data: {
+        status: PaymentStatus.CAPTURED,
+        capturedAt: new Date(),
+        failureReason: null,
+      },
+    });
+
+    const order = await this.prisma.order.findUnique({
+      where: { id: payment.orderId },
+      select: { status: true, orderNumber: true },
+    });
+
+    if (!order || (order.status !== OrderStatus.CANCELLED && payment.status !== PaymentStatus.CANCELLED)) {
+      await this.confirmOrder(payment.orderId);
+      return;
+    }
+
+    try {
+      await this.refund(payment.id, { reason: `Captured after payment for order ${order.orderNumber} was cancelled` });
+    } catch (error) {
+      this.logger.error(`Failed to refund late capture for order ${order.orderNumber}`, error);
+      await this.prisma.payment.update({
+        where: { id: payment.id },
+        data: { failureReason: 'Captured after payment was cancelled; refund it manually' },
+      });
+    }
+  }
+
+  /**
+   * Mark a payment failed
+   */
+  private async markFailed(payment: Payment, reason: string) {
+    await this.prisma.payment.update({
+      where: { id: payment.id },
+      data: {
+        status: PaymentStatus.FAILED,
+        failureReason: reason,
+        failedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Store a refund and update the payment's refunded amount and status
+   */
+  private async recordRefund(
+    payment: Payment,
+    amount: Prisma.Decimal,
+    reason?: string,
+    providerRefundId?: string,
+  ) {
+    await this.prisma.$transaction(async (tx) => {
+      // Only add the refund while it still fits in what is left, so concurrent refunds cannot exceed the payment
+      const [updated] = await tx.payment.updateManyAndReturn({
+        where: {
+          id: payment.id,
+          status: { in: REFUNDABLE_STATUSES },
+          refundedAmount: { lte: payment.amount.minus(amount) },
+        },
+        data: {
+          refundedAmount: { increment: amount },
+        },
+      });
+
+      if (!updated) {
+        throw new BadRequestException(`Refund of ${amount.toFixed(2)} exceeds what is left to refund on payment ${payment.id}`);
+      }
+
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: {
+          status: updated.refundedAmount.greaterThanOrEqualTo(updated.amount)
+            ? PaymentStatus.REFUNDED
+            : PaymentStatus.PARTIALLY_REFUNDED,
+        },
+      });
+
+      await tx.paymentRefund.create({
+        data: {
+          paymentId: payment.id,
+          amount,
+          reason,
+          providerRefundId,
+        },
+      });
+    });
+  }
+
+  /**
+   * Move a pending order to confirmed once payment is secured
+   */
+  private async confirmOrder(orderId: string) {
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      select: { status: true, orderNumber: true },
+    });
+
+    if (order?.status !== OrderStatus.PENDING) {
+      return;
+    }
+
+    try {
+      await this.orderService.updateStatus(orderId, OrderStatus.CONFIRMED);
+    } catch (error) {
+      this.logger.error(`Failed to confirm order ${order.orderNumber} after payment`, error);
+    }
+  }
+
+  /**
+   * Look up a registered provider by name
+   */
+  private getProvider(name: string): PaymentProvider {
+    const provider = this.providers.get(name);
+
+    if (!provider) {
+      throw new NotFoundException(`Payment provider '${name}' not found`);
+    }
+
+    return provider;
+  }
+}
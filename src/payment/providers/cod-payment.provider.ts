@@ -0,0 +1,72 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { randomBytes } from 'crypto';
+import { ConfigService } from '../../config/config.service';
+import { ShippingService } from '../../shipping/shipping.service';
+import {
+  PaymentProvider,
+  PaymentIntentResult,
+  CaptureResult,
+  RefundResult,
+  ProviderWebhookEvent,
+} from './payment-provider.interface';
+
+/**
+ * Cash on Delivery: the order is confirmed straight away and the payment is
+ * captured when the courier collects cash on delivery. Availability also
+ * depends on the shipping zone of the delivery pincode. Refunds are settled
+ * offline, so they are only recorded here.
+ */
+@Injectable()
+export class CodPaymentProvider implements PaymentProvider {
+  readonly name = 'cod';
+  readonly capturesOnDelivery = true;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly shippingService: ShippingService,
+  ) {}
+
+  async isAvailable(amount: Prisma.Decimal, pincode?: string): Promise<{ available: boolean; reason?: string }> {
+    const enabled = await this.configService.get<boolean | string>('PAYMENT_COD_ENABLED', true);
+
+    if (!(enabled === true || enabled === 'true')) {
+      return { available: false, reason: 'Cash on delivery is not available' };
+    }
+
+    const maxAmount = await this.configService.get<number | string>('PAYMENT_COD_MAX_AMOUNT');
+
+    if (maxAmount != null && maxAmount !== '' && amount.greaterThan(maxAmount)) {
+      return { available: false, reason: `Cash on delivery is available for orders up to ${maxAmount}` };
+    }
+
+    if (pincode && !(await this.shippingService.isCodAvailable(pincode, amount))) {
+      return { available: false, reason: 'Cash on delivery is not available for this pincode' };
+    }
+
+    return { available: true };
+  }
+
+  createIntent(): Promise<PaymentIntentResult> {
+    return Promise.resolve({
+      providerPaymentId: `cod_${randomBytes(8).toString('hex')}`,
+    });
+  }
+
+  capture(): Promise<CaptureResult> {
+    return Promise.resolve({ success: true });
+  }
+
+  refund(): Promise<RefundResult> {
+    return Promise.resolve({ success: true });
+  }
+
+  verifyWebhookSignature(): Promise<boolean> {
+    // Cash on delivery has no gateway to send webhooks
+    return Promise.resolve(false);
+  }
+
+  parseWebhookEvent(): ProviderWebhookEvent {
+    throw new BadRequestException('Cash on delivery does not accept webhooks');
+  }
+}
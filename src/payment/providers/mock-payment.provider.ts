@@ -0,0 +1,104 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { ConfigService } from '../../config/config.service';
+import {
+  PaymentProvider,
+  CreateIntentInput,
+  PaymentIntentResult,
+  CaptureResult,
+  RefundResult,
+  ProviderWebhookEvent,
+} from './payment-provider.interface';
+
+const WEBHOOK_EVENT_TYPES: ProviderWebhookEvent['type'][] = [
+  'payment.captured',
+  'payment.failed',
+  'payment.refunded',
+];
+
+/**
+ * In-process provider for tests and local development. Payments succeed
+ * immediately; webhooks are signed with an HMAC-SHA256 of the raw body
+ * using PAYMENT_MOCK_WEBHOOK_SECRET, sent in the x-mock-signature header.
+ */
+@Injectable()
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = 'mock';
+  readonly capturesOnDelivery = false;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async isAvailable(): Promise<{ available: boolean; reason?: string }> {
+    const enabled = await this.configService.get<boolean | string>(
+      'PAYMENT_MOCK_ENABLED',
+      process.env.NODE_ENV !== 'production',
+    );
+
+    return enabled === true || enabled === 'true'
+      ? { available: true }
+      : { available: false, reason: 'Mock payments are disabled' };
+  }
+
+  createIntent(input: CreateIntentInput): Promise<PaymentIntentResult> {
+    const providerPaymentId = `mock_pay_${randomBytes(8).toString('hex')}`;
+
+    return Promise.resolve({
+      providerPaymentId,
+      clientSecret: `${providerPaymentId}_secret_${randomBytes(8).toString('hex')}`,
+      metadata: {
+        amount: input.amount.toFixed(2),
+        currency: input.currency,
+      },
+    });
+  }
+
+  capture(): Promise<CaptureResult> {
+    return Promise.resolve({ success: true });
+  }
+
+  refund(): Promise<RefundResult> {
+    return Promise.resolve({
+      success: true,
+      providerRefundId: `mock_rfnd_${randomBytes(8).toString('hex')}`,
+    });
+  }
+
+  async verifyWebhookSignature(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>,
+  ): Promise<boolean> {
+    const secret = await this.configService.get<string>('PAYMENT_MOCK_WEBHOOK_SECRET');
+    const signature = headers['x-mock-signature'];
+
+    if (!secret || typeof signature !== 'string') {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(rawBody, secret));
+    const received = Buffer.from(signature);
+
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  }
+
+  parseWebhookEvent(payload: any): ProviderWebhookEvent {
+    if (!payload?.id || !WEBHOOK_EVENT_TYPES.includes(payload.type) || !payload.data?.paymentId) {
+      throw new BadRequestException('Malformed mock webhook payload');
+    }
+
+    return {
+      eventId: String(payload.id),
+      type: payload.type,
+      providerPaymentId: String(payload.data.paymentId),
+      amount: payload.data.amount != null ? new Prisma.Decimal(payload.data.amount) : undefined,
+      reason: payload.data.reason,
+    };
+  }
+
+  /**
+   * Compute the signature for a webhook body
+   */
+  sign(rawBody: Buffer | string, secret: string): string {
+    return createHmac('sha256', secret).update(rawBody).digest('hex');
+  }
+}
@@ -0,0 +1,98 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Injection token for the list of registered payment providers
+ */
+export const PAYMENT_PROVIDERS = 'PAYMENT_PROVIDERS';
+
+/**
+ * Details passed to a provider when a payment is started
+ */
+export interface CreateIntentInput {
+  paymentId: string;
+  orderId: string;
+  orderNumber: string;
+  amount: Prisma.Decimal;
+  currency: string;
+  customer: {
+    email?: string | null;
+    phone?: string | null;
+  };
+}
+
+/**
+ * Provider response to a new payment; the client uses clientSecret or
+ * redirectUrl to complete the payment with the provider
+ */
+export interface PaymentIntentResult {
+  providerPaymentId: string;
+  clientSecret?: string;
+  redirectUrl?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface CaptureResult {
+  success: boolean;
+  failureReason?: string;
+}
+
+export interface RefundResult {
+  success: boolean;
+  providerRefundId?: string;
+  failureReason?: string;
+}
+
+/**
+ * Webhook event normalised from a provider's payload
+ */
+export interface ProviderWebhookEvent {
+  eventId: string;
+  type: 'payment.captured' | 'payment.failed' | 'payment.refunded';
+  providerPaymentId: string;
+  amount?: Prisma.Decimal;
+  reason?: string;
+}
+
+/**
+ * A payment gateway integration
+ */
+export interface PaymentProvider {
+  /** Key stored on payments and used in webhook URLs */
+  readonly name: string;
+
+  /** Payment is collected when the order is delivered rather than up front */
+  readonly capturesOnDelivery: boolean;
+
+  /**
+   * Whether the provider can take a payment of this amount for delivery to a pincode
+   */
+  isAvailable(amount: Prisma.Decimal, pincode?: string): Promise<{ available: boolean; reason?: string }>;
+
+  /**
+   * Start a payment with the provider
+   */
+  createIntent(input: CreateIntentInput): Promise<PaymentIntentResult>;
+
+  /**
+   * Capture a previously started payment
+   */
+  capture(providerPaymentId: string, amount: Prisma.Decimal): Promise<CaptureResult>;
+
+  /**
+   * Refund part or all of a captured payment
+   */
+  refund(providerPaymentId: string, amount: Prisma.Decimal, reason?: string): Promise<RefundResult>;
+
+  /**
+   * Check that a webhook request was sent by the provider
+   */
+  verifyWebhookSignature(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>,
+  ): Promise<boolean>;
+
+  /**
+   * Translate a provider webhook payload into a normalised event
+   */
+  parseWebhookEvent(payload: any): ProviderWebhookEvent;
+}
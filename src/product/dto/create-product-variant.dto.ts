@@ -7,9 +7,10 @@ import {
   IsDecimal, 
   IsNotEmpty,
   ValidateNested,
+  Matches,
 } from 'class-validator';
 import { Type } from 'class-transformer';
-import { ProductMediaDto } from './create-product.dto';
+import { ProductMediaDto, HSN_CODE_PATTERN } from './create-product.dto';
 
 export class CreateProductVariantDto {
   @IsString()
@@ -32,6 +33,15 @@ export class CreateProductVariantDto {
   @IsOptional()
   compareAtPrice?: number;
 
+  @IsString()
+  @IsOptional()
+  @Matches(HSN_CODE_PATTERN, { message: 'hsnCode must be a 4, 6 or 8 digit HSN code' })
+  hsnCode?: string;
+
+  @IsString()
+  @IsOptional()
+  taxClassId?: string;
+
   @IsBoolean()
   @IsOptional()
   isActive?: boolean = true;
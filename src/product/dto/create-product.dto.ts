@@ -10,9 +10,16 @@ import {
   IsEnum,
   Min,
   Max,
+  Matches,
+  IsIn,
 } from 'class-validator';
 import { Type } from 'class-transformer';
-import { AttributeType, MediaType } from '@prisma/client';
+import { AttributeType, MediaType, ProductStatus } from '@prisma/client';
+
+/**
+ * HSN codes are 4, 6 or 8 digits long
+ */
+export const HSN_CODE_PATTERN = /^\d{4}(\d{2}){0,2}$/;
 
 export class ProductAttributeDto {
   @IsString()
@@ -90,6 +97,15 @@ export class ProductVariantDto {
   @IsOptional()
   dealerPrice?: number;
 
+  @IsString()
+  @IsOptional()
+  @Matches(HSN_CODE_PATTERN, { message: 'hsnCode must be a 4, 6 or 8 digit HSN code' })
+  hsnCode?: string;
+
+  @IsString()
+  @IsOptional()
+  taxClassId?: string;
+
   @IsBoolean()
   @IsOptional()
   isActive?: boolean = true;
@@ -157,10 +173,27 @@ export class CreateProductDto {
   @IsOptional()
   dealerPrice?: number;
 
+  @IsString()
+  @IsOptional()
+  @Matches(HSN_CODE_PATTERN, { message: 'hsnCode must be a 4, 6 or 8 digit HSN code' })
+  hsnCode?: string;
+
+  @IsString()
+  @IsOptional()
+  taxClassId?: string;
+
   @IsBoolean()
   @IsOptional()
   isActive?: boolean = true;
 
+  /**
+   * Defaults to PUBLISHED, which needs the products:publish permission.
+   * Create as a DRAFT to prepare the product before it goes through review
+   */
+  @IsIn([ProductStatus.DRAFT, ProductStatus.PUBLISHED])
+  @IsOptional()
+  status?: ProductStatus;
+
   @IsBoolean()
   @IsOptional()
   isFeatured?: boolean = false;
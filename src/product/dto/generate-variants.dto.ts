@@ -0,0 +1,100 @@
+import {
+  IsString,
+  IsOptional,
+  IsNumber,
+  IsBoolean,
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  ValidateNested,
+  ArrayMinSize,
+  Min,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class VariantOptionValueDto {
+  @IsString()
+  @IsNotEmpty()
+  value: string;
+
+  /**
+   * Amount added to the product price for this option (negative for a discount)
+   */
+  @Type(() => Number)
+  @IsNumber()
+  @IsOptional()
+  priceAdjustment?: number;
+
+  /**
+   * Short code used for this option in generated SKUs, e.g. "5KG"
+   */
+  @IsString()
+  @IsOptional()
+  @MaxLength(20)
+  skuCode?: string;
+}
+
+export class VariantAxisDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => VariantOptionValueDto)
+  values: VariantOptionValueDto[];
+}
+
+export class GenerateVariantsDto {
+  /**
+   * Option axes to combine. When omitted, the product's variant option attributes are used.
+   */
+  @IsArray()
+  @IsOptional()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => VariantAxisDto)
+  axes?: VariantAxisDto[];
+
+  /**
+   * SKU pattern with {productSku}, {slug}, {options}, {index} or {<axis name>} placeholders
+   */
+  @IsString()
+  @IsOptional()
+  skuPattern?: string;
+
+  /**
+   * Starting stock for newly created variants
+   */
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  quantity?: number = 0;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  lowStockThreshold?: number;
+
+  /**
+   * Recalculate prices of variants that already exist
+   */
+  @IsBoolean()
+  @IsOptional()
+  updatePrices?: boolean = true;
+
+  /**
+   * Deactivate existing variants whose combination is no longer in the matrix
+   */
+  @IsBoolean()
+  @IsOptional()
+  deactivateMissing?: boolean = true;
+
+  @IsBoolean()
+  @IsOptional()
+  dryRun?: boolean = false;
+}
@@ -0,0 +1,13 @@
+import { IsOptional, IsIn } from 'class-validator';
+import { OmitType } from '@nestjs/mapped-types';
+import { ProductQueryDto } from './product-query.dto';
+
+export const CATALOG_EXPORT_FORMATS = ['csv', 'ndjson', 'google'] as const;
+
+export type CatalogExportFormat = (typeof CATALOG_EXPORT_FORMATS)[number];
+
+export class ProductExportQueryDto extends OmitType(ProductQueryDto, ['page', 'limit'] as const) {
+  @IsOptional()
+  @IsIn(CATALOG_EXPORT_FORMATS)
+  format?: CatalogExportFormat = 'csv';
+}
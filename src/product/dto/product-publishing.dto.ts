@@ -0,0 +1,66 @@
+import {
+  IsString,
+  IsOptional,
+  IsBoolean,
+  IsArray,
+  IsEnum,
+  IsDateString,
+  IsNotEmpty,
+  ArrayMinSize,
+  MaxLength,
+} from 'class-validator';
+import { ProductStatus } from '@prisma/client';
+
+export class ChangeProductStatusDto {
+  @IsEnum(ProductStatus)
+  status: ProductStatus;
+
+  /**
+   * When the product goes live; required when scheduling
+   */
+  @IsDateString()
+  @IsOptional()
+  publishAt?: string;
+
+  /**
+   * When a published product is taken down again
+   */
+  @IsDateString()
+  @IsOptional()
+  unpublishAt?: string;
+
+  /**
+   * Reviewer feedback, e.g. why a product was sent back to draft
+   */
+  @IsString()
+  @IsOptional()
+  @MaxLength(2000)
+  notes?: string;
+}
+
+export class ScheduleCatalogDto {
+  @IsArray()
+  @IsOptional()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  productIds?: string[];
+
+  /**
+   * Schedule every product in this category instead of an explicit list
+   */
+  @IsString()
+  @IsOptional()
+  @IsNotEmpty()
+  categoryId?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  includeSubcategories?: boolean = true;
+
+  @IsDateString()
+  publishAt: string;
+
+  @IsDateString()
+  @IsOptional()
+  unpublishAt?: string;
+}
@@ -9,6 +9,9 @@ import {
   IsIn,
 } from 'class-validator';
 import { Type } from 'class-transformer';
+import { ProductStatus, ProductType } from '@prisma/client';
+
+export const PRODUCT_SORT_FIELDS = ['name', 'price', 'createdAt', 'updatedAt', 'viewCount', 'purchaseCount'];
 
 export class ProductQueryDto {
   @IsOptional()
@@ -26,7 +29,7 @@ export class ProductQueryDto {
 
   @IsOptional()
   @IsString()
-  @IsIn(['name', 'price', 'createdAt', 'updatedAt', 'viewCount', 'purchaseCount'])
+  @IsIn(PRODUCT_SORT_FIELDS)
   sortBy?: string = 'createdAt';
 
   @IsOptional()
@@ -43,6 +46,20 @@ export class ProductQueryDto {
   @IsBoolean()
   isActive?: boolean;
 
+  /**
+   * Publishing status; callers who cannot manage products only ever see published ones
+   */
+  @IsOptional()
+  @IsEnum(ProductStatus)
+  status?: ProductStatus;
+
+  /**
+   * STANDARD products or BUNDLE kits
+   */
+  @IsOptional()
+  @IsEnum(ProductType)
+  type?: ProductType;
+
   @IsOptional()
   @Type(() => Boolean)
   @IsBoolean()
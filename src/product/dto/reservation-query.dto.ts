@@ -0,0 +1,50 @@
+import {
+  IsOptional,
+  IsNumber,
+  IsString,
+  IsEnum,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ReservationOwnerType, ReservationStatus } from '@prisma/client';
+
+export class ReservationQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+
+  @IsOptional()
+  @IsString()
+  productId?: string;
+
+  @IsOptional()
+  @IsString()
+  variantId?: string;
+
+  @IsOptional()
+  @IsString()
+  warehouseId?: string;
+
+  @IsOptional()
+  @IsEnum(ReservationOwnerType)
+  ownerType?: ReservationOwnerType;
+
+  @IsOptional()
+  @IsString()
+  ownerId?: string;
+
+  /** Defaults to active holds */
+  @IsOptional()
+  @IsEnum(ReservationStatus)
+  status?: ReservationStatus;
+}
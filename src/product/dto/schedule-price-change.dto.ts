@@ -0,0 +1,51 @@
+import {
+  IsString,
+  IsOptional,
+  IsNumber,
+  IsDateString,
+  Min,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class SchedulePriceChangeDto {
+  /**
+   * Change a variant's prices instead of the product's own
+   */
+  @IsString()
+  @IsOptional()
+  variantId?: string;
+
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  price?: number;
+
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  compareAtPrice?: number;
+
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  dealerPrice?: number;
+
+  @IsDateString()
+  startsAt: string;
+
+  /**
+   * End of a time-bound change; the earlier prices come back at this time
+   */
+  @IsDateString()
+  @IsOptional()
+  endsAt?: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(200)
+  reason?: string;
+}
@@ -0,0 +1,63 @@
+import {
+  IsString,
+  IsOptional,
+  IsNumber,
+  IsArray,
+  IsInt,
+  IsEnum,
+  IsNotEmpty,
+  ValidateNested,
+  ArrayMinSize,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { BundlePricing } from '@prisma/client';
+
+export class BundleComponentDto {
+  @IsString()
+  @IsNotEmpty()
+  productId: string;
+
+  /**
+   * Required when the component product has variants
+   */
+  @IsString()
+  @IsOptional()
+  variantId?: string;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
+
+export class SetProductBundleDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => BundleComponentDto)
+  components: BundleComponentDto[];
+
+  @IsEnum(BundlePricing)
+  pricing: BundlePricing;
+
+  /**
+   * Percentage off the component total; used with DISCOUNT pricing
+   */
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  discountPercent?: number;
+
+  /**
+   * Bundle price; required with FIXED pricing unless the product already has one
+   */
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  price?: number;
+}
@@ -0,0 +1,90 @@
+import {
+  IsOptional,
+  IsNumber,
+  IsString,
+  IsBoolean,
+  IsIn,
+  IsDateString,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export const LOT_STATUSES = ['sellable', 'expired', 'blocked'] as const;
+
+export type LotStatus = typeof LOT_STATUSES[number];
+
+export class UpdateStockLotDto {
+  /** Blocked lots are held back from sale until unblocked */
+  @IsBoolean()
+  @IsOptional()
+  isBlocked?: boolean;
+
+  @IsString()
+  @IsOptional()
+  blockedReason?: string;
+
+  /** Corrections to the dates recorded at receipt */
+  @IsDateString()
+  @IsOptional()
+  manufacturedAt?: string;
+
+  @IsDateString()
+  @IsOptional()
+  expiresAt?: string;
+}
+
+export class StockLotQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+
+  @IsOptional()
+  @IsString()
+  productId?: string;
+
+  @IsOptional()
+  @IsString()
+  variantId?: string;
+
+  @IsOptional()
+  @IsString()
+  warehouseId?: string;
+
+  @IsOptional()
+  @IsString()
+  lotNumber?: string;
+
+  @IsOptional()
+  @IsIn(LOT_STATUSES)
+  status?: LotStatus;
+
+  /** Include lots with no stock left */
+  @IsOptional()
+  @Type(() => Boolean)
+  @IsBoolean()
+  includeEmpty?: boolean;
+}
+
+export class ExpiringLotQueryDto {
+  /** Defaults to the configured warning window */
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(730)
+  days?: number;
+
+  @IsOptional()
+  @IsString()
+  warehouseId?: string;
+}
@@ -0,0 +1,113 @@
+import {
+  IsOptional,
+  IsNumber,
+  IsString,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsDateString,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { StockMovementType } from '@prisma/client';
+
+/**
+ * Movements that can be booked by hand; the rest are recorded by orders, returns and transfers
+ */
+export const MANUAL_MOVEMENT_TYPES = [
+  StockMovementType.RECEIPT,
+  StockMovementType.ADJUSTMENT,
+  StockMovementType.DAMAGE,
+] as const;
+
+export type ManualMovementType = typeof MANUAL_MOVEMENT_TYPES[number];
+
+export class CreateStockMovementDto {
+  @IsIn(MANUAL_MOVEMENT_TYPES)
+  type: ManualMovementType;
+
+  /** Units received or damaged; for adjustments, the signed change */
+  @Type(() => Number)
+  @IsInt()
+  quantity: number;
+
+  /** Required once the item is stocked in warehouses */
+  @IsString()
+  @IsOptional()
+  warehouseId?: string;
+
+  /** Lot to receive into, created on its first receipt */
+  @IsString()
+  @IsOptional()
+  lotNumber?: string;
+
+  @IsDateString()
+  @IsOptional()
+  manufacturedAt?: string;
+
+  @IsDateString()
+  @IsOptional()
+  expiresAt?: string;
+
+  /** Existing lot to adjust or write off */
+  @IsString()
+  @IsOptional()
+  lotId?: string;
+
+  @IsString()
+  @IsOptional()
+  reason?: string;
+
+  /** Supplier invoice, stock count sheet or similar */
+  @IsString()
+  @IsOptional()
+  reference?: string;
+}
+
+export class StockMovementQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+
+  @IsOptional()
+  @IsString()
+  productId?: string;
+
+  @IsOptional()
+  @IsString()
+  variantId?: string;
+
+  @IsOptional()
+  @IsString()
+  warehouseId?: string;
+
+  @IsOptional()
+  @IsString()
+  lotId?: string;
+
+  @IsOptional()
+  @IsEnum(StockMovementType)
+  type?: StockMovementType;
+
+  @IsOptional()
+  @IsString()
+  reference?: string;
+
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
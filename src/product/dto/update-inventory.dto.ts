@@ -28,4 +28,9 @@ export class UpdateInventoryDto {
   @IsString()
   @IsOptional()
   warehouseLocation?: string;
+
+  /** Why the stock changed, kept in the stock ledger */
+  @IsString()
+  @IsOptional()
+  reason?: string;
 } 
\ No newline at end of file
@@ -1,4 +1,7 @@
-import { PartialType } from '@nestjs/mapped-types';
+import { PartialType, OmitType } from '@nestjs/mapped-types';
 import { CreateProductDto } from './create-product.dto';
 
-export class UpdateProductDto extends PartialType(CreateProductDto) {} 
\ No newline at end of file
+/**
+ * Status changes go through the publishing workflow instead
+ */
+export class UpdateProductDto extends PartialType(OmitType(CreateProductDto, ['status'] as const)) {} 
\ No newline at end of file
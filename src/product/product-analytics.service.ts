@@ -1,8 +1,10 @@
 import { Injectable, Inject, Optional } from '@nestjs/common';
 import { REQUEST } from '@nestjs/core';
 import { PrismaService } from '../prisma/prisma.service';
+import { ProductStatus } from '@prisma/client';
 import { Request } from 'express';
 import { AnalyticsService } from '../analytics/analytics.service';
+import { ProductPricingService, PricingContext } from './product-pricing.service';
 
 @Injectable()
 export class ProductAnalyticsService {
@@ -10,6 +12,7 @@ export class ProductAnalyticsService {
     private readonly prisma: PrismaService,
     @Optional() @Inject(REQUEST) private readonly request: Request,
     private readonly analyticsService: AnalyticsService,
+    private readonly pricingService: ProductPricingService,
   ) {}
 
   /**
@@ -141,12 +144,13 @@ export class ProductAnalyticsService {
   }
 
   /**
-   * Get popular products based on views
+   * Get popular products based on views, priced for the caller
    */
-  async getPopularProducts(limit = 10) {
-    return this.prisma.product.findMany({
+  async getPopularProducts(pricing: PricingContext, limit = 10) {
+    const products = await this.prisma.product.findMany({
       where: {
         isActive: true,
+        status: ProductStatus.PUBLISHED,
       },
       orderBy: {
         viewCount: 'desc',
@@ -161,12 +165,14 @@ export class ProductAnalyticsService {
         },
       },
     });
+
+    return this.pricingService.applyToProducts(products, pricing);
   }
 
   /**
-   * Get trending products based on recent views
+   * Get trending products based on recent views, priced for the caller
    */
-  async getTrendingProducts(days = 7, limit = 10) {
+  async getTrendingProducts(pricing: PricingContext, days = 7, limit = 10) {
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - days);
 
@@ -196,12 +202,13 @@ export class ProductAnalyticsService {
       return [];
     }
 
-    return this.prisma.product.findMany({
+    const products = await this.prisma.product.findMany({
       where: {
         id: {
           in: productIds,
         },
         isActive: true,
+        status: ProductStatus.PUBLISHED,
       },
       include: {
         media: {
@@ -216,6 +223,8 @@ export class ProductAnalyticsService {
         viewCount: 'desc',
       },
     });
+
+    return this.pricingService.applyToProducts(products, pricing);
   }
 
   /**
@@ -2,10 +2,14 @@ import { Injectable, NotFoundException, BadRequestException } from '@nestjs/comm
 import { PrismaService } from '../prisma/prisma.service';
 import { AttributeType } from '@prisma/client';
 import { ProductAttributeDto } from './dto/create-product.dto';
+import { CategoryAttributeService } from '../category/category-attribute.service';
 
 @Injectable()
 export class ProductAttributeService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly categoryAttributeService: CategoryAttributeService,
+  ) {}
 
   /**
    * Add attributes to a product
@@ -43,18 +47,30 @@ export class ProductAttributeService {
       throw new BadRequestException(`Attributes already exist: ${existingNames.join(', ')}`);
     }
 
-    // Create attributes
+    // Validate against the category schema together with the attributes already on the product
+    const current = await this.prisma.productAttribute.findMany({
+      where: { productId },
+    });
+    const currentNames = new Set(current.map(attr => attr.name.toLowerCase()));
+    const resolved = await this.categoryAttributeService.assertProductAttributes(
+      await this.getCategoryIds(productId),
+      [...current, ...attributes],
+    );
+
+    // Create the new attributes, plus any category defaults the product was missing
     const createdAttributes = await this.prisma.productAttribute.createMany({
-      data: attributes.map(attr => ({
-        name: attr.name,
-        value: attr.value,
-        type: attr.type,
-        isFilterable: attr.isFilterable || false,
-        isSearchable: attr.isSearchable || false,
-        isVariantOption: attr.isVariantOption || false,
-        position: attr.position || 0,
-        productId,
-      })),
+      data: resolved
+        .filter(attr => !currentNames.has(attr.name.toLowerCase()))
+        .map((attr: Partial<ProductAttributeDto>) => ({
+          name: attr.name!,
+          value: attr.value!,
+          type: attr.type ?? AttributeType.TEXT,
+          isFilterable: attr.isFilterable || false,
+          isSearchable: attr.isSearchable || false,
+          isVariantOption: attr.isVariantOption || false,
+          position: attr.position || 0,
+          productId,
+        })),
     });
 
     return this.getProductAttributes(productId);
@@ -87,6 +103,31 @@ export class ProductAttributeService {
       }
     }
 
+    // Check the new value against the category definition, if there is one
+    const definitions = await this.categoryAttributeService.findForCategories(
+      await this.getCategoryIds(attribute.productId),
+    );
+    const definition = definitions.get((attributeData.name ?? attribute.name).toLowerCase());
+
+    if (definition) {
+      const value = attributeData.value ?? attribute.value;
+      const error = this.categoryAttributeService.validateValue(definition, value);
+
+      if (error) {
+        throw new BadRequestException({
+          message: 'Product attributes do not match the category schema',
+          errors: [error],
+        });
+      }
+
+      attributeData = {
+        ...attributeData,
+        name: definition.name,
+        value: this.categoryAttributeService.normalizeValue(definition, value),
+        type: definition.type,
+      };
+    }
+
     // Update attribute
     return this.prisma.productAttribute.update({
       where: { id },
@@ -107,6 +148,21 @@ export class ProductAttributeService {
       throw new NotFoundException(`Attribute with ID ${id} not found`);
     }
 
+    // Required category attributes cannot be removed
+    const definitions = await this.categoryAttributeService.findForCategories(
+      await this.getCategoryIds(attribute.productId),
+    );
+    if (definitions.get(attribute.name.toLowerCase())?.isRequired) {
+      throw new BadRequestException({
+        message: 'Product attributes do not match the category schema',
+        errors: [{
+          attribute: attribute.name,
+          code: 'REQUIRED',
+          message: `${attribute.name} is required for this category`,
+        }],
+      });
+    }
+
     // Check if this is a variant option attribute
     if (attribute.isVariantOption) {
       // Check if any variants use this attribute
@@ -251,4 +307,17 @@ export class ProductAttributeService {
         values: Array.from(group.values),
       }));
   }
-} 
\ No newline at end of file
+
+  /**
+   * Category IDs of a product, primary category first
+   */
+  private async getCategoryIds(productId: string): Promise<string[]> {
+    const categories = await this.prisma.productCategory.findMany({
+      where: { productId },
+      orderBy: { isPrimary: 'desc' },
+      select: { categoryId: true },
+    });
+
+    return categories.map(category => category.categoryId);
+  }
+}
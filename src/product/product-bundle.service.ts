@@ -0,0 +1,225 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Prisma, ProductType, ProductStatus, BundlePricing } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ProductInventoryService } from './product-inventory.service';
+import { ProductPriceHistoryService } from './product-price-history.service';
+import { ProductRevisionService } from './product-revision.service';
+import { ProductPricingService, PricingContext, RETAIL_PRICING } from './product-pricing.service';
+import { SetProductBundleDto } from './dto/set-product-bundle.dto';
+
+@Injectable()
+export class ProductBundleService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly inventoryService: ProductInventoryService,
+    private readonly priceHistoryService: ProductPriceHistoryService,
+    private readonly revisionService: ProductRevisionService,
+    private readonly pricingService: ProductPricingService,
+  ) {}
+
+  /**
+   * Get a bundle with its components, prices for the caller and current availability
+   */
+  async findOne(bundleId: string, pricing: PricingContext = RETAIL_PRICING, publishedOnly = false) {
+    const bundle = await this.prisma.product.findUnique({
+      where: { id: bundleId },
+      include: {
+        bundleItems: {
+          orderBy: { position: 'asc' },
+          include: {
+            product: {
+              select: { id: true, name: true, slug: true, sku: true, price: true, dealerPrice: true, isActive: true },
+            },
+            variant: {
+              select: { id: true, name: true, sku: true, price: true, dealerPrice: true, isActive: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!bundle || bundle.type !== ProductType.BUNDLE || (publishedOnly && bundle.status !== ProductStatus.PUBLISHED)) {
+      throw new NotFoundException(`Bundle with ID ${bundleId} not found`);
+    }
+
+    const availability = await this.inventoryService.getBundleAvailability(bundleId);
+    let componentTotal = new Prisma.Decimal(0);
+
+    const components = bundle.bundleItems.map((item, index) => {
+      const unitPrice = this.pricingService.resolveUnitPrice(item.product, item.variant, pricing);
+      componentTotal = componentTotal.plus(unitPrice.mul(item.quantity));
+
+      return {
+        productId: item.productId,
+        variantId: item.variantId,
+        name: item.product.name,
+        slug: item.product.slug,
+        variantName: item.variant?.name ?? null,
+        sku: item.variant?.sku ?? item.product.sku,
+        quantity: item.quantity,
+        unitPrice,
+        available: availability.components[index].maxBundles,
+      };
+    });
+
+    const price = this.pricingService.resolveUnitPrice(bundle, null, pricing);
+
+    return {
+      id: bundle.id,
+      name: bundle.name,
+      pricing: bundle.bundlePricing,
+      discountPercent: bundle.bundleDiscount,
+      price,
+      componentTotal,
+      savings: Prisma.Decimal.max(componentTotal.minus(price), 0),
+      available: availability.available,
+      components,
+    };
+  }
+
+  /**
+   * Turn a product into a bundle, or replace an existing bundle's components and pricing
+   */
+  async set(productId: string, dto: SetProductBundleDto, userId?: string) {
+    const product = await this.prisma.product.findUnique({
+      where: { id: productId },
+      include: { _count: { select: { bundledIn: true } } },
+    });
+
+    if (!product) {
+      throw new NotFoundException(`Product with ID ${productId} not found`);
+    }
+
+    if (product.hasVariants) {
+      throw new BadRequestException('Products with variants cannot be bundles');
+    }
+
+    if (product._count.bundledIn > 0) {
+      throw new BadRequestException('This product is a component of another bundle and cannot be a bundle itself');
+    }
+
+    if (dto.pricing === BundlePricing.DISCOUNT && dto.discountPercent === undefined) {
+      throw new BadRequestException('discountPercent is required for DISCOUNT pricing');
+    }
+
+    await this.validateComponents(productId, dto);
+
+    await this.revisionService.ensureBaseline(productId);
+    const pricesBefore = await this.priceHistoryService.capture(productId);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.productBundleItem.deleteMany({ where: { bundleId: productId } });
+      await tx.productBundleItem.createMany({
+        data: dto.components.map((component, index) => ({
+          bundleId: productId,
+          productId: component.productId,
+          variantId: component.variantId ?? null,
+          quantity: component.quantity,
+          position: index,
+        })),
+      });
+
+      await tx.product.update({
+        where: { id: productId },
+        data: {
+          type: ProductType.BUNDLE,
+          bundlePricing: dto.pricing,
+          bundleDiscount: dto.pricing === BundlePricing.DISCOUNT ? dto.discountPercent : null,
+          ...(dto.pricing === BundlePricing.FIXED && dto.price !== undefined ? { price: dto.price } : {}),
+        },
+      });
+
+      // DISCOUNT bundles are priced from their components and recorded by the repricing
+      const repriced = await this.priceHistoryService.repriceBundles({ bundleId: productId }, userId, tx);
+      if (repriced === 0) {
+        await this.priceHistoryService.recordChanges(productId, pricesBefore, 'bundle', userId, tx);
+      }
+    });
+
+    await this.revisionService.record(productId, userId, 'bundle.update', {
+      components: dto.components.map(({ productId, variantId, quantity }) => ({ productId, variantId, quantity })),
+    });
+
+    return this.findOne(productId);
+  }
+
+  /**
+   * Turn a bundle back into a standard product. Its price stays as last calculated
+   */
+  async remove(productId: string, userId?: string) {
+    const product = await this.prisma.product.findUnique({ where: { id: productId } });
+
+    if (!product || product.type !== ProductType.BUNDLE) {
+      throw new NotFoundException(`Bundle with ID ${productId} not found`);
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.productBundleItem.deleteMany({ where: { bundleId: productId } }),
+      this.prisma.product.update({
+        where: { id: productId },
+        data: { type: ProductType.STANDARD, bundlePricing: null, bundleDiscount: null },
+      }),
+    ]);
+
+    await this.revisionService.record(productId, userId, 'bundle.delete');
+
+    return { id: productId, message: 'Bundle converted to a standard product' };
+  }
+
+  /**
+   * Refuse to delete a product or variant that bundles are made of
+   */
+  async assertNotBundled(target: { productId?: string; variantId?: string }) {
+    const items = await this.prisma.productBundleItem.findMany({
+      where: target.variantId ? { variantId: target.variantId } : { productId: target.productId },
+      select: { bundle: { select: { name: true } } },
+    });
+
+    if (items.length > 0) {
+      const bundles = [...new Set(items.map(item => item.bundle.name))];
+      throw new BadRequestException(`Remove this item from these bundles before deleting it: ${bundles.join(', ')}`);
+    }
+  }
+
+  private async validateComponents(bundleId: string, dto: SetProductBundleDto) {
+    const seen = new Set<string>();
+
+    for (const component of dto.components) {
+      const key = `${component.productId}:${component.variantId ?? ''}`;
+      if (seen.has(key)) {
+        throw new BadRequestException(`Component ${key} is listed more than once`);
+      }
+      seen.add(key);
+
+      if (component.productId === bundleId) {
+        throw new BadRequestException('A bundle cannot contain itself');
+      }
+    }
+
+    const products = await this.prisma.product.findMany({
+      where: { id: { in: dto.components.map(component => component.productId) } },
+      include: { variants: { select: { id: true } } },
+    });
+    const productMap = new Map(products.map(product => [product.id, product]));
+
+    for (const component of dto.components) {
+      const product = productMap.get(component.productId);
+
+      if (!product) {
+        throw new BadRequestException(`Product with ID ${component.productId} not found`);
+      }
+
+      if (product.type === ProductType.BUNDLE) {
+        throw new BadRequestException(`${product.name} is a bundle; bundles cannot contain other bundles`);
+      }
+
+      if (product.hasVariants && !component.variantId) {
+        throw new BadRequestException(`${product.name} has variants. Please select a variant.`);
+      }
+
+      if (component.variantId && !product.variants.some(variant => variant.id === component.variantId)) {
+        throw new BadRequestException(`Variant with ID ${component.variantId} does not belong to ${product.name}`);
+      }
+    }
+  }
+}
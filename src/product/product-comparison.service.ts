@@ -0,0 +1,245 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Prisma, AttributeType, ProductStatus, ProductType } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ProductReviewService } from './product-review.service';
+import { ProductInventoryService } from './product-inventory.service';
+import { ProductPricingService, PricingContext, RETAIL_PRICING } from './product-pricing.service';
+
+export const MIN_COMPARE_PRODUCTS = 2;
+export const MAX_COMPARE_PRODUCTS = 5;
+
+export type ComparisonSection = 'price' | 'attributes' | 'variants' | 'reviews' | 'freeItems';
+
+/**
+ * One line of the comparison matrix; values line up with the products list
+ * and are null where a product has no value
+ */
+export interface ComparisonRow {
+  section: ComparisonSection;
+  key: string;
+  label: string;
+  type?: AttributeType;
+  values: (string | number | boolean | string[] | null)[];
+  differs: boolean;
+}
+
+const comparisonInclude = {
+  attributes: { orderBy: { position: 'asc' } },
+  variants: {
+    where: { isActive: true },
+    orderBy: { position: 'asc' },
+    include: { inventory: true },
+  },
+  inventory: true,
+  media: { take: 1, orderBy: { position: 'asc' } },
+  freeItems: {
+    where: { freeItem: { isActive: true } },
+    include: { freeItem: true },
+  },
+} satisfies Prisma.ProductInclude;
+
+type ComparedProduct = Prisma.ProductGetPayload<{ include: typeof comparisonInclude }>;
+
+@Injectable()
+export class ProductComparisonService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly reviewService: ProductReviewService,
+    private readonly inventoryService: ProductInventoryService,
+    private readonly pricingService: ProductPricingService,
+  ) {}
+
+  /**
+   * Compare products side by side. Attributes are matched by name regardless of
+   * case and separators, and compared by their type so that "10" and "10.0" or
+   * "Yes" and "true" count as the same value
+   */
+  async compare(productIds: string[], pricing: PricingContext = RETAIL_PRICING, publishedOnly = false) {
+    const ids = [...new Set(productIds.map(id => id.trim()).filter(Boolean))];
+
+    if (ids.length < MIN_COMPARE_PRODUCTS || ids.length > MAX_COMPARE_PRODUCTS) {
+      throw new BadRequestException(
+        `Between ${MIN_COMPARE_PRODUCTS} and ${MAX_COMPARE_PRODUCTS} different products can be compared`,
+      );
+    }
+
+    const found = await this.prisma.product.findMany({
+      where: {
+        id: { in: ids },
+        ...(publishedOnly ? { status: ProductStatus.PUBLISHED } : {}),
+      },
+      include: comparisonInclude,
+    });
+    const byId = new Map(found.map(product => [product.id, product]));
+
+    const missing = ids.filter(id => !byId.has(id));
+    if (missing.length > 0) {
+      throw new NotFoundException(`Products not found: ${missing.join(', ')}`);
+    }
+
+    const products = ids.map(id => byId.get(id)!);
+    const reviewStats = await Promise.all(products.map(product => this.reviewService.getProductReviewStats(product.id)));
+    // Bundles hold no stock of their own
+    const bundleStock = await Promise.all(products.map(product =>
+      product.type === ProductType.BUNDLE ? this.inventoryService.isInStock(product.id) : null,
+    ));
+
+    const rows: ComparisonRow[] = [
+      ...this.priceRows(products, pricing),
+      ...this.attributeRows(products),
+      ...this.variantRows(products, pricing, bundleStock),
+      ...this.reviewRows(reviewStats),
+      this.freeItemRow(products),
+    ];
+
+    return {
+      products: products.map(product => ({
+        id: product.id,
+        name: product.name,
+        slug: product.slug,
+        sku: product.sku,
+        type: product.type,
+        image: product.media[0]?.url ?? null,
+      })),
+      rows,
+      differences: rows.filter(row => row.differs).map(row => row.key),
+    };
+  }
+
+  private priceRows(products: ComparedProduct[], pricing: PricingContext): ComparisonRow[] {
+    const ranges = products.map(product => {
+      const prices = product.hasVariants && product.variants.length > 0
+        ? product.variants.map(variant => this.pricingService.resolveUnitPrice(product, variant, pricing))
+        : [this.pricingService.resolveUnitPrice(product, null, pricing)];
+
+      return {
+        min: Prisma.Decimal.min(...prices),
+        max: Prisma.Decimal.max(...prices),
+      };
+    });
+
+    return [
+      this.row('price', 'price.min', 'Lowest price', ranges.map(range => range.min.toFixed(2))),
+      this.row('price', 'price.max', 'Highest price', ranges.map(range => range.max.toFixed(2))),
+      this.row('price', 'price.compareAt', 'Compare at price', products.map(product => product.compareAtPrice?.toFixed(2) ?? null)),
+    ];
+  }
+
+  /**
+   * One row per attribute name found on any of the products
+   */
+  private attributeRows(products: ComparedProduct[]): ComparisonRow[] {
+    const groups = new Map<string, { label: string; position: number; types: Set<AttributeType> }>();
+
+    for (const product of products) {
+      for (const attribute of product.attributes) {
+        const key = this.attributeKey(attribute.name);
+        const group = groups.get(key);
+
+        if (group) {
+          group.types.add(attribute.type);
+          group.position = Math.min(group.position, attribute.position);
+        } else {
+          groups.set(key, { label: attribute.name.trim(), position: attribute.position, types: new Set([attribute.type]) });
+        }
+      }
+    }
+
+    return [...groups.entries()]
+      .sort(([, a], [, b]) => a.position - b.position || a.label.localeCompare(b.label))
+      .map(([key, group]) => {
+        // Products that disagree on the type are compared as text
+        const type = group.types.size === 1 ? [...group.types][0] : AttributeType.TEXT;
+        const values = products.map(product =>
+          product.attributes.find(attribute => this.attributeKey(attribute.name) === key)?.value ?? null,
+        );
+        const normalized = values.map(value => (value === null ? null : this.normalizeValue(type, value)));
+
+        return {
+          section: 'attributes' as const,
+          key: `attribute.${key.replace(/ /g, '_')}`,
+          label: group.label,
+          type,
+          values,
+          differs: new Set(normalized.map(value => JSON.stringify(value))).size > 1,
+        };
+      });
+  }
+
+  private variantRows(
+    products: ComparedProduct[],
+    pricing: PricingContext,
+    bundleStock: (boolean | null)[],
+  ): ComparisonRow[] {
+    const inStock = (quantity?: number | null, backorderAllowed?: boolean) => (quantity ?? 0) > 0 || !!backorderAllowed;
+
+    return [
+      this.row('variants', 'variants.count', 'Variants', products.map(product => product.variants.length)),
+      this.row('variants', 'variants.options', 'Options', products.map(product =>
+        product.variants.map(variant => {
+          const price = this.pricingService.resolveUnitPrice(product, variant, pricing).toFixed(2);
+          return `${variant.name} (${price})`;
+        }),
+      )),
+      this.row('variants', 'variants.inStock', 'In stock', products.map((product, index) =>
+        bundleStock[index] ?? (product.variants.length > 0
+          ? product.variants.some(variant => inStock(variant.inventory?.quantity, variant.inventory?.backorderAllowed))
+          : inStock(product.inventory?.quantity, product.inventory?.backorderAllowed)),
+      )),
+    ];
+  }
+
+  private reviewRows(stats: { reviewCount: number; averageRating: number }[]): ComparisonRow[] {
+    return [
+      this.row('reviews', 'reviews.averageRating', 'Average rating', stats.map(stat => Math.round(stat.averageRating * 10) / 10)),
+      this.row('reviews', 'reviews.count', 'Reviews', stats.map(stat => stat.reviewCount)),
+    ];
+  }
+
+  private freeItemRow(products: ComparedProduct[]): ComparisonRow {
+    return this.row('freeItems', 'freeItems', 'Free items', products.map(product =>
+      product.freeItems
+        .map(link => link.freeItem)
+        .sort((a, b) => a.sortOrder - b.sortOrder)
+        .map(freeItem => freeItem.name),
+    ));
+  }
+
+  private row(
+    section: ComparisonSection,
+    key: string,
+    label: string,
+    values: ComparisonRow['values'],
+  ): ComparisonRow {
+    const comparable = values.map(value => JSON.stringify(Array.isArray(value) ? [...value].sort() : value));
+    return { section, key, label, values, differs: new Set(comparable).size > 1 };
+  }
+
+  /**
+   * "Pack Size", "pack_size" and "pack-size" all name the same attribute
+   */
+  private attributeKey(name: string): string {
+    return name.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+  }
+
+  private normalizeValue(type: AttributeType, value: string): string | number | boolean | string[] {
+    const trimmed = value.trim();
+
+    switch (type) {
+      case AttributeType.NUMBER: {
+        const number = Number(trimmed);
+        return Number.isFinite(number) ? number : trimmed.toLowerCase();
+      }
+      case AttributeType.BOOLEAN:
+        return ['true', 'yes', '1'].includes(trimmed.toLowerCase());
+      case AttributeType.DATE: {
+        const time = Date.parse(trimmed);
+        return Number.isNaN(time) ? trimmed : new Date(time).toISOString().slice(0, 10);
+      }
+      case AttributeType.MULTISELECT:
+        return [...new Set(trimmed.split(',').map(option => option.trim().toLowerCase()).filter(Boolean))].sort();
+      default:
+        return trimmed.toLowerCase();
+    }
+  }
+}
@@ -0,0 +1,425 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { timingSafeEqual } from 'crypto';
+import { Prisma, ProductStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ConfigService } from '../config/config.service';
+import { CategoryService } from '../category/category.service';
+import { ProductService } from './product.service';
+import { ProductExportQueryDto, CatalogExportFormat } from './dto/product-export-query.dto';
+import { PRODUCT_SORT_FIELDS } from './dto/product-query.dto';
+import { toCsvRow } from '../utils/csv-utils';
+
+const EXPORT_BATCH_SIZE = 200;
+
+const exportInclude = {
+  categories: {
+    orderBy: { isPrimary: 'desc' },
+  },
+  media: {
+    orderBy: { position: 'asc' },
+    take: 1,
+  },
+  inventory: true,
+  attributes: true,
+  variants: {
+    orderBy: { position: 'asc' },
+    include: {
+      inventory: true,
+      media: {
+        orderBy: { position: 'asc' },
+        take: 1,
+      },
+    },
+  },
+} satisfies Prisma.ProductInclude;
+
+type ExportProduct = Prisma.ProductGetPayload<{ include: typeof exportInclude }>;
+
+export type CatalogAvailability = 'in_stock' | 'out_of_stock' | 'backorder';
+
+/**
+ * One sellable item: a variant, or the product itself when it has no variants
+ */
+export interface CatalogExportRecord {
+  productId: string;
+  variantId: string | null;
+  sku: string | null;
+  barcode: string | null;
+  name: string;
+  variantName: string | null;
+  slug: string;
+  description: string | null;
+  price: string;
+  compareAtPrice: string | null;
+  dealerPrice: string | null;
+  costPrice: string | null;
+  currency: string;
+  hsnCode: string | null;
+  isActive: boolean;
+  quantity: number;
+  reservedQuantity: number;
+  availability: CatalogAvailability;
+  imageUrl: string | null;
+  categoryPath: string | null;
+  options: Record<string, string>;
+  attributes: Record<string, string>;
+  weight: string | null;
+  updatedAt: string;
+}
+
+const CSV_COLUMNS = [
+  'product_id',
+  'variant_id',
+  'sku',
+  'barcode',
+  'name',
+  'variant_name',
+  'slug',
+  'price',
+  'compare_at_price',
+  'dealer_price',
+  'cost_price',
+  'currency',
+  'hsn_code',
+  'is_active',
+  'quantity',
+  'reserved_quantity',
+  'availability',
+  'image_url',
+  'category_path',
+  'options',
+  'weight',
+  'updated_at',
+];
+
+const escapeXml = (value: string | null | undefined): string =>
+  (value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const money = (value: Prisma.Decimal | null | undefined): string | null =>
+  value === null || value === undefined ? null : new Prisma.Decimal(value).toFixed(2);
+
+@Injectable()
+export class ProductExportService {
+  private readonly logger = new Logger(ProductExportService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly categoryService: CategoryService,
+    private readonly productService: ProductService,
+  ) {}
+
+  /**
+   * Content type and file name for an export format
+   */
+  describe(format: CatalogExportFormat): { contentType: string; filename: string } {
+    const stamp = new Date().toISOString().slice(0, 10);
+
+    switch (format) {
+      case 'ndjson':
+        return { contentType: 'application/x-ndjson; charset=utf-8', filename: `catalog-${stamp}.ndjson` };
+      case 'google':
+        return { contentType: 'application/xml; charset=utf-8', filename: `google-merchant-${stamp}.xml` };
+      default:
+        return { contentType: 'text/csv; charset=utf-8', filename: `catalog-${stamp}.csv` };
+    }
+  }
+
+  /**
+   * Check the token Merchant Center sends when fetching the public feed
+   * The feed stays disabled until CATALOG_FEED_TOKEN is configured
+   */
+  async verifyFeedToken(token?: string): Promise<boolean> {
+    const expected = await this.configService.get<string>('CATALOG_FEED_TOKEN');
+    if (!expected || !token) {
+      return false;
+    }
+
+    const a = Buffer.from(token);
+    const b = Buffer.from(expected);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+
+  /**
+   * Stream the filtered catalog in the requested format, one chunk per batch of products
+   */
+  async *stream(query: ProductExportQueryDto): AsyncGenerator<string> {
+    const format = query.format ?? 'csv';
+    const filters = this.normalizeQuery(query);
+
+    // Only live products belong in a shopping feed unless asked otherwise
+    if (format === 'google' && filters.isActive === undefined) {
+      filters.isActive = true;
+    }
+    if (format === 'google' && !filters.status) {
+      filters.status = ProductStatus.PUBLISHED;
+    }
+
+    const where = this.productService.buildWhere(filters);
+    const orderBy: Prisma.ProductOrderByWithRelationInput[] = [
+      { [filters.sortBy ?? 'createdAt']: filters.sortOrder ?? 'desc' },
+      { id: 'asc' },
+    ];
+
+    const currency = (await this.configService.get<string>('CATALOG_CURRENCY', 'INR')) || 'INR';
+    const categoryPaths = new Map<string, string | null>();
+    let exported = 0;
+
+    if (format === 'csv') {
+      yield toCsvRow(CSV_COLUMNS) + '\n';
+    } else if (format === 'google') {
+      yield await this.googleHeader();
+    }
+
+    const storefrontUrl = format === 'google' ? await this.storefrontUrl() : '';
+
+    for (let skip = 0; ; skip += EXPORT_BATCH_SIZE) {
+      const products = await this.prisma.product.findMany({
+        where,
+        orderBy,
+        skip,
+        take: EXPORT_BATCH_SIZE,
+        include: exportInclude,
+      });
+
+      if (products.length === 0) {
+        break;
+      }
+
+      let chunk = '';
+      for (const product of products) {
+        const categoryPath = await this.categoryPath(product, categoryPaths);
+
+        for (const record of this.toRecords(product, categoryPath, currency)) {
+          chunk += this.formatRecord(format, record, product, storefrontUrl);
+          exported++;
+        }
+      }
+      yield chunk;
+
+      if (products.length < EXPORT_BATCH_SIZE) {
+        break;
+      }
+    }
+
+    if (format === 'google') {
+      yield '</channel>\n</rss>\n';
+    }
+
+    this.logger.log(`Exported ${exported} catalog items as ${format}`);
+  }
+
+  /**
+   * Flatten a product into one record per variant, or a single record without variants
+   */
+  private toRecords(product: ExportProduct, categoryPath: string | null, currency: string): CatalogExportRecord[] {
+    const attributes = Object.fromEntries(product.attributes.map(attr => [attr.name, attr.value]));
+
+    const base = {
+      productId: product.id,
+      name: product.name,
+      slug: product.slug,
+      description: product.shortDescription || product.description,
+      costPrice: money(product.costPrice),
+      currency,
+      categoryPath,
+      attributes,
+      weight: product.weight ? product.weight.toString() : null,
+      updatedAt: product.updatedAt.toISOString(),
+    };
+
+    if (product.variants.length === 0) {
+      return [{
+        ...base,
+        variantId: null,
+        variantName: null,
+        sku: product.sku,
+        barcode: product.barcode,
+        price: money(product.price) ?? '0.00',
+        compareAtPrice: money(product.compareAtPrice),
+        dealerPrice: money(product.dealerPrice),
+        hsnCode: product.hsnCode,
+        isActive: product.isActive,
+        quantity: product.inventory?.quantity ?? 0,
+        reservedQuantity: product.inventory?.reservedQuantity ?? 0,
+        availability: this.availability(product.inventory, product.isDigital),
+        imageUrl: product.media[0]?.url ?? null,
+        options: {},
+      }];
+    }
+
+    return product.variants.map(variant => ({
+      ...base,
+      variantId: variant.id,
+      variantName: variant.name,
+      sku: variant.sku,
+      barcode: variant.barcode,
+      price: money(variant.price ?? product.price) ?? '0.00',
+      compareAtPrice: money(variant.compareAtPrice ?? product.compareAtPrice),
+      dealerPrice: money(variant.dealerPrice ?? product.dealerPrice),
+      hsnCode: variant.hsnCode || product.hsnCode,
+      isActive: product.isActive && variant.isActive,
+      quantity: variant.inventory?.quantity ?? 0,
+      reservedQuantity: variant.inventory?.reservedQuantity ?? 0,
+      availability: this.availability(variant.inventory, product.isDigital),
+      imageUrl: variant.media[0]?.url ?? product.media[0]?.url ?? null,
+      options: Object.fromEntries(
+        Object.entries((variant.options ?? {}) as Record<string, unknown>).map(([key, value]) => [key, String(value)]),
+      ),
+    }));
+  }
+
+  private formatRecord(
+    format: CatalogExportFormat,
+    record: CatalogExportRecord,
+    product: ExportProduct,
+    storefrontUrl: string,
+  ): string {
+    switch (format) {
+      case 'ndjson':
+        return JSON.stringify(record) + '\n';
+      case 'google':
+        return this.googleItem(record, product, storefrontUrl);
+      default:
+        return toCsvRow([
+          record.productId,
+          record.variantId,
+          record.sku,
+          record.barcode,
+          record.name,
+          record.variantName,
+          record.slug,
+          record.price,
+          record.compareAtPrice,
+          record.dealerPrice,
+          record.costPrice,
+          record.currency,
+          record.hsnCode,
+          record.isActive,
+          record.quantity,
+          record.reservedQuantity,
+          record.availability,
+          record.imageUrl,
+          record.categoryPath,
+          Object.entries(record.options).map(([key, value]) => `${key}=${value}`).join('|'),
+          record.weight,
+          record.updatedAt,
+        ]) + '\n';
+    }
+  }
+
+  private async googleHeader(): Promise<string> {
+    const title = (await this.configService.get<string>('CATALOG_FEED_TITLE', 'Product catalog')) || 'Product catalog';
+    const storefrontUrl = await this.storefrontUrl();
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<rss version="2.0" xmlns:g="http://base.google.com/ns/1.0">',
+      '<channel>',
+      `<title>${escapeXml(title)}</title>`,
+      `<link>${escapeXml(storefrontUrl)}</link>`,
+      `<description>${escapeXml(title)}</description>`,
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * One <item> in Google Merchant's RSS 2.0 product data format
+   */
+  private googleItem(record: CatalogExportRecord, product: ExportProduct, storefrontUrl: string): string {
+    const link = `${storefrontUrl}/products/${encodeURIComponent(record.slug)}`
+      + (record.variantId ? `?variant=${encodeURIComponent(record.variantId)}` : '');
+
+    // Google shows compare-at pricing as price with a sale_price
+    const onSale = record.compareAtPrice !== null && Number(record.compareAtPrice) > Number(record.price);
+    const brand = Object.entries(record.attributes).find(([name]) => name.toLowerCase() === 'brand')?.[1];
+    const title = record.variantName ? `${record.name} - ${record.variantName}` : record.name;
+
+    const fields: Array<[string, string | null | undefined]> = [
+      ['g:id', record.sku || record.variantId || record.productId],
+      ['g:title', title.slice(0, 150)],
+      ['g:description', (record.description || record.name).slice(0, 5000)],
+      ['g:link', link],
+      ['g:image_link', record.imageUrl],
+      ['g:availability', record.availability],
+      ['g:price', `${onSale ? record.compareAtPrice : record.price} ${record.currency}`],
+      ['g:sale_price', onSale ? `${record.price} ${record.currency}` : null],
+      ['g:condition', 'new'],
+      ['g:brand', brand],
+      ['g:gtin', record.barcode],
+      ['g:mpn', record.sku],
+      ['g:identifier_exists', !record.barcode && !record.sku ? 'no' : null],
+      ['g:item_group_id', record.variantId ? product.id : null],
+      ['g:product_type', record.categoryPath],
+      ['g:shipping_weight', record.weight ? `${record.weight} kg` : null],
+      ...Object.entries(record.options)
+        .filter(([name]) => ['color', 'size', 'material', 'pattern'].includes(name.toLowerCase()))
+        .map(([name, value]): [string, string] => [`g:${name.toLowerCase()}`, value]),
+    ];
+
+    const body = fields
+      .filter(([, value]) => value !== null && value !== undefined && value !== '')
+      .map(([tag, value]) => `  <${tag}>${escapeXml(value)}</${tag}>`)
+      .join('\n');
+
+    return `<item>\n${body}\n</item>\n`;
+  }
+
+  private availability(
+    inventory: { quantity: number; backorderAllowed: boolean } | null,
+    isDigital: boolean,
+  ): CatalogAvailability {
+    if (isDigital || (inventory && inventory.quantity > 0)) {
+      return 'in_stock';
+    }
+    return inventory?.backorderAllowed ? 'backorder' : 'out_of_stock';
+  }
+
+  /**
+   * "Parent > Child" path of the primary category, cached for the length of an export
+   */
+  private async categoryPath(product: ExportProduct, cache: Map<string, string | null>): Promise<string | null> {
+    const categoryId = product.categories[0]?.categoryId;
+    if (!categoryId) {
+      return null;
+    }
+
+    if (!cache.has(categoryId)) {
+      const breadcrumbs = await this.categoryService.getBreadcrumbs(categoryId);
+      cache.set(categoryId, breadcrumbs.length > 0 ? breadcrumbs.map(category => category.name).join(' > ') : null);
+    }
+
+    return cache.get(categoryId) ?? null;
+  }
+
+  private async storefrontUrl(): Promise<string> {
+    const url = (await this.configService.get<string>('CATALOG_STOREFRONT_URL', '')) || '';
+    return url.replace(/\/+$/, '');
+  }
+
+  /**
+   * Query strings arrive untyped, so coerce the filters before building the where clause
+   */
+  private normalizeQuery(query: ProductExportQueryDto): ProductExportQueryDto {
+    const bool = (value: unknown) =>
+      value === undefined || value === '' ? undefined : value === true || value === 'true';
+    const num = (value: unknown) =>
+      value === undefined || value === '' || Number.isNaN(Number(value)) ? undefined : Number(value);
+
+    return {
+      ...query,
+      sortBy: query.sortBy && PRODUCT_SORT_FIELDS.includes(query.sortBy) ? query.sortBy : 'createdAt',
+      sortOrder: query.sortOrder === 'asc' ? 'asc' : 'desc',
+      isActive: bool(query.isActive),
+      isFeatured: bool(query.isFeatured),
+      hasVariants: bool(query.hasVariants),
+      minPrice: num(query.minPrice),
+      maxPrice: num(query.maxPrice),
+    };
+  }
+}
@@ -0,0 +1,1007 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { Prisma, AttributeType, CategoryAttribute, StockMovementType } from '@prisma/client';
+import * as ExcelJS from 'exceljs';
+import { PrismaService } from '../prisma/prisma.service';
+import { ConfigService } from '../config/config.service';
+import { CategoryAttributeService } from '../category/category-attribute.service';
+import { ProductPriceHistoryService } from './product-price-history.service';
+import { ProductStockLedgerService } from './product-stock-ledger.service';
+import { HSN_CODE_PATTERN } from './dto/create-product.dto';
+import { parseCsv, toCsvRow } from '../utils/csv-utils';
+import { generateSlug } from '../utils/string-utils';
+
+export type ImportFormat = 'csv' | 'xlsx';
+
+export interface ImportRowError {
+  row: number;
+  column?: string;
+  message: string;
+}
+
+export interface ImportProductResult {
+  handle: string;
+  rows: number[];
+  action: 'create' | 'update';
+  status: 'valid' | 'invalid' | 'created' | 'updated' | 'failed';
+  productId?: string;
+  variants: number;
+}
+
+export interface ProductImportReport {
+  dryRun: boolean;
+  format: ImportFormat;
+  totalRows: number;
+  products: number;
+  variants: number;
+  valid: number;
+  invalid: number;
+  applied: number;
+  failed: number;
+  errors: ImportRowError[];
+  results: ImportProductResult[];
+}
+
+/**
+ * Columns understood by the importer. Attribute values go in "attr:<Name>" columns.
+ */
+export const PRODUCT_IMPORT_COLUMNS = [
+  'handle',
+  'name',
+  'slug',
+  'description',
+  'short_description',
+  'sku',
+  'barcode',
+  'price',
+  'compare_at_price',
+  'cost_price',
+  'dealer_price',
+  'hsn_code',
+  'is_active',
+  'is_featured',
+  'weight',
+  'length',
+  'width',
+  'height',
+  'categories',
+  'media',
+  'quantity',
+  'low_stock_threshold',
+  'backorder_allowed',
+  'variant_name',
+  'variant_sku',
+  'variant_barcode',
+  'variant_price',
+  'variant_compare_at_price',
+  'variant_dealer_price',
+  'variant_options',
+  'variant_quantity',
+  'variant_low_stock_threshold',
+  'variant_media',
+] as const;
+
+const ATTRIBUTE_COLUMN_PREFIX = 'attr:';
+const LIST_SEPARATOR = '|';
+
+interface ImportRow {
+  line: number;
+  cells: Record<string, string>;
+  attributes: Record<string, string>;
+}
+
+interface InventoryPlan {
+  quantity: number;
+  lowStockThreshold?: number;
+  backorderAllowed?: boolean;
+}
+
+interface VariantPlan {
+  line: number;
+  existingId?: string;
+  name: string;
+  sku?: string;
+  barcode?: string;
+  price?: number;
+  compareAtPrice?: number;
+  dealerPrice?: number;
+  options: Record<string, string>;
+  position: number;
+  inventory?: InventoryPlan;
+  media: string[];
+}
+
+interface ProductPlan {
+  handle: string;
+  rows: number[];
+  existingId?: string;
+  data: Omit<Prisma.ProductCreateInput, 'slug'> & { slug?: string };
+  categoryIds?: string[];
+  attributes: Array<{ name: string; value: string; type: AttributeType }>;
+  media: string[];
+  inventory?: InventoryPlan;
+  variants: VariantPlan[];
+}
+
+/**
+ * Loose row accessor that records parse errors against the spreadsheet line
+ */
+class RowReader {
+  constructor(
+    private readonly row: ImportRow,
+    private readonly errors: ImportRowError[],
+  ) {}
+
+  get line(): number {
+    return this.row.line;
+  }
+
+  text(column: string): string | undefined {
+    const value = this.row.cells[column]?.trim();
+    return value ? value : undefined;
+  }
+
+  list(column: string): string[] | undefined {
+    const value = this.text(column);
+    return value
+      ? value.split(LIST_SEPARATOR).map(item => item.trim()).filter(Boolean)
+      : undefined;
+  }
+
+  number(column: string, options: { integer?: boolean } = {}): number | undefined {
+    const value = this.text(column);
+    if (value === undefined) {
+      return undefined;
+    }
+
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < 0 || (options.integer && !Number.isInteger(parsed))) {
+      this.error(column, `${column} must be a non-negative ${options.integer ? 'whole number' : 'number'}`);
+      return undefined;
+    }
+
+    return parsed;
+  }
+
+  boolean(column: string): boolean | undefined {
+    const value = this.text(column)?.toLowerCase();
+    if (value === undefined) {
+      return undefined;
+    }
+
+    if (['true', 'yes', '1', 'y'].includes(value)) {
+      return true;
+    }
+    if (['false', 'no', '0', 'n'].includes(value)) {
+      return false;
+    }
+
+    this.error(column, `${column} must be true or false`);
+    return undefined;
+  }
+
+  error(column: string | undefined, message: string) {
+    this.errors.push({ row: this.row.line, column, message });
+  }
+}
+
+@Injectable()
+export class ProductImportService {
+  private readonly logger = new Logger(ProductImportService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly categoryAttributeService: CategoryAttributeService,
+    private readonly priceHistoryService: ProductPriceHistoryService,
+    private readonly ledgerService: ProductStockLedgerService,
+  ) {}
+
+  /**
+   * Validate an uploaded CSV or XLSX file and, unless this is a dry run,
+   * apply the valid products in batches
+   */
+  async import(file: Express.Multer.File, options: { dryRun?: boolean; batchSize?: number } = {}) {
+    if (!file || !file.buffer || file.buffer.length === 0) {
+      throw new BadRequestException('An import file is required');
+    }
+
+    const dryRun = options.dryRun ?? true;
+    const format = this.detectFormat(file);
+    const rows = await this.readRows(file.buffer, format);
+
+    const maxRows = Number(await this.configService.get<number | string>('PRODUCT_IMPORT_MAX_ROWS', 5000));
+    if (rows.length > maxRows) {
+      throw new BadRequestException(`Import files are limited to ${maxRows} rows; this file has ${rows.length}`);
+    }
+
+    const errors: ImportRowError[] = [];
+    const plans = await this.buildPlans(rows, errors);
+
+    const invalidRows = new Set(errors.map(error => error.row));
+    const results: ImportProductResult[] = plans.map(plan => ({
+      handle: plan.handle,
+      rows: plan.rows,
+      action: plan.existingId ? 'update' : 'create',
+      status: plan.rows.some(line => invalidRows.has(line)) ? 'invalid' : 'valid',
+      productId: plan.existingId,
+      variants: plan.variants.length,
+    }));
+
+    let applied = 0;
+    let failed = 0;
+
+    if (!dryRun) {
+      const batchSize = options.batchSize
+        || Number(await this.configService.get<number | string>('PRODUCT_IMPORT_BATCH_SIZE', 25))
+        || 25;
+      const pending = plans
+        .map((plan, index) => ({ plan, result: results[index] }))
+        .filter(({ result }) => result.status === 'valid');
+
+      for (let i = 0; i < pending.length; i += batchSize) {
+        const batch = pending.slice(i, i + batchSize);
+        const outcome = await this.applyBatch(batch, errors);
+        applied += outcome.applied;
+        failed += outcome.failed;
+      }
+
+      this.logger.log(`Product import applied ${applied} products, ${failed} failed`);
+    }
+
+    errors.sort((a, b) => a.row - b.row);
+
+    return {
+      dryRun,
+      format,
+      totalRows: rows.length,
+      products: plans.length,
+      variants: plans.reduce((sum, plan) => sum + plan.variants.length, 0),
+      valid: results.filter(result => result.status !== 'invalid').length,
+      invalid: results.filter(result => result.status === 'invalid').length,
+      applied,
+      failed,
+      errors,
+      results,
+    } satisfies ProductImportReport;
+  }
+
+  /**
+   * Header row and one example product with two variants
+   */
+  getTemplate(): string {
+    const header = [...PRODUCT_IMPORT_COLUMNS, `${ATTRIBUTE_COLUMN_PREFIX}Brand`];
+    const example = (variant: string[]) => [
+      'organic-turmeric', 'Organic Turmeric Powder', '', 'Stone ground turmeric', '', 'TUR-001', '',
+      '120', '150', '', '', '09103030', 'true', 'false', '', '', '', '',
+      'spices', 'https://example.com/turmeric.jpg', '', '', '',
+      ...variant,
+      'Farm Fresh',
+    ];
+
+    return [
+      header,
+      example(['100 g', 'TUR-001-100', '', '120', '', '', 'Weight=100 g', '50', '10', '']),
+      example(['500 g', 'TUR-001-500', '', '520', '', '', 'Weight=500 g', '20', '5', '']),
+    ]
+      .map(row => toCsvRow(row))
+      .join('\n') + '\n';
+  }
+
+  /**
+   * Work out the file format from its extension, falling back to the MIME type
+   */
+  private detectFormat(file: Express.Multer.File): ImportFormat {
+    const name = (file.originalname || '').toLowerCase();
+
+    if (name.endsWith('.xlsx') || file.mimetype === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet') {
+      return 'xlsx';
+    }
+
+    if (name.endsWith('.csv') || ['text/csv', 'application/csv', 'text/plain'].includes(file.mimetype)) {
+      return 'csv';
+    }
+
+    throw new BadRequestException('Only CSV and XLSX files can be imported');
+  }
+
+  /**
+   * Read the first sheet (or the CSV) into header-keyed rows
+   */
+  private async readRows(buffer: Buffer, format: ImportFormat): Promise<ImportRow[]> {
+    let table: string[][];
+
+    if (format === 'csv') {
+      table = parseCsv(buffer.toString('utf8'));
+    } else {
+      const workbook = new ExcelJS.Workbook();
+      try {
+        await workbook.xlsx.load(buffer as unknown as ExcelJS.Buffer);
+      } catch {
+        throw new BadRequestException('The XLSX file could not be read');
+      }
+
+      const sheet = workbook.worksheets[0];
+      table = [];
+      sheet?.eachRow({ includeEmpty: true }, (row) => {
+        const cells: string[] = [];
+        row.eachCell({ includeEmpty: true }, (cell, column) => {
+          cells[column - 1] = this.cellText(cell.value);
+        });
+        table.push(Array.from(cells, cell => cell ?? ''));
+      });
+    }
+
+    if (table.length < 2) {
+      throw new BadRequestException('The import file has no data rows');
+    }
+
+    const header = table[0].map(column => this.normalizeColumn(column));
+    const rows: ImportRow[] = [];
+
+    table.slice(1).forEach((cells, index) => {
+      if (cells.every(cell => cell.trim() === '')) {
+        return;
+      }
+
+      const row: ImportRow = { line: index + 2, cells: {}, attributes: {} };
+      header.forEach((column, position) => {
+        const value = cells[position] ?? '';
+        if (column.startsWith(ATTRIBUTE_COLUMN_PREFIX)) {
+          const name = table[0][position].trim().slice(ATTRIBUTE_COLUMN_PREFIX.length).trim();
+          if (name && value.trim() !== '') {
+            row.attributes[name] = value.trim();
+          }
+        } else if (column) {
+          row.cells[column] = value;
+        }
+      });
+      rows.push(row);
+    });
+
+    return rows;
+  }
+
+  /**
+   * Header cells are matched case-insensitively with spaces treated as underscores
+   */
+  private normalizeColumn(column: string): string {
+    const trimmed = column.trim().toLowerCase();
+    if (trimmed.startsWith(ATTRIBUTE_COLUMN_PREFIX)) {
+      return trimmed;
+    }
+    return trimmed.replace(/[\s-]+/g, '_');
+  }
+
+  /**
+   * Flatten ExcelJS cell values (rich text, hyperlinks, formulas, dates) to plain text
+   */
+  private cellText(value: ExcelJS.CellValue): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+
+    if (typeof value === 'object') {
+      if ('richText' in value) {
+        return value.richText.map(part => part.text).join('');
+      }
+      if ('hyperlink' in value) {
+        return String(value.hyperlink);
+      }
+      if ('result' in value) {
+        return this.cellText(value.result as ExcelJS.CellValue);
+      }
+      // Errors and formulas without a cached result have no text
+      return '';
+    }
+
+    return String(value);
+  }
+
+  /**
+   * Group rows by product and validate them against categories, attribute
+   * definitions and existing SKUs/barcodes
+   */
+  private async buildPlans(rows: ImportRow[], errors: ImportRowError[]): Promise<ProductPlan[]> {
+    const groups = new Map<string, ImportRow[]>();
+
+    for (const row of rows) {
+      const cells = row.cells;
+      const handle = (cells.handle || cells.slug || cells.sku || (cells.name ? generateSlug(cells.name) : '')).trim();
+
+      if (!handle) {
+        errors.push({ row: row.line, column: 'handle', message: 'Row needs a handle, slug, sku or name' });
+        continue;
+      }
+
+      const key = handle.toLowerCase();
+      groups.set(key, [...(groups.get(key) ?? []), row]);
+    }
+
+    const lookups = await this.loadLookups(rows);
+    const seenCodes = new Map<string, number>();
+    const seenSlugs = new Map<string, number>();
+    const plans: ProductPlan[] = [];
+
+    for (const [handle, groupRows] of groups) {
+      plans.push(await this.buildPlan(handle, groupRows, lookups, seenCodes, seenSlugs, errors));
+    }
+
+    return plans;
+  }
+
+  /**
+   * Fetch every category, product, variant and code the file refers to in a few queries
+   */
+  private async loadLookups(rows: ImportRow[]) {
+    const split = (value?: string) =>
+      value ? value.split(LIST_SEPARATOR).map(item => item.trim()).filter(Boolean) : [];
+
+    const categorySlugs = new Set<string>();
+    const productSkus = new Set<string>();
+    const productSlugs = new Set<string>();
+    const codes = new Set<string>();
+
+    for (const { cells } of rows) {
+      split(cells.categories).forEach(slug => categorySlugs.add(slug.toLowerCase()));
+      if (cells.sku?.trim()) productSkus.add(cells.sku.trim());
+      if (cells.slug?.trim()) productSlugs.add(cells.slug.trim());
+      for (const column of ['sku', 'barcode', 'variant_sku', 'variant_barcode']) {
+        if (cells[column]?.trim()) codes.add(cells[column].trim());
+      }
+    }
+
+    const [categories, products, productCodes, variantCodes] = await Promise.all([
+      this.prisma.category.findMany({
+        where: { slug: { in: [...categorySlugs] } },
+        select: { id: true, slug: true },
+      }),
+      this.prisma.product.findMany({
+        where: {
+          OR: [
+            { sku: { in: [...productSkus] } },
+            { slug: { in: [...productSlugs] } },
+          ],
+        },
+        select: {
+          id: true,
+          sku: true,
+          slug: true,
+          hasVariants: true,
+          categories: { select: { categoryId: true }, orderBy: { isPrimary: 'desc' } },
+          attributes: { select: { name: true } },
+        },
+      }),
+      this.prisma.product.findMany({
+        where: {
+          OR: [
+            { sku: { in: [...codes] } },
+            { barcode: { in: [...codes] } },
+          ],
+        },
+        select: { id: true, sku: true, barcode: true },
+      }),
+      this.prisma.productVariant.findMany({
+        where: {
+          OR: [
+            { sku: { in: [...codes] } },
+            { barcode: { in: [...codes] } },
+          ],
+        },
+        select: { id: true, productId: true, sku: true, barcode: true },
+      }),
+    ]);
+
+    // Which product or variant already owns each SKU/barcode
+    const codeOwners = new Map<string, { productId: string; variantId?: string }>();
+    for (const product of productCodes) {
+      if (product.sku) codeOwners.set(product.sku, { productId: product.id });
+      if (product.barcode) codeOwners.set(product.barcode, { productId: product.id });
+    }
+    for (const variant of variantCodes) {
+      const owner = { productId: variant.productId, variantId: variant.id };
+      if (variant.sku) codeOwners.set(variant.sku, owner);
+      if (variant.barcode) codeOwners.set(variant.barcode, owner);
+    }
+
+    return {
+      categoriesBySlug: new Map(categories.map(category => [category.slug.toLowerCase(), category.id])),
+      productsBySku: new Map(products.filter(p => p.sku).map(product => [product.sku!, product])),
+      productsBySlug: new Map(products.map(product => [product.slug, product])),
+      codeOwners,
+      definitions: new Map<string, Map<string, CategoryAttribute>>(),
+    };
+  }
+
+  private async buildPlan(
+    handle: string,
+    rows: ImportRow[],
+    lookups: Awaited<ReturnType<ProductImportService['loadLookups']>>,
+    seenCodes: Map<string, number>,
+    seenSlugs: Map<string, number>,
+    errors: ImportRowError[],
+  ): Promise<ProductPlan> {
+    const first = new RowReader(rows[0], errors);
+    const line = rows[0].line;
+
+    const sku = first.text('sku');
+    const slug = first.text('slug');
+    const existing = (sku && lookups.productsBySku.get(sku)) || (slug && lookups.productsBySlug.get(slug)) || undefined;
+
+    const plan: ProductPlan = {
+      handle,
+      rows: rows.map(row => row.line),
+      existingId: existing?.id,
+      data: {
+        name: first.text('name') as string,
+        slug,
+        description: first.text('description'),
+        shortDescription: first.text('short_description'),
+        sku,
+        barcode: first.text('barcode'),
+        price: first.number('price'),
+        compareAtPrice: first.number('compare_at_price'),
+        costPrice: first.number('cost_price'),
+        dealerPrice: first.number('dealer_price'),
+        hsnCode: first.text('hsn_code'),
+        isActive: first.boolean('is_active'),
+        isFeatured: first.boolean('is_featured'),
+        weight: first.number('weight'),
+      },
+      attributes: [],
+      media: first.list('media') ?? [],
+      variants: [],
+    };
+
+    if (!plan.data.name && !existing) {
+      first.error('name', 'name is required for new products');
+    }
+
+    if (plan.data.hsnCode && !HSN_CODE_PATTERN.test(plan.data.hsnCode)) {
+      first.error('hsn_code', 'hsn_code must be a 4, 6 or 8 digit HSN code');
+    }
+
+    const length = first.number('length');
+    const width = first.number('width');
+    const height = first.number('height');
+    if (length !== undefined || width !== undefined || height !== undefined) {
+      plan.data.dimensions = { length, width, height };
+    }
+
+    if (slug) {
+      this.checkDuplicate(seenSlugs, slug.toLowerCase(), line, 'slug', errors);
+    }
+
+    // Categories by slug; updates without a categories column keep their current ones
+    const categorySlugs = first.list('categories');
+    if (categorySlugs) {
+      plan.categoryIds = [];
+      for (const categorySlug of categorySlugs) {
+        const categoryId = lookups.categoriesBySlug.get(categorySlug.toLowerCase());
+        if (categoryId) {
+          plan.categoryIds.push(categoryId);
+        } else {
+          first.error('categories', `Category '${categorySlug}' does not exist`);
+        }
+      }
+    }
+
+    this.checkMedia(first, 'media', plan.media);
+    this.checkCode(first, 'sku', sku, plan, lookups.codeOwners, seenCodes);
+    this.checkCode(first, 'barcode', first.text('barcode'), plan, lookups.codeOwners, seenCodes);
+
+    // Attributes: merge every row's attr: columns, then check them against the category schema
+    const values: Record<string, { value: string; line: number }> = {};
+    for (const row of rows) {
+      for (const [name, value] of Object.entries(row.attributes)) {
+        values[name] ??= { value, line: row.line };
+      }
+    }
+
+    const categoryIds = plan.categoryIds ?? existing?.categories.map(category => category.categoryId) ?? [];
+    const definitionKey = categoryIds.join(',');
+    if (!lookups.definitions.has(definitionKey)) {
+      lookups.definitions.set(definitionKey, await this.categoryAttributeService.findForCategories(categoryIds));
+    }
+    const definitions = lookups.definitions.get(definitionKey)!;
+    const existingAttributes = new Set(existing?.attributes.map(attr => attr.name.toLowerCase()) ?? []);
+
+    for (const [name, { value, line: valueLine }] of Object.entries(values)) {
+      const definition = definitions.get(name.toLowerCase());
+      const error = definition ? this.categoryAttributeService.validateValue(definition, value) : null;
+      if (error) {
+        errors.push({ row: valueLine, column: `${ATTRIBUTE_COLUMN_PREFIX}${name}`, message: error.message });
+        continue;
+      }
+      plan.attributes.push({
+        name: definition?.name ?? name,
+        value: definition ? this.categoryAttributeService.normalizeValue(definition, value) : value,
+        type: definition?.type ?? AttributeType.TEXT,
+      });
+    }
+
+    for (const definition of definitions.values()) {
+      const key = definition.name.toLowerCase();
+      const provided = Object.keys(values).some(name => name.toLowerCase() === key);
+      if (provided || existingAttributes.has(key)) {
+        continue;
+      }
+
+      if (definition.defaultValue) {
+        plan.attributes.push({
+          name: definition.name,
+          value: this.categoryAttributeService.normalizeValue(definition, definition.defaultValue),
+          type: definition.type,
+        });
+      } else if (definition.isRequired) {
+        first.error(`${ATTRIBUTE_COLUMN_PREFIX}${definition.name}`, `${definition.name} is required for this category`);
+      }
+    }
+
+    // Variants: every row with variant columns is one variant
+    const optionKeys = new Set<string>();
+    for (const row of rows) {
+      const reader = new RowReader(row, errors);
+      const hasVariant = Object.keys(row.cells).some(column => column.startsWith('variant_') && reader.text(column));
+      if (!hasVariant) {
+        continue;
+      }
+
+      const variant = this.buildVariant(reader, row.line, plan, lookups.codeOwners, seenCodes);
+      if (variant) {
+        const optionKey = JSON.stringify(Object.entries(variant.options).sort());
+        if (optionKeys.has(optionKey)) {
+          reader.error('variant_options', 'Another variant of this product has the same options');
+        }
+        optionKeys.add(optionKey);
+        plan.variants.push(variant);
+      }
+    }
+
+    const quantity = first.number('quantity', { integer: true });
+    const lowStockThreshold = first.number('low_stock_threshold', { integer: true });
+    const backorderAllowed = first.boolean('backorder_allowed');
+
+    if (plan.variants.length > 0 || existing?.hasVariants) {
+      if (quantity !== undefined) {
+        first.error('quantity', 'Products with variants track stock per variant; use variant_quantity');
+      }
+    } else if (quantity !== undefined || lowStockThreshold !== undefined || backorderAllowed !== undefined) {
+      plan.inventory = { quantity: quantity ?? 0, lowStockThreshold, backorderAllowed };
+    }
+
+    return plan;
+  }
+
+  private buildVariant(
+    reader: RowReader,
+    line: number,
+    plan: ProductPlan,
+    codeOwners: Map<string, { productId: string; variantId?: string }>,
+    seenCodes: Map<string, number>,
+  ): VariantPlan | null {
+    const options: Record<string, string> = {};
+    for (const pair of reader.list('variant_options') ?? []) {
+      const [name, ...rest] = pair.split('=');
+      const value = rest.join('=').trim();
+      if (!name?.trim() || !value) {
+        reader.error('variant_options', `'${pair}' must look like Name=Value`);
+        return null;
+      }
+      options[name.trim()] = value;
+    }
+
+    if (Object.keys(options).length === 0) {
+      reader.error('variant_options', 'variant_options is required for variants, e.g. Size=XL|Color=Red');
+      return null;
+    }
+
+    const sku = reader.text('variant_sku');
+    const barcode = reader.text('variant_barcode');
+    const variant: VariantPlan = {
+      line,
+      name: reader.text('variant_name') ?? Object.values(options).join(' / '),
+      sku,
+      barcode,
+      price: reader.number('variant_price'),
+      compareAtPrice: reader.number('variant_compare_at_price'),
+      dealerPrice: reader.number('variant_dealer_price'),
+      options,
+      position: plan.variants.length,
+      media: reader.list('variant_media') ?? [],
+    };
+
+    const quantity = reader.number('variant_quantity', { integer: true });
+    const lowStockThreshold = reader.number('variant_low_stock_threshold', { integer: true });
+    if (quantity !== undefined || lowStockThreshold !== undefined) {
+      variant.inventory = { quantity: quantity ?? 0, lowStockThreshold };
+    }
+
+    this.checkMedia(reader, 'variant_media', variant.media);
+    variant.existingId = this.checkCode(reader, 'variant_sku', sku, plan, codeOwners, seenCodes);
+    this.checkCode(reader, 'variant_barcode', barcode, plan, codeOwners, seenCodes);
+
+    return variant;
+  }
+
+  /**
+   * SKUs and barcodes must be unique across the file and across products and variants,
+   * except when the row updates the record that already owns the code.
+   * Returns the variant ID when the code belongs to a variant of the product being updated.
+   */
+  private checkCode(
+    reader: RowReader,
+    column: string,
+    code: string | undefined,
+    plan: ProductPlan,
+    codeOwners: Map<string, { productId: string; variantId?: string }>,
+    seenCodes: Map<string, number>,
+  ): string | undefined {
+    if (!code) {
+      return undefined;
+    }
+
+    const firstSeen = seenCodes.get(code);
+    if (firstSeen !== undefined) {
+      reader.error(column, `'${code}' is already used on row ${firstSeen}`);
+      return undefined;
+    }
+    seenCodes.set(code, reader.line);
+
+    const owner = codeOwners.get(code);
+    if (!owner) {
+      return undefined;
+    }
+
+    const isVariantColumn = column.startsWith('variant_');
+    const ownedByTarget = owner.productId === plan.existingId && (isVariantColumn ? !!owner.variantId : !owner.variantId);
+
+    if (!ownedByTarget) {
+      reader.error(column, `'${code}' is already used by another ${owner.variantId ? 'variant' : 'product'}`);
+      return undefined;
+    }
+
+    return owner.variantId;
+  }
+
+  private checkMedia(reader: RowReader, column: string, urls: string[]) {
+    for (const url of urls) {
+      if (!/^https?:\/\//i.test(url)) {
+        reader.error(column, `'${url}' is not an http(s) URL`);
+      }
+    }
+  }
+
+  private checkDuplicate(
+    seen: Map<string, number>,
+    value: string,
+    line: number,
+    column: string,
+    errors: ImportRowError[],
+  ) {
+    const firstSeen = seen.get(value);
+    if (firstSeen !== undefined) {
+      errors.push({ row: line, column, message: `'${value}' is already used on row ${firstSeen}` });
+    } else {
+      seen.set(value, line);
+    }
+  }
+
+  /**
+   * Apply a batch in one transaction. If the batch fails, retry its products one by one
+   * so a single bad product does not hold back the rest.
+   */
+  private async applyBatch(
+    batch: Array<{ plan: ProductPlan; result: ImportProductResult }>,
+    errors: ImportRowError[],
+  ) {
+    try {
+      const ids = await this.prisma.$transaction(
+        async (tx) => {
+          const applied: string[] = [];
+          for (const { plan } of batch) {
+            applied.push(await this.applyPlan(tx, plan));
+          }
+          return applied;
+        },
+        { timeout: 60000 },
+      );
+
+      batch.forEach(({ plan, result }, index) => {
+        result.productId = ids[index];
+        result.status = plan.existingId ? 'updated' : 'created';
+      });
+
+      return { applied: batch.length, failed: 0 };
+    } catch (error) {
+      if (batch.length === 1) {
+        const [{ plan, result }] = batch;
+        result.status = 'failed';
+        errors.push({ row: plan.rows[0], message: this.describeError(error) });
+        this.logger.warn(`Product import failed for '${plan.handle}': ${error.message}`);
+        return { applied: 0, failed: 1 };
+      }
+
+      let applied = 0;
+      let failed = 0;
+      for (const item of batch) {
+        const outcome = await this.applyBatch([item], errors);
+        applied += outcome.applied;
+        failed += outcome.failed;
+      }
+      return { applied, failed };
+    }
+  }
+
+  private describeError(error: unknown): string {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return 'A product or variant with this SKU, barcode or slug already exists';
+    }
+    return error instanceof Error ? error.message : 'Import failed';
+  }
+
+  /**
+   * Create or update one product with its categories, attributes, media, variants and inventory
+   */
+  private async applyPlan(tx: Prisma.TransactionClient, plan: ProductPlan): Promise<string> {
+    const { slug, ...fields } = plan.data;
+    const data = Object.fromEntries(
+      Object.entries(fields).filter(([, value]) => value !== undefined),
+    ) as Omit<Prisma.ProductCreateInput, 'slug'>;
+
+    let productId: string;
+    const pricesBefore = plan.existingId ? await this.priceHistoryService.capture(plan.existingId, tx) : null;
+
+    if (plan.existingId) {
+      productId = plan.existingId;
+      await tx.product.update({
+        where: { id: productId },
+        data: {
+          ...data,
+          ...(slug && { slug }),
+          ...(plan.variants.length > 0 && { hasVariants: true }),
+        },
+      });
+
+      if (plan.categoryIds) {
+        await tx.productCategory.deleteMany({ where: { productId } });
+      }
+    } else {
+      const product = await tx.product.create({
+        data: {
+          ...data,
+          slug: slug ?? (await this.uniqueSlug(tx, plan.data.name)),
+          hasVariants: plan.variants.length > 0,
+        },
+      });
+      productId = product.id;
+    }
+
+    if (plan.categoryIds && plan.categoryIds.length > 0) {
+      await tx.productCategory.createMany({
+        data: plan.categoryIds.map((categoryId, index) => ({
+          productId,
+          categoryId,
+          isPrimary: index === 0,
+        })),
+      });
+    }
+
+    for (const [position, attribute] of plan.attributes.entries()) {
+      await tx.productAttribute.upsert({
+        where: { productId_name: { productId, name: attribute.name } },
+        update: { value: attribute.value, type: attribute.type },
+        create: { productId, position, ...attribute },
+      });
+    }
+
+    await this.addMedia(tx, { productId }, plan.media);
+
+    if (plan.inventory) {
+      await this.saveInventory(tx, { productId }, plan.inventory);
+    }
+
+    for (const variant of plan.variants) {
+      const variantData = {
+        name: variant.name,
+        sku: variant.sku,
+        barcode: variant.barcode,
+        price: variant.price,
+        compareAtPrice: variant.compareAtPrice,
+        dealerPrice: variant.dealerPrice,
+        options: variant.options,
+      };
+
+      const variantId = variant.existingId
+        ? (await tx.productVariant.update({ where: { id: variant.existingId }, data: variantData })).id
+        : (await tx.productVariant.create({
+            data: { ...variantData, position: variant.position, productId },
+          })).id;
+
+      await this.addMedia(tx, { variantId }, variant.media);
+
+      if (variant.inventory) {
+        await this.saveInventory(tx, { variantId }, variant.inventory);
+      }
+    }
+
+    await this.priceHistoryService.recordChanges(productId, pricesBefore, 'import', undefined, tx);
+
+    return productId;
+  }
+
+  /**
+   * Set imported stock, recording the change in the stock ledger
+   */
+  private async saveInventory(
+    tx: Prisma.TransactionClient,
+    owner: { productId: string } | { variantId: string },
+    inventory: InventoryPlan,
+  ) {
+    const existing = await tx.productInventory.findUnique({
+      where: owner,
+      include: { _count: { select: { warehouseStocks: true, lots: true } } },
+    });
+
+    // Warehouse and lot stock is moved per warehouse and lot, so only the thresholds are imported
+    const data = existing && (existing._count.warehouseStocks > 0 || existing._count.lots > 0)
+      ? { lowStockThreshold: inventory.lowStockThreshold, backorderAllowed: inventory.backorderAllowed }
+      : inventory;
+
+    const saved = await tx.productInventory.upsert({
+      where: owner,
+      update: data,
+      create: { ...owner, ...inventory },
+    });
+
+    await this.ledgerService.record({
+      inventoryId: saved.id,
+      type: StockMovementType.ADJUSTMENT,
+      quantity: saved.quantity - (existing?.quantity ?? 0),
+      reason: 'Catalog import',
+    }, tx);
+  }
+
+  /**
+   * Attach media URLs that are not already on the product or variant
+   */
+  private async addMedia(
+    tx: Prisma.TransactionClient,
+    owner: { productId: string } | { variantId: string },
+    urls: string[],
+  ) {
+    if (urls.length === 0) {
+      return;
+    }
+
+    const existing = await tx.productMedia.findMany({ where: owner, select: { url: true } });
+    const known = new Set(existing.map(media => media.url));
+    const fresh = urls.filter(url => !known.has(url));
+
+    if (fresh.length > 0) {
+      await tx.productMedia.createMany({
+        data: fresh.map((url, index) => ({
+          ...owner,
+          url,
+          position: existing.length + index,
+        })),
+      });
+    }
+  }
+
+  private async uniqueSlug(tx: Prisma.TransactionClient, name: string): Promise<string> {
+    const base = generateSlug(name);
+    let candidate = base;
+    let counter = 0;
+
+    while (await tx.product.findUnique({ where: { slug: candidate }, select: { id: true } })) {
+      counter++;
+      candidate = `${base}-${counter}`;
+    }
+
+    return candidate;
+  }
+}
@@ -1,20 +1,115 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Prisma, ProductType, StockMovementType, ReservationOwnerType, ReservationStatus } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import { ConfigService } from '../config/config.service';
+import { PINCODE_PATTERN } from '../shipping/dto/create-shipping-zone.dto';
+import { ProductStockLedgerService } from './product-stock-ledger.service';
+import { ProductLotService } from './product-lot.service';
 import { UpdateInventoryDto } from './dto/update-inventory.dto';
+import { CreateStockMovementDto, MANUAL_MOVEMENT_TYPES } from './dto/stock-movement.dto';
+
+/**
+ * A component of a bundle and how many of it go into one bundle. Order
+ * snapshots also record the warehouse each component was reserved from
+ */
+export interface BundleComponentLine {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+  warehouseId?: string | null;
+}
+
+/**
+ * Whose hold a reservation is
+ */
+export interface ReservationOwner {
+  type: ReservationOwnerType;
+  id: string;
+}
+
+/**
+ * Stock to move for a product or variant. Bundle products move their
+ * components instead; pass components to use a snapshot taken at order time.
+ * Reservations use warehouseId when given, otherwise a warehouse is picked
+ * using the delivery pincode. They belong to an owner and lapse at expiresAt,
+ * which defaults to the configured hold time; releasing or committing with an
+ * owner settles that owner's holds. Stock is picked from lots first expiry
+ * first; lotId names the lot to release to or restock, which returns default
+ * to the lot the owner was sold. reference, reason and userId go to the stock ledger
+ */
+interface InventoryTarget {
+  productId?: string;
+  variantId?: string;
+  quantity: number;
+  warehouseId?: string | null;
+  lotId?: string | null;
+  pincode?: string | null;
+  components?: BundleComponentLine[] | null;
+  owner?: ReservationOwner;
+  expiresAt?: Date | null;
+  reference?: string | null;
+  reason?: string | null;
+  userId?: string | null;
+}
+
+/**
+ * Default hold time in minutes by owner; 0 holds until released
+ */
+const RESERVATION_TTL_KEYS: Record<ReservationOwnerType, { key: string; minutes: number }> = {
+  [ReservationOwnerType.CART]: { key: 'RESERVATION_TTL_MINUTES', minutes: 15 },
+  [ReservationOwnerType.SESSION]: { key: 'RESERVATION_TTL_MINUTES', minutes: 15 },
+  [ReservationOwnerType.ORDER]: { key: 'ORDER_RESERVATION_TTL_MINUTES', minutes: 30 },
+};
+
+/**
+ * Where reserved stock was taken from; warehouseId is null for items not stocked in any warehouse
+ */
+export interface StockAllocation {
+  productId?: string;
+  variantId?: string;
+  quantity: number;
+  warehouseId: string | null;
+}
+
+export type AllocationStrategy = 'nearest' | 'most_stock';
+
+const stockInclude = {
+  warehouseStocks: {
+    include: {
+      warehouse: { select: { id: true, isActive: true, postalCode: true, priority: true } },
+    },
+  },
+  lots: { where: { quantity: { gt: 0 } } },
+} satisfies Prisma.ProductInventoryInclude;
+
+type InventoryWithStock = Prisma.ProductInventoryGetPayload<{ include: typeof stockInclude }>;
+type WarehouseStockLine = InventoryWithStock['warehouseStocks'][number];
+
+/**
+ * Reserved stock being released or committed, and where it is held
+ */
+type StockHold = { warehouseId: string | null; lotId: string | null; quantity: number };
 
 @Injectable()
 export class ProductInventoryService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly ledgerService: ProductStockLedgerService,
+    private readonly lotService: ProductLotService,
+  ) {}
 
   /**
    * Update inventory for a product
    */
-  async updateForProduct(productId: string, updateInventoryDto: UpdateInventoryDto) {
+  async updateForProduct(productId: string, updateInventoryDto: UpdateInventoryDto, userId?: string) {
     // Check if product exists
     const product = await this.prisma.product.findUnique({
       where: { id: productId },
       include: {
-        inventory: true,
+        inventory: {
+          include: { _count: { select: { warehouseStocks: true } } },
+        },
       },
     });
 
@@ -27,33 +122,26 @@ export class ProductInventoryService {
       throw new NotFoundException(`Product has variants. Please update variant inventory instead.`);
     }
 
-    // Update or create inventory record
-    if (product.inventory) {
-      return this.prisma.productInventory.update({
-        where: { id: product.inventory.id },
-        data: updateInventoryDto,
-      });
-    } else {
-      return this.prisma.productInventory.create({
-        data: {
-          ...updateInventoryDto,
-          product: {
-            connect: { id: productId },
-          },
-        },
-      });
+    if (product.type === ProductType.BUNDLE) {
+      throw new BadRequestException('Bundle stock is computed from its components. Please update component inventory instead.');
     }
+
+    this.assertTotalsUnchanged(product.inventory, updateInventoryDto);
+
+    return this.saveInventory(product.inventory, { product: { connect: { id: productId } } }, updateInventoryDto, userId);
   }
 
   /**
    * Update inventory for a variant
    */
-  async updateForVariant(variantId: string, updateInventoryDto: UpdateInventoryDto) {
+  async updateForVariant(variantId: string, updateInventoryDto: UpdateInventoryDto, userId?: string) {
     // Check if variant exists
     const variant = await this.prisma.productVariant.findUnique({
       where: { id: variantId },
       include: {
-        inventory: true,
+        inventory: {
+          include: { _count: { select: { warehouseStocks: true } } },
+        },
       },
     });
 
@@ -61,35 +149,165 @@ export class ProductInventoryService {
       throw new NotFoundException(`Variant with ID ${variantId} not found`);
     }
 
-    // Update or create inventory record
-    if (variant.inventory) {
-      return this.prisma.productInventory.update({
-        where: { id: variant.inventory.id },
-        data: updateInventoryDto,
+    this.assertTotalsUnchanged(variant.inventory, updateInventoryDto);
+
+    return this.saveInventory(variant.inventory, { variant: { connect: { id: variantId } } }, updateInventoryDto, userId);
+  }
+
+  /**
+   * Book a receipt, damage write-off or adjustment for a product or variant.
+   * Receipts with a lot number go into that lot; lotId moves an existing lot
+   */
+  async recordMovement(
+    target: { productId?: string; variantId?: string },
+    createMovementDto: CreateStockMovementDto,
+    userId?: string,
+  ) {
+    const { type, warehouseId, lotId, lotNumber, reason, reference } = createMovementDto;
+    const quantity = Number(createMovementDto.quantity);
+
+    if (!(MANUAL_MOVEMENT_TYPES as readonly StockMovementType[]).includes(type)) {
+      throw new BadRequestException(`type must be one of ${MANUAL_MOVEMENT_TYPES.join(', ')}`);
+    }
+
+    if (!Number.isInteger(quantity) || quantity === 0 || (type !== StockMovementType.ADJUSTMENT && quantity < 0)) {
+      throw new BadRequestException(
+        type === StockMovementType.ADJUSTMENT
+          ? 'quantity must be a non-zero whole number'
+          : 'quantity must be a positive whole number',
+      );
+    }
+
+    if (lotNumber !== undefined && type !== StockMovementType.RECEIPT) {
+      throw new BadRequestException('lotNumber is only used for receipts. Please give the lotId of the lot to adjust.');
+    }
+
+    if (lotNumber !== undefined && lotId) {
+      throw new BadRequestException('Please give either lotNumber or lotId, not both');
+    }
+
+    const manufacturedAt = createMovementDto.manufacturedAt
+      ? this.lotService.parseDate(createMovementDto.manufacturedAt, 'manufacturedAt')
+      : null;
+    const expiresAt = createMovementDto.expiresAt
+      ? this.lotService.parseDate(createMovementDto.expiresAt, 'expiresAt')
+      : null;
+
+    if ((manufacturedAt || expiresAt) && lotNumber === undefined) {
+      throw new BadRequestException('manufacturedAt and expiresAt are recorded against a lotNumber');
+    }
+
+    const change = type === StockMovementType.DAMAGE ? -quantity : quantity;
+
+    return this.prisma.$transaction(async (tx) => {
+      const inventory = await tx.productInventory.findFirst({
+        where: target.variantId ? { variantId: target.variantId } : { productId: target.productId },
+        include: stockInclude,
       });
-    } else {
-      return this.prisma.productInventory.create({
-        data: {
-          ...updateInventoryDto,
-          variant: {
-            connect: { id: variantId },
-          },
-        },
+
+      if (!inventory) {
+        throw new NotFoundException(`Inventory not found`);
+      }
+
+      const stocked = inventory.warehouseStocks.length > 0;
+      if (stocked && !warehouseId) {
+        throw new BadRequestException('This item is stocked in warehouses. Please specify warehouseId.');
+      }
+
+      if (!stocked && warehouseId) {
+        throw new BadRequestException('This item is not stocked in warehouses yet. Please set its warehouse stock first.');
+      }
+
+      const stock = inventory.warehouseStocks.find(line => line.warehouseId === warehouseId);
+      if (stocked && !stock && !(await tx.warehouse.findUnique({ where: { id: warehouseId } }))) {
+        throw new NotFoundException(`Warehouse with ID ${warehouseId} not found`);
+      }
+
+      const location = stocked ? warehouseId! : null;
+      const available = stocked ? stock?.quantity ?? 0 : inventory.quantity;
+      const lot = lotId
+        ? await tx.stockLot.findFirst({ where: { id: lotId, inventoryId: inventory.id, warehouseId: location } })
+        : null;
+
+      if (lotId && !lot) {
+        throw new NotFoundException(`Lot with ID ${lotId} not found at this location`);
+      }
+
+      // Without a lot, only stock not tracked in any lot can be removed
+      const removable = lot
+        ? lot.quantity
+        : available - inventory.lots
+            .filter(line => line.warehouseId === location)
+            .reduce((total, line) => total + line.quantity, 0);
+
+      if (removable + change < 0) {
+        throw new BadRequestException(
+          lot || removable === available
+            ? `Only ${removable} available to remove`
+            : `Only ${removable} available outside lots. Please give the lotId to remove lot stock.`,
+        );
+      }
+
+      const movedLot = lotNumber !== undefined
+        ? await this.lotService.receive(
+            { inventoryId: inventory.id, warehouseId: location, lotNumber, manufacturedAt, expiresAt },
+            change,
+            tx,
+          )
+        : lot;
+
+      if (lot) {
+        await tx.stockLot.update({
+          where: { id: lot.id },
+          data: { quantity: { increment: change } },
+        });
+      }
+
+      if (stocked) {
+        await tx.warehouseStock.upsert({
+          where: { warehouseId_inventoryId: { warehouseId: warehouseId!, inventoryId: inventory.id } },
+          update: { quantity: { increment: change } },
+          create: { warehouseId: warehouseId!, inventoryId: inventory.id, quantity: change },
+        });
+      }
+
+      await this.ledgerService.record({
+        inventoryId: inventory.id,
+        warehouseId: location,
+        lotId: movedLot?.id,
+        type,
+        quantity: change,
+        reason,
+        reference,
+        userId,
+      }, tx);
+
+      const saved = await tx.productInventory.update({
+        where: { id: inventory.id },
+        data: { quantity: { increment: change } },
       });
-    }
+
+      // Orders may have reserved the stock since it was read
+      if (change < 0 && !(await this.stockCovers(inventory.id, location, tx))) {
+        throw new BadRequestException('Not enough stock left to remove');
+      }
+
+      return saved;
+    });
   }
 
   /**
-   * Check if a product is in stock
+   * Check if a product is in stock, optionally at one warehouse.
+   * Stock held in warehouses counts only when a single warehouse can supply the quantity
    */
-  async isInStock(productId: string, quantity = 1): Promise<boolean> {
+  async isInStock(productId: string, quantity = 1, warehouseId?: string): Promise<boolean> {
     const product = await this.prisma.product.findUnique({
       where: { id: productId },
       include: {
-        inventory: true,
+        inventory: { include: stockInclude },
         variants: {
           include: {
-            inventory: true,
+            inventory: { include: stockInclude },
           },
         },
       },
@@ -99,27 +317,30 @@ export class ProductInventoryService {
       throw new NotFoundException(`Product with ID ${productId} not found`);
     }
 
+    if (product.type === ProductType.BUNDLE) {
+      const availability = await this.getBundleAvailability(productId, warehouseId);
+      return availability.available >= quantity;
+    }
+
     // If product has variants, check if any variant is in stock
     if (product.hasVariants) {
       return product.variants.some(variant => 
-        variant.inventory && variant.inventory.quantity >= quantity
+        this.sellableQuantity(variant.inventory, warehouseId) >= quantity
       );
     }
 
     // Otherwise check the product inventory
-    return product.inventory 
-      ? product.inventory.quantity >= quantity 
-      : false;
+    return this.sellableQuantity(product.inventory, warehouseId) >= quantity;
   }
 
   /**
-   * Check if a specific variant is in stock
+   * Check if a specific variant is in stock, optionally at one warehouse
    */
-  async isVariantInStock(variantId: string, quantity = 1): Promise<boolean> {
+  async isVariantInStock(variantId: string, quantity = 1, warehouseId?: string): Promise<boolean> {
     const variant = await this.prisma.productVariant.findUnique({
       where: { id: variantId },
       include: {
-        inventory: true,
+        inventory: { include: stockInclude },
       },
     });
 
@@ -127,32 +348,42 @@ export class ProductInventoryService {
       throw new NotFoundException(`Variant with ID ${variantId} not found`);
     }
 
-    return variant.inventory 
-      ? variant.inventory.quantity >= quantity 
-      : false;
+    return this.sellableQuantity(variant.inventory, warehouseId) >= quantity;
   }
 
   /**
-   * Reserve inventory for a product or variant
+   * Reserve inventory for a product or variant and report where it was taken from
+   * Pass a transaction client to reserve as part of a larger transaction
    */
-  async reserveInventory(
-    options: {
-      productId?: string;
-      variantId?: string;
-      quantity: number;
-    }
-  ) {
-    const { productId, variantId, quantity } = options;
+  async reserveInventory(options: InventoryTarget, tx?: Prisma.TransactionClient): Promise<StockAllocation[]> {
+    const { productId, variantId } = options;
+    const client = tx ?? this.prisma;
 
     if (!productId && !variantId) {
       throw new Error('Either productId or variantId must be provided');
     }
 
+    if (!options.owner) {
+      throw new Error('A reservation owner must be provided');
+    }
+
+    // A reservation that fails part way must not leave stock half moved
+    if (!tx) {
+      return this.prisma.$transaction(client => this.reserveInventory(options, client));
+    }
+
+    const bundleResult = await this.applyToComponents(options, tx, (component, componentTx) =>
+      this.reserveInventory(component, componentTx),
+    );
+    if (bundleResult) {
+      return bundleResult.flat();
+    }
+
     if (productId) {
-      const product = await this.prisma.product.findUnique({
+      const product = await client.product.findUnique({
         where: { id: productId },
         include: {
-          inventory: true,
+          inventory: { include: stockInclude },
         },
       });
 
@@ -164,121 +395,724 @@ export class ProductInventoryService {
         throw new NotFoundException(`Product with ID ${productId} has no inventory record`);
       }
 
-      if (product.inventory.quantity < quantity) {
-        throw new Error(`Not enough inventory for product ${productId}`);
-      }
+      return this.reserveFrom(product.inventory, options, `product ${productId}`, client);
+    }
 
-      return this.prisma.productInventory.update({
-        where: { id: product.inventory.id },
-        data: {
-          quantity: {
-            decrement: quantity,
-          },
-          reservedQuantity: {
-            increment: quantity,
-          },
-        },
+    const variant = await client.productVariant.findUnique({
+      where: { id: variantId },
+      include: {
+        inventory: { include: stockInclude },
+      },
+    });
+
+    if (!variant) {
+      throw new NotFoundException(`Variant with ID ${variantId} not found`);
+    }
+
+    if (!variant.inventory) {
+      throw new NotFoundException(`Variant with ID ${variantId} has no inventory record`);
+    }
+
+    return this.reserveFrom(variant.inventory, options, `variant ${variantId}`, client);
+  }
+
+  /**
+   * Release reserved inventory for a product or variant back to the warehouse it was reserved from
+   * Pass a transaction client to release as part of a larger transaction
+   */
+  async releaseInventory(options: InventoryTarget, tx?: Prisma.TransactionClient) {
+    const { productId, variantId } = options;
+    const client = tx ?? this.prisma;
+
+    if (!productId && !variantId) {
+      throw new Error('Either productId or variantId must be provided');
+    }
+
+    const bundleResult = await this.applyToComponents(options, tx, (component, componentTx) =>
+      this.releaseInventory(component, componentTx),
+    );
+    if (bundleResult) {
+      return bundleResult;
+    }
+
+    const inventory = await client.productInventory.findFirst({
+      where: variantId ? { variantId } : { productId },
+    });
+
+    if (!inventory) {
+      throw new NotFoundException(variantId ? `Variant inventory not found` : `Product inventory not found`);
+    }
+
+    let updated = inventory;
+    for (const hold of await this.settleReservations(inventory.id, options, ReservationStatus.RELEASED, client)) {
+      updated = await this.moveReserved(inventory.id, hold, StockMovementType.RELEASE, options, client);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Commit reserved inventory once the goods have left the warehouse
+   */
+  async commitReservedInventory(options: InventoryTarget, tx?: Prisma.TransactionClient) {
+    const { productId, variantId } = options;
+    const client = tx ?? this.prisma;
+
+    if (!productId && !variantId) {
+      throw new Error('Either productId or variantId must be provided');
+    }
+
+    const bundleResult = await this.applyToComponents(options, tx, (component, componentTx) =>
+      this.commitReservedInventory(component, componentTx),
+    );
+    if (bundleResult) {
+      return bundleResult;
+    }
+
+    const inventory = await client.productInventory.findFirst({
+      where: variantId ? { variantId } : { productId },
+    });
+
+    if (!inventory) {
+      throw new NotFoundException(`Inventory not found`);
+    }
+
+    let updated = inventory;
+    for (const hold of await this.settleReservations(inventory.id, options, ReservationStatus.COMMITTED, client)) {
+      updated = await this.moveReserved(inventory.id, hold, StockMovementType.SALE, options, client);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Put returned goods back into available stock at the warehouse they were sold from
+   * Pass a transaction client to restock as part of a larger transaction
+   */
+  async restockInventory(options: InventoryTarget, tx?: Prisma.TransactionClient) {
+    const { productId, variantId, quantity } = options;
+    const client = tx ?? this.prisma;
+
+    if (!productId && !variantId) {
+      throw new Error('Either productId or variantId must be provided');
+    }
+
+    const bundleResult = await this.applyToComponents(options, tx, (component, componentTx) =>
+      this.restockInventory(component, componentTx),
+    );
+    if (bundleResult) {
+      return bundleResult;
+    }
+
+    const inventory = await client.productInventory.findFirst({
+      where: variantId ? { variantId } : { productId },
+      include: stockInclude,
+    });
+
+    if (!inventory) {
+      throw new NotFoundException(`Inventory not found`);
+    }
+
+    const stock = this.findStock(inventory, options.warehouseId);
+    if (stock) {
+      await client.warehouseStock.update({
+        where: { id: stock.id },
+        data: { quantity: { increment: quantity } },
       });
     }
 
-    if (variantId) {
-      const variant = await this.prisma.productVariant.findUnique({
-        where: { id: variantId },
-        include: {
-          inventory: true,
-        },
+    const lotId = await this.findReturnLot(inventory.id, stock?.warehouseId ?? null, options, client);
+    if (lotId) {
+      await client.stockLot.update({
+        where: { id: lotId },
+        data: { quantity: { increment: quantity } },
       });
+    }
 
-      if (!variant) {
-        throw new NotFoundException(`Variant with ID ${variantId} not found`);
-      }
+    await this.ledgerService.record({
+      inventoryId: inventory.id,
+      warehouseId: stock?.warehouseId,
+      lotId,
+      type: StockMovementType.RETURN,
+      quantity,
+      ...this.ledgerContext(options),
+    }, client);
 
-      if (!variant.inventory) {
-        throw new NotFoundException(`Variant with ID ${variantId} has no inventory record`);
-      }
+    return client.productInventory.update({
+      where: { id: inventory.id },
+      data: {
+        quantity: {
+          increment: quantity,
+        },
+      },
+    });
+  }
 
-      if (variant.inventory.quantity < quantity) {
-        throw new Error(`Not enough inventory for variant ${variantId}`);
-      }
+  /**
+   * Recalculate an item's stock totals from its warehouses
+   */
+  async syncWarehouseTotals(inventoryId: string, tx?: Prisma.TransactionClient) {
+    const client = tx ?? this.prisma;
+    const totals = await client.warehouseStock.aggregate({
+      where: { inventoryId },
+      _sum: { quantity: true, reservedQuantity: true },
+    });
 
-      return this.prisma.productInventory.update({
-        where: { id: variant.inventory.id },
-        data: {
-          quantity: {
-            decrement: quantity,
-          },
-          reservedQuantity: {
-            increment: quantity,
+    return client.productInventory.update({
+      where: { id: inventoryId },
+      data: {
+        quantity: totals._sum.quantity ?? 0,
+        reservedQuantity: totals._sum.reservedQuantity ?? 0,
+      },
+    });
+  }
+
+  /**
+   * Components of a bundle product, or null when the product is not a bundle
+   */
+  async getBundleComponents(
+    productId: string,
+    tx?: Prisma.TransactionClient,
+  ): Promise<BundleComponentLine[] | null> {
+    const client = tx ?? this.prisma;
+    const product = await client.product.findUnique({
+      where: { id: productId },
+      select: {
+        type: true,
+        bundleItems: {
+          select: { productId: true, variantId: true, quantity: true },
+          orderBy: { position: 'asc' },
+        },
+      },
+    });
+
+    return product?.type === ProductType.BUNDLE ? product.bundleItems : null;
+  }
+
+  /**
+   * How many units of a bundle can be sold from current component stock,
+   * optionally at one warehouse. Inactive components make the bundle unavailable
+   */
+  async getBundleAvailability(bundleId: string, warehouseId?: string) {
+    const bundle = await this.prisma.product.findUnique({
+      where: { id: bundleId },
+      include: {
+        bundleItems: {
+          orderBy: { position: 'asc' },
+          include: {
+            product: { select: { name: true, isActive: true, inventory: { include: stockInclude } } },
+            variant: { select: { name: true, isActive: true, inventory: { include: stockInclude } } },
           },
         },
-      });
+      },
+    });
+
+    if (!bundle || bundle.type !== ProductType.BUNDLE) {
+      throw new NotFoundException(`Bundle with ID ${bundleId} not found`);
     }
+
+    const components = bundle.bundleItems.map(item => {
+      const active = item.product.isActive && (!item.variant || item.variant.isActive);
+      const inStock = this.sellableQuantity(item.variant ? item.variant.inventory : item.product.inventory, warehouseId);
+
+      return {
+        productId: item.productId,
+        variantId: item.variantId,
+        name: item.variant ? `${item.product.name} - ${item.variant.name}` : item.product.name,
+        quantity: item.quantity,
+        inStock,
+        maxBundles: active ? Math.floor(inStock / item.quantity) : 0,
+      };
+    });
+
+    return {
+      bundleId,
+      available: components.length > 0 ? Math.min(...components.map(component => component.maxBundles)) : 0,
+      components,
+    };
   }
 
   /**
-   * Release reserved inventory for a product or variant
+   * Run an inventory operation on each component of a bundle, scaled by the
+   * bundle quantity. Returns null when the target is not a bundle
    */
-  async releaseInventory(
-    options: {
-      productId?: string;
-      variantId?: string;
-      quantity: number;
+  private async applyToComponents<T>(
+    options: InventoryTarget,
+    tx: Prisma.TransactionClient | undefined,
+    apply: (component: InventoryTarget, tx: Prisma.TransactionClient) => Promise<T>,
+  ): Promise<T[] | null> {
+    if (options.variantId || !options.productId) {
+      return null;
     }
-  ) {
-    const { productId, variantId, quantity } = options;
 
-    if (!productId && !variantId) {
-      throw new Error('Either productId or variantId must be provided');
+    const components = options.components ?? await this.getBundleComponents(options.productId, tx);
+    if (!components) {
+      return null;
     }
 
-    if (productId) {
-      const product = await this.prisma.product.findUnique({
-        where: { id: productId },
-        include: {
-          inventory: true,
+    if (components.length === 0) {
+      throw new BadRequestException(`Bundle ${options.productId} has no components`);
+    }
+
+    // All components move together or not at all
+    const run = async (client: Prisma.TransactionClient) => {
+      const results: T[] = [];
+      for (const component of components) {
+        const quantity = component.quantity * options.quantity;
+        const context = {
+          warehouseId: component.warehouseId ?? options.warehouseId,
+          pincode: options.pincode,
+          owner: options.owner,
+          expiresAt: options.expiresAt,
+          ...this.ledgerContext(options),
+        };
+        results.push(await apply(
+          component.variantId
+            ? { variantId: component.variantId, quantity, ...context }
+            : { productId: component.productId, quantity, ...context },
+          client,
+        ));
+      }
+      return results;
+    };
+
+    return tx ? run(tx) : this.prisma.$transaction(run);
+  }
+
+  /**
+   * Move stock into reservation, from a warehouse when the item is stocked in
+   * warehouses, taking lots first expiry first. Each lot gets its own hold
+   */
+  private async reserveFrom(
+    inventory: InventoryWithStock,
+    options: InventoryTarget,
+    label: string,
+    client: Prisma.TransactionClient,
+  ): Promise<StockAllocation[]> {
+    const { quantity } = options;
+    const target = options.variantId ? { variantId: options.variantId } : { productId: options.productId };
+    const stock = inventory.warehouseStocks.length > 0
+      ? await this.allocateWarehouse(inventory, options, label)
+      : null;
+    const warehouseId = stock?.warehouseId ?? null;
+
+    const picks = this.lotService.pick(inventory.lots, warehouseId, stock?.quantity ?? inventory.quantity, quantity);
+    if (!picks) {
+      throw new Error(`Not enough inventory for ${label}`);
+    }
+
+    // Each decrement only applies while the stock is still there, so concurrent
+    // reservations for the last units cannot both succeed
+    const updated = await client.productInventory.updateMany({
+      where: { id: inventory.id, quantity: { gte: quantity } },
+      data: {
+        quantity: {
+          decrement: quantity,
+        },
+        reservedQuantity: {
+          increment: quantity,
+        },
+      },
+    });
+
+    const located = stock
+      ? await client.warehouseStock.updateMany({
+          where: { id: stock.id, quantity: { gte: quantity } },
+          data: {
+            quantity: { decrement: quantity },
+            reservedQuantity: { increment: quantity },
+          },
+        })
+      : updated;
+
+    if (updated.count === 0 || located.count === 0) {
+      throw new Error(`Not enough inventory for ${label}`);
+    }
+
+    for (const pick of picks.filter(line => line.lotId)) {
+      const lot = await client.stockLot.updateMany({
+        where: { id: pick.lotId!, quantity: { gte: pick.quantity } },
+        data: {
+          quantity: { decrement: pick.quantity },
+          reservedQuantity: { increment: pick.quantity },
         },
       });
 
-      if (!product || !product.inventory) {
-        throw new NotFoundException(`Product inventory not found`);
+      if (lot.count === 0) {
+        throw new Error(`Not enough inventory for ${label}`);
       }
+    }
+
+    if (!(await this.stockCovers(inventory.id, warehouseId, client))) {
+      throw new Error(`Not enough inventory for ${label}`);
+    }
+
+    await this.ledgerService.record(picks.map(pick => ({
+      inventoryId: inventory.id,
+      warehouseId,
+      lotId: pick.lotId,
+      type: StockMovementType.RESERVATION,
+      quantity: -pick.quantity,
+      reservedQuantity: pick.quantity,
+      ...this.ledgerContext(options),
+    })), client);
+
+    const owner = options.owner!;
+    const expiresAt = options.expiresAt !== undefined ? options.expiresAt : await this.reservationExpiry(owner.type);
+    await client.stockReservation.createMany({
+      data: picks.map(pick => ({
+        inventoryId: inventory.id,
+        warehouseId,
+        lotId: pick.lotId,
+        ownerType: owner.type,
+        ownerId: owner.id,
+        quantity: pick.quantity,
+        expiresAt,
+      })),
+    });
+
+    return [{ ...target, quantity, warehouseId }];
+  }
+
+  /**
+   * Whether stock at a location is still whole after taking from it: nothing
+   * negative, and its lots fit in what is left. Stock outside lots has no row
+   * of its own, so this is the only guard against overselling it
+   */
+  private async stockCovers(
+    inventoryId: string,
+    warehouseId: string | null,
+    client: Prisma.TransactionClient,
+  ): Promise<boolean> {
+    const [inventory, stock, lots] = await Promise.all([
+      client.productInventory.findUniqueOrThrow({ where: { id: inventoryId } }),
+      warehouseId
+        ? client.warehouseStock.findUnique({ where: { warehouseId_inventoryId: { warehouseId, inventoryId } } })
+        : null,
+      client.stockLot.findMany({ where: { inventoryId, warehouseId }, select: { quantity: true } }),
+    ]);
+    const remaining = warehouseId ? stock?.quantity ?? 0 : inventory.quantity;
+
+    return inventory.quantity >= 0
+      && remaining >= 0
+      && lots.every(lot => lot.quantity >= 0)
+      && lots.reduce((total, lot) => total + lot.quantity, 0) <= remaining;
+  }
+
+  /**
+   * When the owner's holds lapse unless renewed
+   */
+  private async reservationExpiry(ownerType: ReservationOwnerType): Promise<Date | null> {
+    const { key, minutes: fallback } = RESERVATION_TTL_KEYS[ownerType];
+    const configured = Number(await this.configService.get<number | string>(key, fallback));
+    const minutes = Number.isFinite(configured) ? configured : fallback;
 
-      return this.prisma.productInventory.update({
-        where: { id: product.inventory.id },
+    return minutes > 0 ? new Date(Date.now() + minutes * 60 * 1000) : null;
+  }
+
+  /**
+   * Close the owner's active holds on an item, oldest first, up to the quantity
+   * being released or committed, and return where that stock is held.
+   * Without an owner, or for holds taken before reservations were recorded,
+   * the quantity is moved as given
+   */
+  private async settleReservations(
+    inventoryId: string,
+    options: InventoryTarget,
+    status: ReservationStatus,
+    client: Prisma.TransactionClient,
+  ): Promise<StockHold[]> {
+    const untracked = [{ warehouseId: options.warehouseId ?? null, lotId: options.lotId ?? null, quantity: options.quantity }];
+
+    if (!options.owner) {
+      return untracked;
+    }
+
+    const reservations = await client.stockReservation.findMany({
+      where: { inventoryId, ownerType: options.owner.type, ownerId: options.owner.id },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (reservations.length === 0) {
+      return untracked;
+    }
+
+    // Holds that already lapsed were returned to stock by the sweeper
+    const active = reservations.filter(reservation =>
+      reservation.status === ReservationStatus.ACTIVE
+      && (!options.warehouseId || reservation.warehouseId === options.warehouseId),
+    );
+
+    const holds: StockHold[] = [];
+    let remaining = options.quantity;
+
+    for (const reservation of active) {
+      if (remaining <= 0) {
+        break;
+      }
+
+      const quantity = Math.min(remaining, reservation.quantity);
+      remaining -= quantity;
+
+      await client.stockReservation.update({
+        where: { id: reservation.id },
+        data: quantity === reservation.quantity
+          ? { status, settledAt: new Date() }
+          : { quantity: { decrement: quantity } },
+      });
+
+      holds.push({ warehouseId: reservation.warehouseId, lotId: reservation.lotId, quantity });
+    }
+
+    return holds;
+  }
+
+  /**
+   * Take stock out of reservation at a warehouse and lot, back into available
+   * stock on release or out of the building on a sale
+   */
+  private async moveReserved(
+    inventoryId: string,
+    hold: StockHold,
+    type: typeof StockMovementType.RELEASE | typeof StockMovementType.SALE,
+    options: InventoryTarget,
+    client: Prisma.TransactionClient,
+  ) {
+    const inventory = await client.productInventory.findUniqueOrThrow({
+      where: { id: inventoryId },
+      include: stockInclude,
+    });
+    const available = type === StockMovementType.RELEASE ? hold.quantity : 0;
+
+    const stock = this.findStock(inventory, hold.warehouseId);
+    const moved = Math.min(hold.quantity, stock ? stock.reservedQuantity : inventory.reservedQuantity);
+    if (stock) {
+      await client.warehouseStock.update({
+        where: { id: stock.id },
         data: {
-          quantity: {
-            increment: quantity,
-          },
-          reservedQuantity: {
-            decrement: Math.min(quantity, product.inventory.reservedQuantity),
-          },
+          quantity: { increment: available },
+          reservedQuantity: { decrement: moved },
         },
       });
     }
 
-    if (variantId) {
-      const variant = await this.prisma.productVariant.findUnique({
-        where: { id: variantId },
-        include: {
-          inventory: true,
+    const lot = hold.lotId ? await client.stockLot.findUnique({ where: { id: hold.lotId } }) : null;
+    if (lot) {
+      await client.stockLot.update({
+        where: { id: lot.id },
+        data: {
+          quantity: { increment: available },
+          reservedQuantity: { decrement: Math.min(hold.quantity, lot.reservedQuantity) },
         },
       });
+    }
 
-      if (!variant || !variant.inventory) {
-        throw new NotFoundException(`Variant inventory not found`);
-      }
+    await this.ledgerService.record({
+      inventoryId,
+      warehouseId: stock?.warehouseId,
+      lotId: lot?.id,
+      type,
+      quantity: available,
+      reservedQuantity: -moved,
+      ...this.ledgerContext(options),
+    }, client);
 
-      return this.prisma.productInventory.update({
-        where: { id: variant.inventory.id },
-        data: {
-          quantity: {
-            increment: quantity,
-          },
-          reservedQuantity: {
-            decrement: Math.min(quantity, variant.inventory.reservedQuantity),
-          },
+    return client.productInventory.update({
+      where: { id: inventoryId },
+      data: {
+        quantity: {
+          increment: available,
+        },
+        reservedQuantity: {
+          decrement: Math.min(hold.quantity, inventory.reservedQuantity),
         },
+      },
+    });
+  }
+
+  /**
+   * Pick the warehouse to supply a reservation: the requested one, else by the
+   * configured strategy among active warehouses that can supply all of it
+   */
+  private async allocateWarehouse(
+    inventory: InventoryWithStock,
+    options: InventoryTarget,
+    label: string,
+  ): Promise<WarehouseStockLine> {
+    const sellable = (stock: WarehouseStockLine) =>
+      stock.quantity - this.lotService.unsellableQuantity(inventory.lots, stock.warehouseId);
+    const candidates = inventory.warehouseStocks.filter(stock =>
+      stock.warehouse.isActive && sellable(stock) >= options.quantity,
+    );
+
+    if (options.warehouseId) {
+      const chosen = candidates.find(stock => stock.warehouseId === options.warehouseId);
+      if (!chosen) {
+        throw new Error(`Not enough inventory for ${label} at warehouse ${options.warehouseId}`);
+      }
+      return chosen;
+    }
+
+    if (candidates.length === 0) {
+      throw new Error(`Not enough inventory for ${label}`);
+    }
+
+    const strategy = (await this.configService.get<AllocationStrategy>('INVENTORY_ALLOCATION_STRATEGY', 'nearest')) || 'nearest';
+    const pincode = strategy === 'nearest' && options.pincode && PINCODE_PATTERN.test(options.pincode)
+      ? options.pincode
+      : null;
+
+    return [...candidates].sort((a, b) =>
+      (pincode ? this.compareDistance(pincode, a.warehouse.postalCode, b.warehouse.postalCode) : 0)
+      || sellable(b) - sellable(a)
+      || b.warehouse.priority - a.warehouse.priority,
+    )[0];
+  }
+
+  /**
+   * Pincodes are assigned region by region, so a longer shared prefix means a
+   * nearer sorting district; the numeric gap breaks ties within a district
+   */
+  private compareDistance(pincode: string, a: string, b: string): number {
+    const shared = (other: string) => {
+      let length = 0;
+      while (length < pincode.length && pincode[length] === other[length]) {
+        length++;
+      }
+      return length;
+    };
+    const gap = (other: string) => Math.abs(parseInt(other, 10) - parseInt(pincode, 10));
+
+    return shared(b) - shared(a) || gap(a) - gap(b);
+  }
+
+  /**
+   * The warehouse stock line to return or commit stock against. Stock reserved
+   * before the item was stocked in warehouses goes to the one holding the most
+   */
+  private findStock(inventory: InventoryWithStock, warehouseId?: string | null): WarehouseStockLine | undefined {
+    return inventory.warehouseStocks.find(stock => stock.warehouseId === warehouseId)
+      ?? [...inventory.warehouseStocks].sort((a, b) => b.quantity - a.quantity)[0];
+  }
+
+  /**
+   * The lot returned goods go back into: the one given, else the lot the
+   * owner was last sold from at that location
+   */
+  private async findReturnLot(
+    inventoryId: string,
+    warehouseId: string | null,
+    options: InventoryTarget,
+    client: Prisma.TransactionClient,
+  ): Promise<string | null> {
+    if (options.lotId) {
+      const lot = await client.stockLot.findFirst({ where: { id: options.lotId, inventoryId, warehouseId } });
+      if (!lot) {
+        throw new NotFoundException(`Lot with ID ${options.lotId} not found at this location`);
+      }
+      return lot.id;
+    }
+
+    if (!options.owner) {
+      return null;
+    }
+
+    const sold = await client.stockReservation.findFirst({
+      where: {
+        inventoryId,
+        ownerType: options.owner.type,
+        ownerId: options.owner.id,
+        status: ReservationStatus.COMMITTED,
+        lot: { warehouseId },
+      },
+      orderBy: { settledAt: 'desc' },
+    });
+
+    return sold?.lotId ?? null;
+  }
+
+  /**
+   * Quantity one warehouse can supply: the given warehouse, or the best-stocked
+   * active one. Stock in expired or blocked lots cannot be sold
+   */
+  private sellableQuantity(inventory: InventoryWithStock | null, warehouseId?: string): number {
+    if (!inventory) {
+      return 0;
+    }
+
+    if (inventory.warehouseStocks.length === 0) {
+      return warehouseId ? 0 : inventory.quantity - this.lotService.unsellableQuantity(inventory.lots, null);
+    }
+
+    const stocks = inventory.warehouseStocks.filter(stock =>
+      stock.warehouse.isActive && (!warehouseId || stock.warehouseId === warehouseId),
+    );
+
+    return Math.max(0, ...stocks.map(stock =>
+      stock.quantity - this.lotService.unsellableQuantity(inventory.lots, stock.warehouseId),
+    ));
+  }
+
+  /**
+   * Update or create an inventory record, recording any change of stock in the ledger
+   */
+  private async saveInventory(
+    inventory: { id: string; quantity: number; reservedQuantity: number } | null,
+    owner: Pick<Prisma.ProductInventoryCreateInput, 'product' | 'variant'>,
+    updateInventoryDto: UpdateInventoryDto,
+    userId?: string,
+  ) {
+    const { reason, ...data } = updateInventoryDto;
+
+    return this.prisma.$transaction(async (tx) => {
+      const saved = inventory
+        ? await tx.productInventory.update({ where: { id: inventory.id }, data })
+        : await tx.productInventory.create({ data: { ...data, ...owner } });
+
+      const lotted = await tx.stockLot.aggregate({
+        where: { inventoryId: saved.id, warehouseId: null },
+        _sum: { quantity: true },
       });
+      if (saved.quantity < (lotted._sum.quantity ?? 0)) {
+        throw new BadRequestException(
+          `${lotted._sum.quantity} units are held in lots. Please write off lot stock with a movement instead.`,
+        );
+      }
+
+      await this.ledgerService.record({
+        inventoryId: saved.id,
+        type: StockMovementType.ADJUSTMENT,
+        quantity: saved.quantity - (inventory?.quantity ?? 0),
+        reservedQuantity: saved.reservedQuantity - (inventory?.reservedQuantity ?? 0),
+        reason,
+        userId,
+      }, tx);
+
+      return saved;
+    });
+  }
+
+  /**
+   * Ledger details carried by an inventory operation
+   */
+  private ledgerContext(options: InventoryTarget) {
+    return { reference: options.reference, reason: options.reason, userId: options.userId };
+  }
+
+  /**
+   * Stock held in warehouses is changed per warehouse so the totals stay in step
+   */
+  private assertTotalsUnchanged(
+    inventory: { quantity: number; reservedQuantity: number; _count: { warehouseStocks: number } } | null,
+    updateInventoryDto: UpdateInventoryDto,
+  ) {
+    if (!inventory || inventory._count.warehouseStocks === 0) {
+      return;
+    }
+
+    const { quantity, reservedQuantity } = updateInventoryDto;
+    if (quantity !== inventory.quantity || (reservedQuantity !== undefined && reservedQuantity !== inventory.reservedQuantity)) {
+      throw new BadRequestException('This item is stocked in warehouses. Please adjust its stock per warehouse instead.');
     }
   }
 
@@ -0,0 +1,401 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Prisma, StockLot } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ConfigService } from '../config/config.service';
+import { StockLotQueryDto, ExpiringLotQueryDto, UpdateStockLotDto, LotStatus } from './dto/stock-lot.dto';
+
+/**
+ * Stock taken from one lot, or from the item's untracked stock when lotId is null
+ */
+export interface LotPick {
+  lotId: string | null;
+  quantity: number;
+}
+
+/**
+ * A lot being received at a location
+ */
+export interface LotReceipt {
+  inventoryId: string;
+  warehouseId: string | null;
+  lotNumber: string;
+  manufacturedAt?: Date | null;
+  expiresAt?: Date | null;
+}
+
+type LotLine = Pick<StockLot, 'id' | 'warehouseId' | 'quantity' | 'expiresAt' | 'isBlocked' | 'createdAt'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const lotInclude = {
+  inventory: {
+    select: {
+      productId: true,
+      variantId: true,
+      product: { select: { name: true, sku: true } },
+      variant: { select: { name: true, sku: true, product: { select: { id: true, name: true } } } },
+    },
+  },
+  warehouse: { select: { id: true, code: true, name: true } },
+} satisfies Prisma.StockLotInclude;
+
+type LotWithItem = Prisma.StockLotGetPayload<{ include: typeof lotInclude }>;
+
+@Injectable()
+export class ProductLotService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * List lots, soonest expiry first
+   */
+  async findAll(query: StockLotQueryDto) {
+    const page = Number(query.page) || 1;
+    const limit = Math.min(Number(query.limit) || 20, 100);
+    const skip = (page - 1) * limit;
+    const now = new Date();
+
+    const where: Prisma.StockLotWhereInput = {
+      ...(query.variantId
+        ? { inventory: { variantId: query.variantId } }
+        : query.productId ? { inventory: { productId: query.productId } } : {}),
+      ...(query.warehouseId ? { warehouseId: query.warehouseId } : {}),
+      ...(query.lotNumber ? { lotNumber: { contains: query.lotNumber, mode: 'insensitive' } } : {}),
+      ...(String(query.includeEmpty) === 'true'
+        ? {}
+        : { OR: [{ quantity: { gt: 0 } }, { reservedQuantity: { gt: 0 } }] }),
+      ...this.statusWhere(query.status, now),
+    };
+
+    const [lots, total] = await Promise.all([
+      this.prisma.stockLot.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: [{ expiresAt: { sort: 'asc', nulls: 'last' } }, { createdAt: 'asc' }],
+        include: lotInclude,
+      }),
+      this.prisma.stockLot.count({ where }),
+    ]);
+
+    return {
+      data: lots.map(lot => this.present(lot, now)),
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Lots with stock that expire within the warning window, and those already
+   * expired that still need writing off
+   */
+  async findExpiring(query: ExpiringLotQueryDto) {
+    const days = query.days !== undefined
+      ? Number(query.days)
+      : Number(await this.configService.get<number | string>('LOT_EXPIRY_WARNING_DAYS', 60)) || 60;
+
+    if (!Number.isInteger(days) || days < 1) {
+      throw new BadRequestException('days must be a whole number of at least 1');
+    }
+
+    const now = new Date();
+    const lots = await this.prisma.stockLot.findMany({
+      where: {
+        expiresAt: { lte: new Date(now.getTime() + days * DAY_MS) },
+        OR: [{ quantity: { gt: 0 } }, { reservedQuantity: { gt: 0 } }],
+        ...(query.warehouseId ? { warehouseId: query.warehouseId } : {}),
+      },
+      orderBy: { expiresAt: 'asc' },
+      include: lotInclude,
+    });
+
+    const rows = lots.map(lot => this.present(lot, now));
+    const expired = rows.filter(row => row.status === 'expired');
+    const expiring = rows.filter(row => row.status !== 'expired');
+    const units = (list: typeof rows) => list.reduce((total, row) => total + row.quantity + row.reservedQuantity, 0);
+
+    return {
+      checkedAt: now,
+      days,
+      summary: {
+        expiring: expiring.length,
+        expiringQuantity: units(expiring),
+        expired: expired.length,
+        expiredQuantity: units(expired),
+      },
+      expiring,
+      expired,
+    };
+  }
+
+  /**
+   * Block or unblock a lot, or correct its dates
+   */
+  async update(id: string, updateLotDto: UpdateStockLotDto) {
+    const lot = await this.prisma.stockLot.findUnique({ where: { id } });
+
+    if (!lot) {
+      throw new NotFoundException(`Lot with ID ${id} not found`);
+    }
+
+    const manufacturedAt = updateLotDto.manufacturedAt !== undefined
+      ? this.parseDate(updateLotDto.manufacturedAt, 'manufacturedAt')
+      : lot.manufacturedAt;
+    const expiresAt = updateLotDto.expiresAt !== undefined
+      ? this.parseDate(updateLotDto.expiresAt, 'expiresAt')
+      : lot.expiresAt;
+    this.assertDateOrder(manufacturedAt, expiresAt);
+
+    const isBlocked = updateLotDto.isBlocked ?? lot.isBlocked;
+
+    const updated = await this.prisma.stockLot.update({
+      where: { id },
+      data: {
+        manufacturedAt,
+        expiresAt,
+        isBlocked,
+        blockedReason: isBlocked ? updateLotDto.blockedReason ?? lot.blockedReason : null,
+      },
+      include: lotInclude,
+    });
+
+    return this.present(updated, new Date());
+  }
+
+  /**
+   * Add received stock to a lot at a location, creating the lot on first receipt.
+   * Dates left out are taken from the same lot held elsewhere
+   */
+  async receive(receipt: LotReceipt, quantity: number, tx?: Prisma.TransactionClient) {
+    const client = tx ?? this.prisma;
+    const lotNumber = receipt.lotNumber.trim();
+
+    if (!lotNumber) {
+      throw new BadRequestException('lotNumber cannot be empty');
+    }
+
+    this.assertDateOrder(receipt.manufacturedAt ?? null, receipt.expiresAt ?? null);
+
+    const existing = await client.stockLot.findFirst({
+      where: { inventoryId: receipt.inventoryId, warehouseId: receipt.warehouseId, lotNumber },
+    });
+
+    if (existing) {
+      if (receipt.expiresAt && existing.expiresAt && receipt.expiresAt.getTime() !== existing.expiresAt.getTime()) {
+        throw new BadRequestException(
+          `Lot ${lotNumber} is recorded as expiring on ${existing.expiresAt.toISOString().slice(0, 10)}`,
+        );
+      }
+
+      return client.stockLot.update({
+        where: { id: existing.id },
+        data: {
+          quantity: { increment: quantity },
+          manufacturedAt: existing.manufacturedAt ?? receipt.manufacturedAt,
+          expiresAt: existing.expiresAt ?? receipt.expiresAt,
+        },
+      });
+    }
+
+    const sibling = await client.stockLot.findFirst({
+      where: { inventoryId: receipt.inventoryId, lotNumber },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return client.stockLot.create({
+      data: {
+        inventoryId: receipt.inventoryId,
+        warehouseId: receipt.warehouseId,
+        lotNumber,
+        manufacturedAt: receipt.manufacturedAt ?? sibling?.manufacturedAt,
+        expiresAt: receipt.expiresAt ?? sibling?.expiresAt,
+        isBlocked: sibling?.isBlocked ?? false,
+        blockedReason: sibling?.blockedReason,
+        quantity,
+      },
+    });
+  }
+
+  /**
+   * Move available stock between warehouses lot by lot, first expiry first,
+   * or from one lot when lotId is given. Call after taking the quantity off the
+   * source warehouse's stock. Returns null when the source cannot supply it
+   */
+  async transfer(
+    inventoryId: string,
+    from: { warehouseId: string; quantity: number },
+    toWarehouseId: string,
+    quantity: number,
+    lotId: string | null | undefined,
+    tx: Prisma.TransactionClient,
+  ): Promise<{ fromLotId: string | null; toLotId: string | null; quantity: number }[] | null> {
+    const lots = await tx.stockLot.findMany({
+      where: { inventoryId, warehouseId: from.warehouseId, quantity: { gt: 0 } },
+    });
+
+    if (lotId && !lots.some(lot => lot.id === lotId)) {
+      throw new BadRequestException(`Lot ${lotId} has no stock at the source warehouse`);
+    }
+
+    const picks = this.pick(lots, from.warehouseId, from.quantity, quantity, lotId);
+    if (!picks) {
+      return null;
+    }
+
+    const moves: { fromLotId: string | null; toLotId: string | null; quantity: number }[] = [];
+
+    for (const pick of picks) {
+      const lot = lots.find(line => line.id === pick.lotId);
+      if (!lot) {
+        moves.push({ fromLotId: null, toLotId: null, quantity: pick.quantity });
+        continue;
+      }
+
+      const taken = await tx.stockLot.updateMany({
+        where: { id: lot.id, quantity: { gte: pick.quantity } },
+        data: { quantity: { decrement: pick.quantity } },
+      });
+      if (taken.count === 0) {
+        return null;
+      }
+
+      const received = await this.receive(
+        { inventoryId, warehouseId: toWarehouseId, lotNumber: lot.lotNumber, manufacturedAt: lot.manufacturedAt, expiresAt: lot.expiresAt },
+        pick.quantity,
+        tx,
+      );
+
+      moves.push({ fromLotId: lot.id, toLotId: received.id, quantity: pick.quantity });
+    }
+
+    // Stock outside lots has no row of its own; lots must still fit in what is left
+    const [stock, lotted] = await Promise.all([
+      tx.warehouseStock.findUniqueOrThrow({
+        where: { warehouseId_inventoryId: { warehouseId: from.warehouseId, inventoryId } },
+      }),
+      tx.stockLot.aggregate({
+        where: { inventoryId, warehouseId: from.warehouseId },
+        _sum: { quantity: true },
+      }),
+    ]);
+
+    return (lotted._sum.quantity ?? 0) > stock.quantity ? null : moves;
+  }
+
+  /**
+   * Choose stock at a location to supply a quantity: unexpired, unblocked lots
+   * first expiry first, then stock not tracked in any lot. With lotId, only
+   * that lot is used, whatever its state. Returns null when there is not enough
+   */
+  pick(
+    lots: LotLine[],
+    warehouseId: string | null,
+    locationQuantity: number,
+    quantity: number,
+    lotId?: string | null,
+  ): LotPick[] | null {
+    const here = lots.filter(lot => lot.warehouseId === warehouseId);
+
+    if (lotId) {
+      const lot = here.find(line => line.id === lotId);
+      return lot && lot.quantity >= quantity ? [{ lotId, quantity }] : null;
+    }
+
+    const now = new Date();
+    const sellable = here
+      .filter(lot => this.isSellable(lot, now) && lot.quantity > 0)
+      .sort((a, b) =>
+        (a.expiresAt?.getTime() ?? Infinity) - (b.expiresAt?.getTime() ?? Infinity)
+        || a.createdAt.getTime() - b.createdAt.getTime(),
+      );
+
+    const picks: LotPick[] = [];
+    let remaining = quantity;
+
+    for (const lot of sellable) {
+      if (remaining <= 0) {
+        break;
+      }
+
+      const taken = Math.min(remaining, lot.quantity);
+      picks.push({ lotId: lot.id, quantity: taken });
+      remaining -= taken;
+    }
+
+    if (remaining > 0) {
+      const untracked = locationQuantity - here.reduce((total, lot) => total + lot.quantity, 0);
+      if (untracked < remaining) {
+        return null;
+      }
+      picks.push({ lotId: null, quantity: remaining });
+    }
+
+    return picks;
+  }
+
+  /**
+   * Stock at a location that cannot be sold because its lot expired or is blocked
+   */
+  unsellableQuantity(lots: LotLine[], warehouseId: string | null): number {
+    const now = new Date();
+    return lots
+      .filter(lot => lot.warehouseId === warehouseId && !this.isSellable(lot, now))
+      .reduce((total, lot) => total + lot.quantity, 0);
+  }
+
+  isSellable(lot: Pick<StockLot, 'expiresAt' | 'isBlocked'>, now = new Date()): boolean {
+    return !lot.isBlocked && (!lot.expiresAt || lot.expiresAt > now);
+  }
+
+  parseDate(value: string, field: string): Date {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException(`${field} must be a valid date`);
+    }
+    return date;
+  }
+
+  private assertDateOrder(manufacturedAt: Date | null, expiresAt: Date | null) {
+    if (manufacturedAt && expiresAt && expiresAt <= manufacturedAt) {
+      throw new BadRequestException('expiresAt must be after manufacturedAt');
+    }
+  }
+
+  private statusWhere(status: LotStatus | undefined, now: Date): Prisma.StockLotWhereInput {
+    switch (status) {
+      case 'expired':
+        return { expiresAt: { lte: now } };
+      case 'blocked':
+        return { isBlocked: true };
+      case 'sellable':
+        return { isBlocked: false, AND: [{ OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] }] };
+      default:
+        return {};
+    }
+  }
+
+  private present(lot: LotWithItem, now: Date) {
+    const { inventory, ...rest } = lot;
+    const status: LotStatus = lot.expiresAt && lot.expiresAt <= now
+      ? 'expired'
+      : lot.isBlocked ? 'blocked' : 'sellable';
+
+    return {
+      ...rest,
+      productId: inventory.productId ?? inventory.variant?.product.id ?? null,
+      variantId: inventory.variantId,
+      name: inventory.variant
+        ? `${inventory.variant.product.name} - ${inventory.variant.name}`
+        : inventory.product?.name ?? null,
+      sku: inventory.variant?.sku ?? inventory.product?.sku ?? null,
+      status,
+      daysToExpiry: lot.expiresAt ? Math.floor((lot.expiresAt.getTime() - now.getTime()) / DAY_MS) : null,
+    };
+  }
+}
@@ -1,6 +1,11 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { MediaType } from '@prisma/client';
+import { ConfigService } from '../config/config.service';
+import { StorageService } from '../storage/storage.service';
+import { MediaType, Prisma, ProductMedia } from '@prisma/client';
+import { v4 as uuidv4 } from 'uuid';
+import * as sharp from 'sharp';
+import { MIME_EXTENSIONS } from '../utils/mime-utils';
 
 interface MediaDto {
   url: string;
@@ -10,9 +15,47 @@ interface MediaDto {
   position?: number;
 }
 
+export interface MediaUploadTarget {
+  productId?: string;
+  variantId?: string;
+}
+
+interface MediaDerivative {
+  url: string;
+  storageKey: string;
+  width: number;
+  height: number;
+  size: number;
+}
+
+const MEDIA_TYPES: Record<string, MediaType> = {
+  'image/jpeg': MediaType.IMAGE,
+  'image/png': MediaType.IMAGE,
+  'image/gif': MediaType.IMAGE,
+  'image/webp': MediaType.IMAGE,
+  'image/avif': MediaType.IMAGE,
+  'video/mp4': MediaType.VIDEO,
+  'video/webm': MediaType.VIDEO,
+  'application/pdf': MediaType.DOCUMENT,
+  'model/gltf-binary': MediaType.MODEL_3D,
+};
+
+// Longest edge of each resized copy generated for uploaded images
+const DERIVATIVE_SIZES: Record<string, number> = {
+  thumbnail: 150,
+  medium: 600,
+  large: 1200,
+};
+
 @Injectable()
 export class ProductMediaService {
-  constructor(private readonly prisma: PrismaService) {}
+  private readonly logger = new Logger(ProductMediaService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly storageService: StorageService,
+  ) {}
 
   /**
    * Add media to a product
@@ -108,6 +151,89 @@ export class ProductMediaService {
     return createdMedia;
   }
 
+  /**
+   * Store uploaded files and add them as media to a product or variant.
+   * Every file is checked before anything is stored; images get their
+   * dimensions recorded and resized webp copies generated
+   */
+  async upload(target: MediaUploadTarget, files: Express.Multer.File[], details: Omit<MediaDto, 'url' | 'type'> = {}) {
+    if (!files?.length) {
+      throw new BadRequestException('At least one file is required');
+    }
+
+    const owner = target.variantId
+      ? await this.prisma.productVariant.findUnique({ where: { id: target.variantId } })
+      : await this.prisma.product.findUnique({ where: { id: target.productId } });
+
+    if (!owner) {
+      throw target.variantId
+        ? new NotFoundException(`Variant with ID ${target.variantId} not found`)
+        : new NotFoundException(`Product with ID ${target.productId} not found`);
+    }
+
+    const maxBytes = Number(await this.configService.get<number>('MEDIA_UPLOAD_MAX_BYTES', 10 * 1024 * 1024));
+    const mimeTypes = files.map(file =>
+      this.storageService.validateUpload(file, { maxBytes, allowedTypes: Object.keys(MEDIA_TYPES) }),
+    );
+
+    const currentMedia = await this.prisma.productMedia.findFirst({
+      where: target.variantId ? { variantId: target.variantId } : { productId: target.productId },
+      orderBy: { position: 'desc' },
+    });
+    const startPosition = currentMedia ? currentMedia.position + 1 : 0;
+    const folder = target.variantId ? `variants/${target.variantId}/media` : `products/${target.productId}/media`;
+
+    const createdMedia: ProductMedia[] = [];
+    for (const [index, file] of files.entries()) {
+      const mimeType = mimeTypes[index];
+      const type = MEDIA_TYPES[mimeType];
+      const baseName = uuidv4();
+      const storedKeys: string[] = [];
+
+      try {
+        let dimensions: { width?: number; height?: number } = {};
+        let derivatives: Record<string, MediaDerivative> | undefined;
+
+        if (type === MediaType.IMAGE) {
+          dimensions = await this.readDimensions(file);
+          derivatives = await this.createDerivatives(file.buffer, folder, baseName, storedKeys);
+        }
+
+        const original = await this.storageService.store(file.buffer, {
+          folder,
+          contentType: mimeType,
+          filename: `${baseName}${MIME_EXTENSIONS[mimeType]}`,
+        });
+        storedKeys.push(original.key);
+
+        createdMedia.push(await this.prisma.productMedia.create({
+          data: {
+            url: original.url,
+            storageKey: original.key,
+            altText: details.altText,
+            title: details.title ?? file.originalname,
+            type,
+            position: details.position !== undefined ? Number(details.position) + index : startPosition + index,
+            width: dimensions.width,
+            height: dimensions.height,
+            size: original.size,
+            mimeType,
+            derivatives: derivatives as Prisma.InputJsonValue | undefined,
+            ...(target.variantId
+              ? { variant: { connect: { id: target.variantId } } }
+              : { product: { connect: { id: target.productId } } }),
+          },
+        }));
+      } catch (error) {
+        // Don't leave orphaned files behind for a record that was never saved
+        await this.storageService.delete(...storedKeys);
+        throw error;
+      }
+    }
+
+    return createdMedia;
+  }
+
   /**
    * Update media
    */
@@ -144,6 +270,14 @@ export class ProductMediaService {
       where: { id },
     });
 
+    if (media.storageKey) {
+      const derivatives = (media.derivatives ?? {}) as unknown as Record<string, MediaDerivative>;
+      await this.storageService.delete(
+        media.storageKey,
+        ...Object.values(derivatives).map(derivative => derivative.storageKey),
+      );
+    }
+
     return { id, message: 'Media deleted successfully' };
   }
 
@@ -181,4 +315,52 @@ export class ProductMediaService {
       orderBy: { position: 'asc' },
     });
   }
-} 
\ No newline at end of file
+
+  private async readDimensions(file: Express.Multer.File): Promise<{ width?: number; height?: number }> {
+    try {
+      const metadata = await sharp(file.buffer).metadata();
+      return { width: metadata.width, height: metadata.height };
+    } catch (error) {
+      this.logger.warn(`Could not read image ${file.originalname}: ${error.message}`);
+      throw new BadRequestException(`${file.originalname} is not a readable image`);
+    }
+  }
+
+  /**
+   * Generate and store the resized webp copies of an image. Sizes larger
+   * than the original are stored at the original size
+   */
+  private async createDerivatives(
+    buffer: Buffer,
+    folder: string,
+    baseName: string,
+    storedKeys: string[],
+  ): Promise<Record<string, MediaDerivative>> {
+    const derivatives: Record<string, MediaDerivative> = {};
+
+    for (const [name, edge] of Object.entries(DERIVATIVE_SIZES)) {
+      const { data, info } = await sharp(buffer)
+        .rotate()
+        .resize(edge, edge, { fit: 'inside', withoutEnlargement: true })
+        .webp()
+        .toBuffer({ resolveWithObject: true });
+
+      const stored = await this.storageService.store(data, {
+        folder,
+        contentType: 'image/webp',
+        filename: `${baseName}-${name}.webp`,
+      });
+      storedKeys.push(stored.key);
+
+      derivatives[name] = {
+        url: stored.url,
+        storageKey: stored.key,
+        width: info.width,
+        height: info.height,
+        size: info.size,
+      };
+    }
+
+    return derivatives;
+  }
+}
@@ -0,0 +1,630 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { Prisma, PriceScheduleStatus, ProductType, BundlePricing } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ConfigService } from '../config/config.service';
+import { PricingContext, RETAIL_PRICING } from './product-pricing.service';
+import { SchedulePriceChangeDto } from './dto/schedule-price-change.dto';
+
+type PrismaClientLike = PrismaService | Prisma.TransactionClient;
+
+type PriceFields = {
+  price: Prisma.Decimal | null;
+  compareAtPrice: Prisma.Decimal | null;
+  dealerPrice: Prisma.Decimal | null;
+};
+
+const PRICE_FIELDS = ['price', 'compareAtPrice', 'dealerPrice'] as const;
+
+const PREVIOUS_FIELDS = {
+  price: 'previousPrice',
+  compareAtPrice: 'previousCompareAtPrice',
+  dealerPrice: 'previousDealerPrice',
+} as const;
+
+/**
+ * Prices of a product and its variants at one point in time
+ */
+export interface PriceSnapshot {
+  product: PriceFields;
+  variants: Map<string, PriceFields>;
+}
+
+export interface PriceDrop {
+  variantId: string | null;
+  from: string;
+  to: string;
+  amount: string;
+  percent: number;
+  since: Date;
+}
+
+@Injectable()
+export class ProductPriceHistoryService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ProductPriceHistoryService.name);
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async onModuleInit() {
+    const seconds = Number(await this.configService.get<number | string>('PRICE_SCHEDULE_INTERVAL_SECONDS', 60)) || 60;
+
+    // Apply scheduled price changes and revert the ones whose period is over
+    this.timer = setInterval(() => {
+      void this.processSchedules().catch(error => {
+        this.logger.error(`Scheduled price run failed: ${error.message}`, error.stack);
+      });
+    }, Math.max(seconds, 10) * 1000);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Read the current prices of a product and its variants
+   */
+  async capture(productId: string, client: PrismaClientLike = this.prisma): Promise<PriceSnapshot | null> {
+    const product = await client.product.findUnique({
+      where: { id: productId },
+      select: {
+        price: true,
+        compareAtPrice: true,
+        dealerPrice: true,
+        variants: { select: { id: true, price: true, compareAtPrice: true, dealerPrice: true } },
+      },
+    });
+
+    if (!product) {
+      return null;
+    }
+
+    const { variants, ...prices } = product;
+    return {
+      product: prices,
+      variants: new Map(variants.map(({ id, ...variantPrices }) => [id, variantPrices])),
+    };
+  }
+
+  /**
+   * Write a history entry for the product and every variant whose prices differ
+   * from the earlier snapshot. Without a snapshot all current prices are recorded.
+   */
+  async recordChanges(
+    productId: string,
+    before: PriceSnapshot | null,
+    source: string,
+    changedBy?: string,
+    client: PrismaClientLike = this.prisma,
+    scheduleId?: string,
+  ): Promise<number> {
+    const after = await this.capture(productId, client);
+    if (!after) {
+      return 0;
+    }
+
+    const entries: Prisma.ProductPriceHistoryCreateManyInput[] = [];
+    const add = (variantId: string | null, previous: PriceFields | undefined, current: PriceFields) => {
+      if (previous && this.samePrices(previous, current)) {
+        return;
+      }
+      // A new variant without its own prices follows the product
+      if (!previous && variantId && PRICE_FIELDS.every(field => current[field] === null)) {
+        return;
+      }
+      entries.push({
+        productId,
+        variantId,
+        price: current.price,
+        compareAtPrice: current.compareAtPrice,
+        dealerPrice: current.dealerPrice,
+        previousPrice: previous?.price ?? null,
+        source,
+        changedBy: changedBy ?? null,
+        scheduleId: scheduleId ?? null,
+      });
+    };
+
+    add(null, before?.product, after.product);
+    for (const [variantId, prices] of after.variants) {
+      add(variantId, before?.variants.get(variantId), prices);
+    }
+
+    if (entries.length > 0) {
+      await client.productPriceHistory.createMany({ data: entries });
+
+      // Discount bundles follow the prices of their components
+      await this.repriceBundles({ componentProductId: productId }, changedBy, client);
+    }
+
+    return entries.length;
+  }
+
+  /**
+   * Recalculate DISCOUNT bundles from their component prices: the component total
+   * becomes the compare-at price and the discount is taken off it. Dealer prices
+   * are only set when a component has one.
+   */
+  async repriceBundles(
+    filter: { bundleId?: string; componentProductId?: string },
+    changedBy?: string,
+    client: PrismaClientLike = this.prisma,
+  ): Promise<number> {
+    const bundles = await client.product.findMany({
+      where: {
+        type: ProductType.BUNDLE,
+        bundlePricing: BundlePricing.DISCOUNT,
+        ...(filter.bundleId ? { id: filter.bundleId } : {}),
+        ...(filter.componentProductId ? { bundleItems: { some: { productId: filter.componentProductId } } } : {}),
+      },
+      include: {
+        bundleItems: {
+          include: {
+            product: { select: { price: true, dealerPrice: true } },
+            variant: { select: { price: true, dealerPrice: true } },
+          },
+        },
+      },
+    });
+
+    for (const bundle of bundles) {
+      let retailTotal = new Prisma.Decimal(0);
+      let dealerTotal = new Prisma.Decimal(0);
+      let hasDealerPrice = false;
+
+      for (const item of bundle.bundleItems) {
+        const retail = item.variant?.price ?? item.product.price;
+        const dealer = item.variant?.dealerPrice ?? item.product.dealerPrice;
+
+        retailTotal = retailTotal.plus(retail.mul(item.quantity));
+        dealerTotal = dealerTotal.plus((dealer ?? retail).mul(item.quantity));
+        hasDealerPrice = hasDealerPrice || dealer !== null;
+      }
+
+      const discount = bundle.bundleDiscount ?? new Prisma.Decimal(0);
+      const factor = new Prisma.Decimal(1).minus(discount.div(100));
+
+      const before = await this.capture(bundle.id, client);
+      await client.product.update({
+        where: { id: bundle.id },
+        data: {
+          price: retailTotal.mul(factor).toDecimalPlaces(2),
+          compareAtPrice: discount.gt(0) ? retailTotal : null,
+          dealerPrice: hasDealerPrice ? dealerTotal.mul(factor).toDecimalPlaces(2) : null,
+        },
+      });
+      await this.recordChanges(bundle.id, before, 'bundle', changedBy, client);
+    }
+
+    return bundles.length;
+  }
+
+  /**
+   * Price timeline of a product and its variants, with the current price drop if any.
+   * Dealer prices are only shown to dealers and admins; upcoming changes only to admins.
+   */
+  async getTimeline(productId: string, pricing: PricingContext = RETAIL_PRICING, variantId?: string) {
+    const product = await this.prisma.product.findUnique({
+      where: { id: productId },
+      select: {
+        id: true,
+        price: true,
+        compareAtPrice: true,
+        dealerPrice: true,
+        variants: {
+          where: { isActive: true },
+          select: { id: true, name: true, sku: true, price: true, compareAtPrice: true, dealerPrice: true },
+        },
+      },
+    });
+
+    if (!product) {
+      throw new NotFoundException(`Product with ID ${productId} not found`);
+    }
+
+    const showDealer = pricing.isAdmin || pricing.tier === 'dealer';
+    const where: Prisma.ProductPriceHistoryWhereInput = {
+      productId,
+      ...(variantId !== undefined && { variantId: variantId || null }),
+    };
+
+    const history = await this.prisma.productPriceHistory.findMany({
+      where,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const windowDays = Number(await this.configService.get<number | string>('PRICE_DROP_WINDOW_DAYS', 30)) || 30;
+    const windowStart = new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000);
+
+    const priceDrops = [
+      this.findPriceDrop(null, product.price, history, windowStart),
+      ...product.variants
+        .filter(variant => variant.price !== null)
+        .map(variant => this.findPriceDrop(variant.id, variant.price, history, windowStart)),
+    ].filter((drop): drop is PriceDrop => drop !== null);
+
+    const upcoming = pricing.isAdmin
+      ? await this.prisma.productPriceSchedule.findMany({
+          where: { productId, status: { in: [PriceScheduleStatus.PENDING, PriceScheduleStatus.APPLIED] } },
+          orderBy: { startsAt: 'asc' },
+        })
+      : undefined;
+
+    return {
+      productId,
+      current: {
+        price: product.price,
+        compareAtPrice: product.compareAtPrice,
+        ...(showDealer && { dealerPrice: product.dealerPrice }),
+        variants: product.variants.map(({ dealerPrice, ...variant }) => ({
+          ...variant,
+          ...(showDealer && { dealerPrice }),
+        })),
+      },
+      priceDrop: priceDrops.find(drop => drop.variantId === null) ?? null,
+      variantPriceDrops: priceDrops.filter(drop => drop.variantId !== null),
+      history: history.map(({ dealerPrice, changedBy, scheduleId, ...entry }) => ({
+        ...entry,
+        ...(showDealer && { dealerPrice }),
+        ...(pricing.isAdmin && { changedBy, scheduleId }),
+      })),
+      ...(upcoming && { upcoming }),
+    };
+  }
+
+  /**
+   * Schedule a future price change for a product or one of its variants
+   */
+  async schedule(productId: string, dto: SchedulePriceChangeDto, userId?: string) {
+    const product = await this.prisma.product.findUnique({
+      where: { id: productId },
+      select: { id: true, variants: { select: { id: true } } },
+    });
+
+    if (!product) {
+      throw new NotFoundException(`Product with ID ${productId} not found`);
+    }
+
+    const variantId = dto.variantId || null;
+    if (variantId && !product.variants.some(variant => variant.id === variantId)) {
+      throw new BadRequestException(`Variant ${variantId} does not belong to product ${productId}`);
+    }
+
+    const prices: Partial<Record<(typeof PRICE_FIELDS)[number], number>> = {};
+    for (const field of PRICE_FIELDS) {
+      const value = dto[field];
+      if (value === undefined || value === null || (value as unknown) === '') {
+        continue;
+      }
+      const amount = Number(value);
+      if (!Number.isFinite(amount) || amount < 0) {
+        throw new BadRequestException(`${field} must be a non-negative number`);
+      }
+      prices[field] = amount;
+    }
+
+    if (Object.keys(prices).length === 0) {
+      throw new BadRequestException('Provide at least one of price, compareAtPrice or dealerPrice');
+    }
+
+    const startsAt = this.parseDate(dto.startsAt, 'startsAt');
+    const endsAt = this.parseDate(dto.endsAt, 'endsAt');
+    if (!startsAt) {
+      throw new BadRequestException('startsAt is required');
+    }
+    if (startsAt < new Date()) {
+      throw new BadRequestException('startsAt must be in the future');
+    }
+    if (endsAt && endsAt <= startsAt) {
+      throw new BadRequestException('endsAt must be after startsAt');
+    }
+
+    await this.assertNoOverlap(productId, variantId, startsAt, endsAt ?? null);
+
+    return this.prisma.productPriceSchedule.create({
+      data: {
+        productId,
+        variantId,
+        ...prices,
+        startsAt,
+        endsAt: endsAt ?? null,
+        reason: dto.reason,
+        createdBy: userId,
+      },
+    });
+  }
+
+  /**
+   * List a product's scheduled price changes, soonest first
+   */
+  async findSchedules(productId: string, status?: PriceScheduleStatus) {
+    if (status && !Object.values(PriceScheduleStatus).includes(status)) {
+      throw new BadRequestException(`status must be one of ${Object.values(PriceScheduleStatus).join(', ')}`);
+    }
+
+    return this.prisma.productPriceSchedule.findMany({
+      where: { productId, ...(status && { status }) },
+      orderBy: { startsAt: 'asc' },
+    });
+  }
+
+  /**
+   * Cancel a pending change, or end an applied one now and restore the earlier prices
+   */
+  async cancel(scheduleId: string, userId?: string) {
+    const schedule = await this.prisma.productPriceSchedule.findUnique({ where: { id: scheduleId } });
+
+    if (!schedule) {
+      throw new NotFoundException(`Price schedule with ID ${scheduleId} not found`);
+    }
+
+    if (schedule.status === PriceScheduleStatus.PENDING) {
+      return this.prisma.productPriceSchedule.update({
+        where: { id: scheduleId },
+        data: { status: PriceScheduleStatus.CANCELLED },
+      });
+    }
+
+    if (schedule.status === PriceScheduleStatus.APPLIED && schedule.endsAt) {
+      return this.revert(schedule, userId);
+    }
+
+    throw new BadRequestException(`Cannot cancel a price schedule that is ${schedule.status}`);
+  }
+
+  /**
+   * Apply due price changes, then revert the ones whose period has ended
+   */
+  async processSchedules(): Promise<{ applied: number; reverted: number }> {
+    if (this.running) {
+      return { applied: 0, reverted: 0 };
+    }
+
+    this.running = true;
+    let applied = 0;
+    let reverted = 0;
+
+    try {
+      const now = new Date();
+
+      const due = await this.prisma.productPriceSchedule.findMany({
+        where: { status: PriceScheduleStatus.PENDING, startsAt: { lte: now } },
+        orderBy: { startsAt: 'asc' },
+      });
+      for (const schedule of due) {
+        try {
+          await this.apply(schedule);
+          applied++;
+        } catch (error) {
+          this.logger.error(`Failed to apply price schedule ${schedule.id}: ${error.message}`, error.stack);
+        }
+      }
+
+      const ended = await this.prisma.productPriceSchedule.findMany({
+        where: { status: PriceScheduleStatus.APPLIED, endsAt: { lte: now } },
+        orderBy: { endsAt: 'asc' },
+      });
+      for (const schedule of ended) {
+        try {
+          await this.revert(schedule);
+          reverted++;
+        } catch (error) {
+          this.logger.error(`Failed to revert price schedule ${schedule.id}: ${error.message}`, error.stack);
+        }
+      }
+
+      if (applied > 0 || reverted > 0) {
+        this.logger.log(`Applied ${applied} and reverted ${reverted} scheduled price changes`);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to process price schedules: ${error.message}`, error.stack);
+    } finally {
+      this.running = false;
+    }
+
+    return { applied, reverted };
+  }
+
+  private async apply(schedule: Prisma.ProductPriceScheduleGetPayload<object>) {
+    await this.prisma.$transaction(async (tx) => {
+      const before = await this.capture(schedule.productId, tx);
+      const current = this.targetPrices(before, schedule.variantId);
+      if (!before || !current) {
+        await tx.productPriceSchedule.update({
+          where: { id: schedule.id },
+          data: { status: PriceScheduleStatus.CANCELLED },
+        });
+        return;
+      }
+
+      const data: Partial<PriceFields> = {};
+      const previous: Record<string, Prisma.Decimal | null> = {};
+      for (const field of PRICE_FIELDS) {
+        if (schedule[field] !== null) {
+          data[field] = schedule[field];
+          previous[PREVIOUS_FIELDS[field]] = current[field];
+        }
+      }
+
+      await this.updateTarget(tx, schedule.productId, schedule.variantId, data);
+
+      // The status condition stops a second instance from applying the same change
+      const claimed = await tx.productPriceSchedule.updateMany({
+        where: { id: schedule.id, status: PriceScheduleStatus.PENDING },
+        data: { ...previous, status: PriceScheduleStatus.APPLIED, appliedAt: new Date() },
+      });
+      if (claimed.count === 0) {
+        throw new Error(`Price schedule ${schedule.id} was already applied`);
+      }
+
+      await this.recordChanges(schedule.productId, before, 'schedule', schedule.createdBy ?? undefined, tx, schedule.id);
+    });
+  }
+
+  /**
+   * Restore the prices a schedule replaced. Prices edited by hand while the schedule
+   * was running are left as they are.
+   */
+  private async revert(schedule: Prisma.ProductPriceScheduleGetPayload<object>, userId?: string) {
+    return this.prisma.$transaction(async (tx) => {
+      const before = await this.capture(schedule.productId, tx);
+      const current = this.targetPrices(before, schedule.variantId);
+
+      const data: Partial<PriceFields> = {};
+      if (current) {
+        for (const field of PRICE_FIELDS) {
+          if (schedule[field] !== null && this.samePrice(current[field], schedule[field])) {
+            data[field] = schedule[PREVIOUS_FIELDS[field]];
+          }
+        }
+      }
+
+      if (Object.keys(data).length > 0) {
+        await this.updateTarget(tx, schedule.productId, schedule.variantId, data);
+      }
+
+      const updated = await tx.productPriceSchedule.update({
+        where: { id: schedule.id },
+        data: { status: PriceScheduleStatus.REVERTED, revertedAt: new Date() },
+      });
+
+      await this.recordChanges(
+        schedule.productId,
+        before,
+        'schedule.revert',
+        userId ?? schedule.createdBy ?? undefined,
+        tx,
+        schedule.id,
+      );
+
+      return updated;
+    });
+  }
+
+  private async updateTarget(
+    tx: Prisma.TransactionClient,
+    productId: string,
+    variantId: string | null,
+    data: Partial<PriceFields>,
+  ) {
+    if (variantId) {
+      await tx.productVariant.update({ where: { id: variantId }, data });
+    } else {
+      // The product's own price cannot be empty
+      await tx.product.update({
+        where: { id: productId },
+        data: { ...data, price: data.price ?? undefined },
+      });
+    }
+  }
+
+  private async assertNoOverlap(productId: string, variantId: string | null, startsAt: Date, endsAt: Date | null) {
+    const others = await this.prisma.productPriceSchedule.findMany({
+      where: {
+        productId,
+        variantId,
+        OR: [
+          { status: PriceScheduleStatus.PENDING },
+          { status: PriceScheduleStatus.APPLIED, endsAt: { not: null } },
+        ],
+      },
+    });
+
+    // A change without an end is a single point in time
+    const end = endsAt ?? startsAt;
+    const conflict = others.find(other => other.startsAt <= end && startsAt <= (other.endsAt ?? other.startsAt));
+
+    if (conflict) {
+      throw new BadRequestException(
+        `This period overlaps the scheduled price change starting ${conflict.startsAt.toISOString()}`,
+      );
+    }
+  }
+
+  /**
+   * Compare the current price with the highest price in the window; a lower current
+   * price is reported as a drop
+   */
+  private findPriceDrop(
+    variantId: string | null,
+    currentPrice: Prisma.Decimal | null,
+    history: Array<{ variantId: string | null; price: Prisma.Decimal | null; createdAt: Date }>,
+    windowStart: Date,
+  ): PriceDrop | null {
+    if (currentPrice === null) {
+      return null;
+    }
+
+    const entries = history.filter(entry => entry.variantId === variantId && entry.price !== null);
+    // The price in effect when the window opened counts as well
+    const inWindow = entries.filter((entry, index) =>
+      entry.createdAt >= windowStart || (entries[index + 1]?.createdAt ?? new Date()) > windowStart,
+    );
+
+    let highest: Prisma.Decimal | null = null;
+    for (const entry of inWindow) {
+      if (highest === null || entry.price!.greaterThan(highest)) {
+        highest = entry.price!;
+      }
+    }
+
+    if (highest === null || !highest.greaterThan(currentPrice)) {
+      return null;
+    }
+
+    const amount = highest.minus(currentPrice);
+    const lastChange = entries[entries.length - 1];
+
+    return {
+      variantId,
+      from: highest.toString(),
+      to: currentPrice.toString(),
+      amount: amount.toString(),
+      percent: Math.round(amount.div(highest).times(10000).toNumber()) / 100,
+      since: lastChange.createdAt,
+    };
+  }
+
+  private targetPrices(snapshot: PriceSnapshot | null, variantId: string | null): PriceFields | null {
+    if (!snapshot) {
+      return null;
+    }
+    return variantId ? snapshot.variants.get(variantId) ?? null : snapshot.product;
+  }
+
+  private samePrices(a: PriceFields, b: PriceFields): boolean {
+    return PRICE_FIELDS.every(field => this.samePrice(a[field], b[field]));
+  }
+
+  private samePrice(a: Prisma.Decimal | null, b: Prisma.Decimal | null): boolean {
+    if (a === null || b === null) {
+      return a === b;
+    }
+    return new Prisma.Decimal(a).equals(b);
+  }
+
+  private parseDate(value: string | undefined, field: string): Date | undefined {
+    if (value === undefined || value === null || value === '') {
+      return undefined;
+    }
+
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException(`${field} must be a valid date`);
+    }
+
+    return date;
+  }
+}
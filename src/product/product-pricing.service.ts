@@ -0,0 +1,203 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PermissionService } from '../permission/permission.service';
+
+export type PriceTier = 'retail' | 'dealer';
+
+/**
+ * Pricing context resolved for the current caller
+ */
+export interface PricingContext {
+  tier: PriceTier;
+  isAdmin: boolean;
+}
+
+/**
+ * Role and permission that grant access to dealer pricing
+ */
+export const DEALER_ROLE = 'dealer';
+export const DEALER_PRICING_PERMISSION = { resource: 'pricing', action: 'dealer' };
+
+export const RETAIL_PRICING: PricingContext = { tier: 'retail', isAdmin: false };
+
+type PricedVariant = {
+  price?: Prisma.Decimal | null;
+  dealerPrice?: Prisma.Decimal | null;
+};
+
+type PricedProduct = {
+  price: Prisma.Decimal;
+  dealerPrice?: Prisma.Decimal | null;
+};
+
+@Injectable()
+export class ProductPricingService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly permissionService: PermissionService,
+  ) {}
+
+  /**
+   * Resolve the pricing context from a JWT user payload
+   */
+  async resolveContext(user?: { sub?: string; id?: string; roles?: string[] } | null): Promise<PricingContext> {
+    const userId = user?.sub || user?.id;
+
+    if (!userId) {
+      return RETAIL_PRICING;
+    }
+
+    const roles = user?.roles ?? (await this.getUserRoles(userId));
+    return this.buildContext(userId, roles);
+  }
+
+  /**
+   * Resolve the pricing context for a user ID (used where no JWT payload is at hand)
+   */
+  async resolveContextForUser(userId?: string | null): Promise<PricingContext> {
+    if (!userId) {
+      return RETAIL_PRICING;
+    }
+
+    const roles = await this.getUserRoles(userId);
+    return this.buildContext(userId, roles);
+  }
+
+  /**
+   * Get the unit price a caller pays for a product or variant
+   */
+  resolveUnitPrice(
+    product: PricedProduct,
+    variant: PricedVariant | null | undefined,
+    context: PricingContext,
+  ): Prisma.Decimal {
+    const retailPrice = variant?.price ?? product.price;
+
+    if (context.tier === 'dealer') {
+      return variant?.dealerPrice ?? product.dealerPrice ?? retailPrice;
+    }
+
+    return retailPrice;
+  }
+
+  /**
+   * Apply the pricing context to a product response: dealers see dealer prices,
+   * and cost/dealer prices are stripped for callers who may not see them
+   */
+  applyToProduct<T extends Record<string, any>>(product: T, context: PricingContext): T {
+    if (!product) {
+      return product;
+    }
+
+    const result: Record<string, any> = { ...product };
+
+    if (Array.isArray(result.variants)) {
+      result.variants = result.variants.map(variant =>
+        this.applyToVariant(variant, context, product as any),
+      );
+    }
+
+    if (Array.isArray(result.relatedProducts)) {
+      result.relatedProducts = result.relatedProducts.map(relation => ({
+        ...relation,
+        targetProduct: this.applyToProduct(relation.targetProduct, context),
+      }));
+    }
+
+    if (context.tier === 'dealer' && result.dealerPrice != null) {
+      result.retailPrice = result.price;
+      result.price = result.dealerPrice;
+    }
+
+    return this.stripHiddenPrices(result, context) as T;
+  }
+
+  /**
+   * Apply the pricing context to a list of products
+   */
+  applyToProducts<T extends Record<string, any>>(products: T[], context: PricingContext): T[] {
+    return products.map(product => this.applyToProduct(product, context));
+  }
+
+  /**
+   * Apply the pricing context to a variant response
+   */
+  applyToVariant<T extends Record<string, any>>(
+    variant: T,
+    context: PricingContext,
+    product?: PricedProduct,
+  ): T {
+    if (!variant) {
+      return variant;
+    }
+
+    const result: Record<string, any> = { ...variant };
+
+    if (context.tier === 'dealer') {
+      const dealerPrice = result.dealerPrice ?? product?.dealerPrice;
+
+      if (dealerPrice != null) {
+        result.retailPrice = result.price ?? product?.price ?? null;
+        result.price = dealerPrice;
+      }
+    }
+
+    return this.stripHiddenPrices(result, context) as T;
+  }
+
+  /**
+   * Remove prices the caller is not allowed to see
+   */
+  private stripHiddenPrices(item: Record<string, any>, context: PricingContext) {
+    if (context.isAdmin) {
+      return item;
+    }
+
+    const result = { ...item };
+    delete result.costPrice;
+
+    if (context.tier !== 'dealer') {
+      delete result.dealerPrice;
+    }
+
+    return result;
+  }
+
+  /**
+   * Build the context from a user's roles and permissions
+   */
+  private async buildContext(userId: string, roles: string[]): Promise<PricingContext> {
+    const isAdmin = roles.includes('admin');
+
+    const isDealer = roles.includes(DEALER_ROLE) ||
+      await this.permissionService.userHasPermission(
+        userId,
+        DEALER_PRICING_PERMISSION.resource,
+        DEALER_PRICING_PERMISSION.action,
+      );
+
+    return {
+      tier: isDealer ? 'dealer' : 'retail',
+      isAdmin,
+    };
+  }
+
+  /**
+   * Load role names for a user
+   */
+  private async getUserRoles(userId: string): Promise<string[]> {
+    const userRoles = await this.prisma.userRole.findMany({
+      where: { userId },
+      include: {
+        role: {
+          select: {
+            name: true,
+          },
+        },
+      },
+    });
+
+    return userRoles.map(userRole => userRole.role.name);
+  }
+}
@@ -0,0 +1,443 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Prisma, ProductStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ConfigService } from '../config/config.service';
+import { PermissionService } from '../permission/permission.service';
+import { ChangeProductStatusDto, ScheduleCatalogDto } from './dto/product-publishing.dto';
+
+/**
+ * Allowed publishing status changes. Staying in SCHEDULED or PUBLISHED
+ * moves the publish or unpublish time.
+ */
+const PRODUCT_STATUS_TRANSITIONS: Record<ProductStatus, ProductStatus[]> = {
+  [ProductStatus.DRAFT]: [ProductStatus.IN_REVIEW, ProductStatus.ARCHIVED],
+  [ProductStatus.IN_REVIEW]: [ProductStatus.DRAFT, ProductStatus.SCHEDULED, ProductStatus.PUBLISHED],
+  [ProductStatus.SCHEDULED]: [
+    ProductStatus.SCHEDULED,
+    ProductStatus.PUBLISHED,
+    ProductStatus.DRAFT,
+    ProductStatus.ARCHIVED,
+  ],
+  [ProductStatus.PUBLISHED]: [ProductStatus.PUBLISHED, ProductStatus.DRAFT, ProductStatus.ARCHIVED],
+  [ProductStatus.ARCHIVED]: [ProductStatus.DRAFT, ProductStatus.SCHEDULED],
+};
+
+export interface ProductStatusEvent {
+  productId: string;
+  previousStatus: ProductStatus;
+  status: ProductStatus;
+  scheduled: boolean;
+}
+
+const PUBLISHING_SELECT = {
+  id: true,
+  name: true,
+  sku: true,
+  slug: true,
+  status: true,
+  isActive: true,
+  publishedAt: true,
+  unpublishAt: true,
+  reviewNotes: true,
+} satisfies Prisma.ProductSelect;
+
+@Injectable()
+export class ProductPublishingService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ProductPublishingService.name);
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly permissionService: PermissionService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  async onModuleInit() {
+    const seconds = Number(await this.configService.get<number | string>('PRODUCT_PUBLISH_INTERVAL_SECONDS', 60)) || 60;
+
+    // Flip visibility of products whose publish or unpublish time has passed
+    this.timer = setInterval(() => {
+      void this.processSchedule().catch(error => {
+        this.logger.error(`Publishing schedule run failed: ${error.message}`, error.stack);
+      });
+    }, Math.max(seconds, 10) * 1000);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Whether the caller may see products that are not published yet
+   */
+  async canViewUnpublished(user: any): Promise<boolean> {
+    const userId = user?.id || user?.sub;
+    if (!userId) {
+      return false;
+    }
+
+    if (user.roles?.includes('admin')) {
+      return true;
+    }
+
+    return this.permissionService.userHasPermission(userId, 'products', 'update');
+  }
+
+  /**
+   * Whether the caller may put products live
+   */
+  async canPublish(user: any): Promise<boolean> {
+    const userId = user?.id || user?.sub;
+    if (!userId) {
+      return false;
+    }
+
+    if (user.roles?.includes('admin')) {
+      return true;
+    }
+
+    return this.permissionService.userHasPermission(userId, 'products', 'publish');
+  }
+
+  /**
+   * Move a product through the publishing workflow
+   */
+  async changeStatus(productId: string, dto: ChangeProductStatusDto) {
+    const product = await this.prisma.product.findUnique({
+      where: { id: productId },
+      select: PUBLISHING_SELECT,
+    });
+
+    if (!product) {
+      throw new NotFoundException(`Product with ID ${productId} not found`);
+    }
+
+    if (!Object.values(ProductStatus).includes(dto?.status)) {
+      throw new BadRequestException(`status must be one of ${Object.values(ProductStatus).join(', ')}`);
+    }
+
+    if (!PRODUCT_STATUS_TRANSITIONS[product.status].includes(dto.status)) {
+      throw new BadRequestException(`Cannot change product status from ${product.status} to ${dto.status}`);
+    }
+
+    const now = new Date();
+    const publishAt = this.parseDate(dto.publishAt, 'publishAt');
+    const unpublishAt = this.parseDate(dto.unpublishAt, 'unpublishAt');
+    let data: Prisma.ProductUpdateInput;
+
+    switch (dto.status) {
+      case ProductStatus.SCHEDULED: {
+        if (!publishAt) {
+          throw new BadRequestException('publishAt is required to schedule a product');
+        }
+        this.assertWindow(publishAt, unpublishAt, now);
+
+        data = { isActive: false, publishedAt: publishAt, unpublishAt: unpublishAt ?? null };
+        break;
+      }
+      case ProductStatus.PUBLISHED: {
+        // Keep an earlier unpublish time only while it is still ahead
+        const endsAt = dto.unpublishAt !== undefined
+          ? unpublishAt
+          : product.unpublishAt && product.unpublishAt > now ? product.unpublishAt : null;
+        this.assertWindow(now, endsAt, now);
+
+        data = {
+          isActive: true,
+          publishedAt: product.status === ProductStatus.PUBLISHED ? product.publishedAt : now,
+          unpublishAt: endsAt,
+          reviewNotes: null,
+        };
+        break;
+      }
+      case ProductStatus.IN_REVIEW:
+        data = { isActive: false, reviewNotes: dto.notes ?? null };
+        break;
+      default:
+        data = {
+          isActive: false,
+          unpublishAt: null,
+          // Drop a go-live date that was never reached
+          ...(product.status === ProductStatus.SCHEDULED && { publishedAt: null }),
+          ...(dto.status === ProductStatus.DRAFT && { reviewNotes: dto.notes ?? null }),
+        };
+    }
+
+    const updated = await this.prisma.product.update({
+      where: { id: productId },
+      data: { ...data, status: dto.status },
+      select: PUBLISHING_SELECT,
+    });
+
+    this.logger.log(`Product ${productId} moved from ${product.status} to ${dto.status}`);
+    this.emitStatusChange({ productId, previousStatus: product.status, status: dto.status, scheduled: false });
+
+    return updated;
+  }
+
+  /**
+   * Schedule a whole seasonal catalog, by product list or category, to go live and
+   * optionally come down again. Published products only receive the unpublish time.
+   */
+  async scheduleCatalog(dto: ScheduleCatalogDto) {
+    const now = new Date();
+    const publishAt = this.parseDate(dto?.publishAt, 'publishAt');
+    const unpublishAt = this.parseDate(dto?.unpublishAt, 'unpublishAt');
+
+    if (!publishAt) {
+      throw new BadRequestException('publishAt is required to schedule a catalog');
+    }
+    this.assertWindow(publishAt, unpublishAt, now);
+
+    if (!dto.productIds?.length && !dto.categoryId) {
+      throw new BadRequestException('Either productIds or categoryId is required');
+    }
+
+    const where: Prisma.ProductWhereInput = {};
+    if (dto.productIds?.length) {
+      where.id = { in: dto.productIds };
+    }
+    if (dto.categoryId) {
+      const categoryIds = dto.includeSubcategories === false
+        ? [dto.categoryId]
+        : await this.getCategoryTree(dto.categoryId);
+      where.categories = { some: { categoryId: { in: categoryIds } } };
+    }
+
+    const products = await this.prisma.product.findMany({
+      where,
+      select: { id: true, status: true },
+    });
+
+    if (dto.productIds?.length && !dto.categoryId) {
+      const found = new Set(products.map(product => product.id));
+      const missing = dto.productIds.filter(id => !found.has(id));
+      if (missing.length > 0) {
+        throw new NotFoundException(`Products not found: ${missing.join(', ')}`);
+      }
+    }
+
+    const scheduled: string[] = [];
+    const extended: string[] = [];
+    const skipped: Array<{ productId: string; status: ProductStatus; reason: string }> = [];
+
+    for (const product of products) {
+      if (product.status === ProductStatus.PUBLISHED) {
+        if (unpublishAt) {
+          extended.push(product.id);
+        } else {
+          skipped.push({ productId: product.id, status: product.status, reason: 'Product is already published' });
+        }
+      } else if (PRODUCT_STATUS_TRANSITIONS[product.status].includes(ProductStatus.SCHEDULED)) {
+        scheduled.push(product.id);
+      } else {
+        skipped.push({
+          productId: product.id,
+          status: product.status,
+          reason: `Cannot schedule a product in ${product.status}`,
+        });
+      }
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.product.updateMany({
+        where: { id: { in: scheduled } },
+        data: {
+          status: ProductStatus.SCHEDULED,
+          isActive: false,
+          publishedAt: publishAt,
+          unpublishAt: unpublishAt ?? null,
+        },
+      }),
+      this.prisma.product.updateMany({
+        where: { id: { in: extended } },
+        data: { unpublishAt },
+      }),
+    ]);
+
+    const previous = new Map(products.map(product => [product.id, product.status]));
+    for (const productId of scheduled) {
+      this.emitStatusChange({
+        productId,
+        previousStatus: previous.get(productId)!,
+        status: ProductStatus.SCHEDULED,
+        scheduled: false,
+      });
+    }
+
+    this.logger.log(`Scheduled ${scheduled.length} products for ${publishAt.toISOString()}`);
+
+    return {
+      publishAt,
+      unpublishAt: unpublishAt ?? null,
+      scheduled: scheduled.length,
+      unpublishScheduled: extended.length,
+      skipped,
+    };
+  }
+
+  /**
+   * Upcoming publish and unpublish times, soonest first
+   */
+  async getSchedule(from?: string, to?: string) {
+    const start = this.parseDate(from, 'from') ?? new Date();
+    const end = this.parseDate(to, 'to');
+    const window: Prisma.DateTimeNullableFilter = { gte: start, ...(end && { lte: end }) };
+
+    const [publishing, unpublishing] = await Promise.all([
+      this.prisma.product.findMany({
+        where: { status: ProductStatus.SCHEDULED, publishedAt: window },
+        select: PUBLISHING_SELECT,
+        orderBy: { publishedAt: 'asc' },
+      }),
+      this.prisma.product.findMany({
+        where: {
+          status: { in: [ProductStatus.SCHEDULED, ProductStatus.PUBLISHED] },
+          unpublishAt: window,
+        },
+        select: PUBLISHING_SELECT,
+        orderBy: { unpublishAt: 'asc' },
+      }),
+    ]);
+
+    return { publishing, unpublishing };
+  }
+
+  /**
+   * Publish scheduled products that are due and archive published products past
+   * their unpublish time
+   */
+  async processSchedule(): Promise<{ published: number; unpublished: number }> {
+    if (this.running) {
+      return { published: 0, unpublished: 0 };
+    }
+
+    this.running = true;
+    try {
+      const now = new Date();
+
+      const due = await this.prisma.product.findMany({
+        where: { status: ProductStatus.SCHEDULED, publishedAt: { lte: now } },
+        select: { id: true },
+      });
+      const published = await this.transitionDue(due, ProductStatus.SCHEDULED, {
+        status: ProductStatus.PUBLISHED,
+        isActive: true,
+      });
+
+      // Runs after publishing so a window missed while the app was down still closes
+      const expired = await this.prisma.product.findMany({
+        where: { status: ProductStatus.PUBLISHED, unpublishAt: { lte: now } },
+        select: { id: true },
+      });
+      const unpublished = await this.transitionDue(expired, ProductStatus.PUBLISHED, {
+        status: ProductStatus.ARCHIVED,
+        isActive: false,
+      });
+
+      if (published > 0 || unpublished > 0) {
+        this.logger.log(`Scheduler published ${published} and unpublished ${unpublished} products`);
+      }
+
+      return { published, unpublished };
+    } catch (error) {
+      this.logger.error(`Failed to process publishing schedule: ${error.message}`, error.stack);
+      return { published: 0, unpublished: 0 };
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async transitionDue(
+    products: Array<{ id: string }>,
+    from: ProductStatus,
+    data: { status: ProductStatus; isActive: boolean },
+  ): Promise<number> {
+    if (products.length === 0) {
+      return 0;
+    }
+
+    const ids = products.map(product => product.id);
+
+    // The status condition keeps a product edited in the meantime untouched,
+    // so only the products actually moved are announced
+    const updated = await this.prisma.product.updateManyAndReturn({
+      where: { id: { in: ids }, status: from },
+      data,
+      select: { id: true },
+    });
+
+    for (const { id: productId } of updated) {
+      this.emitStatusChange({ productId, previousStatus: from, status: data.status, scheduled: true });
+    }
+
+    return updated.length;
+  }
+
+  private emitStatusChange(event: ProductStatusEvent) {
+    if (event.status === ProductStatus.PUBLISHED && event.previousStatus !== ProductStatus.PUBLISHED) {
+      this.eventEmitter.emit('product.published', event);
+    } else if (event.previousStatus === ProductStatus.PUBLISHED && event.status !== ProductStatus.PUBLISHED) {
+      this.eventEmitter.emit('product.unpublished', event);
+    }
+    this.eventEmitter.emit('product.status.changed', event);
+  }
+
+  /**
+   * Collect a category and all of its descendants
+   */
+  private async getCategoryTree(categoryId: string): Promise<string[]> {
+    const category = await this.prisma.category.findUnique({ where: { id: categoryId } });
+    if (!category) {
+      throw new NotFoundException(`Category with ID ${categoryId} not found`);
+    }
+
+    const ids = [categoryId];
+    let parents = [categoryId];
+    while (parents.length > 0) {
+      const children = await this.prisma.category.findMany({
+        where: { parentId: { in: parents } },
+        select: { id: true },
+      });
+      parents = children.map(child => child.id).filter(id => !ids.includes(id));
+      ids.push(...parents);
+    }
+
+    return ids;
+  }
+
+  private parseDate(value: string | undefined, field: string): Date | undefined {
+    if (value === undefined || value === null || value === '') {
+      return undefined;
+    }
+
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException(`${field} must be a valid date`);
+    }
+
+    return date;
+  }
+
+  private assertWindow(publishAt: Date, unpublishAt: Date | null | undefined, now: Date) {
+    if (publishAt < now) {
+      throw new BadRequestException('publishAt must be in the future');
+    }
+
+    if (unpublishAt && unpublishAt <= publishAt) {
+      throw new BadRequestException('unpublishAt must be after publishAt');
+    }
+  }
+}
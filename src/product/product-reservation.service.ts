@@ -0,0 +1,216 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Prisma, ReservationOwnerType, ReservationStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ConfigService } from '../config/config.service';
+import { ProductInventoryService, ReservationOwner } from './product-inventory.service';
+import { ReservationQueryDto } from './dto/reservation-query.dto';
+
+/**
+ * Emitted once per owner whose holds lapsed in a sweep
+ */
+export interface ReservationExpiredEvent {
+  ownerType: ReservationOwnerType;
+  ownerId: string;
+  reservations: number;
+}
+
+/**
+ * Upper bound on holds released in one sweep; the rest wait for the next run
+ */
+const SWEEP_BATCH_SIZE = 200;
+
+const reservationInclude = {
+  inventory: {
+    select: {
+      productId: true,
+      variantId: true,
+      product: { select: { name: true, sku: true } },
+      variant: { select: { name: true, sku: true, product: { select: { id: true, name: true } } } },
+    },
+  },
+  warehouse: { select: { id: true, code: true, name: true } },
+  lot: { select: { id: true, lotNumber: true, expiresAt: true } },
+} satisfies Prisma.StockReservationInclude;
+
+@Injectable()
+export class ProductReservationService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ProductReservationService.name);
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly inventoryService: ProductInventoryService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  async onModuleInit() {
+    const seconds = Number(await this.configService.get<number | string>('RESERVATION_SWEEP_INTERVAL_SECONDS', 60)) || 60;
+
+    // Return lapsed holds to stock
+    this.timer = setInterval(() => {
+      void this.releaseExpired().catch(error => {
+        this.logger.error(`Expired reservation sweep failed: ${error.message}`, error.stack);
+      });
+    }, Math.max(seconds, 10) * 1000);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * List reservations, soonest to expire first. Filtered to one product or
+   * variant, the response also carries the total quantity held
+   */
+  async findAll(query: ReservationQueryDto) {
+    const page = Number(query.page) || 1;
+    const limit = Math.min(Number(query.limit) || 20, 100);
+    const skip = (page - 1) * limit;
+
+    if (query.status && !Object.values(ReservationStatus).includes(query.status)) {
+      throw new BadRequestException(`status must be one of ${Object.values(ReservationStatus).join(', ')}`);
+    }
+
+    const where: Prisma.StockReservationWhereInput = {
+      status: query.status ?? ReservationStatus.ACTIVE,
+      ...(query.variantId
+        ? { inventory: { variantId: query.variantId } }
+        : query.productId ? { inventory: { productId: query.productId } } : {}),
+      ...(query.warehouseId ? { warehouseId: query.warehouseId } : {}),
+      ...(query.ownerType ? { ownerType: query.ownerType } : {}),
+      ...(query.ownerId ? { ownerId: query.ownerId } : {}),
+    };
+
+    const [reservations, total, held] = await Promise.all([
+      this.prisma.stockReservation.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: [{ expiresAt: { sort: 'asc', nulls: 'last' } }, { createdAt: 'asc' }],
+        include: reservationInclude,
+      }),
+      this.prisma.stockReservation.count({ where }),
+      query.productId || query.variantId
+        ? this.prisma.stockReservation.aggregate({ where, _sum: { quantity: true } })
+        : null,
+    ]);
+
+    return {
+      data: reservations,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+      ...(held ? { quantity: held._sum.quantity ?? 0 } : {}),
+    };
+  }
+
+  /**
+   * Keep an owner's active holds until they are committed or released,
+   * e.g. once an order has been paid for
+   */
+  async holdUntilSettled(owner: ReservationOwner, tx?: Prisma.TransactionClient) {
+    const client = tx ?? this.prisma;
+    const result = await client.stockReservation.updateMany({
+      where: { ownerType: owner.type, ownerId: owner.id, status: ReservationStatus.ACTIVE },
+      data: { expiresAt: null },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Return holds past their expiry to stock and tell their owners
+   */
+  async releaseExpired(): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+    let released = 0;
+
+    try {
+      const now = new Date();
+      const expired = await this.prisma.stockReservation.findMany({
+        where: { status: ReservationStatus.ACTIVE, expiresAt: { lte: now } },
+        orderBy: { expiresAt: 'asc' },
+        take: SWEEP_BATCH_SIZE,
+        include: { inventory: { select: { productId: true, variantId: true } } },
+      });
+
+      const owners = new Map<string, ReservationExpiredEvent>();
+
+      for (const reservation of expired) {
+        const { productId, variantId } = reservation.inventory;
+
+        try {
+          const claimed = await this.prisma.$transaction(async (tx) => {
+            // Skip holds settled by their owner since they were read
+            const { count } = await tx.stockReservation.updateMany({
+              where: { id: reservation.id, status: ReservationStatus.ACTIVE },
+              data: { status: ReservationStatus.EXPIRED, settledAt: now },
+            });
+
+            if (count === 0) {
+              return false;
+            }
+
+            await this.inventoryService.releaseInventory(
+              {
+                ...(variantId ? { variantId } : { productId: productId! }),
+                quantity: reservation.quantity,
+                warehouseId: reservation.warehouseId,
+                lotId: reservation.lotId,
+                reference: reservation.ownerId,
+                reason: 'Reservation expired',
+              },
+              tx,
+            );
+
+            return true;
+          });
+
+          if (!claimed) {
+            continue;
+          }
+
+          released++;
+          const key = `${reservation.ownerType}:${reservation.ownerId}`;
+          const owner = owners.get(key) ?? { ownerType: reservation.ownerType, ownerId: reservation.ownerId, reservations: 0 };
+          owner.reservations++;
+          owners.set(key, owner);
+        } catch (error) {
+          this.logger.error(`Failed to release expired reservation ${reservation.id}: ${error.message}`, error.stack);
+        }
+      }
+
+      for (const event of owners.values()) {
+        this.eventEmitter.emit('inventory.reservation.expired', event);
+      }
+
+      if (released > 0) {
+        this.logger.log(`Released ${released} expired stock reservations`);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to process expired stock reservations: ${error.message}`, error.stack);
+    } finally {
+      this.running = false;
+    }
+
+    return released;
+  }
+}
@@ -0,0 +1,490 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ProductPriceHistoryService } from './product-price-history.service';
+
+/**
+ * Product fields captured in a revision. Publishing state, counters and
+ * timestamps are left out so a restore never changes visibility.
+ */
+const REVISION_PRODUCT_FIELDS = [
+  'name',
+  'slug',
+  'description',
+  'shortDescription',
+  'sku',
+  'barcode',
+  'price',
+  'compareAtPrice',
+  'costPrice',
+  'dealerPrice',
+  'hsnCode',
+  'taxClassId',
+  'isFeatured',
+  'isDigital',
+  'weight',
+  'dimensions',
+  'metaTitle',
+  'metaDescription',
+  'metaKeywords',
+  'searchKeywords',
+  'seoScore',
+  'pageTitle',
+  'canonicalUrl',
+] as const;
+
+const REVISION_VARIANT_FIELDS = [
+  'name',
+  'sku',
+  'barcode',
+  'price',
+  'compareAtPrice',
+  'dealerPrice',
+  'hsnCode',
+  'taxClassId',
+  'isActive',
+  'position',
+  'options',
+] as const;
+
+const REVISION_ATTRIBUTE_FIELDS = [
+  'value',
+  'type',
+  'isFilterable',
+  'isSearchable',
+  'isVariantOption',
+  'position',
+] as const;
+
+export interface ProductSnapshot {
+  product: Record<string, any>;
+  categories: Array<{ categoryId: string; isPrimary: boolean }>;
+  attributes: Array<Record<string, any> & { name: string }>;
+  variants: Array<Record<string, any> & { id: string }>;
+}
+
+export interface ProductRevisionChange {
+  path: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface ProductRevisionEntry {
+  id: string;
+  productId: string;
+  version: number;
+  changes: string[];
+  reason: string;
+  changedBy: string;
+  createdAt: Date;
+  metadata?: Record<string, any>;
+}
+
+export interface ProductRevisionPage {
+  items: ProductRevisionEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+type PrismaClientLike = PrismaService | Prisma.TransactionClient;
+
+@Injectable()
+export class ProductRevisionService {
+  private readonly logger = new Logger(ProductRevisionService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly priceHistoryService: ProductPriceHistoryService,
+  ) {}
+
+  /**
+   * Record the current state of a product as a new revision.
+   * Nothing is written when the state matches the latest revision.
+   */
+  async record(
+    productId: string,
+    changedBy: string | undefined,
+    reason: string,
+    metadata?: Record<string, any>,
+  ): Promise<ProductRevisionEntry | null> {
+    const snapshot = await this.buildSnapshot(productId);
+    const latest = await this.prisma.productRevision.findFirst({
+      where: { productId },
+      orderBy: { version: 'desc' },
+    });
+
+    const changes = latest
+      ? this.diffSnapshots(latest.snapshot as unknown as ProductSnapshot, snapshot).map(change => change.path)
+      : [];
+
+    if (latest && changes.length === 0) {
+      return null;
+    }
+
+    try {
+      const revision = await this.prisma.productRevision.create({
+        data: {
+          productId,
+          version: (latest?.version ?? 0) + 1,
+          snapshot: snapshot as unknown as Prisma.InputJsonValue,
+          changes,
+          reason,
+          changedBy: changedBy || 'system',
+          ...(metadata && { metadata }),
+        },
+      });
+
+      return this.toEntry(revision);
+    } catch (error) {
+      // A concurrent change took this version number; its snapshot already covers our state
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        this.logger.warn(`Skipped revision of product ${productId}: version ${(latest?.version ?? 0) + 1} already exists`);
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Make sure a product has a revision for its state before a change, so edits made
+   * before revisions were recorded are not lost
+   */
+  async ensureBaseline(productId: string): Promise<void> {
+    const count = await this.prisma.productRevision.count({ where: { productId } });
+    if (count === 0) {
+      await this.record(productId, 'system', 'baseline');
+    }
+  }
+
+  /**
+   * List revisions of a product, newest first
+   */
+  async findAll(productId: string, page = 1, pageSize = 20): Promise<ProductRevisionPage> {
+    await this.assertProduct(productId);
+
+    const [items, total] = await Promise.all([
+      this.prisma.productRevision.findMany({
+        where: { productId },
+        orderBy: { version: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      this.prisma.productRevision.count({ where: { productId } }),
+    ]);
+
+    return {
+      items: items.map(item => this.toEntry(item)),
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+    };
+  }
+
+  /**
+   * Get a single revision including its snapshot
+   */
+  async findOne(productId: string, version: number) {
+    const revision = await this.prisma.productRevision.findUnique({
+      where: { productId_version: { productId, version } },
+    });
+
+    if (!revision) {
+      throw new NotFoundException(`Revision ${version} of product ${productId} not found`);
+    }
+
+    return {
+      ...this.toEntry(revision),
+      snapshot: revision.snapshot as unknown as ProductSnapshot,
+    };
+  }
+
+  /**
+   * Compare two revisions; without a target the latest revision is used
+   */
+  async diff(productId: string, fromVersion: number, toVersion?: number) {
+    const from = await this.findOne(productId, fromVersion);
+    const to = toVersion !== undefined
+      ? await this.findOne(productId, toVersion)
+      : await this.findLatest(productId);
+
+    return {
+      productId,
+      from: from.version,
+      to: to.version,
+      changes: this.diffSnapshots(from.snapshot, to.snapshot),
+    };
+  }
+
+  /**
+   * Put a product, its attributes, categories and variants back to an earlier revision.
+   * Variants added since are deactivated rather than deleted so order history stays intact.
+   */
+  async restore(productId: string, version: number, changedBy?: string) {
+    const { snapshot } = await this.findOne(productId, version);
+    await this.ensureBaseline(productId);
+
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        const pricesBefore = await this.priceHistoryService.capture(productId, tx);
+        await this.applySnapshot(tx, productId, snapshot);
+        await this.priceHistoryService.recordChanges(productId, pricesBefore, 'restore', changedBy, tx);
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        if (error.code === 'P2002') {
+          throw new BadRequestException(
+            'Cannot restore this revision: its slug, SKU or barcode is now used by another product',
+          );
+        }
+        if (error.code === 'P2003') {
+          throw new BadRequestException('Cannot restore this revision: a category or tax class it uses no longer exists');
+        }
+      }
+      throw error;
+    }
+
+    this.logger.log(`Product ${productId} restored to revision ${version}`);
+
+    return this.record(productId, changedBy, 'restore', { restoredFrom: version });
+  }
+
+  /**
+   * Capture the product, categories, attributes and variants as plain JSON
+   */
+  async buildSnapshot(productId: string, client: PrismaClientLike = this.prisma): Promise<ProductSnapshot> {
+    const product = await client.product.findUnique({
+      where: { id: productId },
+      include: {
+        categories: { orderBy: [{ isPrimary: 'desc' }, { createdAt: 'asc' }] },
+        attributes: { orderBy: [{ position: 'asc' }, { name: 'asc' }] },
+        variants: { orderBy: [{ position: 'asc' }, { createdAt: 'asc' }] },
+      },
+    });
+
+    if (!product) {
+      throw new NotFoundException(`Product with ID ${productId} not found`);
+    }
+
+    return this.toJson({
+      product: this.pick(product, REVISION_PRODUCT_FIELDS),
+      categories: product.categories.map(category => ({
+        categoryId: category.categoryId,
+        isPrimary: category.isPrimary,
+      })),
+      attributes: product.attributes.map(attr => ({
+        name: attr.name,
+        ...this.pick(attr, REVISION_ATTRIBUTE_FIELDS),
+      })),
+      variants: product.variants.map(variant => ({
+        id: variant.id,
+        ...this.pick(variant, REVISION_VARIANT_FIELDS),
+      })),
+    });
+  }
+
+  /**
+   * List what differs between two snapshots, keyed by attribute name and variant id
+   */
+  diffSnapshots(from: ProductSnapshot, to: ProductSnapshot): ProductRevisionChange[] {
+    const changes: ProductRevisionChange[] = [];
+
+    for (const field of REVISION_PRODUCT_FIELDS) {
+      this.compare(changes, field, from.product?.[field], to.product?.[field]);
+    }
+
+    const categoryKey = (snapshot: ProductSnapshot) =>
+      (snapshot.categories ?? []).map(c => `${c.categoryId}${c.isPrimary ? '*' : ''}`);
+    this.compare(
+      changes,
+      'categories',
+      (from.categories ?? []).map(c => c.categoryId),
+      (to.categories ?? []).map(c => c.categoryId),
+      JSON.stringify(categoryKey(from)) !== JSON.stringify(categoryKey(to)),
+    );
+
+    this.compareCollection(
+      changes,
+      'attributes',
+      from.attributes ?? [],
+      to.attributes ?? [],
+      attr => attr.name.toLowerCase(),
+      attr => attr.name,
+      REVISION_ATTRIBUTE_FIELDS,
+    );
+
+    this.compareCollection(
+      changes,
+      'variants',
+      from.variants ?? [],
+      to.variants ?? [],
+      variant => variant.id,
+      variant => variant.sku || variant.id,
+      REVISION_VARIANT_FIELDS,
+    );
+
+    return changes;
+  }
+
+  private async applySnapshot(tx: Prisma.TransactionClient, productId: string, snapshot: ProductSnapshot) {
+    const productData = { ...snapshot.product } as Prisma.ProductUncheckedUpdateInput;
+    productData.dimensions = snapshot.product.dimensions ?? Prisma.JsonNull;
+
+    // Categories
+    await tx.productCategory.deleteMany({ where: { productId } });
+    if (snapshot.categories.length > 0) {
+      await tx.productCategory.createMany({
+        data: snapshot.categories.map(category => ({ productId, ...category })),
+      });
+    }
+
+    // Attributes
+    await tx.productAttribute.deleteMany({
+      where: { productId, name: { notIn: snapshot.attributes.map(attr => attr.name) } },
+    });
+    for (const attr of snapshot.attributes) {
+      const { name, ...data } = attr;
+      await tx.productAttribute.upsert({
+        where: { productId_name: { productId, name } },
+        update: data,
+        create: { productId, name, ...(data as Omit<Prisma.ProductAttributeUncheckedCreateInput, 'productId' | 'name'>) },
+      });
+    }
+
+    // Variants
+    const existing = await tx.productVariant.findMany({
+      where: { productId },
+      select: { id: true },
+    });
+    const restoredIds = new Set(snapshot.variants.map(variant => variant.id));
+    const existingIds = new Set(existing.map(variant => variant.id));
+
+    await tx.productVariant.updateMany({
+      where: { productId, id: { notIn: [...restoredIds] } },
+      data: { isActive: false },
+    });
+
+    for (const variant of snapshot.variants) {
+      const { id, ...data } = variant;
+      if (existingIds.has(id)) {
+        await tx.productVariant.update({ where: { id }, data });
+      } else {
+        // The variant was deleted since; bring it back without stock
+        await tx.productVariant.create({
+          data: {
+            id,
+            productId,
+            ...(data as Omit<Prisma.ProductVariantUncheckedCreateInput, 'productId'>),
+            inventory: { create: { quantity: 0 } },
+          },
+        });
+      }
+    }
+
+    await tx.product.update({
+      where: { id: productId },
+      data: { ...productData, hasVariants: snapshot.variants.length > 0 },
+    });
+  }
+
+  private compareCollection<T extends Record<string, any>>(
+    changes: ProductRevisionChange[],
+    prefix: string,
+    from: T[],
+    to: T[],
+    key: (item: T) => string,
+    label: (item: T) => string,
+    fields: readonly string[],
+  ) {
+    const before = new Map(from.map(item => [key(item), item]));
+    const after = new Map(to.map(item => [key(item), item]));
+
+    for (const [id, item] of before) {
+      const next = after.get(id);
+      if (!next) {
+        changes.push({ path: `${prefix}.${label(item)}`, from: item, to: null });
+        continue;
+      }
+      for (const field of fields) {
+        this.compare(changes, `${prefix}.${label(next)}.${field}`, item[field], next[field]);
+      }
+    }
+
+    for (const [id, item] of after) {
+      if (!before.has(id)) {
+        changes.push({ path: `${prefix}.${label(item)}`, from: null, to: item });
+      }
+    }
+  }
+
+  private compare(
+    changes: ProductRevisionChange[],
+    path: string,
+    from: unknown,
+    to: unknown,
+    changed = JSON.stringify(from ?? null) !== JSON.stringify(to ?? null),
+  ) {
+    if (changed) {
+      changes.push({ path, from: from ?? null, to: to ?? null });
+    }
+  }
+
+  private async findLatest(productId: string) {
+    const latest = await this.prisma.productRevision.findFirst({
+      where: { productId },
+      orderBy: { version: 'desc' },
+    });
+
+    if (!latest) {
+      throw new NotFoundException(`Product ${productId} has no revisions`);
+    }
+
+    return { ...this.toEntry(latest), snapshot: latest.snapshot as unknown as ProductSnapshot };
+  }
+
+  private async assertProduct(productId: string) {
+    const product = await this.prisma.product.findUnique({
+      where: { id: productId },
+      select: { id: true },
+    });
+
+    if (!product) {
+      throw new NotFoundException(`Product with ID ${productId} not found`);
+    }
+  }
+
+  private pick<T extends Record<string, any>>(source: T, fields: readonly string[]) {
+    return Object.fromEntries(fields.map(field => [field, source[field] ?? null]));
+  }
+
+  /**
+   * Round-trip through JSON so decimals and dates are stored as strings
+   */
+  private toJson<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+  }
+
+  private toEntry(revision: {
+    id: string;
+    productId: string;
+    version: number;
+    changes: string[];
+    reason: string;
+    changedBy: string;
+    createdAt: Date;
+    metadata: Prisma.JsonValue;
+  }): ProductRevisionEntry {
+    return {
+      id: revision.id,
+      productId: revision.productId,
+      version: revision.version,
+      changes: revision.changes,
+      reason: revision.reason,
+      changedBy: revision.changedBy,
+      createdAt: revision.createdAt,
+      metadata: (revision.metadata as Record<string, any>) ?? undefined,
+    };
+  }
+}
@@ -1,16 +1,21 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { Prisma } from '@prisma/client';
+import { Prisma, ProductStatus } from '@prisma/client';
 import { SearchQueryDto } from './dto/search-query.dto';
+import { ProductPricingService, PricingContext } from './product-pricing.service';
 
 @Injectable()
 export class ProductSearchService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly pricingService: ProductPricingService,
+  ) {}
 
   /**
    * Search products with advanced filtering
+   * When a pricing context is given, prices are resolved for that caller
    */
-  async search(query: SearchQueryDto) {
+  async search(query: SearchQueryDto, pricing?: PricingContext) {
     const {
       q = '',
       page = 1,
@@ -29,6 +34,7 @@ export class ProductSearchService {
     // Build the base where clause
     const where: Prisma.ProductWhereInput = {
       isActive: true,
+      status: ProductStatus.PUBLISHED,
     };
 
     // Add search term filter
@@ -170,6 +176,7 @@ export class ProductSearchService {
               id: true,
               name: true,
               price: true,
+              dealerPrice: true,
               options: true,
               inventory: {
                 select: {
@@ -193,7 +200,7 @@ export class ProductSearchService {
     const availableFilters = await this.getAvailableFilters(where);
 
     return {
-      data: products,
+      data: pricing ? this.pricingService.applyToProducts(products, pricing) : products,
       filters: availableFilters,
       meta: {
         total,
@@ -276,6 +283,7 @@ export class ProductSearchService {
     const products = await this.prisma.product.findMany({
       where: {
         isActive: true,
+        status: ProductStatus.PUBLISHED,
         OR: [
           { name: { contains: query, mode: 'insensitive' } },
           { searchKeywords: { has: query } },
@@ -0,0 +1,351 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { Prisma, StockAlertType } from '@prisma/client';
+import { createHmac } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { ConfigService } from '../config/config.service';
+import { EmailService } from '../email/email.service';
+import { SmsService } from '../sms/sms.service';
+import { StockChangedEvent } from './product-stock-ledger.service';
+import { StockAlertQueryDto } from './dto/stock-alert-query.dto';
+
+type StockLevel = 'ok' | 'low' | 'out';
+
+const LEVEL_BY_TYPE: Record<StockAlertType, StockLevel> = {
+  [StockAlertType.LOW_STOCK]: 'low',
+  [StockAlertType.OUT_OF_STOCK]: 'out',
+  [StockAlertType.RECOVERED]: 'ok',
+};
+
+const TYPE_BY_LEVEL: Record<StockLevel, StockAlertType> = {
+  low: StockAlertType.LOW_STOCK,
+  out: StockAlertType.OUT_OF_STOCK,
+  ok: StockAlertType.RECOVERED,
+};
+
+/**
+ * Event names sent to webhooks
+ */
+const WEBHOOK_EVENTS: Record<StockAlertType, string> = {
+  [StockAlertType.LOW_STOCK]: 'inventory.low_stock',
+  [StockAlertType.OUT_OF_STOCK]: 'inventory.out_of_stock',
+  [StockAlertType.RECOVERED]: 'inventory.restocked',
+};
+
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+const alertItemInclude = {
+  product: { select: { id: true, name: true, sku: true } },
+  variant: { select: { id: true, name: true, sku: true, product: { select: { id: true, name: true } } } },
+} satisfies Prisma.ProductInventoryInclude;
+
+type AlertedInventory = Prisma.ProductInventoryGetPayload<{ include: typeof alertItemInclude }>;
+
+interface AlertSettings {
+  emails: string[];
+  phones: string[];
+  webhookUrls: string[];
+  webhookSecret: string;
+  cooldownMs: number;
+}
+
+@Injectable()
+export class ProductStockAlertService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ProductStockAlertService.name);
+  private timer?: NodeJS.Timeout;
+  private running = false;
+  private readonly pending = new Set<string>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly emailService: EmailService,
+    private readonly smsService: SmsService,
+  ) {}
+
+  async onModuleInit() {
+    const seconds = Number(await this.configService.get<number | string>('STOCK_ALERT_INTERVAL_SECONDS', 30)) || 30;
+
+    // Check items whose stock changed since the last run
+    this.timer = setInterval(() => {
+      void this.processPending().catch(error => {
+        this.logger.error(`Stock alert run failed: ${error.message}`, error.stack);
+      });
+    }, Math.max(seconds, 10) * 1000);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Queue changed items; they are checked on the next run, after the change has been committed
+   */
+  @OnEvent('inventory.stock.changed')
+  handleStockChanged(event: StockChangedEvent) {
+    for (const inventoryId of event.inventoryIds) {
+      this.pending.add(inventoryId);
+    }
+  }
+
+  /**
+   * List alerts sent, newest first
+   */
+  async findAll(query: StockAlertQueryDto) {
+    const page = Number(query.page) || 1;
+    const limit = Math.min(Number(query.limit) || 20, 100);
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.StockAlertWhereInput = {
+      ...(query.variantId
+        ? { inventory: { variantId: query.variantId } }
+        : query.productId ? { inventory: { productId: query.productId } } : {}),
+      ...(query.type ? { type: query.type } : {}),
+    };
+
+    const [alerts, total] = await Promise.all([
+      this.prisma.stockAlert.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        include: { inventory: { include: alertItemInclude } },
+      }),
+      this.prisma.stockAlert.count({ where }),
+    ]);
+
+    return {
+      data: alerts.map(({ inventory, ...alert }) => ({
+        ...alert,
+        productId: inventory.productId ?? inventory.variant?.product.id ?? null,
+        variantId: inventory.variantId,
+        name: this.itemName(inventory),
+        sku: inventory.variant?.sku ?? inventory.product?.sku ?? null,
+      })),
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Check every item with a low-stock threshold, e.g. after thresholds or recipients change
+   */
+  async evaluateAll() {
+    const inventories = await this.prisma.productInventory.findMany({
+      where: { lowStockThreshold: { not: null } },
+      select: { id: true },
+    });
+
+    return this.evaluate(inventories.map(inventory => inventory.id));
+  }
+
+  /**
+   * Check the items queued since the last run
+   */
+  async processPending() {
+    if (this.running || this.pending.size === 0) {
+      return { checked: 0, sent: 0 };
+    }
+
+    this.running = true;
+    const inventoryIds = [...this.pending];
+    this.pending.clear();
+
+    try {
+      return await this.evaluate(inventoryIds);
+    } catch (error) {
+      this.logger.error(`Failed to check stock alerts: ${error.message}`, error.stack);
+      inventoryIds.forEach(inventoryId => this.pending.add(inventoryId));
+      return { checked: 0, sent: 0 };
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Alert when an item's stock level changes from what was last alerted.
+   * Items are alerted at most once per cooldown, except when they run out;
+   * changes held back by the cooldown are checked again on later runs
+   */
+  private async evaluate(inventoryIds: string[]) {
+    const inventories = await this.prisma.productInventory.findMany({
+      where: { id: { in: inventoryIds }, lowStockThreshold: { not: null } },
+      include: alertItemInclude,
+    });
+
+    if (inventories.length === 0) {
+      return { checked: 0, sent: 0 };
+    }
+
+    const settings = await this.loadSettings();
+    let sent = 0;
+
+    for (const inventory of inventories) {
+      try {
+        const level = this.levelOf(inventory);
+        const last = await this.prisma.stockAlert.findFirst({
+          where: { inventoryId: inventory.id },
+          orderBy: { createdAt: 'desc' },
+        });
+
+        if (level === (last ? LEVEL_BY_TYPE[last.type] : 'ok')) {
+          continue;
+        }
+
+        if (last && level !== 'out' && Date.now() - last.createdAt.getTime() < settings.cooldownMs) {
+          this.pending.add(inventory.id);
+          continue;
+        }
+
+        if (await this.raise(inventory, TYPE_BY_LEVEL[level], settings)) {
+          sent++;
+        }
+      } catch (error) {
+        this.logger.error(`Failed to alert stock of inventory ${inventory.id}: ${error.message}`, error.stack);
+      }
+    }
+
+    if (sent > 0) {
+      this.logger.log(`Sent ${sent} stock alerts`);
+    }
+
+    return { checked: inventories.length, sent };
+  }
+
+  /**
+   * Notify every configured recipient and record the alert with the channels that delivered it.
+   * When nothing was delivered the alert is not recorded and the item is checked again on the next run
+   */
+  private async raise(inventory: AlertedInventory, type: StockAlertType, settings: AlertSettings) {
+    const name = this.itemName(inventory) ?? inventory.id;
+    const sku = inventory.variant?.sku ?? inventory.product?.sku ?? null;
+    const { subject, text } = this.message(type, name, sku, inventory.quantity, inventory.lowStockThreshold);
+    const channels: string[] = [];
+
+    if (settings.emails.length > 0 && await this.emailService.sendEmail({ to: settings.emails, subject, text })) {
+      channels.push('email');
+    }
+
+    const texts = await Promise.all(settings.phones.map(phone => this.smsService.sendSms({ to: phone, body: text })));
+    if (texts.some(Boolean)) {
+      channels.push('sms');
+    }
+
+    const occurredAt = new Date();
+    const hooks = await Promise.all(settings.webhookUrls.map(url => this.postWebhook(url, settings.webhookSecret, {
+      event: WEBHOOK_EVENTS[type],
+      inventoryId: inventory.id,
+      productId: inventory.productId ?? inventory.variant?.product.id ?? null,
+      variantId: inventory.variantId,
+      name,
+      sku,
+      quantity: inventory.quantity,
+      reservedQuantity: inventory.reservedQuantity,
+      threshold: inventory.lowStockThreshold,
+      occurredAt,
+    })));
+    if (hooks.some(Boolean)) {
+      channels.push('webhook');
+    }
+
+    if (channels.length === 0) {
+      this.logger.warn(`No channel delivered the stock alert for inventory ${inventory.id}; retrying on the next run`);
+      this.pending.add(inventory.id);
+      return null;
+    }
+
+    return this.prisma.stockAlert.create({
+      data: {
+        inventoryId: inventory.id,
+        type,
+        quantity: inventory.quantity,
+        threshold: inventory.lowStockThreshold,
+        channels,
+        createdAt: occurredAt,
+      },
+    });
+  }
+
+  /**
+   * POST an alert as JSON. With a secret, the body's HMAC-SHA256 goes in the x-stock-alert-signature header
+   */
+  private async postWebhook(url: string, secret: string, payload: Record<string, unknown>): Promise<boolean> {
+    const body = JSON.stringify(payload);
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          ...(secret ? { 'x-stock-alert-signature': createHmac('sha256', secret).update(body).digest('hex') } : {}),
+        },
+        body,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        this.logger.warn(`Stock alert webhook ${url} responded with ${response.status}`);
+      }
+      return response.ok;
+    } catch (error) {
+      this.logger.warn(`Stock alert webhook ${url} failed: ${error.message}`);
+      return false;
+    }
+  }
+
+  private levelOf(inventory: AlertedInventory): StockLevel {
+    if (inventory.quantity <= 0) {
+      return 'out';
+    }
+
+    return inventory.lowStockThreshold !== null && inventory.quantity <= inventory.lowStockThreshold ? 'low' : 'ok';
+  }
+
+  private message(type: StockAlertType, name: string, sku: string | null, quantity: number, threshold: number | null) {
+    const item = sku ? `${name} (SKU ${sku})` : name;
+
+    switch (type) {
+      case StockAlertType.OUT_OF_STOCK:
+        return { subject: `Out of stock: ${name}`, text: `${item} has run out of stock.` };
+      case StockAlertType.LOW_STOCK:
+        return {
+          subject: `Low stock: ${name}`,
+          text: `${item} is down to ${quantity} available, at or below its threshold of ${threshold}.`,
+        };
+      default:
+        return {
+          subject: `Back in stock: ${name}`,
+          text: `${item} has been restocked to ${quantity} available, above its threshold of ${threshold}.`,
+        };
+    }
+  }
+
+  private itemName(inventory: AlertedInventory): string | null {
+    return inventory.variant
+      ? `${inventory.variant.product.name} - ${inventory.variant.name}`
+      : inventory.product?.name ?? null;
+  }
+
+  private async loadSettings(): Promise<AlertSettings> {
+    const list = async (key: string) =>
+      String((await this.configService.get<string>(key, '')) || '')
+        .split(',')
+        .map(value => value.trim())
+        .filter(Boolean);
+    const cooldown = Number(await this.configService.get<number | string>('STOCK_ALERT_COOLDOWN_MINUTES', 60));
+
+    return {
+      emails: await list('STOCK_ALERT_EMAILS'),
+      phones: await list('STOCK_ALERT_PHONES'),
+      webhookUrls: await list('STOCK_ALERT_WEBHOOK_URLS'),
+      webhookSecret: (await this.configService.get<string>('STOCK_ALERT_WEBHOOK_SECRET', '')) || '',
+      cooldownMs: (Number.isFinite(cooldown) && cooldown >= 0 ? cooldown : 60) * 60 * 1000,
+    };
+  }
+}
@@ -0,0 +1,291 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Prisma, StockMovementType } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { StockMovementQueryDto } from './dto/stock-movement.dto';
+
+/**
+ * One change to an item's stock. Quantities are signed changes to the
+ * available and reserved counts at the warehouse, or outside any warehouse
+ */
+export interface StockMovementEntry {
+  inventoryId: string;
+  warehouseId?: string | null;
+  lotId?: string | null;
+  type: StockMovementType;
+  quantity?: number;
+  reservedQuantity?: number;
+  reason?: string | null;
+  reference?: string | null;
+  userId?: string | null;
+}
+
+/**
+ * Emitted whenever stock or stock settings of items change
+ */
+export interface StockChangedEvent {
+  inventoryIds: string[];
+}
+
+/**
+ * Stock at one location compared with what its movements add up to
+ */
+export interface LocationBalance {
+  warehouseId: string | null;
+  quantity: number;
+  ledgerQuantity: number;
+  reservedQuantity: number;
+  ledgerReservedQuantity: number;
+}
+
+const movementInclude = {
+  inventory: {
+    select: {
+      productId: true,
+      variantId: true,
+      product: { select: { name: true, sku: true } },
+      variant: { select: { name: true, sku: true } },
+    },
+  },
+  warehouse: { select: { id: true, code: true, name: true } },
+  lot: { select: { id: true, lotNumber: true, expiresAt: true } },
+} satisfies Prisma.StockMovementInclude;
+
+const reconcileInclude = {
+  warehouseStocks: true,
+  product: { select: { name: true, sku: true } },
+  variant: { select: { name: true, sku: true, product: { select: { name: true } } } },
+} satisfies Prisma.ProductInventoryInclude;
+
+type ReconciledInventory = Prisma.ProductInventoryGetPayload<{ include: typeof reconcileInclude }>;
+
+@Injectable()
+export class ProductStockLedgerService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * Append movements to the ledger. Entries that change nothing are skipped,
+   * but still announce the item as changed since its settings may have
+   */
+  async record(entries: StockMovementEntry | StockMovementEntry[], tx?: Prisma.TransactionClient) {
+    const client = tx ?? this.prisma;
+    const list = Array.isArray(entries) ? entries : [entries];
+
+    if (list.length > 0) {
+      const event: StockChangedEvent = { inventoryIds: [...new Set(list.map(entry => entry.inventoryId))] };
+      this.eventEmitter.emit('inventory.stock.changed', event);
+    }
+
+    const data = list
+      .filter(entry => (entry.quantity ?? 0) !== 0 || (entry.reservedQuantity ?? 0) !== 0)
+      .map(entry => ({
+        inventoryId: entry.inventoryId,
+        warehouseId: entry.warehouseId ?? null,
+        lotId: entry.lotId ?? null,
+        type: entry.type,
+        quantity: entry.quantity ?? 0,
+        reservedQuantity: entry.reservedQuantity ?? 0,
+        reason: entry.reason ?? null,
+        reference: entry.reference ?? null,
+        userId: entry.userId ?? null,
+      }));
+
+    if (data.length === 0) {
+      return 0;
+    }
+
+    const result = await client.stockMovement.createMany({ data });
+    return result.count;
+  }
+
+  /**
+   * List movements, newest first. When filtered to one product or variant the
+   * response also carries its stock as derived from the ledger up to `to`
+   */
+  async findMovements(query: StockMovementQueryDto) {
+    const page = Number(query.page) || 1;
+    const limit = Math.min(Number(query.limit) || 20, 100);
+    const skip = (page - 1) * limit;
+
+    const from = query.from ? new Date(query.from) : undefined;
+    const to = query.to ? new Date(query.to) : undefined;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      throw new BadRequestException('from and to must be valid dates');
+    }
+
+    const itemWhere: Prisma.StockMovementWhereInput = {
+      ...(query.variantId
+        ? { inventory: { variantId: query.variantId } }
+        : query.productId ? { inventory: { productId: query.productId } } : {}),
+      ...(query.warehouseId ? { warehouseId: query.warehouseId } : {}),
+    };
+
+    const where: Prisma.StockMovementWhereInput = {
+      ...itemWhere,
+      ...(query.lotId ? { lotId: query.lotId } : {}),
+      ...(query.type ? { type: query.type } : {}),
+      ...(query.reference ? { reference: query.reference } : {}),
+      ...(from || to ? { createdAt: { gte: from, lte: to } } : {}),
+    };
+
+    const [movements, total, balance] = await Promise.all([
+      this.prisma.stockMovement.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        include: movementInclude,
+      }),
+      this.prisma.stockMovement.count({ where }),
+      query.productId || query.variantId
+        ? this.prisma.stockMovement.aggregate({
+            where: { ...itemWhere, ...(to ? { createdAt: { lte: to } } : {}) },
+            _sum: { quantity: true, reservedQuantity: true },
+          })
+        : null,
+    ]);
+
+    return {
+      data: movements,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+      ...(balance
+        ? {
+            balance: {
+              asOf: to ?? new Date(),
+              quantity: balance._sum.quantity ?? 0,
+              reservedQuantity: balance._sum.reservedQuantity ?? 0,
+            },
+          }
+        : {}),
+    };
+  }
+
+  /**
+   * Compare every item's stock, overall and per warehouse, with the totals of its movements
+   */
+  async reconcile(all = false) {
+    const [inventories, sums] = await Promise.all([
+      this.prisma.productInventory.findMany({ include: reconcileInclude }),
+      this.prisma.stockMovement.groupBy({
+        by: ['inventoryId', 'warehouseId'],
+        _sum: { quantity: true, reservedQuantity: true },
+      }),
+    ]);
+
+    const ledger = new Map<string, typeof sums>();
+    for (const sum of sums) {
+      ledger.set(sum.inventoryId, [...(ledger.get(sum.inventoryId) ?? []), sum]);
+    }
+
+    const items = inventories.map(inventory => {
+      const locations = this.balanceLocations(inventory, ledger.get(inventory.id) ?? []);
+      const ledgerQuantity = locations.reduce((total, location) => total + location.ledgerQuantity, 0);
+      const ledgerReservedQuantity = locations.reduce((total, location) => total + location.ledgerReservedQuantity, 0);
+      const mismatched = locations.filter(location =>
+        location.quantity !== location.ledgerQuantity || location.reservedQuantity !== location.ledgerReservedQuantity,
+      );
+
+      return {
+        inventoryId: inventory.id,
+        productId: inventory.productId,
+        variantId: inventory.variantId,
+        name: inventory.variant
+          ? `${inventory.variant.product.name} - ${inventory.variant.name}`
+          : inventory.product?.name ?? null,
+        sku: inventory.variant?.sku ?? inventory.product?.sku ?? null,
+        quantity: inventory.quantity,
+        ledgerQuantity,
+        quantityDifference: inventory.quantity - ledgerQuantity,
+        reservedQuantity: inventory.reservedQuantity,
+        ledgerReservedQuantity,
+        reservedDifference: inventory.reservedQuantity - ledgerReservedQuantity,
+        inBalance: mismatched.length === 0
+          && inventory.quantity === ledgerQuantity
+          && inventory.reservedQuantity === ledgerReservedQuantity,
+        locations: mismatched,
+      };
+    });
+
+    const outOfBalance = items.filter(item => !item.inBalance);
+
+    return {
+      checkedAt: new Date(),
+      summary: {
+        items: items.length,
+        inBalance: items.length - outOfBalance.length,
+        outOfBalance: outOfBalance.length,
+      },
+      items: all ? items : outOfBalance,
+    };
+  }
+
+  /**
+   * Book adjustments so the ledger agrees with current stock, for example to
+   * open balances for stock that predates the ledger or after a stock count
+   */
+  async applyReconciliation(userId?: string, reason?: string) {
+    const report = await this.reconcile();
+
+    const entries: StockMovementEntry[] = report.items.flatMap(item =>
+      item.locations.map(location => ({
+        inventoryId: item.inventoryId,
+        warehouseId: location.warehouseId,
+        type: StockMovementType.ADJUSTMENT,
+        quantity: location.quantity - location.ledgerQuantity,
+        reservedQuantity: location.reservedQuantity - location.ledgerReservedQuantity,
+        reason: reason || 'Reconciliation',
+        userId,
+      })),
+    );
+
+    const recorded = await this.record(entries);
+
+    return {
+      items: report.items.length,
+      movements: recorded,
+    };
+  }
+
+  /**
+   * Expected stock per location: each warehouse line, plus stock outside any
+   * warehouse, which is the whole amount for items not stocked in warehouses
+   */
+  private balanceLocations(
+    inventory: ReconciledInventory,
+    sums: { warehouseId: string | null; _sum: { quantity: number | null; reservedQuantity: number | null } }[],
+  ): LocationBalance[] {
+    const stocked = inventory.warehouseStocks.length > 0;
+    const expected = new Map<string | null, { quantity: number; reservedQuantity: number }>([
+      [null, stocked
+        ? { quantity: 0, reservedQuantity: 0 }
+        : { quantity: inventory.quantity, reservedQuantity: inventory.reservedQuantity }],
+    ]);
+
+    for (const stock of inventory.warehouseStocks) {
+      expected.set(stock.warehouseId, { quantity: stock.quantity, reservedQuantity: stock.reservedQuantity });
+    }
+
+    const warehouseIds = new Set([...expected.keys(), ...sums.map(sum => sum.warehouseId)]);
+
+    return [...warehouseIds].map(warehouseId => {
+      const sum = sums.find(entry => entry.warehouseId === warehouseId);
+      const stock = expected.get(warehouseId);
+
+      return {
+        warehouseId,
+        quantity: stock?.quantity ?? 0,
+        ledgerQuantity: sum?._sum.quantity ?? 0,
+        reservedQuantity: stock?.reservedQuantity ?? 0,
+        ledgerReservedQuantity: sum?._sum.reservedQuantity ?? 0,
+      };
+    });
+  }
+}
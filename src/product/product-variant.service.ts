@@ -1,16 +1,49 @@
 import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { Prisma } from '@prisma/client';
+import { Prisma, AttributeType, ProductType, StockMovementType } from '@prisma/client';
 import { CreateProductVariantDto } from './dto/create-product-variant.dto';
+import { GenerateVariantsDto, VariantAxisDto } from './dto/generate-variants.dto';
+import { ProductPricingService, PricingContext } from './product-pricing.service';
+import { ProductRevisionService } from './product-revision.service';
+import { ProductPriceHistoryService } from './product-price-history.service';
+import { ProductBundleService } from './product-bundle.service';
+import { ProductInventoryService } from './product-inventory.service';
+import { ProductStockLedgerService } from './product-stock-ledger.service';
+import { ConfigService } from '../config/config.service';
+import { CategoryAttributeService } from '../category/category-attribute.service';
+
+/**
+ * Upper bound on combinations generated in one request
+ */
+const MAX_VARIANT_COMBINATIONS = 250;
+
+export interface VariantMatrixEntry {
+  action: 'create' | 'update' | 'unchanged' | 'deactivate';
+  variantId?: string;
+  name: string;
+  sku: string | null;
+  price: string | null;
+  options: Record<string, string>;
+}
 
 @Injectable()
 export class ProductVariantService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly pricingService: ProductPricingService,
+    private readonly configService: ConfigService,
+    private readonly categoryAttributeService: CategoryAttributeService,
+    private readonly revisionService: ProductRevisionService,
+    private readonly priceHistoryService: ProductPriceHistoryService,
+    private readonly bundleService: ProductBundleService,
+    private readonly inventoryService: ProductInventoryService,
+    private readonly ledgerService: ProductStockLedgerService,
+  ) {}
 
   /**
    * Create a new product variant
    */
-  async create(productId: string, createVariantDto: CreateProductVariantDto) {
+  async create(productId: string, createVariantDto: CreateProductVariantDto, userId?: string) {
     // Check if product exists
     const product = await this.prisma.product.findUnique({
       where: { id: productId },
@@ -20,7 +53,14 @@ export class ProductVariantService {
       throw new NotFoundException(`Product with ID ${productId} not found`);
     }
 
-    const { media, quantity, lowStockThreshold, backorderAllowed, ...variantData } = createVariantDto;
+    if (product.type === ProductType.BUNDLE) {
+      throw new BadRequestException('Bundles cannot have variants');
+    }
+
+    await this.revisionService.ensureBaseline(productId);
+    const pricesBefore = await this.priceHistoryService.capture(productId);
+
+    const { media, quantity, lowStockThreshold, backorderAllowed, taxClassId, ...variantData } = createVariantDto;
 
     try {
       // Create the variant
@@ -30,6 +70,9 @@ export class ProductVariantService {
           product: {
             connect: { id: productId },
           },
+          ...(taxClassId && {
+            taxClass: { connect: { id: taxClassId } },
+          }),
           // Add media if provided
           ...(media && {
             media: {
@@ -50,16 +93,7 @@ export class ProductVariantService {
 
       // Create inventory record if quantity is provided
       if (quantity !== undefined) {
-        await this.prisma.productInventory.create({
-          data: {
-            variant: {
-              connect: { id: variant.id },
-            },
-            quantity,
-            lowStockThreshold,
-            backorderAllowed,
-          },
-        });
+        await this.inventoryService.updateForVariant(variant.id, { quantity, lowStockThreshold, backorderAllowed }, userId);
       }
 
       // Update product to indicate it has variants
@@ -68,6 +102,9 @@ export class ProductVariantService {
         data: { hasVariants: true },
       });
 
+      await this.priceHistoryService.recordChanges(productId, pricesBefore, 'variant.create', userId);
+      await this.revisionService.record(productId, userId, 'variant.create', { variantId: variant.id });
+
       // Fetch the complete variant with inventory
       return this.findOne(variant.id);
     } catch (error) {
@@ -83,7 +120,7 @@ export class ProductVariantService {
   /**
    * Find all variants for a product
    */
-  async findAll(productId: string) {
+  async findAll(productId: string, pricing?: PricingContext) {
     // Check if product exists
     const product = await this.prisma.product.findUnique({
       where: { id: productId },
@@ -93,7 +130,7 @@ export class ProductVariantService {
       throw new NotFoundException(`Product with ID ${productId} not found`);
     }
 
-    return this.prisma.productVariant.findMany({
+    const variants = await this.prisma.productVariant.findMany({
       where: {
         productId,
       },
@@ -109,12 +146,16 @@ export class ProductVariantService {
         position: 'asc',
       },
     });
+
+    return pricing
+      ? variants.map(variant => this.pricingService.applyToVariant(variant, pricing, product))
+      : variants;
   }
 
   /**
    * Find a single variant by ID
    */
-  async findOne(id: string) {
+  async findOne(id: string, pricing?: PricingContext) {
     const variant = await this.prisma.productVariant.findUnique({
       where: { id },
       include: {
@@ -129,6 +170,8 @@ export class ProductVariantService {
             id: true,
             name: true,
             slug: true,
+            price: true,
+            dealerPrice: true,
           },
         },
       },
@@ -138,13 +181,21 @@ export class ProductVariantService {
       throw new NotFoundException(`Variant with ID ${id} not found`);
     }
 
-    return variant;
+    if (!pricing) {
+      return variant;
+    }
+
+    const { price, dealerPrice, ...product } = variant.product;
+    return {
+      ...this.pricingService.applyToVariant(variant, pricing, { price, dealerPrice }),
+      product,
+    };
   }
 
   /**
    * Update a variant
    */
-  async update(id: string, updateVariantDto: any) {
+  async update(id: string, updateVariantDto: any, userId?: string) {
     const { media, quantity, lowStockThreshold, backorderAllowed, ...variantData } = updateVariantDto;
 
     // Check if variant exists
@@ -159,6 +210,9 @@ export class ProductVariantService {
       throw new NotFoundException(`Variant with ID ${id} not found`);
     }
 
+    await this.revisionService.ensureBaseline(variant.productId);
+    const pricesBefore = await this.priceHistoryService.capture(variant.productId);
+
     try {
       // Update the variant
       const updatedVariant = await this.prisma.productVariant.update({
@@ -172,29 +226,12 @@ export class ProductVariantService {
 
       // Update inventory if provided
       if (quantity !== undefined) {
-        if (variant.inventory) {
-          await this.prisma.productInventory.update({
-            where: { variantId: id },
-            data: {
-              quantity,
-              ...(lowStockThreshold !== undefined && { lowStockThreshold }),
-              ...(backorderAllowed !== undefined && { backorderAllowed }),
-            },
-          });
-        } else {
-          await this.prisma.productInventory.create({
-            data: {
-              variant: {
-                connect: { id },
-              },
-              quantity,
-              lowStockThreshold,
-              backorderAllowed,
-            },
-          });
-        }
+        await this.inventoryService.updateForVariant(id, { quantity, lowStockThreshold, backorderAllowed }, userId);
       }
 
+      await this.priceHistoryService.recordChanges(variant.productId, pricesBefore, 'variant.update', userId);
+      await this.revisionService.record(variant.productId, userId, 'variant.update', { variantId: id });
+
       // Fetch the updated variant with inventory
       return this.findOne(id);
     } catch (error) {
@@ -210,7 +247,7 @@ export class ProductVariantService {
   /**
    * Delete a variant
    */
-  async remove(id: string) {
+  async remove(id: string, userId?: string) {
     // Check if variant exists
     const variant = await this.prisma.productVariant.findUnique({
       where: { id },
@@ -227,6 +264,9 @@ export class ProductVariantService {
       throw new NotFoundException(`Variant with ID ${id} not found`);
     }
 
+    await this.bundleService.assertNotBundled({ variantId: id });
+    await this.revisionService.ensureBaseline(variant.productId);
+
     // Delete the variant (inventory will be cascade deleted)
     await this.prisma.productVariant.delete({
       where: { id },
@@ -240,6 +280,371 @@ export class ProductVariantService {
       });
     }
 
+    await this.revisionService.record(variant.productId, userId, 'variant.delete', { variantId: id });
+
     return { id, message: 'Variant deleted successfully' };
   }
-} 
\ No newline at end of file
+
+  /**
+   * Generate every combination of the option axes as variants.
+   * Existing variants are matched on their options and updated in place; combinations
+   * that drop out of the matrix are deactivated rather than deleted.
+   */
+  async generateMatrix(productId: string, generateDto: GenerateVariantsDto, userId?: string) {
+    const product = await this.prisma.product.findUnique({
+      where: { id: productId },
+      include: {
+        attributes: true,
+        categories: { orderBy: { isPrimary: 'desc' } },
+        variants: { include: { inventory: true } },
+      },
+    });
+
+    if (!product) {
+      throw new NotFoundException(`Product with ID ${productId} not found`);
+    }
+
+    if (product.type === ProductType.BUNDLE) {
+      throw new BadRequestException('Bundles cannot have variants');
+    }
+
+    const axes = this.resolveAxes(generateDto.axes, product.attributes);
+    await this.validateAxes(axes, product.categories.map(category => category.categoryId));
+
+    const combinationCount = axes.reduce((count, axis) => count * axis.values.length, 1);
+    if (combinationCount > MAX_VARIANT_COMBINATIONS) {
+      throw new BadRequestException(
+        `These axes produce ${combinationCount} combinations; the limit is ${MAX_VARIANT_COMBINATIONS}`,
+      );
+    }
+
+    const skuPattern = generateDto.skuPattern
+      || (await this.configService.get<string>('PRODUCT_VARIANT_SKU_PATTERN', '{productSku}-{options}'))
+      || '{productSku}-{options}';
+    const updatePrices = generateDto.updatePrices ?? true;
+    const deactivateMissing = generateDto.deactivateMissing ?? true;
+
+    // Index existing variants by their option values so re-runs line up with them
+    const existingByKey = new Map(product.variants.map(variant => [
+      this.optionKey(variant.options as Record<string, unknown>, axes),
+      variant,
+    ]));
+
+    const entries: VariantMatrixEntry[] = [];
+    const matched = new Set<string>();
+    const combinations = this.combine(axes);
+
+    combinations.forEach((combination, index) => {
+      const options = Object.fromEntries(combination.map(({ axis, option }) => [axis.name, option.value]));
+      const adjustment = combination.reduce((sum, { option }) => sum + (option.priceAdjustment ?? 0), 0);
+      const price = new Prisma.Decimal(product.price).plus(adjustment);
+
+      if (price.isNegative()) {
+        throw new BadRequestException(`Price adjustments make '${Object.values(options).join(' / ')}' negative`);
+      }
+
+      const existing = existingByKey.get(this.optionKey(options, axes));
+      const name = Object.values(options).join(' / ');
+
+      if (!existing) {
+        const sku = this.buildSku(skuPattern, product, combination, index + 1);
+        entries.push({ action: 'create', name, sku, price: price.toFixed(2), options });
+        return;
+      }
+
+      matched.add(existing.id);
+      const newPrice = updatePrices ? price : existing.price;
+      const changed = existing.name !== name
+        || !existing.isActive
+        || existing.position !== index
+        || (updatePrices && (!existing.price || !existing.price.equals(price)));
+
+      entries.push({
+        action: changed ? 'update' : 'unchanged',
+        variantId: existing.id,
+        name,
+        sku: existing.sku,
+        price: newPrice ? new Prisma.Decimal(newPrice).toFixed(2) : null,
+        options,
+      });
+    });
+
+    if (deactivateMissing) {
+      for (const variant of product.variants) {
+        if (!matched.has(variant.id) && variant.isActive) {
+          entries.push({
+            action: 'deactivate',
+            variantId: variant.id,
+            name: variant.name,
+            sku: variant.sku,
+            price: variant.price ? variant.price.toFixed(2) : null,
+            options: variant.options as Record<string, string>,
+          });
+        }
+      }
+    }
+
+    await this.checkSkus(entries);
+
+    const summary = {
+      axes: axes.map(axis => ({ name: axis.name, values: axis.values.map(option => option.value) })),
+      combinations: combinations.length,
+      created: entries.filter(entry => entry.action === 'create').length,
+      updated: entries.filter(entry => entry.action === 'update').length,
+      unchanged: entries.filter(entry => entry.action === 'unchanged').length,
+      deactivated: entries.filter(entry => entry.action === 'deactivate').length,
+    };
+
+    if (generateDto.dryRun) {
+      return { dryRun: true, ...summary, variants: entries };
+    }
+
+    await this.revisionService.ensureBaseline(productId);
+    const pricesBefore = await this.priceHistoryService.capture(productId);
+
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        // Record the axes as variant option attributes
+        for (const axis of axes) {
+          const value = axis.values.map(option => option.value).join(', ');
+          await tx.productAttribute.upsert({
+            where: { productId_name: { productId, name: axis.name } },
+            update: { value, isVariantOption: true },
+            create: { productId, name: axis.name, value, type: AttributeType.MULTISELECT, isVariantOption: true },
+          });
+        }
+
+        for (const [position, entry] of entries.entries()) {
+          if (entry.action === 'create') {
+            const variant = await tx.productVariant.create({
+              data: {
+                productId,
+                name: entry.name,
+                sku: entry.sku,
+                price: entry.price,
+                options: entry.options,
+                position,
+                isActive: true,
+              },
+            });
+            entry.variantId = variant.id;
+          } else if (entry.action === 'update') {
+            await tx.productVariant.update({
+              where: { id: entry.variantId },
+              data: {
+                name: entry.name,
+                options: entry.options,
+                position,
+                isActive: true,
+                ...(updatePrices && { price: entry.price }),
+              },
+            });
+          } else if (entry.action === 'deactivate') {
+            await tx.productVariant.update({
+              where: { id: entry.variantId },
+              data: { isActive: false },
+            });
+          }
+        }
+
+        // Every variant in the matrix gets an inventory row
+        const withInventory = new Set(
+          product.variants.filter(variant => variant.inventory).map(variant => variant.id),
+        );
+        const missingInventory = entries.filter(entry =>
+          entry.action !== 'deactivate' && entry.variantId && !withInventory.has(entry.variantId),
+        );
+
+        if (missingInventory.length > 0) {
+          const created = await tx.productInventory.createManyAndReturn({
+            data: missingInventory.map(entry => ({
+              variantId: entry.variantId!,
+              quantity: entry.action === 'create' ? generateDto.quantity ?? 0 : 0,
+              lowStockThreshold: generateDto.lowStockThreshold,
+            })),
+          });
+
+          await this.ledgerService.record(created.map(inventory => ({
+            inventoryId: inventory.id,
+            type: StockMovementType.ADJUSTMENT,
+            quantity: inventory.quantity,
+            reason: 'Variant generated',
+            userId,
+          })), tx);
+        }
+
+        await tx.product.update({
+          where: { id: productId },
+          data: { hasVariants: true },
+        });
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new BadRequestException('Variant with this SKU or barcode already exists');
+      }
+      throw error;
+    }
+
+    await this.priceHistoryService.recordChanges(productId, pricesBefore, 'variant.generate', userId);
+    await this.revisionService.record(productId, userId, 'variant.generate');
+
+    return { dryRun: false, ...summary, variants: entries };
+  }
+
+  /**
+   * Use the requested axes, or fall back to the product's variant option attributes
+   */
+  private resolveAxes(
+    axes: VariantAxisDto[] | undefined,
+    attributes: Array<{ name: string; value: string; isVariantOption: boolean; position: number }>,
+  ): VariantAxisDto[] {
+    const resolved: VariantAxisDto[] = axes && axes.length > 0
+      ? axes
+      : attributes
+          .filter(attr => attr.isVariantOption)
+          .sort((a, b) => a.position - b.position)
+          .map(attr => ({
+            name: attr.name,
+            values: attr.value.split(',').map(value => ({ value: value.trim() })).filter(option => option.value),
+          }));
+
+    if (resolved.length === 0) {
+      throw new BadRequestException('Provide option axes or mark product attributes as variant options');
+    }
+
+    const names = new Set<string>();
+    for (const axis of resolved) {
+      const name = axis.name?.trim();
+      if (!name || !Array.isArray(axis.values) || axis.values.length === 0) {
+        throw new BadRequestException('Each axis needs a name and at least one value');
+      }
+      if (names.has(name.toLowerCase())) {
+        throw new BadRequestException(`Axis '${name}' is listed more than once`);
+      }
+      names.add(name.toLowerCase());
+
+      const values = new Set<string>();
+      for (const option of axis.values) {
+        const value = option.value?.trim();
+        if (!value || values.has(value.toLowerCase())) {
+          throw new BadRequestException(`Axis '${name}' has an empty or repeated value`);
+        }
+        values.add(value.toLowerCase());
+        if (option.priceAdjustment !== undefined && !Number.isFinite(Number(option.priceAdjustment))) {
+          throw new BadRequestException(`Price adjustment for '${value}' must be a number`);
+        }
+      }
+    }
+
+    return resolved.map(axis => ({
+      name: axis.name.trim(),
+      values: axis.values.map(option => ({
+        ...option,
+        value: option.value.trim(),
+        priceAdjustment: option.priceAdjustment !== undefined ? Number(option.priceAdjustment) : undefined,
+      })),
+    }));
+  }
+
+  /**
+   * Axis values must be allowed options when the category schema defines that attribute
+   */
+  private async validateAxes(axes: VariantAxisDto[], categoryIds: string[]) {
+    const definitions = await this.categoryAttributeService.findForCategories(categoryIds);
+    const errors = axes.flatMap(axis => {
+      const definition = definitions.get(axis.name.toLowerCase());
+      if (!definition || (definition.type !== AttributeType.DROPDOWN && definition.type !== AttributeType.MULTISELECT)) {
+        return [];
+      }
+      return axis.values
+        .map(option => this.categoryAttributeService.validateValue(definition, option.value))
+        .filter(error => error !== null);
+    });
+
+    if (errors.length > 0) {
+      throw new BadRequestException({
+        message: 'Product attributes do not match the category schema',
+        errors,
+      });
+    }
+  }
+
+  /**
+   * Cartesian product of the axes, in axis order
+   */
+  private combine(axes: VariantAxisDto[]) {
+    type Pick = { axis: VariantAxisDto; option: VariantAxisDto['values'][number] };
+
+    return axes.reduce<Pick[][]>(
+      (combinations, axis) =>
+        combinations.flatMap(combination => axis.values.map(option => [...combination, { axis, option }])),
+      [[]],
+    );
+  }
+
+  /**
+   * Case-insensitive key of a variant's values on the given axes
+   */
+  private optionKey(options: Record<string, unknown>, axes: VariantAxisDto[]): string {
+    const lower = Object.fromEntries(
+      Object.entries(options ?? {}).map(([name, value]) => [name.toLowerCase(), String(value).toLowerCase()]),
+    );
+    return JSON.stringify(axes.map(axis => lower[axis.name.toLowerCase()] ?? null));
+  }
+
+  private buildSku(
+    pattern: string,
+    product: { sku: string | null; slug: string },
+    combination: Array<{ axis: VariantAxisDto; option: VariantAxisDto['values'][number] }>,
+    index: number,
+  ): string {
+    const code = (option: VariantAxisDto['values'][number]) =>
+      (option.skuCode || option.value).toUpperCase().replace(/[^A-Z0-9]+/g, '');
+    const codes = new Map(combination.map(({ axis, option }) => [axis.name.toLowerCase(), code(option)]));
+
+    return pattern.replace(/\{([^}]+)\}/g, (placeholder, token: string) => {
+      switch (token) {
+        case 'productSku':
+          return product.sku || product.slug.toUpperCase();
+        case 'slug':
+          return product.slug;
+        case 'options':
+          return combination.map(({ option }) => code(option)).join('-');
+        case 'index':
+          return String(index).padStart(2, '0');
+        default:
+          return codes.get(token.toLowerCase()) ?? placeholder;
+      }
+    });
+  }
+
+  /**
+   * Generated SKUs must be unique within the matrix and not used by other products or variants
+   */
+  private async checkSkus(entries: VariantMatrixEntry[]) {
+    const created = entries.filter(entry => entry.action === 'create' && entry.sku);
+    const all = entries.filter(entry => entry.action !== 'deactivate' && entry.sku).map(entry => entry.sku!);
+    const duplicates = all.filter((sku, index) => all.indexOf(sku) !== index);
+
+    if (duplicates.length > 0) {
+      throw new BadRequestException(
+        `The SKU pattern produces duplicate SKUs: ${[...new Set(duplicates)].join(', ')}`,
+      );
+    }
+
+    if (created.length === 0) {
+      return;
+    }
+
+    const skus = created.map(entry => entry.sku!);
+    const [products, variants] = await Promise.all([
+      this.prisma.product.findMany({ where: { sku: { in: skus } }, select: { sku: true } }),
+      this.prisma.productVariant.findMany({ where: { sku: { in: skus } }, select: { sku: true } }),
+    ]);
+    const taken = [...products, ...variants].map(record => record.sku);
+
+    if (taken.length > 0) {
+      throw new BadRequestException(`SKUs already in use: ${[...new Set(taken)].join(', ')}`);
+    }
+  }
+}
@@ -4,15 +4,26 @@ import {
   Post, 
   Body, 
   Patch, 
+  Put,
   Param, 
   Delete, 
   Query, 
   UseGuards,
   NotFoundException,
   BadRequestException,
+  ForbiddenException,
   HttpStatus,
   HttpCode,
+  Header,
+  UseInterceptors,
+  UploadedFile,
+  UploadedFiles,
+  StreamableFile,
+  ParseIntPipe,
+  DefaultValuePipe,
 } from '@nestjs/common';
+import { Readable } from 'stream';
+import { FileInterceptor, FilesInterceptor } from '@nestjs/platform-express';
 import { ProductService } from './product.service';
 import { ProductVariantService } from './product-variant.service';
 import { ProductMediaService } from './product-media.service';
@@ -20,16 +31,39 @@ import { ProductInventoryService } from './product-inventory.service';
 import { ProductReviewService } from './product-review.service';
 import { ProductAnalyticsService } from './product-analytics.service';
 import { ProductSearchService } from './product-search.service';
+import { ProductPricingService } from './product-pricing.service';
+import { ProductImportService } from './product-import.service';
+import { ProductExportService } from './product-export.service';
+import { ProductPublishingService } from './product-publishing.service';
+import { ProductRevisionService } from './product-revision.service';
+import { ProductPriceHistoryService } from './product-price-history.service';
+import { ProductBundleService } from './product-bundle.service';
+import { ProductComparisonService } from './product-comparison.service';
+import { ProductStockLedgerService } from './product-stock-ledger.service';
+import { ProductReservationService } from './product-reservation.service';
+import { ProductLotService } from './product-lot.service';
+import { ProductStockAlertService } from './product-stock-alert.service';
+import { ShippingService } from '../shipping/shipping.service';
 import { CreateProductDto } from './dto/create-product.dto';
 import { UpdateProductDto } from './dto/update-product.dto';
 import { ProductQueryDto } from './dto/product-query.dto';
 import { CreateProductVariantDto } from './dto/create-product-variant.dto';
+import { GenerateVariantsDto } from './dto/generate-variants.dto';
 import { CreateProductReviewDto } from './dto/create-product-review.dto';
 import { UpdateInventoryDto } from './dto/update-inventory.dto';
 import { Public } from '../auth/decorators/public.decorator';
 import { RequirePermissions } from '../auth/decorators/permissions.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { SearchQueryDto } from './dto/search-query.dto';
+import { ProductExportQueryDto, CATALOG_EXPORT_FORMATS } from './dto/product-export-query.dto';
+import { ChangeProductStatusDto, ScheduleCatalogDto } from './dto/product-publishing.dto';
+import { SchedulePriceChangeDto } from './dto/schedule-price-change.dto';
+import { SetProductBundleDto } from './dto/set-product-bundle.dto';
+import { CreateStockMovementDto, StockMovementQueryDto } from './dto/stock-movement.dto';
+import { ReservationQueryDto } from './dto/reservation-query.dto';
+import { StockLotQueryDto, ExpiringLotQueryDto, UpdateStockLotDto } from './dto/stock-lot.dto';
+import { StockAlertQueryDto } from './dto/stock-alert-query.dto';
+import { ProductStatus, PriceScheduleStatus } from '@prisma/client';
 
 @Controller('products')
 export class ProductController {
@@ -41,30 +75,81 @@ export class ProductController {
     private readonly reviewService: ProductReviewService,
     private readonly analyticsService: ProductAnalyticsService,
     private readonly searchService: ProductSearchService,
+    private readonly pricingService: ProductPricingService,
+    private readonly shippingService: ShippingService,
+    private readonly importService: ProductImportService,
+    private readonly exportService: ProductExportService,
+    private readonly publishingService: ProductPublishingService,
+    private readonly revisionService: ProductRevisionService,
+    private readonly priceHistoryService: ProductPriceHistoryService,
+    private readonly bundleService: ProductBundleService,
+    private readonly comparisonService: ProductComparisonService,
+    private readonly ledgerService: ProductStockLedgerService,
+    private readonly reservationService: ProductReservationService,
+    private readonly lotService: ProductLotService,
+    private readonly stockAlertService: ProductStockAlertService,
   ) {}
 
   @Post()
   @RequirePermissions({ resource: 'products', action: 'create' })
-  async create(@Body() createProductDto: CreateProductDto) {
-    return this.productService.create(createProductDto);
+  async create(@Body() createProductDto: CreateProductDto, @CurrentUser() user: any) {
+    const status = createProductDto.status ?? ProductStatus.PUBLISHED;
+    if (status === ProductStatus.PUBLISHED && !(await this.publishingService.canPublish(user))) {
+      throw new ForbiddenException('You do not have permission to publish products; create them with status DRAFT');
+    }
+
+    return this.productService.create(createProductDto, user?.sub);
+  }
+
+  @Post('import')
+  @RequirePermissions({ resource: 'products', action: 'create' })
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: 10 * 1024 * 1024 } }))
+  async import(
+    @UploadedFile() file: Express.Multer.File,
+    @Query('dryRun') dryRun?: string,
+    @Query('batchSize') batchSize?: string,
+  ) {
+    // Dry run unless explicitly committed
+    return this.importService.import(file, {
+      dryRun: dryRun !== 'false',
+      batchSize: batchSize ? Math.max(1, parseInt(batchSize, 10) || 0) : undefined,
+    });
+  }
+
+  @Get('import/template')
+  @RequirePermissions({ resource: 'products', action: 'create' })
+  @Header('Content-Type', 'text/csv; charset=utf-8')
+  @Header('Content-Disposition', 'attachment; filename="product-import-template.csv"')
+  getImportTemplate() {
+    return this.importService.getTemplate();
   }
 
   @Get()
   @Public()
-  async findAll(@Query() query: ProductQueryDto) {
-    return this.productService.findAll(query);
+  async findAll(@Query() query: ProductQueryDto, @CurrentUser() user: any) {
+    const pricing = await this.pricingService.resolveContext(user);
+
+    // Shoppers only see the live catalog
+    if (!(await this.publishingService.canViewUnpublished(user))) {
+      query = { ...query, status: ProductStatus.PUBLISHED };
+    }
+
+    return this.productService.findAll(query, pricing);
   }
 
   @Get('featured')
   @Public()
-  async getFeatured(@Query('limit') limit?: number) {
-    return this.productService.findFeatured(limit);
+  async getFeatured(@Query('limit') limit?: number, @CurrentUser() user?: any) {
+    const pricing = await this.pricingService.resolveContext(user);
+    return this.productService.findFeatured(limit, pricing);
   }
 
   @Get('popular')
   @Public()
-  async getPopular(@Query('limit') limit?: number) {
-    return this.analyticsService.getPopularProducts(limit);
+  async getPopular(@Query('limit') limit?: number, @CurrentUser() user?: any) {
+    const pricing = await this.pricingService.resolveContext(user);
+    return this.analyticsService.getPopularProducts(pricing, limit);
   }
 
   @Get('trending')
@@ -72,8 +157,10 @@ export class ProductController {
   async getTrending(
     @Query('days') days?: number,
     @Query('limit') limit?: number,
+    @CurrentUser() user?: any,
   ) {
-    return this.analyticsService.getTrendingProducts(days, limit);
+    const pricing = await this.pricingService.resolveContext(user);
+    return this.analyticsService.getTrendingProducts(pricing, days, limit);
   }
 
   @Get('category/:categoryId')
@@ -82,14 +169,17 @@ export class ProductController {
     @Param('categoryId') categoryId: string,
     @Query('limit') limit?: number,
     @Query('page') page?: number,
+    @CurrentUser() user?: any,
   ) {
-    return this.productService.findByCategory(categoryId, limit, page);
+    const pricing = await this.pricingService.resolveContext(user);
+    return this.productService.findByCategory(categoryId, limit, page, pricing);
   }
 
   @Get('search')
   @Public()
-  async search(@Query() query: SearchQueryDto) {
-    const results = await this.searchService.search(query);
+  async search(@Query() query: SearchQueryDto, @CurrentUser() user: any) {
+    const pricing = await this.pricingService.resolveContext(user);
+    const results = await this.searchService.search(query, pricing);
     
     // Track search analytics
     this.analyticsService.trackProductSearch({
@@ -104,16 +194,148 @@ export class ProductController {
     return results;
   }
 
+  @Get('compare')
+  @Public()
+  async compare(@Query('ids') ids: string | string[] = [], @CurrentUser() user?: any) {
+    // Accepts ?ids=a,b,c as well as repeated ?ids=a&ids=b
+    const productIds = (Array.isArray(ids) ? ids : [ids]).flatMap(value => value.split(','));
+    const pricing = await this.pricingService.resolveContext(user);
+    const publishedOnly = !(await this.publishingService.canViewUnpublished(user));
+    return this.comparisonService.compare(productIds, pricing, publishedOnly);
+  }
+
+  @Get('export')
+  @RequirePermissions({ resource: 'products', action: 'export' })
+  export(@Query() query: ProductExportQueryDto): StreamableFile {
+    return this.streamExport(query);
+  }
+
+  @Get('feeds/google.xml')
+  @Public()
+  async googleFeed(
+    @Query() query: ProductExportQueryDto,
+    @Query('token') token?: string,
+  ): Promise<StreamableFile> {
+    // Merchant Center fetches this on its own schedule, authenticated by a shared token
+    if (!(await this.exportService.verifyFeedToken(token))) {
+      throw new NotFoundException('Feed not found');
+    }
+
+    return this.streamExport({ ...query, format: 'google', status: ProductStatus.PUBLISHED }, false);
+  }
+
+  // Stock ledger, reservation, lot and alert endpoints
+  @Get('inventory/movements')
+  @RequirePermissions({ resource: 'inventory', action: 'read' })
+  async findStockMovements(@Query() query: StockMovementQueryDto) {
+    return this.ledgerService.findMovements(query);
+  }
+
+  @Get('inventory/reconciliation')
+  @RequirePermissions({ resource: 'inventory', action: 'read' })
+  async reconcileStock(@Query('all') all?: string) {
+    return this.ledgerService.reconcile(all === 'true');
+  }
+
+  @Post('inventory/reconciliation')
+  @RequirePermissions({ resource: 'inventory', action: 'update' })
+  @HttpCode(HttpStatus.OK)
+  async applyStockReconciliation(@Body('reason') reason: string | undefined, @CurrentUser() user: any) {
+    return this.ledgerService.applyReconciliation(user?.sub, reason);
+  }
+
+  @Get('inventory/reservations')
+  @RequirePermissions({ resource: 'inventory', action: 'read' })
+  async findReservations(@Query() query: ReservationQueryDto) {
+    return this.reservationService.findAll(query);
+  }
+
+  @Get('inventory/lots')
+  @RequirePermissions({ resource: 'inventory', action: 'read' })
+  async findLots(@Query() query: StockLotQueryDto) {
+    return this.lotService.findAll(query);
+  }
+
+  @Get('inventory/lots/expiring')
+  @RequirePermissions({ resource: 'inventory', action: 'read' })
+  async findExpiringLots(@Query() query: ExpiringLotQueryDto) {
+    return this.lotService.findExpiring(query);
+  }
+
+  @Patch('inventory/lots/:lotId')
+  @RequirePermissions({ resource: 'inventory', action: 'update' })
+  async updateLot(@Param('lotId') lotId: string, @Body() updateLotDto: UpdateStockLotDto) {
+    return this.lotService.update(lotId, updateLotDto);
+  }
+
+  @Get('inventory/alerts')
+  @RequirePermissions({ resource: 'inventory', action: 'read' })
+  async findStockAlerts(@Query() query: StockAlertQueryDto) {
+    return this.stockAlertService.findAll(query);
+  }
+
+  @Post('inventory/alerts/check')
+  @RequirePermissions({ resource: 'inventory', action: 'update' })
+  @HttpCode(HttpStatus.OK)
+  async checkStockAlerts() {
+    return this.stockAlertService.evaluateAll();
+  }
+
+  // Publishing endpoints
+  @Get('publishing/schedule')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  async getPublishingSchedule(@Query('from') from?: string, @Query('to') to?: string) {
+    return this.publishingService.getSchedule(from, to);
+  }
+
+  @Post('publishing/schedule')
+  @RequirePermissions({ resource: 'products', action: 'publish' })
+  @HttpCode(HttpStatus.OK)
+  async scheduleCatalog(@Body() scheduleCatalogDto: ScheduleCatalogDto) {
+    return this.publishingService.scheduleCatalog(scheduleCatalogDto);
+  }
+
+  @Post(':id/submit')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  @HttpCode(HttpStatus.OK)
+  async submitForReview(@Param('id') id: string, @Body('notes') notes?: string) {
+    return this.publishingService.changeStatus(id, { status: ProductStatus.IN_REVIEW, notes });
+  }
+
+  @Patch(':id/status')
+  @RequirePermissions({ resource: 'products', action: 'publish' })
+  async changeStatus(
+    @Param('id') id: string,
+    @Body() changeStatusDto: ChangeProductStatusDto,
+  ) {
+    return this.publishingService.changeStatus(id, changeStatusDto);
+  }
+
   @Get(':id')
   @Public()
-  async findOne(@Param('id') id: string) {
-    return this.productService.findOne(id);
+  async findOne(@Param('id') id: string, @CurrentUser() user: any) {
+    const pricing = await this.pricingService.resolveContext(user);
+    const publishedOnly = !(await this.publishingService.canViewUnpublished(user));
+    return this.productService.findOne(id, pricing, publishedOnly);
+  }
+
+  @Get(':id/delivery/:pincode')
+  @Public()
+  async checkDelivery(
+    @Param('id') id: string,
+    @Param('pincode') pincode: string,
+    @Query('quantity') quantity?: number,
+    @Query('variantId') variantId?: string,
+  ) {
+    return this.shippingService.checkProduct(id, pincode, quantity ? Number(quantity) : 1, variantId);
   }
 
   @Get('slug/:slug')
   @Public()
-  async findBySlug(@Param('slug') slug: string) {
-    return this.productService.findBySlug(slug);
+  async findBySlug(@Param('slug') slug: string, @CurrentUser() user: any) {
+    const pricing = await this.pricingService.resolveContext(user);
+    const publishedOnly = !(await this.publishingService.canViewUnpublished(user));
+    return this.productService.findBySlug(slug, pricing, publishedOnly);
   }
 
   @Get(':id/related')
@@ -121,8 +343,10 @@ export class ProductController {
   async getRelated(
     @Param('id') id: string,
     @Query('limit') limit?: number,
+    @CurrentUser() user?: any,
   ) {
-    return this.productService.findRelated(id, limit);
+    const pricing = await this.pricingService.resolveContext(user);
+    return this.productService.findRelated(id, limit, pricing);
   }
 
   @Patch(':id')
@@ -130,8 +354,9 @@ export class ProductController {
   async update(
     @Param('id') id: string,
     @Body() updateProductDto: UpdateProductDto,
+    @CurrentUser() user: any,
   ) {
-    return this.productService.update(id, updateProductDto);
+    return this.productService.update(id, updateProductDto, user?.sub);
   }
 
   @Delete(':id')
@@ -141,26 +366,143 @@ export class ProductController {
     return this.productService.remove(id);
   }
 
+  // Revision endpoints
+  @Get(':id/revisions')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  async getRevisions(
+    @Param('id') id: string,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page = 1,
+    @Query('pageSize', new DefaultValuePipe(20), ParseIntPipe) pageSize = 20,
+  ) {
+    return this.revisionService.findAll(id, page, pageSize);
+  }
+
+  @Get(':id/revisions/diff')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  async diffRevisions(
+    @Param('id') id: string,
+    @Query('from', ParseIntPipe) from: number,
+    @Query('to', new ParseIntPipe({ optional: true })) to?: number,
+  ) {
+    return this.revisionService.diff(id, from, to);
+  }
+
+  @Get(':id/revisions/:version')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  async getRevision(
+    @Param('id') id: string,
+    @Param('version', ParseIntPipe) version: number,
+  ) {
+    return this.revisionService.findOne(id, version);
+  }
+
+  @Post(':id/revisions/:version/restore')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  @HttpCode(HttpStatus.OK)
+  async restoreRevision(
+    @Param('id') id: string,
+    @Param('version', ParseIntPipe) version: number,
+    @CurrentUser() user: any,
+  ) {
+    await this.revisionService.restore(id, version, user?.sub);
+    return this.productService.findOne(id);
+  }
+
+  // Price history endpoints
+  @Get(':id/prices')
+  @Public()
+  async getPriceTimeline(
+    @Param('id') id: string,
+    @Query('variantId') variantId?: string,
+    @CurrentUser() user?: any,
+  ) {
+    const pricing = await this.pricingService.resolveContext(user);
+    return this.priceHistoryService.getTimeline(id, pricing, variantId);
+  }
+
+  @Get(':id/prices/schedules')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  async getPriceSchedules(
+    @Param('id') id: string,
+    @Query('status') status?: PriceScheduleStatus,
+  ) {
+    return this.priceHistoryService.findSchedules(id, status);
+  }
+
+  @Post(':id/prices/schedules')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  async schedulePriceChange(
+    @Param('id') id: string,
+    @Body() schedulePriceChangeDto: SchedulePriceChangeDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.priceHistoryService.schedule(id, schedulePriceChangeDto, user?.sub);
+  }
+
+  @Delete('prices/schedules/:scheduleId')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  async cancelPriceSchedule(@Param('scheduleId') scheduleId: string, @CurrentUser() user: any) {
+    return this.priceHistoryService.cancel(scheduleId, user?.sub);
+  }
+
+  // Bundle endpoints
+  @Get(':id/bundle')
+  @Public()
+  async getBundle(@Param('id') id: string, @CurrentUser() user?: any) {
+    const pricing = await this.pricingService.resolveContext(user);
+    const publishedOnly = !(await this.publishingService.canViewUnpublished(user));
+    return this.bundleService.findOne(id, pricing, publishedOnly);
+  }
+
+  @Put(':id/bundle')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  async setBundle(
+    @Param('id') id: string,
+    @Body() setProductBundleDto: SetProductBundleDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.bundleService.set(id, setProductBundleDto, user?.sub);
+  }
+
+  @Delete(':id/bundle')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  async removeBundle(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.bundleService.remove(id, user?.sub);
+  }
+
   // Variant endpoints
   @Post(':productId/variants')
   @RequirePermissions({ resource: 'products', action: 'update' })
   async createVariant(
     @Param('productId') productId: string,
     @Body() createVariantDto: CreateProductVariantDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.variantService.create(productId, createVariantDto, user?.sub);
+  }
+
+  @Post(':productId/variants/generate')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  async generateVariants(
+    @Param('productId') productId: string,
+    @Body() generateVariantsDto: GenerateVariantsDto,
+    @CurrentUser() user: any,
   ) {
-    return this.variantService.create(productId, createVariantDto);
+    return this.variantService.generateMatrix(productId, generateVariantsDto, user?.sub);
   }
 
   @Get(':productId/variants')
   @Public()
-  async getVariants(@Param('productId') productId: string) {
-    return this.variantService.findAll(productId);
+  async getVariants(@Param('productId') productId: string, @CurrentUser() user: any) {
+    const pricing = await this.pricingService.resolveContext(user);
+    return this.variantService.findAll(productId, pricing);
   }
 
   @Get('variants/:id')
   @Public()
-  async getVariant(@Param('id') id: string) {
-    return this.variantService.findOne(id);
+  async getVariant(@Param('id') id: string, @CurrentUser() user: any) {
+    const pricing = await this.pricingService.resolveContext(user);
+    return this.variantService.findOne(id, pricing);
   }
 
   @Patch('variants/:id')
@@ -168,15 +510,16 @@ export class ProductController {
   async updateVariant(
     @Param('id') id: string,
     @Body() updateVariantDto: any,
+    @CurrentUser() user: any,
   ) {
-    return this.variantService.update(id, updateVariantDto);
+    return this.variantService.update(id, updateVariantDto, user?.sub);
   }
 
   @Delete('variants/:id')
   @RequirePermissions({ resource: 'products', action: 'update' })
   @HttpCode(HttpStatus.NO_CONTENT)
-  async removeVariant(@Param('id') id: string) {
-    return this.variantService.remove(id);
+  async removeVariant(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.variantService.remove(id, user?.sub);
   }
 
   // Media endpoints
@@ -189,6 +532,18 @@ export class ProductController {
     return this.mediaService.addToProduct(productId, mediaDto);
   }
 
+  // The per-file limit is enforced from MEDIA_UPLOAD_MAX_BYTES; this only caps what is buffered
+  @Post(':productId/media/upload')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  @UseInterceptors(FilesInterceptor('files', 10, { limits: { fileSize: 50 * 1024 * 1024 } }))
+  async uploadMedia(
+    @Param('productId') productId: string,
+    @UploadedFiles() files: Express.Multer.File[],
+    @Body() details: { altText?: string; title?: string; position?: number },
+  ) {
+    return this.mediaService.upload({ productId }, files, details);
+  }
+
   @Post('variants/:variantId/media')
   @RequirePermissions({ resource: 'products', action: 'update' })
   async addVariantMedia(
@@ -198,6 +553,17 @@ export class ProductController {
     return this.mediaService.addToVariant(variantId, mediaDto);
   }
 
+  @Post('variants/:variantId/media/upload')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  @UseInterceptors(FilesInterceptor('files', 10, { limits: { fileSize: 50 * 1024 * 1024 } }))
+  async uploadVariantMedia(
+    @Param('variantId') variantId: string,
+    @UploadedFiles() files: Express.Multer.File[],
+    @Body() details: { altText?: string; title?: string; position?: number },
+  ) {
+    return this.mediaService.upload({ variantId }, files, details);
+  }
+
   @Delete('media/:id')
   @RequirePermissions({ resource: 'products', action: 'update' })
   @HttpCode(HttpStatus.NO_CONTENT)
@@ -211,8 +577,9 @@ export class ProductController {
   async updateInventory(
     @Param('productId') productId: string,
     @Body() updateInventoryDto: UpdateInventoryDto,
+    @CurrentUser() user: any,
   ) {
-    return this.inventoryService.updateForProduct(productId, updateInventoryDto);
+    return this.inventoryService.updateForProduct(productId, updateInventoryDto, user?.sub);
   }
 
   @Patch('variants/:variantId/inventory')
@@ -220,8 +587,29 @@ export class ProductController {
   async updateVariantInventory(
     @Param('variantId') variantId: string,
     @Body() updateInventoryDto: UpdateInventoryDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.inventoryService.updateForVariant(variantId, updateInventoryDto, user?.sub);
+  }
+
+  @Post(':productId/inventory/movements')
+  @RequirePermissions({ resource: 'inventory', action: 'update' })
+  async recordStockMovement(
+    @Param('productId') productId: string,
+    @Body() createMovementDto: CreateStockMovementDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.inventoryService.recordMovement({ productId }, createMovementDto, user?.sub);
+  }
+
+  @Post('variants/:variantId/inventory/movements')
+  @RequirePermissions({ resource: 'inventory', action: 'update' })
+  async recordVariantStockMovement(
+    @Param('variantId') variantId: string,
+    @Body() createMovementDto: CreateStockMovementDto,
+    @CurrentUser() user: any,
   ) {
-    return this.inventoryService.updateForVariant(variantId, updateInventoryDto);
+    return this.inventoryService.recordMovement({ variantId }, createMovementDto, user?.sub);
   }
 
   // Review endpoints
@@ -292,4 +680,17 @@ export class ProductController {
     // It's included here for API consistency
     return { message: 'Use /free-items/products/:productId endpoint' };
   }
-} 
\ No newline at end of file
+
+  private streamExport(query: ProductExportQueryDto, attachment = true): StreamableFile {
+    const format = query.format ?? 'csv';
+    if (!CATALOG_EXPORT_FORMATS.includes(format)) {
+      throw new BadRequestException(`format must be one of: ${CATALOG_EXPORT_FORMATS.join(', ')}`);
+    }
+
+    const { contentType, filename } = this.exportService.describe(format);
+    return new StreamableFile(Readable.from(this.exportService.stream({ ...query, format })), {
+      type: contentType,
+      disposition: attachment ? `attachment; filename="${filename}"` : undefined,
+    });
+  }
+}
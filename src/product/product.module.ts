@@ -8,15 +8,29 @@ import { ProductInventoryService } from './product-inventory.service';
 import { ProductReviewService } from './product-review.service';
 import { ProductAnalyticsService } from './product-analytics.service';
 import { ProductSearchService } from './product-search.service';
+import { ProductPricingService } from './product-pricing.service';
+import { ProductImportService } from './product-import.service';
+import { ProductExportService } from './product-export.service';
+import { ProductPublishingService } from './product-publishing.service';
+import { ProductRevisionService } from './product-revision.service';
+import { ProductPriceHistoryService } from './product-price-history.service';
+import { ProductBundleService } from './product-bundle.service';
+import { ProductComparisonService } from './product-comparison.service';
+import { ProductStockLedgerService } from './product-stock-ledger.service';
+import { ProductReservationService } from './product-reservation.service';
+import { ProductLotService } from './product-lot.service';
+import { ProductStockAlertService } from './product-stock-alert.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { CategoryModule } from '../category/category.module';
 import { AnalyticsModule } from '../analytics/analytics.module';
+import { ShippingModule } from '../shipping/shipping.module';
 
 @Module({
   imports: [
     PrismaModule,
     CategoryModule,
     AnalyticsModule,
+    ShippingModule,
   ],
   controllers: [ProductController],
   providers: [
@@ -28,6 +42,18 @@ import { AnalyticsModule } from '../analytics/analytics.module';
     ProductReviewService,
     ProductAnalyticsService,
     ProductSearchService,
+    ProductPricingService,
+    ProductImportService,
+    ProductExportService,
+    ProductPublishingService,
+    ProductRevisionService,
+    ProductPriceHistoryService,
+    ProductBundleService,
+    ProductComparisonService,
+    ProductStockLedgerService,
+    ProductReservationService,
+    ProductLotService,
+    ProductStockAlertService,
   ],
   exports: [
     ProductService,
@@ -38,6 +64,18 @@ import { AnalyticsModule } from '../analytics/analytics.module';
     ProductReviewService,
     ProductAnalyticsService,
     ProductSearchService,
+    ProductPricingService,
+    ProductImportService,
+    ProductExportService,
+    ProductPublishingService,
+    ProductRevisionService,
+    ProductPriceHistoryService,
+    ProductBundleService,
+    ProductComparisonService,
+    ProductStockLedgerService,
+    ProductReservationService,
+    ProductLotService,
+    ProductStockAlertService,
   ],
 })
 export class ProductModule {} 
\ No newline at end of file
@@ -1,10 +1,15 @@
 import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { Prisma } from '@prisma/client';
-import { CreateProductDto } from './dto/create-product.dto';
+import { Prisma, AttributeType, ProductStatus, ProductType, BundlePricing } from '@prisma/client';
+import { CreateProductDto, ProductAttributeDto } from './dto/create-product.dto';
 import { UpdateProductDto } from './dto/update-product.dto';
 import { ProductQueryDto } from './dto/product-query.dto';
 import { ProductAnalyticsService } from './product-analytics.service';
+import { ProductPricingService, PricingContext } from './product-pricing.service';
+import { ProductRevisionService } from './product-revision.service';
+import { ProductPriceHistoryService } from './product-price-history.service';
+import { ProductBundleService } from './product-bundle.service';
+import { CategoryAttributeService } from '../category/category-attribute.service';
 import { generateSlug } from '../utils/string-utils';
 
 @Injectable()
@@ -12,13 +17,19 @@ export class ProductService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly productAnalytics: ProductAnalyticsService,
+    private readonly pricingService: ProductPricingService,
+    private readonly categoryAttributeService: CategoryAttributeService,
+    private readonly revisionService: ProductRevisionService,
+    private readonly priceHistoryService: ProductPriceHistoryService,
+    private readonly bundleService: ProductBundleService,
   ) {}
 
   /**
    * Create a new product
    */
-  async create(createProductDto: CreateProductDto) {
+  async create(createProductDto: CreateProductDto, userId?: string) {
     const { categories, attributes, variants, media, ...productData } = createProductDto;
+    const status = productData.status ?? ProductStatus.PUBLISHED;
 
     // Generate slug if not provided
     let slug: string;
@@ -36,12 +47,21 @@ export class ProductService {
       slug = productData.slug;
     }
 
+    // Check attributes against the category schema and fill in defaults
+    const resolvedAttributes = await this.categoryAttributeService.assertProductAttributes(
+      categories ?? [],
+      attributes ?? [],
+    );
+
     // Create product with nested relations
     try {
       const product = await this.prisma.product.create({
         data: {
           ...productData,
           slug, // Ensure slug is always a string
+          status,
+          // Only published products are visible
+          ...(status !== ProductStatus.PUBLISHED && { isActive: false }),
           // Connect categories if provided
           ...(categories && {
             categories: {
@@ -51,17 +71,17 @@ export class ProductService {
               })),
             },
           }),
-          // Create attributes if provided
-          ...(attributes && {
+          // Create attributes if provided or defaulted by the category schema
+          ...(resolvedAttributes.length > 0 && {
             attributes: {
-              create: attributes.map(attr => ({
-                name: attr.name,
-                value: attr.value,
-                type: attr.type,
+              create: resolvedAttributes.map((attr: Partial<ProductAttributeDto>, index) => ({
+                name: attr.name!,
+                value: attr.value!,
+                type: attr.type ?? AttributeType.TEXT,
                 isFilterable: attr.isFilterable || false,
                 isSearchable: attr.isSearchable || false,
                 isVariantOption: attr.isVariantOption || false,
-                position: attr.position || 0,
+                position: attr.position ?? index,
               })),
             },
           }),
@@ -107,6 +127,10 @@ export class ProductService {
               price: variant.price,
               compareAtPrice: variant.compareAtPrice,
               dealerPrice: variant.dealerPrice,
+              hsnCode: variant.hsnCode,
+              ...(variant.taxClassId && {
+                taxClass: { connect: { id: variant.taxClassId } },
+              }),
               isActive: variant.isActive ?? true,
               position: variant.position ?? 0,
               options: variant.options,
@@ -118,6 +142,9 @@ export class ProductService {
         }
       }
 
+      await this.priceHistoryService.recordChanges(product.id, null, 'create', userId);
+      await this.revisionService.record(product.id, userId, 'create');
+
       return product;
     } catch (error) {
       if (error instanceof Prisma.PrismaClientKnownRequestError) {
@@ -125,7 +152,7 @@ export class ProductService {
           throw new BadRequestException('Product with this SKU or barcode already exists');
         }
         if (error.code === 'P2003') {
-          throw new BadRequestException('Invalid category ID provided');
+          throw new BadRequestException('Invalid category or tax class ID provided');
         }
       }
       throw error;
@@ -135,13 +162,66 @@ export class ProductService {
   /**
    * Find all products with filtering, pagination, and sorting
    */
-  async findAll(query: ProductQueryDto) {
+  async findAll(query: ProductQueryDto, pricing?: PricingContext) {
     const {
       page = 1,
       limit = 10,
       sortBy = 'createdAt',
       sortOrder = 'desc',
+    } = query;
+
+    const skip = (page - 1) * limit;
+    const where = this.buildWhere(query);
+    
+    // Execute query with pagination
+    const [products, total] = await Promise.all([
+      this.prisma.product.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { [sortBy]: sortOrder },
+        include: {
+          categories: {
+            include: {
+              category: true,
+            },
+          },
+          media: {
+            orderBy: {
+              position: 'asc',
+            },
+            take: 1, // Just get the primary image for listing
+          },
+          _count: {
+            select: {
+              variants: true,
+              reviews: true,
+            },
+          },
+        },
+      }),
+      this.prisma.product.count({ where }),
+    ]);
+    
+    return {
+      data: pricing ? this.pricingService.applyToProducts(products, pricing) : products,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Build the product filter shared by listings and catalog exports
+   */
+  buildWhere(query: ProductQueryDto): Prisma.ProductWhereInput {
+    const {
       isActive,
+      status,
+      type,
       isFeatured,
       categoryId,
       minPrice,
@@ -150,8 +230,6 @@ export class ProductService {
       hasVariants,
     } = query;
 
-    const skip = (page - 1) * limit;
-    
     // Build where clause based on filters
     const where: Prisma.ProductWhereInput = {};
     
@@ -159,6 +237,20 @@ export class ProductService {
       where.isActive = isActive;
     }
     
+    if (status) {
+      if (!Object.values(ProductStatus).includes(status)) {
+        throw new BadRequestException(`status must be one of ${Object.values(ProductStatus).join(', ')}`);
+      }
+      where.status = status;
+    }
+    
+    if (type) {
+      if (!Object.values(ProductType).includes(type)) {
+        throw new BadRequestException(`type must be one of ${Object.values(ProductType).join(', ')}`);
+      }
+      where.type = type;
+    }
+    
     if (isFeatured !== undefined) {
       where.isFeatured = isFeatured;
     }
@@ -194,52 +286,16 @@ export class ProductService {
     if (hasVariants !== undefined) {
       where.hasVariants = hasVariants;
     }
-    
-    // Execute query with pagination
-    const [products, total] = await Promise.all([
-      this.prisma.product.findMany({
-        where,
-        skip,
-        take: limit,
-        orderBy: { [sortBy]: sortOrder },
-        include: {
-          categories: {
-            include: {
-              category: true,
-            },
-          },
-          media: {
-            orderBy: {
-              position: 'asc',
-            },
-            take: 1, // Just get the primary image for listing
-          },
-          _count: {
-            select: {
-              variants: true,
-              reviews: true,
-            },
-          },
-        },
-      }),
-      this.prisma.product.count({ where }),
-    ]);
-    
-    return {
-      data: products,
-      meta: {
-        total,
-        page,
-        limit,
-        totalPages: Math.ceil(total / limit),
-      },
-    };
+
+    return where;
   }
 
   /**
    * Find a single product by ID
+   * When a pricing context is given, prices are resolved for that caller
+   * With publishedOnly, products that are not published are reported as missing
    */
-  async findOne(id: string) {
+  async findOne(id: string, pricing?: PricingContext, publishedOnly = false) {
     const product = await this.prisma.product.findUnique({
       where: { id },
       include: {
@@ -297,17 +353,19 @@ export class ProductService {
       },
     });
 
-    if (!product) {
+    if (!product || (publishedOnly && product.status !== ProductStatus.PUBLISHED)) {
       throw new NotFoundException(`Product with ID ${id} not found`);
     }
 
-    return product;
+    return pricing ? this.pricingService.applyToProduct(product, pricing) : product;
   }
 
   /**
    * Find a single product by slug
+   * When a pricing context is given, prices are resolved for that caller
+   * With publishedOnly, products that are not published are reported as missing
    */
-  async findBySlug(slug: string) {
+  async findBySlug(slug: string, pricing?: PricingContext, publishedOnly = false) {
     const product = await this.prisma.product.findUnique({
       where: { slug },
       include: {
@@ -365,7 +423,7 @@ export class ProductService {
       },
     });
 
-    if (!product) {
+    if (!product || (publishedOnly && product.status !== ProductStatus.PUBLISHED)) {
       throw new NotFoundException(`Product with slug ${slug} not found`);
     }
 
@@ -374,13 +432,13 @@ export class ProductService {
       console.error('Failed to track product view:', error);
     });
 
-    return product;
+    return pricing ? this.pricingService.applyToProduct(product, pricing) : product;
   }
 
   /**
    * Update a product
    */
-  async update(id: string, updateProductDto: UpdateProductDto) {
+  async update(id: string, updateProductDto: UpdateProductDto, userId?: string) {
     const { categories, attributes, variants, media, ...productData } = updateProductDto;
 
     // Check if product exists
@@ -396,6 +454,17 @@ export class ProductService {
       throw new NotFoundException(`Product with ID ${id} not found`);
     }
 
+    // Discount bundles take their prices from the components
+    const isDiscountBundle = existingProduct.type === ProductType.BUNDLE
+      && existingProduct.bundlePricing === BundlePricing.DISCOUNT;
+    if (isDiscountBundle && ['price', 'compareAtPrice', 'dealerPrice'].some(field => field in productData)) {
+      throw new BadRequestException('Prices of a DISCOUNT bundle are calculated from its components');
+    }
+
+    // Keep the state before this change if the product has no history yet
+    await this.revisionService.ensureBaseline(id);
+    const pricesBefore = await this.priceHistoryService.capture(id);
+
     // If slug is being updated, ensure it's unique
     if (productData.slug && productData.slug !== existingProduct.slug) {
       const slugExists = await this.prisma.product.findUnique({
@@ -407,20 +476,68 @@ export class ProductService {
       }
     }
 
+    // Re-check the whole attribute set when categories or attributes change
+    let resolvedAttributes: Array<Partial<ProductAttributeDto>> = [];
+    if (categories || attributes) {
+      const categoryIds = categories ?? existingProduct.categories
+        .sort((a, b) => Number(b.isPrimary) - Number(a.isPrimary))
+        .map(category => category.categoryId);
+
+      const changed = new Map((attributes ?? []).map(attr => [attr.name.toLowerCase(), attr]));
+      const merged = [
+        ...existingProduct.attributes.filter(attr => !changed.has(attr.name.toLowerCase())),
+        ...changed.values(),
+      ];
+
+      const existingNames = new Set(existingProduct.attributes.map(attr => attr.name.toLowerCase()));
+      resolvedAttributes = (await this.categoryAttributeService.assertProductAttributes(categoryIds, merged))
+        .filter(attr => changed.has(attr.name.toLowerCase()) || !existingNames.has(attr.name.toLowerCase()));
+    }
+
     // Update product basic data
     try {
-      const product = await this.prisma.product.update({
-        where: { id },
-        data: productData, // This now excludes media, categories, attributes, variants
-        include: {
-          categories: {
-            include: {
-              category: true,
+      const product = await this.prisma.$transaction(async (tx) => {
+        if (categories) {
+          await tx.productCategory.deleteMany({ where: { productId: id } });
+          await tx.productCategory.createMany({
+            data: categories.map((categoryId, index) => ({
+              productId: id,
+              categoryId,
+              isPrimary: index === 0, // First category is primary
+            })),
+          });
+        }
+
+        for (const attr of resolvedAttributes) {
+          const data = {
+            value: attr.value!,
+            type: attr.type ?? AttributeType.TEXT,
+            ...(attr.isFilterable !== undefined && { isFilterable: attr.isFilterable }),
+            ...(attr.isSearchable !== undefined && { isSearchable: attr.isSearchable }),
+            ...(attr.isVariantOption !== undefined && { isVariantOption: attr.isVariantOption }),
+            ...(attr.position !== undefined && { position: attr.position }),
+          };
+
+          await tx.productAttribute.upsert({
+            where: { productId_name: { productId: id, name: attr.name! } },
+            update: data,
+            create: { productId: id, name: attr.name!, ...data },
+          });
+        }
+
+        return tx.product.update({
+          where: { id },
+          data: productData, // This now excludes media, categories, attributes, variants
+          include: {
+            categories: {
+              include: {
+                category: true,
+              },
             },
+            attributes: true,
+            media: true,
           },
-          attributes: true,
-          media: true,
-        },
+        });
       });
 
       // Handle media separately if provided
@@ -455,12 +572,18 @@ export class ProductService {
         // For now, we'll just indicate that variants should be updated separately
       }
 
+      await this.priceHistoryService.recordChanges(id, pricesBefore, 'update', userId);
+      await this.revisionService.record(id, userId, 'update');
+
       return product;
     } catch (error) {
       if (error instanceof Prisma.PrismaClientKnownRequestError) {
         if (error.code === 'P2002') {
           throw new BadRequestException('Product with this SKU or barcode already exists');
         }
+        if (error.code === 'P2003') {
+          throw new BadRequestException('Invalid category or tax class ID provided');
+        }
       }
       throw error;
     }
@@ -479,6 +602,8 @@ export class ProductService {
       throw new NotFoundException(`Product with ID ${id} not found`);
     }
 
+    await this.bundleService.assertNotBundled({ productId: id });
+
     // Delete product and all related records via cascading delete
     await this.prisma.product.delete({
       where: { id },
@@ -515,11 +640,12 @@ export class ProductService {
   /**
    * Find featured products
    */
-  async findFeatured(limit = 8) {
-    return this.prisma.product.findMany({
+  async findFeatured(limit = 8, pricing?: PricingContext) {
+    const products = await this.prisma.product.findMany({
       where: {
         isFeatured: true,
         isActive: true,
+        status: ProductStatus.PUBLISHED,
       },
       take: limit,
       orderBy: {
@@ -539,18 +665,21 @@ export class ProductService {
         },
       },
     });
+
+    return pricing ? this.pricingService.applyToProducts(products, pricing) : products;
   }
 
   /**
    * Find products by category
    */
-  async findByCategory(categoryId: string, limit = 12, page = 1) {
+  async findByCategory(categoryId: string, limit = 12, page = 1, pricing?: PricingContext) {
     const skip = (page - 1) * limit;
     
     const [products, total] = await Promise.all([
       this.prisma.product.findMany({
         where: {
           isActive: true,
+          status: ProductStatus.PUBLISHED,
           categories: {
             some: {
               categoryId,
@@ -579,6 +708,7 @@ export class ProductService {
       this.prisma.product.count({
         where: {
           isActive: true,
+          status: ProductStatus.PUBLISHED,
           categories: {
             some: {
               categoryId,
@@ -589,7 +719,7 @@ export class ProductService {
     ]);
     
     return {
-      data: products,
+      data: pricing ? this.pricingService.applyToProducts(products, pricing) : products,
       meta: {
         total,
         page,
@@ -602,7 +732,7 @@ export class ProductService {
   /**
    * Find related products
    */
-  async findRelated(productId: string, limit = 4) {
+  async findRelated(productId: string, limit = 4, pricing?: PricingContext) {
     // First check for explicitly defined related products
     const explicitRelated = await this.prisma.productRelation.findMany({
       where: {
@@ -624,7 +754,8 @@ export class ProductService {
     });
 
     if (explicitRelated.length >= limit) {
-      return explicitRelated.map(relation => relation.targetProduct);
+      const related = explicitRelated.map(relation => relation.targetProduct);
+      return pricing ? this.pricingService.applyToProducts(related, pricing) : related;
     }
 
     // If not enough explicit relations, find products in same categories
@@ -645,6 +776,7 @@ export class ProductService {
       where: {
         id: { not: productId }, // Exclude the current product
         isActive: true,
+        status: ProductStatus.PUBLISHED,
         categories: {
           some: {
             categoryId: { in: categoryIds },
@@ -666,10 +798,12 @@ export class ProductService {
     });
 
     // Combine both types of related products
-    return [
+    const related = [
       ...explicitRelated.map(relation => relation.targetProduct),
       ...relatedByCategoryIds,
     ];
+
+    return pricing ? this.pricingService.applyToProducts(related, pricing) : related;
   }
 
   /**
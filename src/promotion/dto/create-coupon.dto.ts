@@ -0,0 +1,32 @@
+import { IsString, IsOptional, IsInt, IsBoolean, Min, Max, Matches } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class CreateCouponDto {
+  /**
+   * Coupon code. When omitted, a random code is generated.
+   */
+  @IsString()
+  @IsOptional()
+  @Matches(/^[A-Za-z0-9_-]{3,32}$/, { message: 'code must be 3-32 letters, digits, dashes or underscores' })
+  code?: string;
+
+  /**
+   * Number of codes to generate (ignored when a code is given)
+   */
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  @IsOptional()
+  count?: number = 1;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  usageLimit?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
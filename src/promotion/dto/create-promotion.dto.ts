@@ -0,0 +1,101 @@
+import {
+  IsString,
+  IsOptional,
+  IsNotEmpty,
+  IsNumber,
+  IsBoolean,
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsDateString,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { PromotionType, PlatformType } from '@prisma/client';
+
+export class CreatePromotionDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @IsEnum(PromotionType)
+  type: PromotionType;
+
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  value: number;
+
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  maxDiscount?: number;
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  productIds?: string[];
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  categoryIds?: string[];
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  roles?: string[];
+
+  @IsArray()
+  @IsEnum(PlatformType, { each: true })
+  @IsOptional()
+  platforms?: PlatformType[];
+
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  minOrderValue?: number;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  usageLimit?: number;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  usageLimitPerUser?: number;
+
+  @IsDateString()
+  @IsOptional()
+  startsAt?: string;
+
+  @IsDateString()
+  @IsOptional()
+  endsAt?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  requiresCoupon?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  isStackable?: boolean;
+
+  @Type(() => Number)
+  @IsInt()
+  @IsOptional()
+  priority?: number;
+}
@@ -0,0 +1,44 @@
+import {
+  IsString,
+  IsOptional,
+  IsNotEmpty,
+  IsArray,
+  IsInt,
+  IsEnum,
+  Min,
+  ValidateNested,
+  ArrayMinSize,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { PlatformType } from '@prisma/client';
+
+export class PromotionLineDto {
+  @IsString()
+  @IsNotEmpty()
+  productId: string;
+
+  @IsString()
+  @IsOptional()
+  variantId?: string;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
+
+export class EvaluatePromotionDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => PromotionLineDto)
+  items: PromotionLineDto[];
+
+  @IsString()
+  @IsOptional()
+  couponCode?: string;
+
+  @IsEnum(PlatformType)
+  @IsOptional()
+  platform?: PlatformType;
+}
@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreatePromotionDto } from './create-promotion.dto';
+
+export class UpdatePromotionDto extends PartialType(CreatePromotionDto) {}
@@ -0,0 +1,138 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Req,
+  HttpCode,
+  HttpStatus,
+  ParseBoolPipe,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { PlatformType } from '@prisma/client';
+import { PromotionService } from './promotion.service';
+import { CreatePromotionDto } from './dto/create-promotion.dto';
+import { UpdatePromotionDto } from './dto/update-promotion.dto';
+import { CreateCouponDto } from './dto/create-coupon.dto';
+import { PromotionQueryDto } from './dto/promotion-query.dto';
+import { EvaluatePromotionDto } from './dto/evaluate-promotion.dto';
+import { Public } from '../auth/decorators/public.decorator';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+
+interface RequestWithOptionalUser extends Request {
+  user?: {
+    sub: string;
+    username: string;
+    email?: string;
+    roles: string[];
+    platform?: PlatformType;
+  };
+}
+
+@Controller('promotions')
+export class PromotionController {
+  constructor(private readonly promotionService: PromotionService) {}
+
+  @Post()
+  @RequirePermissions({ resource: 'promotions', action: 'create' })
+  async create(@Body() createPromotionDto: CreatePromotionDto) {
+    return this.promotionService.create(createPromotionDto);
+  }
+
+  @Get()
+  @RequirePermissions({ resource: 'promotions', action: 'read' })
+  async findAll(@Query() query: PromotionQueryDto) {
+    return this.promotionService.findAll(query);
+  }
+
+  @Post('evaluate')
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  async evaluate(
+    @Body() evaluateDto: EvaluatePromotionDto,
+    @Req() req: RequestWithOptionalUser,
+  ) {
+    return this.promotionService.evaluate(evaluateDto.items, {
+      userId: req.user?.sub,
+      roles: req.user?.roles,
+      platform: evaluateDto.platform ?? req.user?.platform,
+      couponCode: evaluateDto.couponCode,
+    });
+  }
+
+  @Get('reports/redemptions')
+  @RequirePermissions({ resource: 'promotions', action: 'read' })
+  async getRedemptionReport(
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ) {
+    return this.promotionService.getRedemptionReport(
+      from ? new Date(from) : undefined,
+      to ? new Date(to) : undefined,
+    );
+  }
+
+  @Patch('coupons/:couponId')
+  @RequirePermissions({ resource: 'promotions', action: 'update' })
+  async setCouponActive(
+    @Param('couponId') couponId: string,
+    @Body('isActive', ParseBoolPipe) isActive: boolean,
+  ) {
+    return this.promotionService.setCouponActive(couponId, isActive);
+  }
+
+  @Get(':id')
+  @RequirePermissions({ resource: 'promotions', action: 'read' })
+  async findOne(@Param('id') id: string) {
+    return this.promotionService.findOne(id);
+  }
+
+  @Patch(':id')
+  @RequirePermissions({ resource: 'promotions', action: 'update' })
+  async update(
+    @Param('id') id: string,
+    @Body() updatePromotionDto: UpdatePromotionDto,
+  ) {
+    return this.promotionService.update(id, updatePromotionDto);
+  }
+
+  @Delete(':id')
+  @RequirePermissions({ resource: 'promotions', action: 'delete' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@Param('id') id: string) {
+    await this.promotionService.remove(id);
+  }
+
+  @Post(':id/coupons')
+  @RequirePermissions({ resource: 'promotions', action: 'create' })
+  async createCoupons(
+    @Param('id') id: string,
+    @Body() createCouponDto: CreateCouponDto,
+  ) {
+    return this.promotionService.createCoupons(id, createCouponDto);
+  }
+
+  @Get(':id/coupons')
+  @RequirePermissions({ resource: 'promotions', action: 'read' })
+  async findCoupons(@Param('id') id: string) {
+    return this.promotionService.findCoupons(id);
+  }
+
+  @Get(':id/redemptions')
+  @RequirePermissions({ resource: 'promotions', action: 'read' })
+  async findRedemptions(
+    @Param('id') id: string,
+    @Query('page') page?: number,
+    @Query('limit') limit?: number,
+  ) {
+    return this.promotionService.findRedemptions(
+      id,
+      page ? Number(page) : undefined,
+      limit ? Number(limit) : undefined,
+    );
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PromotionService } from './promotion.service';
+import { PromotionController } from './promotion.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { ProductModule } from '../product/product.module';
+
+@Module({
+  imports: [PrismaModule, ProductModule],
+  controllers: [PromotionController],
+  providers: [PromotionService],
+  exports: [PromotionService],
+})
+export class PromotionModule {}
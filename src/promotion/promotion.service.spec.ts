@@ -0,0 +1,194 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { Prisma, Promotion, PromotionType } from '@prisma/client';
+import { PromotionService, PricedLine } from './promotion.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { ProductPricingService } from '../product/product-pricing.service';
+
+const kharifSale: Promotion = {
+  id: 'kharif-sale',
+  name: 'Kharif sale',
+  description: null,
+  type: PromotionType.PERCENTAGE,
+  value: new Prisma.Decimal(10),
+  maxDiscount: null,
+  productIds: [],
+  categoryIds: [],
+  roles: [],
+  platforms: [],
+  minOrderValue: null,
+  usageLimit: null,
+  usageLimitPerUser: null,
+  usageCount: 0,
+  startsAt: null,
+  endsAt: null,
+  isActive: true,
+  requiresCoupon: false,
+  isStackable: false,
+  priority: 0,
+  createdAt: new Date('2025-06-01'),
+  updatedAt: new Date('2025-06-01'),
+};
+
+const paddySeed: PricedLine = {
+  productId: 'paddy-seed-10kg',
+  quantity: 2,
+  unitPrice: new Prisma.Decimal(450),
+  categoryIds: ['seeds'],
+};
+
+const neemOil: PricedLine = {
+  productId: 'neem-oil-1l',
+  quantity: 1,
+  unitPrice: new Prisma.Decimal(300),
+  categoryIds: ['pesticides'],
+};
+
+describe('PromotionService', () => {
+  let promotionService: PromotionService;
+  let prisma: {
+    promotion: { findMany: jest.Mock };
+    coupon: { findUnique: jest.Mock };
+  };
+
+  beforeEach(async () => {
+    prisma = {
+      promotion: { findMany: jest.fn().mockResolvedValue([]) },
+      coupon: { findUnique: jest.fn().mockResolvedValue(null) },
+    };
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        PromotionService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ProductPricingService, useValue: {} },
+      ],
+    }).compile();
+
+    promotionService = app.get<PromotionService>(PromotionService);
+  });
+
+  describe('evaluateLines', () => {
+    it('should apply every stackable promotion and only the best exclusive one', async () => {
+      prisma.promotion.findMany.mockResolvedValue([
+        { ...kharifSale, priority: 5 },
+        { ...kharifSale, id: 'flat-150', name: '150 off', type: PromotionType.FIXED_AMOUNT, value: new Prisma.Decimal(150) },
+        { ...kharifSale, id: 'loyalty', name: 'Loyalty', type: PromotionType.FIXED_AMOUNT, value: new Prisma.Decimal(20), isStackable: true },
+      ]);
+
+      const evaluation = await promotionService.evaluateLines([paddySeed, neemOil], {});
+
+      // 10% of 1200 is 120, so the flat 150 wins among the exclusive ones
+      expect(evaluation.appliedPromotions.map(applied => applied.promotionId)).toEqual(['loyalty', 'flat-150']);
+      expect(evaluation.subtotal.toFixed(2)).toBe('1200.00');
+      expect(evaluation.discountTotal.toFixed(2)).toBe('170.00');
+      expect(evaluation.total.toFixed(2)).toBe('1030.00');
+    });
+
+    it('should round percentage discounts to the paisa', async () => {
+      prisma.promotion.findMany.mockResolvedValue([{ ...kharifSale, value: new Prisma.Decimal('7.5') }]);
+
+      const evaluation = await promotionService.evaluateLines([
+        { ...neemOil, quantity: 3, unitPrice: new Prisma.Decimal('33.33') },
+      ], {});
+
+      // 7.5% of 99.99 is 7.49925
+      expect(evaluation.discountTotal.toFixed(2)).toBe('7.50');
+      expect(evaluation.total.toFixed(2)).toBe('92.49');
+    });
+
+    it('should spread a flat discount over the lines so the shares add up to it', async () => {
+      prisma.promotion.findMany.mockResolvedValue([
+        { ...kharifSale, type: PromotionType.FIXED_AMOUNT, value: new Prisma.Decimal(100) },
+      ]);
+
+      const evaluation = await promotionService.evaluateLines([
+        neemOil,
+        { ...neemOil, productId: 'neem-cake-5kg' },
+        { ...neemOil, productId: 'neem-seed-extract-1l' },
+      ], {});
+
+      expect(evaluation.lines.map(line => line.discount.toFixed(2))).toEqual(['33.33', '33.33', '33.34']);
+      expect(evaluation.discountTotal.toFixed(2)).toBe('100.00');
+    });
+
+    it('should cap discounts at the maximum and never take the order below zero', async () => {
+      prisma.promotion.findMany.mockResolvedValue([
+        { ...kharifSale, id: 'capped', value: new Prisma.Decimal(50), maxDiscount: new Prisma.Decimal(100), isStackable: true },
+        { ...kharifSale, id: 'flat-5000', type: PromotionType.FIXED_AMOUNT, value: new Prisma.Decimal(5000) },
+      ]);
+
+      const evaluation = await promotionService.evaluateLines([neemOil], {});
+
+      expect(evaluation.appliedPromotions.map(applied => applied.discount.toFixed(2))).toEqual(['100.00', '200.00']);
+      expect(evaluation.total.toFixed(2)).toBe('0.00');
+    });
+
+    it('should only discount lines in the promotion categories', async () => {
+      prisma.promotion.findMany.mockResolvedValue([{ ...kharifSale, categoryIds: ['seeds'] }]);
+
+      const evaluation = await promotionService.evaluateLines([paddySeed, neemOil], {});
+
+      expect(evaluation.lines.map(line => line.discount.toFixed(2))).toEqual(['90.00', '0.00']);
+    });
+
+    it('should skip promotions below their minimum order value', async () => {
+      prisma.promotion.findMany.mockResolvedValue([{ ...kharifSale, minOrderValue: new Prisma.Decimal(1000) }]);
+
+      const evaluation = await promotionService.evaluateLines([neemOil], {});
+
+      expect(evaluation.appliedPromotions).toEqual([]);
+      expect(evaluation.total.toFixed(2)).toBe('300.00');
+    });
+
+    it('should report a coupon that loses to a better automatic promotion', async () => {
+      prisma.promotion.findMany.mockResolvedValue([kharifSale]);
+      prisma.coupon.findUnique.mockResolvedValue({
+        id: 'coupon-rabi',
+        code: 'RABI50',
+        isActive: true,
+        usageLimit: null,
+        usageCount: 0,
+        promotion: { ...kharifSale, id: 'rabi', type: PromotionType.FIXED_AMOUNT, value: new Prisma.Decimal(50), requiresCoupon: true },
+      });
+
+      const evaluation = await promotionService.evaluateLines([paddySeed], { couponCode: ' rabi50 ' });
+
+      expect(prisma.coupon.findUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { code: 'RABI50' } }));
+      expect(evaluation.coupon).toEqual({ code: 'RABI50', applied: false, reason: 'A better promotion is already applied' });
+      expect(evaluation.appliedPromotions.map(applied => applied.promotionId)).toEqual(['kharif-sale']);
+    });
+  });
+
+  describe('recordRedemptions', () => {
+    it('should refuse a redemption once the user has reached the per-user limit', async () => {
+      const tx = {
+        promotion: {
+          findUnique: jest.fn().mockResolvedValue({ ...kharifSale, usageLimitPerUser: 1 }),
+          updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        },
+        promotionRedemption: {
+          count: jest.fn().mockResolvedValue(1),
+          create: jest.fn(),
+        },
+      };
+      const evaluation = {
+        subtotal: new Prisma.Decimal(900),
+        discountTotal: new Prisma.Decimal(90),
+        total: new Prisma.Decimal(810),
+        lines: [],
+        appliedPromotions: [{
+          promotionId: kharifSale.id,
+          name: kharifSale.name,
+          type: kharifSale.type,
+          discount: new Prisma.Decimal(90),
+        }],
+      };
+
+      await expect(
+        promotionService.recordRedemptions(evaluation, 'farmer-1', 'order-1', tx as unknown as Prisma.TransactionClient),
+      ).rejects.toThrow(BadRequestException);
+      expect(tx.promotionRedemption.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,903 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { Prisma, Promotion, Coupon, PromotionType, PlatformType } from '@prisma/client';
+import { randomBytes } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { ProductPricingService, PricingContext } from '../product/product-pricing.service';
+import { CreatePromotionDto } from './dto/create-promotion.dto';
+import { UpdatePromotionDto } from './dto/update-promotion.dto';
+import { CreateCouponDto } from './dto/create-coupon.dto';
+import { PromotionQueryDto } from './dto/promotion-query.dto';
+import { PromotionLineDto } from './dto/evaluate-promotion.dto';
+import type { OrderStatusEvent } from '../order/order.service';
+
+/**
+ * A line priced for the caller, ready for promotion evaluation
+ */
+export interface PricedLine {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+  unitPrice: Prisma.Decimal;
+  categoryIds: string[];
+}
+
+/**
+ * Who is asking for the evaluation and from where
+ */
+export interface PromotionContext {
+  userId?: string;
+  roles?: string[];
+  platform?: PlatformType;
+  couponCode?: string;
+}
+
+export interface AppliedPromotion {
+  promotionId: string;
+  name: string;
+  type: PromotionType;
+  couponId?: string;
+  couponCode?: string;
+  discount: Prisma.Decimal;
+}
+
+export interface PromotionEvaluation {
+  subtotal: Prisma.Decimal;
+  discountTotal: Prisma.Decimal;
+  total: Prisma.Decimal;
+  lines: Array<PricedLine & { lineTotal: Prisma.Decimal; discount: Prisma.Decimal }>;
+  appliedPromotions: AppliedPromotion[];
+  coupon?: {
+    code: string;
+    applied: boolean;
+    reason?: string;
+  };
+}
+
+type Candidate = {
+  promotion: Promotion;
+  coupon?: Coupon;
+};
+
+type ScoredCandidate = Candidate & {
+  discount: Prisma.Decimal;
+  lineIndexes: number[];
+};
+
+@Injectable()
+export class PromotionService {
+  private readonly logger = new Logger(PromotionService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly pricingService: ProductPricingService,
+  ) {}
+
+  /**
+   * Create a new promotion
+   */
+  async create(createPromotionDto: CreatePromotionDto) {
+    this.validateRules(createPromotionDto);
+
+    return this.prisma.promotion.create({
+      data: this.toPromotionData(createPromotionDto) as Prisma.PromotionCreateInput,
+    });
+  }
+
+  /**
+   * Get all promotions with filtering and pagination
+   */
+  async findAll(query: PromotionQueryDto) {
+    const { page = 1, limit = 10, search, isActive, requiresCoupon } = query;
+    const skip = (page - 1) * limit;
+
+    // Build where clause
+    const where: Prisma.PromotionWhereInput = {};
+
+    if (search) {
+      where.OR = [
+        { name: { contains: search, mode: 'insensitive' } },
+        { coupons: { some: { code: { contains: search.toUpperCase() } } } },
+      ];
+    }
+
+    if (isActive !== undefined) {
+      where.isActive = isActive;
+    }
+
+    if (requiresCoupon !== undefined) {
+      where.requiresCoupon = requiresCoupon;
+    }
+
+    const [promotions, total] = await Promise.all([
+      this.prisma.promotion.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: [{ priority: 'desc' }, { createdAt: 'desc' }],
+        include: {
+          _count: {
+            select: {
+              coupons: true,
+              redemptions: true,
+            },
+          },
+        },
+      }),
+      this.prisma.promotion.count({ where }),
+    ]);
+
+    return {
+      data: promotions,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Get a promotion by ID
+   */
+  async findOne(id: string) {
+    const promotion = await this.prisma.promotion.findUnique({
+      where: { id },
+      include: {
+        coupons: {
+          orderBy: {
+            createdAt: 'desc',
+          },
+          take: 50,
+        },
+        _count: {
+          select: {
+            coupons: true,
+            redemptions: true,
+          },
+        },
+      },
+    });
+
+    if (!promotion) {
+      throw new NotFoundException(`Promotion with ID ${id} not found`);
+    }
+
+    return promotion;
+  }
+
+  /**
+   * Update a promotion
+   */
+  async update(id: string, updatePromotionDto: UpdatePromotionDto) {
+    const existing = await this.prisma.promotion.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw new NotFoundException(`Promotion with ID ${id} not found`);
+    }
+
+    this.validateRules({
+      type: updatePromotionDto.type ?? existing.type,
+      value: updatePromotionDto.value ?? existing.value.toNumber(),
+      startsAt: updatePromotionDto.startsAt ?? existing.startsAt?.toISOString(),
+      endsAt: updatePromotionDto.endsAt ?? existing.endsAt?.toISOString(),
+    });
+
+    return this.prisma.promotion.update({
+      where: { id },
+      data: this.toPromotionData(updatePromotionDto),
+    });
+  }
+
+  /**
+   * Delete a promotion
+   */
+  async remove(id: string) {
+    const promotion = await this.prisma.promotion.findUnique({
+      where: { id },
+    });
+
+    if (!promotion) {
+      throw new NotFoundException(`Promotion with ID ${id} not found`);
+    }
+
+    return this.prisma.promotion.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Create one or more coupon codes for a promotion
+   */
+  async createCoupons(promotionId: string, createCouponDto: CreateCouponDto) {
+    const promotion = await this.prisma.promotion.findUnique({
+      where: { id: promotionId },
+    });
+
+    if (!promotion) {
+      throw new NotFoundException(`Promotion with ID ${promotionId} not found`);
+    }
+
+    const codes = createCouponDto.code
+      ? [createCouponDto.code.toUpperCase()]
+      : Array.from({ length: createCouponDto.count ?? 1 }, () => this.generateCouponCode());
+
+    try {
+      await this.prisma.coupon.createMany({
+        data: codes.map(code => ({
+          code,
+          promotionId,
+          usageLimit: createCouponDto.usageLimit,
+          isActive: createCouponDto.isActive ?? true,
+        })),
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new BadRequestException('Coupon code already exists');
+      }
+      throw error;
+    }
+
+    return this.prisma.coupon.findMany({
+      where: {
+        code: { in: codes },
+      },
+    });
+  }
+
+  /**
+   * List coupons for a promotion
+   */
+  async findCoupons(promotionId: string) {
+    return this.prisma.coupon.findMany({
+      where: { promotionId },
+      orderBy: {
+        createdAt: 'desc',
+      },
+      include: {
+        _count: {
+          select: {
+            redemptions: true,
+          },
+        },
+      },
+    });
+  }
+
+  /**
+   * Enable or disable a coupon
+   */
+  async setCouponActive(couponId: string, isActive: boolean) {
+    const coupon = await this.prisma.coupon.findUnique({
+      where: { id: couponId },
+    });
+
+    if (!coupon) {
+      throw new NotFoundException(`Coupon with ID ${couponId} not found`);
+    }
+
+    return this.prisma.coupon.update({
+      where: { id: couponId },
+      data: { isActive },
+    });
+  }
+
+  /**
+   * List redemptions of a promotion
+   */
+  async findRedemptions(promotionId: string, page = 1, limit = 20) {
+    const skip = (page - 1) * limit;
+    const where: Prisma.PromotionRedemptionWhereInput = { promotionId };
+
+    const [redemptions, total] = await Promise.all([
+      this.prisma.promotionRedemption.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: {
+          createdAt: 'desc',
+        },
+        include: {
+          coupon: {
+            select: {
+              code: true,
+            },
+          },
+          user: {
+            select: {
+              id: true,
+              username: true,
+              email: true,
+            },
+          },
+          order: {
+            select: {
+              id: true,
+              orderNumber: true,
+              status: true,
+              total: true,
+            },
+          },
+        },
+      }),
+      this.prisma.promotionRedemption.count({ where }),
+    ]);
+
+    return {
+      data: redemptions,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Summarise redemptions per promotion for a date range
+   */
+  async getRedemptionReport(from?: Date, to?: Date) {
+    const where: Prisma.PromotionRedemptionWhereInput = {};
+
+    if (from || to) {
+      where.createdAt = {
+        ...(from ? { gte: from } : {}),
+        ...(to ? { lte: to } : {}),
+      };
+    }
+
+    const grouped = await this.prisma.promotionRedemption.groupBy({
+      by: ['promotionId'],
+      where,
+      _count: {
+        _all: true,
+      },
+      _sum: {
+        discountAmount: true,
+      },
+    });
+
+    const promotions = await this.prisma.promotion.findMany({
+      where: {
+        id: { in: grouped.map(group => group.promotionId) },
+      },
+      select: {
+        id: true,
+        name: true,
+        type: true,
+        value: true,
+        isActive: true,
+      },
+    });
+
+    const uniqueUsers = await Promise.all(
+      grouped.map(group =>
+        this.prisma.promotionRedemption.findMany({
+          where: { ...where, promotionId: group.promotionId },
+          distinct: ['userId'],
+          select: { userId: true },
+        }),
+      ),
+    );
+
+    const rows = grouped.map((group, index) => ({
+      promotion: promotions.find(promotion => promotion.id === group.promotionId),
+      redemptions: group._count._all,
+      uniqueUsers: uniqueUsers[index].length,
+      totalDiscount: group._sum.discountAmount ?? new Prisma.Decimal(0),
+    }));
+
+    rows.sort((a, b) => b.redemptions - a.redemptions);
+
+    return {
+      from: from ?? null,
+      to: to ?? null,
+      totalRedemptions: rows.reduce((sum, row) => sum + row.redemptions, 0),
+      totalDiscount: rows.reduce(
+        (sum, row) => sum.plus(row.totalDiscount),
+        new Prisma.Decimal(0),
+      ),
+      promotions: rows,
+    };
+  }
+
+  /**
+   * Evaluate promotions for raw lines, pricing them for the caller first
+   */
+  async evaluate(lines: PromotionLineDto[], context: PromotionContext) {
+    const pricing = context.userId
+      ? await this.pricingService.resolveContextForUser(context.userId)
+      : undefined;
+    const pricedLines = await this.priceLines(lines, pricing);
+
+    return this.evaluateLines(pricedLines, context);
+  }
+
+  /**
+   * Price raw lines for a pricing context and attach their category IDs
+   */
+  async priceLines(lines: PromotionLineDto[], pricing?: PricingContext): Promise<PricedLine[]> {
+    const context = pricing ?? { tier: 'retail' as const, isAdmin: false };
+    const productIds = [...new Set(lines.map(line => line.productId))];
+
+    const products = await this.prisma.product.findMany({
+      where: { id: { in: productIds } },
+      include: {
+        categories: {
+          select: {
+            categoryId: true,
+          },
+        },
+        variants: {
+          select: {
+            id: true,
+            price: true,
+            dealerPrice: true,
+          },
+        },
+      },
+    });
+
+    return lines.map(line => {
+      const product = products.find(p => p.id === line.productId);
+
+      if (!product) {
+        throw new BadRequestException(`Product with ID ${line.productId} not found`);
+      }
+
+      const variant = line.variantId
+        ? product.variants.find(v => v.id === line.variantId)
+        : null;
+
+      if (line.variantId && !variant) {
+        throw new BadRequestException(`Variant with ID ${line.variantId} not found`);
+      }
+
+      return {
+        productId: line.productId,
+        variantId: line.variantId ?? null,
+        quantity: line.quantity,
+        unitPrice: this.pricingService.resolveUnitPrice(product, variant, context),
+        categoryIds: product.categories.map(pc => pc.categoryId),
+      };
+    });
+  }
+
+  /**
+   * Evaluate promotions for priced lines: every applicable stackable promotion
+   * is applied, plus the single best non-stackable one
+   */
+  async evaluateLines(lines: PricedLine[], context: PromotionContext): Promise<PromotionEvaluation> {
+    const pricedLines = lines.map(line => ({
+      ...line,
+      lineTotal: line.unitPrice.mul(line.quantity),
+      discount: new Prisma.Decimal(0),
+    }));
+
+    const subtotal = pricedLines.reduce(
+      (sum, line) => sum.plus(line.lineTotal),
+      new Prisma.Decimal(0),
+    );
+
+    const now = new Date();
+    const candidates: Candidate[] = [];
+    let couponResult: PromotionEvaluation['coupon'];
+
+    // Automatic promotions
+    const automatic = await this.prisma.promotion.findMany({
+      where: {
+        isActive: true,
+        requiresCoupon: false,
+        AND: [
+          { OR: [{ startsAt: null }, { startsAt: { lte: now } }] },
+          { OR: [{ endsAt: null }, { endsAt: { gte: now } }] },
+        ],
+      },
+      orderBy: {
+        priority: 'desc',
+      },
+    });
+    candidates.push(...automatic.map(promotion => ({ promotion })));
+
+    // Coupon promotion
+    if (context.couponCode) {
+      const code = context.couponCode.trim().toUpperCase();
+      const coupon = await this.prisma.coupon.findUnique({
+        where: { code },
+        include: {
+          promotion: true,
+        },
+      });
+
+      couponResult = { code, applied: false };
+
+      if (!coupon || !coupon.isActive) {
+        couponResult.reason = 'Coupon code is not valid';
+      } else if (coupon.usageLimit !== null && coupon.usageCount >= coupon.usageLimit) {
+        couponResult.reason = 'Coupon code has reached its usage limit';
+      } else {
+        const { promotion, ...couponData } = coupon;
+        candidates.push({ promotion, coupon: couponData });
+      }
+    }
+
+    // Score each candidate
+    const scored: ScoredCandidate[] = [];
+    for (const candidate of candidates) {
+      const reason = await this.checkEligibility(candidate.promotion, subtotal, context, now);
+      const lineIndexes = reason ? [] : this.getEligibleLineIndexes(candidate.promotion, pricedLines);
+
+      let failure = reason;
+      if (!failure && lineIndexes.length === 0) {
+        failure = 'No items in the order qualify for this promotion';
+      }
+
+      if (failure) {
+        if (candidate.coupon && couponResult) {
+          couponResult.reason = failure;
+        }
+        continue;
+      }
+
+      const eligibleAmount = lineIndexes.reduce(
+        (sum, index) => sum.plus(pricedLines[index].lineTotal),
+        new Prisma.Decimal(0),
+      );
+
+      scored.push({
+        ...candidate,
+        lineIndexes,
+        discount: this.calculateDiscount(candidate.promotion, eligibleAmount),
+      });
+    }
+
+    // Stackable promotions all apply; only the best exclusive one does
+    const stackable = scored.filter(candidate => candidate.promotion.isStackable);
+    const exclusive = scored
+      .filter(candidate => !candidate.promotion.isStackable)
+      .sort((a, b) => b.discount.comparedTo(a.discount) || b.promotion.priority - a.promotion.priority);
+
+    const selected = [...stackable, ...exclusive.slice(0, 1)];
+
+    if (couponResult && !couponResult.reason) {
+      const couponApplied = selected.some(candidate => candidate.coupon);
+      couponResult.applied = couponApplied;
+      if (!couponApplied) {
+        couponResult.reason = 'A better promotion is already applied';
+      }
+    }
+
+    // Apply discounts, never taking a line below zero
+    const appliedPromotions: AppliedPromotion[] = [];
+    for (const candidate of selected) {
+      const applied = this.allocateDiscount(candidate, pricedLines);
+
+      if (applied.greaterThan(0)) {
+        appliedPromotions.push({
+          promotionId: candidate.promotion.id,
+          name: candidate.promotion.name,
+          type: candidate.promotion.type,
+          couponId: candidate.coupon?.id,
+          couponCode: candidate.coupon?.code,
+          discount: applied,
+        });
+      }
+    }
+
+    const discountTotal = appliedPromotions.reduce(
+      (sum, promotion) => sum.plus(promotion.discount),
+      new Prisma.Decimal(0),
+    );
+
+    return {
+      subtotal,
+      discountTotal,
+      total: subtotal.minus(discountTotal),
+      lines: pricedLines,
+      appliedPromotions,
+      coupon: couponResult,
+    };
+  }
+
+  /**
+   * Record the redemptions of an evaluation against an order
+   */
+  async recordRedemptions(
+    evaluation: PromotionEvaluation,
+    userId: string,
+    orderId: string,
+    tx: Prisma.TransactionClient,
+  ) {
+    for (const applied of evaluation.appliedPromotions) {
+      // Increment usage atomically so limits cannot be oversubscribed
+      const promotion = await tx.promotion.findUnique({
+        where: { id: applied.promotionId },
+      });
+
+      if (!promotion) {
+        throw new BadRequestException(`Promotion ${applied.name} is no longer available`);
+      }
+
+      const promotionUpdate = await tx.promotion.updateMany({
+        where: {
+          id: promotion.id,
+          ...(promotion.usageLimit !== null ? { usageCount: { lt: promotion.usageLimit } } : {}),
+        },
+        data: {
+          usageCount: { increment: 1 },
+        },
+      });
+
+      if (promotionUpdate.count === 0) {
+        throw new BadRequestException(`Promotion ${applied.name} has reached its usage limit`);
+      }
+
+      // The update above locks the promotion until this order commits, so
+      // concurrent orders count each other's redemptions one at a time
+      if (promotion.usageLimitPerUser !== null) {
+        const userRedemptions = await tx.promotionRedemption.count({
+          where: {
+            promotionId: promotion.id,
+            userId,
+          },
+        });
+
+        if (userRedemptions >= promotion.usageLimitPerUser) {
+          throw new BadRequestException(`You have already used promotion ${applied.name} the maximum number of times`);
+        }
+      }
+
+      if (applied.couponId) {
+        const coupon = await tx.coupon.findUnique({
+          where: { id: applied.couponId },
+        });
+
+        const couponUpdate = await tx.coupon.updateMany({
+          where: {
+            id: applied.couponId,
+            isActive: true,
+            ...(coupon?.usageLimit != null ? { usageCount: { lt: coupon.usageLimit } } : {}),
+          },
+          data: {
+            usageCount: { increment: 1 },
+          },
+        });
+
+        if (couponUpdate.count === 0) {
+          throw new BadRequestException(`Coupon ${applied.couponCode} has reached its usage limit`);
+        }
+      }
+
+      await tx.promotionRedemption.create({
+        data: {
+          promotionId: applied.promotionId,
+          couponId: applied.couponId,
+          userId,
+          orderId,
+          discountAmount: applied.discount,
+        },
+      });
+    }
+  }
+
+  /**
+   * Give back promotion and coupon usage when an order is cancelled
+   */
+  @OnEvent('order.cancelled')
+  async handleOrderCancelled(event: OrderStatusEvent) {
+    try {
+      const redemptions = await this.prisma.promotionRedemption.findMany({
+        where: { orderId: event.orderId },
+      });
+
+      if (redemptions.length === 0) {
+        return;
+      }
+
+      await this.prisma.$transaction(async (tx) => {
+        for (const redemption of redemptions) {
+          await tx.promotion.updateMany({
+            where: { id: redemption.promotionId, usageCount: { gt: 0 } },
+            data: { usageCount: { decrement: 1 } },
+          });
+
+          if (redemption.couponId) {
+            await tx.coupon.updateMany({
+              where: { id: redemption.couponId, usageCount: { gt: 0 } },
+              data: { usageCount: { decrement: 1 } },
+            });
+          }
+        }
+
+        await tx.promotionRedemption.deleteMany({
+          where: { orderId: event.orderId },
+        });
+      });
+
+      this.logger.log(`Released ${redemptions.length} promotion redemption(s) for cancelled order ${event.orderNumber}`);
+    } catch (error) {
+      this.logger.error(`Failed to release promotions for order ${event.orderNumber}: ${error.message}`, error.stack);
+    }
+  }
+
+  /**
+   * Check the non-line rules of a promotion; returns a reason when not eligible
+   */
+  private async checkEligibility(
+    promotion: Promotion,
+    subtotal: Prisma.Decimal,
+    context: PromotionContext,
+    now: Date,
+  ): Promise<string | null> {
+    if (!promotion.isActive) {
+      return 'Promotion is not active';
+    }
+
+    if (promotion.startsAt && promotion.startsAt > now) {
+      return 'Promotion has not started yet';
+    }
+
+    if (promotion.endsAt && promotion.endsAt < now) {
+      return 'Promotion has expired';
+    }
+
+    if (promotion.minOrderValue && subtotal.lessThan(promotion.minOrderValue)) {
+      return `Order value must be at least ${promotion.minOrderValue.toString()}`;
+    }
+
+    if (promotion.platforms.length > 0 && !promotion.platforms.includes(PlatformType.ALL)) {
+      if (!context.platform || !promotion.platforms.includes(context.platform)) {
+        return 'Promotion is not available on this platform';
+      }
+    }
+
+    if (promotion.roles.length > 0) {
+      const roles = context.roles ?? (context.userId ? await this.getUserRoles(context.userId) : []);
+      if (!roles.some(role => promotion.roles.includes(role))) {
+        return 'Promotion is not available for your account';
+      }
+    }
+
+    if (promotion.usageLimit !== null && promotion.usageCount >= promotion.usageLimit) {
+      return 'Promotion has reached its usage limit';
+    }
+
+    if (promotion.usageLimitPerUser !== null && context.userId) {
+      const userRedemptions = await this.prisma.promotionRedemption.count({
+        where: {
+          promotionId: promotion.id,
+          userId: context.userId,
+        },
+      });
+
+      if (userRedemptions >= promotion.usageLimitPerUser) {
+        return 'You have already used this promotion the maximum number of times';
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Find the lines a promotion applies to
+   */
+  private getEligibleLineIndexes(promotion: Promotion, lines: PricedLine[]): number[] {
+    const unrestricted = promotion.productIds.length === 0 && promotion.categoryIds.length === 0;
+
+    return lines
+      .map((line, index) => {
+        const matches = unrestricted ||
+          promotion.productIds.includes(line.productId) ||
+          line.categoryIds.some(categoryId => promotion.categoryIds.includes(categoryId));
+        return matches ? index : -1;
+      })
+      .filter(index => index >= 0);
+  }
+
+  /**
+   * Calculate the discount for an eligible amount
+   */
+  private calculateDiscount(promotion: Promotion, eligibleAmount: Prisma.Decimal): Prisma.Decimal {
+    let discount = promotion.type === PromotionType.PERCENTAGE
+      ? eligibleAmount.mul(promotion.value).div(100)
+      : promotion.value;
+
+    if (promotion.maxDiscount && discount.greaterThan(promotion.maxDiscount)) {
+      discount = promotion.maxDiscount;
+    }
+
+    if (discount.greaterThan(eligibleAmount)) {
+      discount = eligibleAmount;
+    }
+
+    return discount.toDecimalPlaces(2);
+  }
+
+  /**
+   * Spread a promotion's discount over its lines in proportion to their value
+   */
+  private allocateDiscount(
+    candidate: ScoredCandidate,
+    lines: PromotionEvaluation['lines'],
+  ): Prisma.Decimal {
+    const remaining = (index: number) => lines[index].lineTotal.minus(lines[index].discount);
+    const base = candidate.lineIndexes.reduce(
+      (sum, index) => sum.plus(remaining(index)),
+      new Prisma.Decimal(0),
+    );
+
+    if (base.lessThanOrEqualTo(0)) {
+      return new Prisma.Decimal(0);
+    }
+
+    const total = Prisma.Decimal.min(candidate.discount, base);
+    let allocated = new Prisma.Decimal(0);
+
+    candidate.lineIndexes.forEach((index, position) => {
+      const share = position === candidate.lineIndexes.length - 1
+        ? total.minus(allocated)
+        : total.mul(remaining(index)).div(base).toDecimalPlaces(2);
+      const lineShare = Prisma.Decimal.min(share, remaining(index));
+
+      lines[index].discount = lines[index].discount.plus(lineShare);
+      allocated = allocated.plus(lineShare);
+    });
+
+    return allocated;
+  }
+
+  /**
+   * Map a promotion DTO to Prisma data
+   */
+  private toPromotionData(dto: UpdatePromotionDto): Prisma.PromotionUpdateInput {
+    const { startsAt, endsAt, ...rest } = dto;
+
+    return {
+      ...rest,
+      ...(startsAt !== undefined ? { startsAt: startsAt ? new Date(startsAt) : null } : {}),
+      ...(endsAt !== undefined ? { endsAt: endsAt ? new Date(endsAt) : null } : {}),
+    };
+  }
+
+  /**
+   * Validate the value and schedule of a promotion
+   */
+  private validateRules(dto: { type?: PromotionType; value?: number; startsAt?: string; endsAt?: string }) {
+    if (dto.type === PromotionType.PERCENTAGE && dto.value !== undefined && dto.value > 100) {
+      throw new BadRequestException('Percentage promotions cannot exceed 100');
+    }
+
+    if (dto.startsAt && dto.endsAt && new Date(dto.startsAt) >= new Date(dto.endsAt)) {
+      throw new BadRequestException('Promotion must end after it starts');
+    }
+  }
+
+  /**
+   * Generate a random coupon code
+   */
+  private generateCouponCode(): string {
+    return randomBytes(5).toString('hex').toUpperCase();
+  }
+
+  /**
+   * Load role names for a user
+   */
+  private async getUserRoles(userId: string): Promise<string[]> {
+    const userRoles = await this.prisma.userRole.findMany({
+      where: { userId },
+      include: {
+        role: {
+          select: {
+            name: true,
+          },
+        },
+      },
+    });
+
+    return userRoles.map(userRole => userRole.role.name);
+  }
+}
@@ -0,0 +1,53 @@
+import {
+  IsString,
+  IsOptional,
+  IsNotEmpty,
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsUrl,
+  Min,
+  MaxLength,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ReturnReason } from '@prisma/client';
+
+export class ReturnLineDto {
+  @IsString()
+  @IsNotEmpty()
+  orderItemId: string;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
+
+export class CreateReturnDto {
+  @IsString()
+  @IsNotEmpty()
+  orderId: string;
+
+  @IsEnum(ReturnReason)
+  reason: ReturnReason;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(2000)
+  description?: string;
+
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsUrl({}, { each: true })
+  @IsOptional()
+  photos?: string[];
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ReturnLineDto)
+  items: ReturnLineDto[];
+}
@@ -0,0 +1,78 @@
+import {
+  IsString,
+  IsOptional,
+  IsNotEmpty,
+  IsArray,
+  IsInt,
+  IsNumber,
+  IsDateString,
+  Min,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class ApproveReturnDto {
+  @IsString()
+  @IsOptional()
+  @MaxLength(1000)
+  notes?: string;
+}
+
+export class RejectReturnDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  reason: string;
+}
+
+export class SchedulePickupDto {
+  @IsDateString()
+  scheduledAt: string;
+
+  @IsString()
+  @IsOptional()
+  window?: string;
+
+  @IsString()
+  @IsOptional()
+  courier?: string;
+
+  @IsString()
+  @IsOptional()
+  trackingNumber?: string;
+}
+
+export class ReceivedItemDto {
+  @IsString()
+  @IsNotEmpty()
+  returnItemId: string;
+
+  /** Units fit to sell again; the rest are written off */
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  restockQuantity: number;
+
+  @IsString()
+  @IsOptional()
+  condition?: string;
+}
+
+export class ReceiveReturnDto {
+  /** Items not listed are restocked in full */
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ReceivedItemDto)
+  @IsOptional()
+  items?: ReceivedItemDto[];
+}
+
+export class RefundReturnDto {
+  /** Defaults to the value paid for the returned units */
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  @IsOptional()
+  amount?: number;
+}
@@ -0,0 +1,143 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Req,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { ReturnService } from './return.service';
+import { CreateReturnDto } from './dto/create-return.dto';
+import {
+  ApproveReturnDto,
+  RejectReturnDto,
+  SchedulePickupDto,
+  ReceiveReturnDto,
+  RefundReturnDto,
+} from './dto/review-return.dto';
+import { ReturnQueryDto } from './dto/return-query.dto';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+
+interface RequestWithUser extends Request {
+  user: {
+    sub: string;
+    username: string;
+    email?: string;
+    roles: string[];
+  };
+}
+
+@Controller('returns')
+export class ReturnController {
+  constructor(private readonly returnService: ReturnService) {}
+
+  @Post()
+  async create(
+    @Body() createReturnDto: CreateReturnDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.returnService.create(req.user.sub, createReturnDto);
+  }
+
+  @Get()
+  @RequirePermissions({ resource: 'returns', action: 'read' })
+  async findAll(@Query() query: ReturnQueryDto) {
+    return this.returnService.findAll(query);
+  }
+
+  @Get('my')
+  async findMine(
+    @Query() query: ReturnQueryDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.returnService.findForUser(req.user.sub, query);
+  }
+
+  @Get(':id')
+  async findOne(
+    @Param('id') id: string,
+    @Req() req: RequestWithUser,
+  ) {
+    // Admins can view any return, customers only their own
+    const isAdmin = req.user.roles.includes('admin');
+    return this.returnService.findOne(id, isAdmin ? undefined : req.user.sub);
+  }
+
+  @Post(':id/cancel')
+  @HttpCode(HttpStatus.OK)
+  async cancel(
+    @Param('id') id: string,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.returnService.cancelByCustomer(id, req.user.sub);
+  }
+
+  @Post(':id/approve')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions({ resource: 'returns', action: 'update' })
+  async approve(
+    @Param('id') id: string,
+    @Body() approveReturnDto: ApproveReturnDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.returnService.approve(id, req.user.sub, approveReturnDto);
+  }
+
+  @Post(':id/reject')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions({ resource: 'returns', action: 'update' })
+  async reject(
+    @Param('id') id: string,
+    @Body() rejectReturnDto: RejectReturnDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.returnService.reject(id, req.user.sub, rejectReturnDto);
+  }
+
+  @Post(':id/pickup')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions({ resource: 'returns', action: 'update' })
+  async schedulePickup(
+    @Param('id') id: string,
+    @Body() schedulePickupDto: SchedulePickupDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.returnService.schedulePickup(id, req.user.sub, schedulePickupDto);
+  }
+
+  @Post(':id/picked-up')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions({ resource: 'returns', action: 'update' })
+  async markPickedUp(
+    @Param('id') id: string,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.returnService.markPickedUp(id, req.user.sub);
+  }
+
+  @Post(':id/receive')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions({ resource: 'returns', action: 'update' })
+  async receive(
+    @Param('id') id: string,
+    @Body() receiveReturnDto: ReceiveReturnDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.returnService.receive(id, req.user.sub, receiveReturnDto);
+  }
+
+  @Post(':id/refund')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions({ resource: 'returns', action: 'refund' })
+  async refund(
+    @Param('id') id: string,
+    @Body() refundReturnDto: RefundReturnDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.returnService.refund(id, req.user.sub, refundReturnDto);
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { ReturnService } from './return.service';
+import { ReturnController } from './return.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { SupportModule } from '../support/support.module';
+import { ProductModule } from '../product/product.module';
+import { OrderModule } from '../order/order.module';
+import { PaymentModule } from '../payment/payment.module';
+
+@Module({
+  imports: [PrismaModule, SupportModule, ProductModule, OrderModule, PaymentModule],
+  controllers: [ReturnController],
+  providers: [ReturnService],
+  exports: [ReturnService],
+})
+export class ReturnModule {}
@@ -0,0 +1,750 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  Prisma,
+  ReturnRequest,
+  ReturnStatus,
+  ReturnReason,
+  OrderStatus,
+  PaymentStatus,
+  TicketPriority,
+  TicketStatus,
+  ReservationOwnerType,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ConfigService } from '../config/config.service';
+import { SupportTicketService } from '../support/support-ticket.service';
+import { ProductInventoryService, BundleComponentLine } from '../product/product-inventory.service';
+import { OrderService } from '../order/order.service';
+import { PaymentService } from '../payment/payment.service';
+import { CreateReturnDto } from './dto/create-return.dto';
+import {
+  ApproveReturnDto,
+  RejectReturnDto,
+  SchedulePickupDto,
+  ReceiveReturnDto,
+  RefundReturnDto,
+} from './dto/review-return.dto';
+import { ReturnQueryDto } from './dto/return-query.dto';
+import { dailySequencePrefix, nextSequenceNumber, retryOnSequenceClash } from '../utils/sequence-utils';
+
+/**
+ * Attempts at raising a return when concurrent returns keep taking the same RMA number
+ */
+const RMA_NUMBER_ATTEMPTS = 3;
+
+/**
+ * Allowed return status transitions
+ */
+const RETURN_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+  [ReturnStatus.REQUESTED]: [ReturnStatus.APPROVED, ReturnStatus.REJECTED, ReturnStatus.CANCELLED],
+  [ReturnStatus.APPROVED]: [ReturnStatus.PICKUP_SCHEDULED, ReturnStatus.RECEIVED, ReturnStatus.CANCELLED],
+  [ReturnStatus.PICKUP_SCHEDULED]: [ReturnStatus.PICKUP_SCHEDULED, ReturnStatus.PICKED_UP, ReturnStatus.CANCELLED],
+  [ReturnStatus.PICKED_UP]: [ReturnStatus.RECEIVED],
+  [ReturnStatus.RECEIVED]: [ReturnStatus.REFUNDED],
+  [ReturnStatus.REJECTED]: [],
+  [ReturnStatus.REFUNDED]: [],
+  [ReturnStatus.CANCELLED]: [],
+};
+
+/**
+ * Statuses from which a customer may withdraw their return
+ */
+const CUSTOMER_CANCELLABLE: ReturnStatus[] = [
+  ReturnStatus.REQUESTED,
+  ReturnStatus.APPROVED,
+  ReturnStatus.PICKUP_SCHEDULED,
+];
+
+/**
+ * Returns in these statuses no longer claim their order items
+ */
+const CLOSED_WITHOUT_RETURN: ReturnStatus[] = [ReturnStatus.REJECTED, ReturnStatus.CANCELLED];
+
+/**
+ * Ticket status to mirror for each return status
+ */
+const TICKET_STATUS: Partial<Record<ReturnStatus, TicketStatus>> = {
+  [ReturnStatus.APPROVED]: TicketStatus.IN_PROGRESS,
+  [ReturnStatus.PICKUP_SCHEDULED]: TicketStatus.IN_PROGRESS,
+  [ReturnStatus.PICKED_UP]: TicketStatus.IN_PROGRESS,
+  [ReturnStatus.RECEIVED]: TicketStatus.IN_PROGRESS,
+  [ReturnStatus.REFUNDED]: TicketStatus.RESOLVED,
+  [ReturnStatus.REJECTED]: TicketStatus.CLOSED,
+  [ReturnStatus.CANCELLED]: TicketStatus.CLOSED,
+};
+
+/**
+ * Reasons that point to a fault on our side and are prioritised for support
+ */
+const URGENT_REASONS: ReturnReason[] = [ReturnReason.DAMAGED, ReturnReason.DEFECTIVE, ReturnReason.WRONG_ITEM];
+
+const returnInclude = {
+  items: {
+    include: {
+      orderItem: {
+        select: {
+          id: true,
+          productId: true,
+          variantId: true,
+          productName: true,
+          variantName: true,
+          sku: true,
+          quantity: true,
+          unitPrice: true,
+          taxableValue: true,
+          taxAmount: true,
+          bundleItems: true,
+          warehouseId: true,
+        },
+      },
+    },
+  },
+  order: {
+    select: {
+      id: true,
+      orderNumber: true,
+      status: true,
+      deliveredAt: true,
+    },
+  },
+  ticket: {
+    select: {
+      id: true,
+      reference: true,
+      status: true,
+      assignedToId: true,
+    },
+  },
+} satisfies Prisma.ReturnRequestInclude;
+
+type ReturnWithItems = Prisma.ReturnRequestGetPayload<{ include: typeof returnInclude }>;
+
+export interface ReturnStatusEvent {
+  returnId: string;
+  rmaNumber: string;
+  orderId: string;
+  userId: string;
+  previousStatus: ReturnStatus | null;
+  status: ReturnStatus;
+}
+
+@Injectable()
+export class ReturnService {
+  private readonly logger = new Logger(ReturnService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly supportTicketService: SupportTicketService,
+    private readonly inventoryService: ProductInventoryService,
+    private readonly orderService: OrderService,
+    private readonly paymentService: PaymentService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * Generate a unique RMA number
+   */
+  private async generateRmaNumber(tx: Prisma.TransactionClient): Promise<string> {
+    const prefix = dailySequencePrefix('RMA');
+
+    // Continue from today's highest number
+    const last = await tx.returnRequest.findFirst({
+      where: { rmaNumber: { startsWith: prefix } },
+      orderBy: { rmaNumber: 'desc' },
+      select: { rmaNumber: true },
+    });
+
+    return nextSequenceNumber(prefix, last?.rmaNumber);
+  }
+
+  /**
+   * Raise a return against a delivered order and open a linked support ticket
+   */
+  async create(userId: string, createReturnDto: CreateReturnDto) {
+    const { orderId, reason, description, photos, items } = createReturnDto;
+
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      include: { items: true },
+    });
+
+    if (!order || order.userId !== userId) {
+      throw new NotFoundException(`Order with ID ${orderId} not found`);
+    }
+
+    if (order.status !== OrderStatus.DELIVERED || !order.deliveredAt) {
+      throw new BadRequestException('Only delivered orders can be returned');
+    }
+
+    const windowDays = Number(await this.configService.get<number | string>('RETURN_WINDOW_DAYS', 7));
+    const windowEnds = new Date(order.deliveredAt.getTime() + windowDays * 24 * 60 * 60 * 1000);
+
+    if (windowEnds < new Date()) {
+      throw new BadRequestException(`Returns must be raised within ${windowDays} days of delivery`);
+    }
+
+    for (const line of items) {
+      if (!order.items.some(item => item.id === line.orderItemId)) {
+        throw new BadRequestException(`Order item ${line.orderItemId} does not belong to this order`);
+      }
+    }
+
+    const returnRequest = await retryOnSequenceClash(() => this.prisma.$transaction(async (tx) => {
+      // Lock the order so concurrent returns against it are checked one at a time
+      await tx.$queryRaw`SELECT "id" FROM "Order" WHERE "id" = ${orderId} FOR UPDATE`;
+
+      const alreadyReturned = await this.getReturnedQuantities(orderId, undefined, tx);
+
+      for (const line of items) {
+        const orderItem = order.items.find(item => item.id === line.orderItemId)!;
+        const returnable = orderItem.quantity - (alreadyReturned.get(orderItem.id) ?? 0);
+
+        if (line.quantity > returnable) {
+          throw new BadRequestException(
+            `Only ${returnable} unit(s) of ${orderItem.productName} can be returned`,
+          );
+        }
+      }
+
+      const rmaNumber = await this.generateRmaNumber(tx);
+
+      return tx.returnRequest.create({
+        data: {
+          rmaNumber,
+          orderId,
+          userId,
+          reason,
+          description,
+          photos: photos ?? [],
+          items: {
+            create: items.map(line => ({
+              orderItemId: line.orderItemId,
+              quantity: line.quantity,
+            })),
+          },
+        },
+        include: returnInclude,
+      });
+    }), 'rmaNumber', 'an RMA number', RMA_NUMBER_ATTEMPTS);
+
+    const ticketId = await this.openTicket(returnRequest);
+
+    this.emitStatusEvent(returnRequest, null);
+
+    return ticketId ? this.findOne(returnRequest.id) : returnRequest;
+  }
+
+  /**
+   * Get all returns with filtering and pagination
+   */
+  async findAll(query: ReturnQueryDto) {
+    const {
+      page = 1,
+      limit = 10,
+      status,
+      orderId,
+      userId,
+      search,
+    } = query;
+
+    const skip = (page - 1) * limit;
+
+    // Build where clause
+    const where: Prisma.ReturnRequestWhereInput = {};
+
+    if (status) {
+      where.status = status;
+    }
+
+    if (orderId) {
+      where.orderId = orderId;
+    }
+
+    if (userId) {
+      where.userId = userId;
+    }
+
+    if (search) {
+      where.OR = [
+        { rmaNumber: { contains: search, mode: 'insensitive' } },
+        { order: { orderNumber: { contains: search, mode: 'insensitive' } } },
+      ];
+    }
+
+    const [returns, total] = await Promise.all([
+      this.prisma.returnRequest.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        include: returnInclude,
+      }),
+      this.prisma.returnRequest.count({ where }),
+    ]);
+
+    return {
+      data: returns,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Get a user's own returns
+   */
+  async findForUser(userId: string, query: ReturnQueryDto) {
+    return this.findAll({ ...query, userId });
+  }
+
+  /**
+   * Get a return by ID, optionally restricted to its owner
+   */
+  async findOne(id: string, userId?: string) {
+    const returnRequest = await this.prisma.returnRequest.findUnique({
+      where: { id },
+      include: returnInclude,
+    });
+
+    if (!returnRequest || (userId && returnRequest.userId !== userId)) {
+      throw new NotFoundException(`Return with ID ${id} not found`);
+    }
+
+    return returnRequest;
+  }
+
+  /**
+   * Approve a return
+   */
+  async approve(id: string, reviewerId: string, approveReturnDto: ApproveReturnDto) {
+    const returnRequest = await this.findOne(id);
+
+    return this.transition(returnRequest, ReturnStatus.APPROVED, reviewerId, {
+      data: {
+        reviewedById: reviewerId,
+        reviewNotes: approveReturnDto.notes,
+        approvedAt: new Date(),
+      },
+      message: `Return ${returnRequest.rmaNumber} has been approved.${approveReturnDto.notes ? ` ${approveReturnDto.notes}` : ''}`,
+    });
+  }
+
+  /**
+   * Reject a return
+   */
+  async reject(id: string, reviewerId: string, rejectReturnDto: RejectReturnDto) {
+    const returnRequest = await this.findOne(id);
+
+    return this.transition(returnRequest, ReturnStatus.REJECTED, reviewerId, {
+      data: {
+        reviewedById: reviewerId,
+        reviewNotes: rejectReturnDto.reason,
+        rejectedAt: new Date(),
+      },
+      message: `Return ${returnRequest.rmaNumber} has been rejected: ${rejectReturnDto.reason}`,
+    });
+  }
+
+  /**
+   * Schedule (or reschedule) collection of the goods from the customer
+   */
+  async schedulePickup(id: string, actorId: string, schedulePickupDto: SchedulePickupDto) {
+    const returnRequest = await this.findOne(id);
+    const scheduledAt = new Date(schedulePickupDto.scheduledAt);
+
+    if (scheduledAt < new Date()) {
+      throw new BadRequestException('Pickup must be scheduled in the future');
+    }
+
+    const window = schedulePickupDto.window ? ` between ${schedulePickupDto.window}` : '';
+
+    return this.transition(returnRequest, ReturnStatus.PICKUP_SCHEDULED, actorId, {
+      data: {
+        pickupScheduledAt: scheduledAt,
+        pickupWindow: schedulePickupDto.window,
+        courier: schedulePickupDto.courier,
+        trackingNumber: schedulePickupDto.trackingNumber,
+      },
+      message: `Pickup for return ${returnRequest.rmaNumber} is scheduled on ${scheduledAt.toISOString().slice(0, 10)}${window}.`,
+    });
+  }
+
+  /**
+   * Record that the courier has collected the goods
+   */
+  async markPickedUp(id: string, actorId: string) {
+    const returnRequest = await this.findOne(id);
+
+    return this.transition(returnRequest, ReturnStatus.PICKED_UP, actorId, {
+      data: { pickedUpAt: new Date() },
+      message: `The items for return ${returnRequest.rmaNumber} have been picked up.`,
+    });
+  }
+
+  /**
+   * Receive the goods at the warehouse and restock what can be sold again
+   */
+  async receive(id: string, actorId: string, receiveReturnDto: ReceiveReturnDto) {
+    const returnRequest = await this.findOne(id);
+    this.assertTransition(returnRequest.status, ReturnStatus.RECEIVED);
+
+    const inspected = new Map((receiveReturnDto.items ?? []).map(item => [item.returnItemId, item]));
+
+    for (const returnItemId of inspected.keys()) {
+      if (!returnRequest.items.some(item => item.id === returnItemId)) {
+        throw new BadRequestException(`Return item ${returnItemId} does not belong to this return`);
+      }
+    }
+
+    const previousStatus = returnRequest.status;
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      // Claim the return first so the goods are restocked once
+      await this.claimStatus(tx, returnRequest, ReturnStatus.RECEIVED, {
+        receivedAt: new Date(),
+        refundAmount: this.calculateRefundAmount(returnRequest),
+      });
+
+      for (const item of returnRequest.items) {
+        const inspection = inspected.get(item.id);
+        const restockQuantity = Math.min(inspection?.restockQuantity ?? item.quantity, item.quantity);
+        const { productId, variantId, bundleItems, warehouseId } = item.orderItem;
+
+        // Restock where the product still exists, at the warehouse it was sold from;
+        // bundles restock the components they were sold with
+        if (restockQuantity > 0 && (productId || variantId)) {
+          // Goods go back into the lot the order was sold from
+          const owner = { type: ReservationOwnerType.ORDER, id: returnRequest.order.orderNumber };
+          await this.inventoryService.restockInventory(
+            variantId
+              ? { variantId, quantity: restockQuantity, warehouseId, owner, reference: returnRequest.rmaNumber, userId: actorId }
+              : {
+                  productId: productId!,
+                  quantity: restockQuantity,
+                  warehouseId,
+                  components: bundleItems as BundleComponentLine[] | null,
+                  owner,
+                  reference: returnRequest.rmaNumber,
+                  userId: actorId,
+                },
+            tx,
+          );
+        }
+
+        await tx.returnItem.update({
+          where: { id: item.id },
+          data: {
+            restockedQuantity: restockQuantity,
+            condition: inspection?.condition,
+          },
+        });
+      }
+
+      return tx.returnRequest.findUniqueOrThrow({
+        where: { id },
+        include: returnInclude,
+      });
+    });
+
+    await this.syncTicket(updated, actorId, `The items for return ${updated.rmaNumber} have been received and inspected.`);
+    this.emitStatusEvent(updated, previousStatus);
+
+    await this.markOrderReturnedIfComplete(updated.orderId);
+
+    return updated;
+  }
+
+  /**
+   * Refund a received return through the order's payment
+   */
+  async refund(id: string, actorId: string, refundReturnDto: RefundReturnDto) {
+    const returnRequest = await this.findOne(id);
+    this.assertTransition(returnRequest.status, ReturnStatus.REFUNDED);
+
+    const amount = refundReturnDto.amount != null
+      ? new Prisma.Decimal(refundReturnDto.amount)
+      : returnRequest.refundAmount ?? this.calculateRefundAmount(returnRequest);
+
+    const payment = await this.prisma.payment.findFirst({
+      where: {
+        orderId: returnRequest.orderId,
+        status: { in: [PaymentStatus.CAPTURED, PaymentStatus.PARTIALLY_REFUNDED] },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!payment) {
+      throw new BadRequestException('Order has no captured payment to refund');
+    }
+
+    // The refund is paid out only once the return is claimed, so a repeated request cannot pay twice
+    return this.transition(returnRequest, ReturnStatus.REFUNDED, actorId, {
+      data: {
+        refundAmount: amount,
+        refundedAt: new Date(),
+      },
+      apply: () => this.paymentService.refund(payment.id, {
+        amount: amount.toNumber(),
+        reason: `Return ${returnRequest.rmaNumber}`,
+      }),
+      message: `A refund of ${amount.toFixed(2)} for return ${returnRequest.rmaNumber} has been issued.`,
+    });
+  }
+
+  /**
+   * Withdraw a return on the customer's behalf
+   */
+  async cancelByCustomer(id: string, userId: string) {
+    const returnRequest = await this.findOne(id, userId);
+
+    if (!CUSTOMER_CANCELLABLE.includes(returnRequest.status)) {
+      throw new BadRequestException(`Return in status ${returnRequest.status} can no longer be cancelled`);
+    }
+
+    return this.transition(returnRequest, ReturnStatus.CANCELLED, userId, {
+      data: { cancelledAt: new Date() },
+      message: `Return ${returnRequest.rmaNumber} was cancelled by the customer.`,
+      assign: false,
+    });
+  }
+
+  /**
+   * Move a return to a new status and mirror the change on its ticket.
+   * `apply` runs once the status is claimed; if it fails the status is put back
+   */
+  private async transition(
+    returnRequest: ReturnWithItems,
+    status: ReturnStatus,
+    actorId: string,
+    options: {
+      data?: Prisma.ReturnRequestUncheckedUpdateManyInput;
+      message: string;
+      assign?: boolean;
+      apply?: () => Promise<unknown>;
+    },
+  ) {
+    await this.claimStatus(this.prisma, returnRequest, status, options.data);
+
+    if (options.apply) {
+      try {
+        await options.apply();
+      } catch (error) {
+        // Put back the status and the fields changed with it
+        const previous = Object.fromEntries(
+          Object.keys(options.data ?? {}).map(key => [key, returnRequest[key as keyof ReturnRequest]]),
+        );
+
+        await this.prisma.returnRequest.updateMany({
+          where: { id: returnRequest.id, status },
+          data: { ...previous, status: returnRequest.status },
+        });
+        throw error;
+      }
+    }
+
+    const updated = await this.findOne(returnRequest.id);
+
+    await this.syncTicket(updated, actorId, options.message, options.assign ?? true);
+    this.emitStatusEvent(updated, returnRequest.status);
+
+    return updated;
+  }
+
+  /**
+   * Change the status only if nobody else has changed it meanwhile, so each step happens once
+   */
+  private async claimStatus(
+    client: Prisma.TransactionClient,
+    returnRequest: ReturnWithItems,
+    status: ReturnStatus,
+    data?: Prisma.ReturnRequestUncheckedUpdateManyInput,
+  ) {
+    this.assertTransition(returnRequest.status, status);
+
+    const { count } = await client.returnRequest.updateMany({
+      where: { id: returnRequest.id, status: returnRequest.status },
+      data: {
+        ...data,
+        status,
+      },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException(`Return ${returnRequest.rmaNumber} is no longer ${returnRequest.status}`);
+    }
+  }
+
+  private assertTransition(from: ReturnStatus, to: ReturnStatus) {
+    if (!RETURN_TRANSITIONS[from].includes(to)) {
+      throw new BadRequestException(`Cannot change return status from ${from} to ${to}`);
+    }
+  }
+
+  /**
+   * Open the support ticket for a new return in the returns category
+   */
+  private async openTicket(returnRequest: ReturnWithItems): Promise<string | null> {
+    try {
+      const category = await this.getTicketCategory();
+
+      const lines = returnRequest.items.map(item => {
+        const name = item.orderItem.variantName
+          ? `${item.orderItem.productName} (${item.orderItem.variantName})`
+          : item.orderItem.productName;
+        return `- ${name} x ${item.quantity}`;
+      });
+
+      const ticket = await this.supportTicketService.createTicket({
+        subject: `Return ${returnRequest.rmaNumber} for order ${returnRequest.order.orderNumber}`,
+        description: [
+          `Reason: ${returnRequest.reason}`,
+          returnRequest.description,
+          'Items:',
+          ...lines,
+          ...(returnRequest.photos.length > 0 ? ['Photos:', ...returnRequest.photos] : []),
+        ].filter(Boolean).join('\n'),
+        userId: returnRequest.userId,
+        categoryId: category.id,
+        priority: URGENT_REASONS.includes(returnRequest.reason) ? TicketPriority.HIGH : TicketPriority.MEDIUM,
+        tags: ['return', returnRequest.rmaNumber],
+        metadata: {
+          returnRequestId: returnRequest.id,
+          orderId: returnRequest.orderId,
+        },
+      });
+
+      await this.prisma.returnRequest.update({
+        where: { id: returnRequest.id },
+        data: { ticketId: ticket.id },
+      });
+
+      return ticket.id;
+    } catch (error) {
+      this.logger.error(`Failed to open support ticket for return ${returnRequest.rmaNumber}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Post the status change on the linked ticket, assign it to the acting
+   * agent if nobody owns it yet, and update the ticket status
+   */
+  private async syncTicket(returnRequest: ReturnWithItems, actorId: string, message: string, assign = true) {
+    if (!returnRequest.ticket) {
+      return;
+    }
+
+    try {
+      await this.supportTicketService.addTicketResponse({
+        ticketId: returnRequest.ticket.id,
+        userId: actorId,
+        content: message,
+      });
+
+      await this.supportTicketService.updateTicket(returnRequest.ticket.id, {
+        status: TICKET_STATUS[returnRequest.status],
+        ...(assign && !returnRequest.ticket.assignedToId ? { assignedToId: actorId } : {}),
+      });
+    } catch (error) {
+      this.logger.error(`Failed to update ticket for return ${returnRequest.rmaNumber}`, error);
+    }
+  }
+
+  /**
+   * Find or create the ticket category returns are filed under
+   */
+  private async getTicketCategory() {
+    const name = await this.configService.get<string>('RETURN_TICKET_CATEGORY', 'Returns') || 'Returns';
+
+    return this.prisma.ticketCategory.upsert({
+      where: { name },
+      update: {},
+      create: {
+        name,
+        description: 'Return and refund requests',
+      },
+    });
+  }
+
+  /**
+   * Units of each order item already claimed by open or completed returns
+   */
+  private async getReturnedQuantities(
+    orderId: string,
+    statuses?: ReturnStatus[],
+    tx?: Prisma.TransactionClient,
+  ): Promise<Map<string, number>> {
+    const client = tx ?? this.prisma;
+
+    const returned = await client.returnItem.groupBy({
+      by: ['orderItemId'],
+      where: {
+        returnRequest: {
+          orderId,
+          status: statuses ? { in: statuses } : { notIn: CLOSED_WITHOUT_RETURN },
+        },
+      },
+      _sum: {
+        quantity: true,
+      },
+    });
+
+    return new Map(returned.map(row => [row.orderItemId, row._sum.quantity ?? 0]));
+  }
+
+  /**
+   * Value paid for the returned units, including tax and net of discounts
+   */
+  private calculateRefundAmount(returnRequest: ReturnWithItems): Prisma.Decimal {
+    return returnRequest.items.reduce((total, item) => {
+      const paid = item.orderItem.taxableValue.plus(item.orderItem.taxAmount);
+      return total.plus(paid.div(item.orderItem.quantity).mul(item.quantity));
+    }, new Prisma.Decimal(0)).toDecimalPlaces(2);
+  }
+
+  /**
+   * Mark the order returned once every unit has come back
+   */
+  private async markOrderReturnedIfComplete(orderId: string) {
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      include: { items: true },
+    });
+
+    if (!order || order.status !== OrderStatus.DELIVERED) {
+      return;
+    }
+
+    const received = await this.getReturnedQuantities(orderId, [ReturnStatus.RECEIVED, ReturnStatus.REFUNDED]);
+    const complete = order.items.every(item => (received.get(item.id) ?? 0) >= item.quantity);
+
+    if (!complete) {
+      return;
+    }
+
+    try {
+      await this.orderService.updateStatus(orderId, OrderStatus.RETURNED);
+    } catch (error) {
+      this.logger.error(`Failed to mark order ${order.orderNumber} as returned`, error);
+    }
+  }
+
+  private emitStatusEvent(returnRequest: ReturnRequest, previousStatus: ReturnStatus | null) {
+    const event: ReturnStatusEvent = {
+      returnId: returnRequest.id,
+      rmaNumber: returnRequest.rmaNumber,
+      orderId: returnRequest.orderId,
+      userId: returnRequest.userId,
+      previousStatus,
+      status: returnRequest.status,
+    };
+
+    this.eventEmitter.emit(`return.${returnRequest.status.toLowerCase()}`, event);
+    this.eventEmitter.emit('return.status.changed', event);
+  }
+}
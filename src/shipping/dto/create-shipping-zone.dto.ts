@@ -0,0 +1,116 @@
+import {
+  IsString,
+  IsOptional,
+  IsNotEmpty,
+  IsNumber,
+  IsBoolean,
+  IsArray,
+  IsInt,
+  Matches,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+/**
+ * Indian postal index numbers are six digits and never start with zero
+ */
+export const PINCODE_PATTERN = /^[1-9]\d{5}$/;
+
+export class PincodeRangeDto {
+  @IsString()
+  @Matches(PINCODE_PATTERN, { message: 'start must be a valid 6-digit pincode' })
+  start: string;
+
+  @IsString()
+  @Matches(PINCODE_PATTERN, { message: 'end must be a valid 6-digit pincode' })
+  end: string;
+}
+
+export class ShippingRateDto {
+  /** Kilograms, inclusive */
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  minWeight: number;
+
+  /** Kilograms, exclusive; omit for the top slab */
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  maxWeight?: number;
+
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  charge: number;
+
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  additionalPerKg?: number;
+}
+
+export class CreateShippingZoneDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @IsArray()
+  @Matches(PINCODE_PATTERN, { each: true, message: 'each pincode must be a valid 6-digit pincode' })
+  @IsOptional()
+  pincodes?: string[];
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PincodeRangeDto)
+  @IsOptional()
+  ranges?: PincodeRangeDto[];
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ShippingRateDto)
+  @IsOptional()
+  rates?: ShippingRateDto[];
+
+  @IsBoolean()
+  @IsOptional()
+  codAvailable?: boolean;
+
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  codMaxOrderValue?: number;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  minDeliveryDays: number;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  maxDeliveryDays: number;
+
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  freeShippingThreshold?: number;
+
+  @Type(() => Number)
+  @IsInt()
+  @IsOptional()
+  priority?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
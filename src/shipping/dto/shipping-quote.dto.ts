@@ -0,0 +1,32 @@
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsArray,
+  Matches,
+  Min,
+  ValidateNested,
+  ArrayMinSize,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { OrderLineDto } from '../../order/dto/create-order.dto';
+import { PINCODE_PATTERN } from './create-shipping-zone.dto';
+
+export class ShippingQuoteDto {
+  @IsString()
+  @Matches(PINCODE_PATTERN, { message: 'pincode must be a valid 6-digit pincode' })
+  pincode: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => OrderLineDto)
+  items: OrderLineDto[];
+
+  /** Order value used for free-shipping and COD limits */
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  orderValue?: number;
+}
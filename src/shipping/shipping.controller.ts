@@ -0,0 +1,69 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ShippingService } from './shipping.service';
+import { CreateShippingZoneDto } from './dto/create-shipping-zone.dto';
+import { UpdateShippingZoneDto } from './dto/update-shipping-zone.dto';
+import { ShippingQuoteDto } from './dto/shipping-quote.dto';
+import { Public } from '../auth/decorators/public.decorator';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+
+@Controller('shipping')
+export class ShippingController {
+  constructor(private readonly shippingService: ShippingService) {}
+
+  @Get('zones')
+  @RequirePermissions({ resource: 'shipping', action: 'read' })
+  async findAllZones() {
+    return this.shippingService.findAllZones();
+  }
+
+  @Post('zones')
+  @RequirePermissions({ resource: 'shipping', action: 'create' })
+  async createZone(@Body() createZoneDto: CreateShippingZoneDto) {
+    return this.shippingService.createZone(createZoneDto);
+  }
+
+  @Get('zones/:id')
+  @RequirePermissions({ resource: 'shipping', action: 'read' })
+  async findZone(@Param('id') id: string) {
+    return this.shippingService.findZone(id);
+  }
+
+  @Patch('zones/:id')
+  @RequirePermissions({ resource: 'shipping', action: 'update' })
+  async updateZone(
+    @Param('id') id: string,
+    @Body() updateZoneDto: UpdateShippingZoneDto,
+  ) {
+    return this.shippingService.updateZone(id, updateZoneDto);
+  }
+
+  @Delete('zones/:id')
+  @RequirePermissions({ resource: 'shipping', action: 'delete' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async removeZone(@Param('id') id: string) {
+    await this.shippingService.removeZone(id);
+  }
+
+  @Get('pincodes/:pincode')
+  @Public()
+  async checkPincode(@Param('pincode') pincode: string) {
+    return this.shippingService.checkPincode(pincode);
+  }
+
+  @Post('quote')
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  async quote(@Body() quoteDto: ShippingQuoteDto) {
+    return this.shippingService.quote(quoteDto.pincode, quoteDto.items, quoteDto.orderValue);
+  }
+}
@@ -0,0 +1,449 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Prisma, ShippingRate } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ConfigService } from '../config/config.service';
+import { CreateShippingZoneDto, PINCODE_PATTERN, PincodeRangeDto, ShippingRateDto } from './dto/create-shipping-zone.dto';
+import { UpdateShippingZoneDto } from './dto/update-shipping-zone.dto';
+
+/**
+ * A line to ship
+ */
+export interface ShippingLineInput {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+}
+
+/**
+ * Serviceability and delivery charge for a pincode
+ */
+export interface ShippingQuote {
+  pincode: string;
+  serviceable: boolean;
+  reason?: string;
+  zone?: { id: string; name: string };
+  chargeableWeight?: Prisma.Decimal;
+  charge: Prisma.Decimal;
+  freeShipping: boolean;
+  codAvailable: boolean;
+  estimatedDelivery?: {
+    minDays: number;
+    maxDays: number;
+    earliest: Date;
+    latest: Date;
+  };
+}
+
+const ZERO = new Prisma.Decimal(0);
+
+const zoneInclude = {
+  ranges: {
+    orderBy: { startPincode: 'asc' },
+  },
+  rates: {
+    orderBy: { minWeight: 'asc' },
+  },
+} satisfies Prisma.ShippingZoneInclude;
+
+type ZoneWithRules = Prisma.ShippingZoneGetPayload<{ include: typeof zoneInclude }>;
+
+@Injectable()
+export class ShippingService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Create a shipping zone with its pincode ranges and rate table
+   */
+  async createZone(createZoneDto: CreateShippingZoneDto) {
+    const { ranges, rates, ...data } = createZoneDto;
+    this.validateZone(createZoneDto);
+
+    try {
+      return await this.prisma.shippingZone.create({
+        data: {
+          ...data,
+          pincodes: [...new Set(data.pincodes ?? [])],
+          ranges: ranges ? { create: this.toRangeRows(ranges) } : undefined,
+          rates: rates ? { create: this.toRateRows(rates) } : undefined,
+        },
+        include: zoneInclude,
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new BadRequestException(`Shipping zone '${createZoneDto.name}' already exists`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get all shipping zones
+   */
+  async findAllZones() {
+    return this.prisma.shippingZone.findMany({
+      orderBy: [{ priority: 'desc' }, { name: 'asc' }],
+      include: zoneInclude,
+    });
+  }
+
+  /**
+   * Get a shipping zone by ID
+   */
+  async findZone(id: string) {
+    const zone = await this.prisma.shippingZone.findUnique({
+      where: { id },
+      include: zoneInclude,
+    });
+
+    if (!zone) {
+      throw new NotFoundException(`Shipping zone with ID ${id} not found`);
+    }
+
+    return zone;
+  }
+
+  /**
+   * Update a shipping zone; ranges and rates, when given, replace the existing ones
+   */
+  async updateZone(id: string, updateZoneDto: UpdateShippingZoneDto) {
+    const existing = await this.findZone(id);
+    const { ranges, rates, ...data } = updateZoneDto;
+
+    this.validateZone({
+      minDeliveryDays: existing.minDeliveryDays,
+      maxDeliveryDays: existing.maxDeliveryDays,
+      ...updateZoneDto,
+    });
+
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        if (ranges) {
+          await tx.shippingZoneRange.deleteMany({ where: { zoneId: id } });
+        }
+
+        if (rates) {
+          await tx.shippingRate.deleteMany({ where: { zoneId: id } });
+        }
+
+        return tx.shippingZone.update({
+          where: { id },
+          data: {
+            ...data,
+            pincodes: data.pincodes ? [...new Set(data.pincodes)] : undefined,
+            ranges: ranges ? { create: this.toRangeRows(ranges) } : undefined,
+            rates: rates ? { create: this.toRateRows(rates) } : undefined,
+          },
+          include: zoneInclude,
+        });
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new BadRequestException(`Shipping zone '${updateZoneDto.name}' already exists`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a shipping zone
+   */
+  async removeZone(id: string) {
+    await this.findZone(id);
+
+    return this.prisma.shippingZone.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Find the zone serving a pincode. Zones listing the pincode explicitly
+   * win over range matches; otherwise the highest priority applies.
+   */
+  async resolveZone(pincode: string): Promise<ZoneWithRules | null> {
+    if (!PINCODE_PATTERN.test(pincode)) {
+      return null;
+    }
+
+    const numeric = parseInt(pincode, 10);
+
+    const zones = await this.prisma.shippingZone.findMany({
+      where: {
+        isActive: true,
+        OR: [
+          { pincodes: { has: pincode } },
+          { ranges: { some: { startPincode: { lte: numeric }, endPincode: { gte: numeric } } } },
+        ],
+      },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+      include: zoneInclude,
+    });
+
+    return zones.find(zone => zone.pincodes.includes(pincode)) ?? zones[0] ?? null;
+  }
+
+  /**
+   * Check whether a pincode is served, without pricing a shipment
+   */
+  async checkPincode(pincode: string) {
+    const zone = await this.resolveZone(pincode);
+
+    if (!zone) {
+      return {
+        pincode,
+        serviceable: false,
+        reason: 'Delivery is not available to this pincode',
+      };
+    }
+
+    return {
+      pincode,
+      serviceable: true,
+      zone: { id: zone.id, name: zone.name },
+      codAvailable: zone.codAvailable,
+      estimatedDelivery: await this.estimateDelivery(zone),
+    };
+  }
+
+  /**
+   * Quote delivery for a product to a pincode, for the product detail page
+   */
+  async checkProduct(productId: string, pincode: string, quantity = 1, variantId?: string) {
+    const product = await this.prisma.product.findUnique({
+      where: { id: productId },
+      select: { id: true, price: true, isDigital: true },
+    });
+
+    if (!product) {
+      throw new NotFoundException(`Product with ID ${productId} not found`);
+    }
+
+    if (product.isDigital) {
+      return {
+        pincode,
+        serviceable: true,
+        charge: ZERO,
+        freeShipping: true,
+        codAvailable: false,
+      };
+    }
+
+    let unitPrice = product.price;
+
+    if (variantId) {
+      const variant = await this.prisma.productVariant.findFirst({
+        where: { id: variantId, productId },
+        select: { price: true },
+      });
+
+      if (!variant) {
+        throw new NotFoundException(`Variant with ID ${variantId} not found`);
+      }
+
+      unitPrice = variant.price ?? product.price;
+    }
+
+    return this.quote(pincode, [{ productId, variantId, quantity }], unitPrice.mul(quantity));
+  }
+
+  /**
+   * Price delivery of a set of lines to a pincode. Charges use the chargeable
+   * weight: the greater of actual weight and volumetric weight.
+   */
+  async quote(
+    pincode: string,
+    lines: ShippingLineInput[],
+    orderValue?: Prisma.Decimal | number,
+  ): Promise<ShippingQuote> {
+    const notServiceable = (reason: string): ShippingQuote => ({
+      pincode,
+      serviceable: false,
+      reason,
+      charge: ZERO,
+      freeShipping: false,
+      codAvailable: false,
+    });
+
+    const zone = await this.resolveZone(pincode);
+
+    if (!zone) {
+      return notServiceable('Delivery is not available to this pincode');
+    }
+
+    const chargeableWeight = await this.getChargeableWeight(lines);
+    const rate = this.findRate(zone.rates, chargeableWeight);
+
+    if (!rate) {
+      return notServiceable(`No delivery rate for a ${chargeableWeight.toFixed(2)} kg shipment to this pincode`);
+    }
+
+    const value = orderValue != null ? new Prisma.Decimal(orderValue) : undefined;
+    const freeShipping = !!(value && zone.freeShippingThreshold && value.greaterThanOrEqualTo(zone.freeShippingThreshold));
+
+    return {
+      pincode,
+      serviceable: true,
+      zone: { id: zone.id, name: zone.name },
+      chargeableWeight,
+      charge: freeShipping ? ZERO : this.calculateCharge(rate, chargeableWeight),
+      freeShipping,
+      codAvailable: this.codAllowed(zone, value),
+      estimatedDelivery: await this.estimateDelivery(zone),
+    };
+  }
+
+  /**
+   * Whether cash on delivery is accepted for an order value at a pincode
+   */
+  async isCodAvailable(pincode: string, orderValue?: Prisma.Decimal | number): Promise<boolean> {
+    const zone = await this.resolveZone(pincode);
+    return !!zone && this.codAllowed(zone, orderValue != null ? new Prisma.Decimal(orderValue) : undefined);
+  }
+
+  /**
+   * Sum the chargeable weight of the lines in kilograms
+   */
+  private async getChargeableWeight(lines: ShippingLineInput[]): Promise<Prisma.Decimal> {
+    const productIds = [...new Set(lines.map(line => line.productId))];
+
+    const [products, defaultWeight, volumetricDivisor] = await Promise.all([
+      this.prisma.product.findMany({
+        where: { id: { in: productIds } },
+        select: { id: true, weight: true, dimensions: true, isDigital: true },
+      }),
+      this.configService.get<number | string>('SHIPPING_DEFAULT_WEIGHT', 0.5),
+      this.configService.get<number | string>('SHIPPING_VOLUMETRIC_DIVISOR', 5000),
+    ]);
+
+    return lines.reduce((total, line) => {
+      const product = products.find(p => p.id === line.productId);
+
+      if (!product || product.isDigital) {
+        return total;
+      }
+
+      const actual = product.weight ?? new Prisma.Decimal(defaultWeight ?? 0);
+      const volumetric = this.getVolumetricWeight(product.dimensions, Number(volumetricDivisor) || 5000);
+      const unitWeight = Prisma.Decimal.max(actual, volumetric);
+
+      return total.plus(unitWeight.mul(line.quantity));
+    }, ZERO).toDecimalPlaces(3);
+  }
+
+  /**
+   * Volumetric weight in kilograms from dimensions in centimetres
+   */
+  private getVolumetricWeight(dimensions: Prisma.JsonValue, divisor: number): Prisma.Decimal {
+    const { length, width, height } = (dimensions ?? {}) as { length?: number; width?: number; height?: number };
+
+    if (!length || !width || !height) {
+      return ZERO;
+    }
+
+    return new Prisma.Decimal(length).mul(width).mul(height).div(divisor);
+  }
+
+  /**
+   * Find the rate slab covering a weight
+   */
+  private findRate(rates: ShippingRate[], weight: Prisma.Decimal): ShippingRate | undefined {
+    return rates.find(rate =>
+      weight.greaterThanOrEqualTo(rate.minWeight) &&
+      (rate.maxWeight == null || weight.lessThan(rate.maxWeight)),
+    );
+  }
+
+  /**
+   * Slab charge plus the per-kilogram surcharge above the slab's starting weight
+   */
+  private calculateCharge(rate: ShippingRate, weight: Prisma.Decimal): Prisma.Decimal {
+    const extraKgs = weight.minus(rate.minWeight).ceil();
+    return rate.charge.plus(rate.additionalPerKg.mul(extraKgs)).toDecimalPlaces(2);
+  }
+
+  private codAllowed(zone: ZoneWithRules, orderValue?: Prisma.Decimal): boolean {
+    if (!zone.codAvailable) {
+      return false;
+    }
+
+    return !zone.codMaxOrderValue || !orderValue || orderValue.lessThanOrEqualTo(zone.codMaxOrderValue);
+  }
+
+  /**
+   * Estimate the delivery window: dispatch time plus the zone's transit days,
+   * counting working days only (Sundays excluded)
+   */
+  private async estimateDelivery(zone: ZoneWithRules) {
+    const dispatchDays = Number(await this.configService.get<number | string>('SHIPPING_DISPATCH_DAYS', 1)) || 0;
+    const now = new Date();
+
+    return {
+      minDays: dispatchDays + zone.minDeliveryDays,
+      maxDays: dispatchDays + zone.maxDeliveryDays,
+      earliest: this.addWorkingDays(now, dispatchDays + zone.minDeliveryDays),
+      latest: this.addWorkingDays(now, dispatchDays + zone.maxDeliveryDays),
+    };
+  }
+
+  private addWorkingDays(from: Date, days: number): Date {
+    const date = new Date(from);
+    let remaining = days;
+
+    while (remaining > 0) {
+      date.setDate(date.getDate() + 1);
+
+      if (date.getDay() !== 0) {
+        remaining--;
+      }
+    }
+
+    return date;
+  }
+
+  /**
+   * Check zone settings that span several fields
+   */
+  private validateZone(dto: Partial<CreateShippingZoneDto>) {
+    if (dto.minDeliveryDays != null && dto.maxDeliveryDays != null && dto.minDeliveryDays > dto.maxDeliveryDays) {
+      throw new BadRequestException('minDeliveryDays cannot exceed maxDeliveryDays');
+    }
+
+    for (const range of dto.ranges ?? []) {
+      if (parseInt(range.start, 10) > parseInt(range.end, 10)) {
+        throw new BadRequestException(`Invalid pincode range ${range.start}-${range.end}`);
+      }
+    }
+
+    // Slabs must not overlap, otherwise a weight could match two rates
+    const rates = [...(dto.rates ?? [])].sort((a, b) => a.minWeight - b.minWeight);
+
+    rates.forEach((rate, index) => {
+      if (rate.maxWeight != null && rate.maxWeight <= rate.minWeight) {
+        throw new BadRequestException('maxWeight must be greater than minWeight');
+      }
+
+      const next = rates[index + 1];
+      if (next && (rate.maxWeight == null || rate.maxWeight > next.minWeight)) {
+        throw new BadRequestException('Shipping rate slabs must not overlap');
+      }
+    });
+  }
+
+  private toRangeRows(ranges: PincodeRangeDto[]) {
+    return ranges.map(range => ({
+      startPincode: parseInt(range.start, 10),
+      endPincode: parseInt(range.end, 10),
+    }));
+  }
+
+  private toRateRows(rates: ShippingRateDto[]) {
+    return rates.map(rate => ({
+      minWeight: rate.minWeight,
+      maxWeight: rate.maxWeight,
+      charge: rate.charge,
+      additionalPerKg: rate.additionalPerKg ?? 0,
+    }));
+  }
+}
@@ -0,0 +1,72 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { createReadStream, promises as fs } from 'fs';
+import * as path from 'path';
+import { ConfigService } from '../../config/config.service';
+import { mimeTypeFromKey } from '../../utils/mime-utils';
+import { StorageDriver, StoredObject } from './storage-driver.interface';
+
+/**
+ * Stores files under STORAGE_LOCAL_PATH on the application server. Files in
+ * the public folders are served by StorageController unless STORAGE_PUBLIC_URL
+ * points at a CDN or web server that serves them; such a server must only
+ * serve the public folders, not private/.
+ */
+@Injectable()
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local';
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const filePath = await this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    const filePath = await this.resolve(key);
+
+    try {
+      const stats = await fs.stat(filePath);
+      if (!stats.isFile()) {
+        return null;
+      }
+
+      return {
+        stream: createReadStream(filePath),
+        contentType: mimeTypeFromKey(key),
+        size: stats.size,
+      };
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const filePath = await this.resolve(key);
+    await fs.rm(filePath, { force: true });
+  }
+
+  async getUrl(key: string): Promise<string> {
+    const baseUrl = await this.configService.get<string>('STORAGE_PUBLIC_URL', '');
+    return `${(baseUrl || '/storage').replace(/\/+$/, '')}/${key}`;
+  }
+
+  /**
+   * Map a key to a path inside the storage root, rejecting keys that would
+   * escape it
+   */
+  private async resolve(key: string): Promise<string> {
+    const root = path.resolve((await this.configService.get<string>('STORAGE_LOCAL_PATH', 'uploads')) || 'uploads');
+    const filePath = path.resolve(root, key);
+
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new BadRequestException('Invalid storage key');
+    }
+
+    return filePath;
+  }
+}
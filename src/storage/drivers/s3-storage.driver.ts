@@ -0,0 +1,125 @@
+import { Injectable, InternalServerErrorException } from '@nestjs/common';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+} from '@aws-sdk/client-s3';
+import { Readable } from 'stream';
+import { ConfigService } from '../../config/config.service';
+import { StorageDriver, StoredObject } from './storage-driver.interface';
+
+interface S3Settings {
+  bucket: string;
+  region: string;
+  endpoint: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean;
+}
+
+/**
+ * Stores files in an S3 bucket or any S3-compatible service (MinIO, R2,
+ * Spaces) when STORAGE_S3_ENDPOINT is set. Objects in the public folders
+ * (products/, variants/) are expected to be publicly readable through
+ * STORAGE_S3_PUBLIC_URL or the bucket URL; the bucket policy must not grant
+ * public read on anything else, such as private/.
+ */
+@Injectable()
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3';
+  private client: S3Client | null = null;
+  private clientSettings = '';
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    const { client, settings } = await this.getClient();
+
+    await client.send(new PutObjectCommand({
+      Bucket: settings.bucket,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+    }));
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    const { client, settings } = await this.getClient();
+
+    try {
+      const result = await client.send(new GetObjectCommand({ Bucket: settings.bucket, Key: key }));
+
+      return {
+        stream: result.Body as Readable,
+        contentType: result.ContentType,
+        size: result.ContentLength,
+      };
+    } catch (error) {
+      if (error.name === 'NoSuchKey' || error.$metadata?.httpStatusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const { client, settings } = await this.getClient();
+    await client.send(new DeleteObjectCommand({ Bucket: settings.bucket, Key: key }));
+  }
+
+  async getUrl(key: string): Promise<string> {
+    const settings = await this.getSettings();
+    const publicUrl = await this.configService.get<string>('STORAGE_S3_PUBLIC_URL', '');
+
+    if (publicUrl) {
+      return `${publicUrl.replace(/\/+$/, '')}/${key}`;
+    }
+    if (settings.endpoint) {
+      return `${settings.endpoint.replace(/\/+$/, '')}/${settings.bucket}/${key}`;
+    }
+    return `https://${settings.bucket}.s3.${settings.region}.amazonaws.com/${key}`;
+  }
+
+  private async getSettings(): Promise<S3Settings> {
+    const forcePathStyle = await this.configService.get<boolean | string>('STORAGE_S3_FORCE_PATH_STYLE', false);
+
+    const settings: S3Settings = {
+      bucket: (await this.configService.get<string>('STORAGE_S3_BUCKET', '')) || '',
+      region: (await this.configService.get<string>('STORAGE_S3_REGION', 'us-east-1')) || 'us-east-1',
+      endpoint: (await this.configService.get<string>('STORAGE_S3_ENDPOINT', '')) || '',
+      accessKeyId: (await this.configService.get<string>('STORAGE_S3_ACCESS_KEY_ID', '')) || '',
+      secretAccessKey: (await this.configService.get<string>('STORAGE_S3_SECRET_ACCESS_KEY', '')) || '',
+      forcePathStyle: forcePathStyle === true || forcePathStyle === 'true',
+    };
+
+    if (!settings.bucket) {
+      throw new InternalServerErrorException('S3 storage is not configured');
+    }
+
+    return settings;
+  }
+
+  /**
+   * Create the client on first use, and again whenever the configuration changes
+   */
+  private async getClient(): Promise<{ client: S3Client; settings: S3Settings }> {
+    const settings = await this.getSettings();
+    const signature = JSON.stringify(settings);
+
+    if (!this.client || this.clientSettings !== signature) {
+      this.client?.destroy();
+      this.client = new S3Client({
+        region: settings.region,
+        endpoint: settings.endpoint || undefined,
+        forcePathStyle: settings.forcePathStyle,
+        credentials: settings.accessKeyId
+          ? { accessKeyId: settings.accessKeyId, secretAccessKey: settings.secretAccessKey }
+          : undefined,
+      });
+      this.clientSettings = signature;
+    }
+
+    return { client: this.client, settings };
+  }
+}
@@ -0,0 +1,44 @@
+import { Readable } from 'stream';
+
+/**
+ * Injection token for the list of registered storage drivers
+ */
+export const STORAGE_DRIVERS = 'STORAGE_DRIVERS';
+
+/**
+ * A stored object opened for reading
+ */
+export interface StoredObject {
+  stream: Readable;
+  contentType?: string;
+  size?: number;
+}
+
+/**
+ * A backend that uploaded files are written to. Keys are forward-slash
+ * separated paths such as products/<id>/<file>.webp
+ */
+export interface StorageDriver {
+  /** Value of STORAGE_DRIVER that selects this driver */
+  readonly name: string;
+
+  /**
+   * Write an object, replacing any existing object with the same key
+   */
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * Open an object for reading, or null when it does not exist
+   */
+  get(key: string): Promise<StoredObject | null>;
+
+  /**
+   * Remove an object; missing objects are ignored
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Public URL the object can be fetched from
+   */
+  getUrl(key: string): Promise<string>;
+}
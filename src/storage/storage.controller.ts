@@ -0,0 +1,34 @@
+import { Controller, Get, Param, NotFoundException, StreamableFile } from '@nestjs/common';
+import { Public } from '../auth/decorators/public.decorator';
+import { StorageService } from './storage.service';
+
+@Controller('storage')
+export class StorageController {
+  constructor(private readonly storageService: StorageService) {}
+
+  /**
+   * Serve files in the public folders from drivers that are not publicly
+   * reachable themselves, such as the local filesystem driver
+   */
+  @Get('*key')
+  @Public()
+  async serve(@Param('key') key: string | string[]): Promise<StreamableFile> {
+    const path = Array.isArray(key) ? key.join('/') : key;
+
+    // Private files are only served by the endpoints that check access to them
+    if (!this.storageService.isPublic(path)) {
+      throw new NotFoundException('File not found');
+    }
+
+    const stored = await this.storageService.open(path);
+
+    if (!stored) {
+      throw new NotFoundException('File not found');
+    }
+
+    return new StreamableFile(stored.stream, {
+      type: stored.contentType ?? 'application/octet-stream',
+      length: stored.size,
+    });
+  }
+}
@@ -0,0 +1,26 @@
+import { Module, Global } from '@nestjs/common';
+import { ConfigModule } from '../config/config.module';
+import { StorageService } from './storage.service';
+import { StorageController } from './storage.controller';
+import { STORAGE_DRIVERS } from './drivers/storage-driver.interface';
+import { LocalStorageDriver } from './drivers/local-storage.driver';
+import { S3StorageDriver } from './drivers/s3-storage.driver';
+
+@Global()
+@Module({
+  imports: [ConfigModule],
+  controllers: [StorageController],
+  providers: [
+    StorageService,
+    LocalStorageDriver,
+    S3StorageDriver,
+    {
+      // Register additional backends by adding them to this list
+      provide: STORAGE_DRIVERS,
+      useFactory: (local: LocalStorageDriver, s3: S3StorageDriver) => [local, s3],
+      inject: [LocalStorageDriver, S3StorageDriver],
+    },
+  ],
+  exports: [StorageService],
+})
+export class StorageModule {}
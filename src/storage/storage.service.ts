@@ -0,0 +1,181 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  BadRequestException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+  InternalServerErrorException,
+} from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import { ConfigService } from '../config/config.service';
+import { MIME_EXTENSIONS, sniffMimeType } from '../utils/mime-utils';
+import { STORAGE_DRIVERS, StorageDriver, StoredObject } from './drivers/storage-driver.interface';
+
+/**
+ * Key prefixes that may be served to anyone, through StorageController or
+ * directly from the storage backend. Everything else, such as support ticket
+ * attachments under private/, is only reachable through authenticated endpoints
+ */
+export const PUBLIC_STORAGE_FOLDERS = ['products', 'variants'];
+
+export interface UploadRules {
+  maxBytes: number;
+  allowedTypes: string[];
+}
+
+export interface StoreOptions {
+  /** Key prefix, e.g. products/<productId> */
+  folder: string;
+  contentType: string;
+  /** Name of the file inside the folder; a random name is used when omitted */
+  filename?: string;
+}
+
+export interface StoredFile {
+  key: string;
+  url: string;
+  size: number;
+  contentType: string;
+  driver: string;
+}
+
+@Injectable()
+export class StorageService {
+  private readonly logger = new Logger(StorageService.name);
+  private readonly drivers = new Map<string, StorageDriver>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(STORAGE_DRIVERS) drivers: StorageDriver[],
+  ) {
+    drivers.forEach(driver => this.drivers.set(driver.name, driver));
+  }
+
+  /**
+   * Check an uploaded file against size and type rules
+   * @returns The MIME type detected from the file contents
+   */
+  validateUpload(file: Express.Multer.File | undefined, rules: UploadRules): string {
+    if (!file || !file.buffer?.length) {
+      throw new BadRequestException('File is required');
+    }
+
+    if (file.size > rules.maxBytes) {
+      throw new PayloadTooLargeException(
+        `${file.originalname} exceeds the maximum upload size of ${rules.maxBytes} bytes`,
+      );
+    }
+
+    const mimeType = sniffMimeType(file.buffer);
+    if (!mimeType || !rules.allowedTypes.includes(mimeType)) {
+      throw new UnsupportedMediaTypeException(
+        `${file.originalname} is not an allowed file type (${rules.allowedTypes.join(', ')})`,
+      );
+    }
+
+    return mimeType;
+  }
+
+  /**
+   * Write a publicly readable file to the configured storage driver
+   */
+  async store(body: Buffer, options: StoreOptions): Promise<StoredFile> {
+    const driver = await this.getDriver();
+    const key = this.buildKey(options);
+
+    if (!this.isPublic(key)) {
+      throw new InternalServerErrorException(`${options.folder} is not a public folder; store the file as private instead`);
+    }
+
+    await driver.put(key, body, options.contentType);
+
+    return {
+      key,
+      url: await driver.getUrl(key),
+      size: body.length,
+      contentType: options.contentType,
+      driver: driver.name,
+    };
+  }
+
+  /**
+   * Write a file under private/, which has no public URL; it can only be
+   * read through open() by an endpoint that checks access to it
+   */
+  async storePrivate(body: Buffer, options: StoreOptions): Promise<Omit<StoredFile, 'url'>> {
+    const driver = await this.getDriver();
+    const key = `private/${this.buildKey(options)}`;
+
+    await driver.put(key, body, options.contentType);
+
+    return {
+      key,
+      size: body.length,
+      contentType: options.contentType,
+      driver: driver.name,
+    };
+  }
+
+  /**
+   * Open a stored file for reading
+   */
+  async open(key: string): Promise<StoredObject | null> {
+    const driver = await this.getDriver();
+    return driver.get(key);
+  }
+
+  /**
+   * Whether a file lives in one of the public folders
+   */
+  isPublic(key: string): boolean {
+    const segments = key.split('/');
+    return segments.length > 1
+      && PUBLIC_STORAGE_FOLDERS.includes(segments[0])
+      && !segments.some(segment => segment === '..' || segment === '.' || segment === '');
+  }
+
+  /**
+   * Public URL of a stored file
+   */
+  async getUrl(key: string): Promise<string> {
+    if (!this.isPublic(key)) {
+      throw new BadRequestException('Only files in the public folders have a public URL');
+    }
+
+    const driver = await this.getDriver();
+    return driver.getUrl(key);
+  }
+
+  /**
+   * Remove stored files. Failures are logged rather than thrown so that
+   * database cleanup is not blocked by an unreachable storage backend
+   */
+  async delete(...keys: string[]): Promise<void> {
+    const driver = await this.getDriver();
+
+    await Promise.all(keys.map(async key => {
+      try {
+        await driver.delete(key);
+      } catch (error) {
+        this.logger.warn(`Failed to delete stored file ${key}: ${error.message}`);
+      }
+    }));
+  }
+
+  private buildKey(options: StoreOptions): string {
+    const filename = options.filename ?? `${uuidv4()}${MIME_EXTENSIONS[options.contentType] ?? ''}`;
+    return `${options.folder.replace(/^\/+|\/+$/g, '')}/${filename}`;
+  }
+
+  private async getDriver(): Promise<StorageDriver> {
+    const name = (await this.configService.get<string>('STORAGE_DRIVER', 'local')) || 'local';
+    const driver = this.drivers.get(name);
+
+    if (!driver) {
+      throw new InternalServerErrorException(`Unknown storage driver: ${name}`);
+    }
+
+    return driver;
+  }
+}
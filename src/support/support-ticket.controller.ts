@@ -14,7 +14,11 @@ import {
   NotFoundException,
   Req,
   ForbiddenException,
+  UseInterceptors,
+  UploadedFiles,
+  StreamableFile,
 } from '@nestjs/common';
+import { FilesInterceptor } from '@nestjs/platform-express';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RequirePermissions } from '../auth/decorators/permissions.decorator';
 import { Public } from '../auth/decorators/public.decorator';
@@ -368,6 +372,76 @@ export class SupportTicketController {
     });
   }
 
+  /**
+   * Upload attachments to a ticket, or to one of its responses
+   */
+  @Post(':id/attachments')
+  @UseGuards(JwtAuthGuard)
+  @UseInterceptors(FilesInterceptor('files', 5, { limits: { fileSize: 20 * 1024 * 1024 } }))
+  async addAttachments(
+    @Req() req: RequestWithUser,
+    @Param('id') id: string,
+    @UploadedFiles() files: Express.Multer.File[],
+    @Body('responseId') responseId?: string,
+  ): Promise<any> {
+    // Get the ticket to check permissions
+    const ticket = await this.supportTicketService.getTicketById(id, false);
+    
+    if (!ticket) {
+      throw new NotFoundException(`Ticket with ID ${id} not found`);
+    }
+    
+    // Regular users can only attach files to their own tickets
+    const isAdmin = req.user.roles.includes('admin');
+    const isSupportAgent = req.user.roles.includes('support_agent');
+    const isTicketOwner = ticket.userId === req.user.sub;
+    
+    if (!isAdmin && !isSupportAgent && !isTicketOwner) {
+      throw new ForbiddenException('You do not have permission to add attachments to this ticket');
+    }
+    
+    return await this.supportTicketService.addAttachments(id, files, responseId || undefined);
+  }
+
+  /**
+   * Download a ticket attachment
+   */
+  @Get(':id/attachments/:attachmentId')
+  @UseGuards(JwtAuthGuard)
+  async getAttachment(
+    @Req() req: RequestWithUser,
+    @Param('id') id: string,
+    @Param('attachmentId') attachmentId: string,
+  ): Promise<StreamableFile> {
+    // Get the ticket to check permissions
+    const ticket = await this.supportTicketService.getTicketById(id, false);
+    
+    if (!ticket) {
+      throw new NotFoundException(`Ticket with ID ${id} not found`);
+    }
+    
+    const isAdmin = req.user.roles.includes('admin');
+    const isSupportAgent = req.user.roles.includes('support_agent');
+    const isTicketOwner = ticket.userId === req.user.sub;
+    
+    if (!isAdmin && !isSupportAgent && !isTicketOwner) {
+      throw new ForbiddenException('You do not have permission to view this ticket');
+    }
+    
+    // Attachments on internal responses are only visible to staff
+    const { attachment, file } = await this.supportTicketService.getAttachment(
+      id,
+      attachmentId,
+      isAdmin || isSupportAgent,
+    );
+    
+    return new StreamableFile(file.stream, {
+      type: attachment.mimeType,
+      length: attachment.size,
+      disposition: `attachment; filename="${attachment.originalName.replace(/["\\\r\n]/g, '_')}"`,
+    });
+  }
+
   /**
    * Update a ticket
    */
@@ -1,6 +1,12 @@
 import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { SupportTicket, TicketResponse, TicketStatus, TicketPriority } from '@prisma/client';
+import { ConfigService } from '../config/config.service';
+import { StorageService } from '../storage/storage.service';
+import { StoredObject } from '../storage/drivers/storage-driver.interface';
+import { SupportTicket, TicketResponse, TicketStatus, TicketPriority, TicketAttachment } from '@prisma/client';
+
+// Customers attach screenshots and documents; anything else is rejected
+const ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'application/pdf'];
 
 interface CreateTicketDto {
   subject: string;
@@ -53,7 +59,11 @@ interface TicketPaginationOptions {
 export class SupportTicketService {
   private readonly logger = new Logger(SupportTicketService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly storageService: StorageService,
+  ) {}
 
   /**
    * Generate a unique ticket reference number
@@ -518,6 +528,93 @@ export class SupportTicketService {
     }
   }
 
+  /**
+   * Store uploaded files as attachments on a ticket, or on one of its responses
+   */
+  async addAttachments(
+    ticketId: string,
+    files: Express.Multer.File[],
+    responseId?: string,
+  ): Promise<TicketAttachment[]> {
+    if (!files?.length) {
+      throw new BadRequestException('At least one file is required');
+    }
+
+    if (responseId) {
+      const response = await this.prisma.ticketResponse.findFirst({
+        where: { id: responseId, ticketId },
+      });
+
+      if (!response) {
+        throw new NotFoundException(`Response with ID ${responseId} not found on this ticket`);
+      }
+    }
+
+    const maxBytes = Number(await this.configService.get<number>('SUPPORT_ATTACHMENT_MAX_BYTES', 5 * 1024 * 1024));
+    const mimeTypes = files.map(file =>
+      this.storageService.validateUpload(file, { maxBytes, allowedTypes: ATTACHMENT_TYPES }),
+    );
+
+    const attachments: TicketAttachment[] = [];
+    for (const [index, file] of files.entries()) {
+      // Private, so only getAttachment can serve it
+      const stored = await this.storageService.storePrivate(file.buffer, {
+        folder: `tickets/${ticketId}`,
+        contentType: mimeTypes[index],
+      });
+
+      try {
+        attachments.push(await this.prisma.ticketAttachment.create({
+          data: {
+            filename: stored.key.slice(stored.key.lastIndexOf('/') + 1),
+            originalName: file.originalname,
+            mimeType: stored.contentType,
+            size: stored.size,
+            path: stored.key,
+            ticketId: responseId ? undefined : ticketId,
+            responseId,
+          },
+        }));
+      } catch (error) {
+        await this.storageService.delete(stored.key);
+        this.logger.error(`Error saving ticket attachment: ${error.message}`, error.stack);
+        throw error;
+      }
+    }
+
+    return attachments;
+  }
+
+  /**
+   * Open an attachment on a ticket or one of its responses for download
+   */
+  async getAttachment(
+    ticketId: string,
+    attachmentId: string,
+    includeInternal = false,
+  ): Promise<{ attachment: TicketAttachment; file: StoredObject }> {
+    const attachment = await this.prisma.ticketAttachment.findFirst({
+      where: {
+        id: attachmentId,
+        OR: [
+          { ticketId },
+          { response: { ticketId, ...(includeInternal ? {} : { isInternal: false }) } },
+        ],
+      },
+    });
+
+    if (!attachment) {
+      throw new NotFoundException(`Attachment with ID ${attachmentId} not found`);
+    }
+
+    const file = await this.storageService.open(attachment.path);
+    if (!file) {
+      throw new NotFoundException(`File for attachment ${attachmentId} is missing`);
+    }
+
+    return { attachment, file };
+  }
+
   /**
    * Get ticket categories
    */
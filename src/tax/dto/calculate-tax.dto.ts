@@ -0,0 +1,53 @@
+import {
+  IsString,
+  IsOptional,
+  IsNotEmpty,
+  IsArray,
+  IsInt,
+  IsNumber,
+  Min,
+  ValidateNested,
+  ArrayMinSize,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class TaxLineDto {
+  @IsString()
+  @IsNotEmpty()
+  productId: string;
+
+  @IsString()
+  @IsOptional()
+  variantId?: string;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  quantity: number;
+
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  unitPrice: number;
+
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  discount?: number;
+}
+
+export class CalculateTaxDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => TaxLineDto)
+  items: TaxLineDto[];
+
+  /**
+   * Destination state (GST code, abbreviation or name)
+   */
+  @IsString()
+  @IsNotEmpty()
+  destinationState: string;
+}
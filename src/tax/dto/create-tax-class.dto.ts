@@ -0,0 +1,25 @@
+import { IsString, IsNotEmpty, IsOptional, IsBoolean, IsIn } from 'class-validator';
+import { Type } from 'class-transformer';
+
+/**
+ * GST slabs in percent
+ */
+export const GST_RATES = [0, 5, 12, 18, 28];
+
+export class CreateTaxClassDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @Type(() => Number)
+  @IsIn(GST_RATES, { message: `gstRate must be one of ${GST_RATES.join(', ')}` })
+  gstRate: number;
+
+  @IsBoolean()
+  @IsOptional()
+  isDefault?: boolean;
+}
@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateTaxClassDto } from './create-tax-class.dto';
+
+export class UpdateTaxClassDto extends PartialType(CreateTaxClassDto) {}
@@ -0,0 +1,90 @@
+/**
+ * Indian states and union territories with their GST state codes.
+ * `utgst` marks union territories without a legislature, which levy UTGST instead of SGST.
+ */
+export interface GstState {
+  code: string;
+  abbreviation: string;
+  name: string;
+  utgst: boolean;
+}
+
+export const GST_STATES: GstState[] = [
+  { code: '01', abbreviation: 'JK', name: 'Jammu and Kashmir', utgst: false },
+  { code: '02', abbreviation: 'HP', name: 'Himachal Pradesh', utgst: false },
+  { code: '03', abbreviation: 'PB', name: 'Punjab', utgst: false },
+  { code: '04', abbreviation: 'CH', name: 'Chandigarh', utgst: true },
+  { code: '05', abbreviation: 'UK', name: 'Uttarakhand', utgst: false },
+  { code: '06', abbreviation: 'HR', name: 'Haryana', utgst: false },
+  { code: '07', abbreviation: 'DL', name: 'Delhi', utgst: false },
+  { code: '08', abbreviation: 'RJ', name: 'Rajasthan', utgst: false },
+  { code: '09', abbreviation: 'UP', name: 'Uttar Pradesh', utgst: false },
+  { code: '10', abbreviation: 'BR', name: 'Bihar', utgst: false },
+  { code: '11', abbreviation: 'SK', name: 'Sikkim', utgst: false },
+  { code: '12', abbreviation: 'AR', name: 'Arunachal Pradesh', utgst: false },
+  { code: '13', abbreviation: 'NL', name: 'Nagaland', utgst: false },
+  { code: '14', abbreviation: 'MN', name: 'Manipur', utgst: false },
+  { code: '15', abbreviation: 'MZ', name: 'Mizoram', utgst: false },
+  { code: '16', abbreviation: 'TR', name: 'Tripura', utgst: false },
+  { code: '17', abbreviation: 'ML', name: 'Meghalaya', utgst: false },
+  { code: '18', abbreviation: 'AS', name: 'Assam', utgst: false },
+  { code: '19', abbreviation: 'WB', name: 'West Bengal', utgst: false },
+  { code: '20', abbreviation: 'JH', name: 'Jharkhand', utgst: false },
+  { code: '21', abbreviation: 'OD', name: 'Odisha', utgst: false },
+  { code: '22', abbreviation: 'CG', name: 'Chhattisgarh', utgst: false },
+  { code: '23', abbreviation: 'MP', name: 'Madhya Pradesh', utgst: false },
+  { code: '24', abbreviation: 'GJ', name: 'Gujarat', utgst: false },
+  { code: '26', abbreviation: 'DN', name: 'Dadra and Nagar Haveli and Daman and Diu', utgst: true },
+  { code: '27', abbreviation: 'MH', name: 'Maharashtra', utgst: false },
+  { code: '29', abbreviation: 'KA', name: 'Karnataka', utgst: false },
+  { code: '30', abbreviation: 'GA', name: 'Goa', utgst: false },
+  { code: '31', abbreviation: 'LD', name: 'Lakshadweep', utgst: true },
+  { code: '32', abbreviation: 'KL', name: 'Kerala', utgst: false },
+  { code: '33', abbreviation: 'TN', name: 'Tamil Nadu', utgst: false },
+  { code: '34', abbreviation: 'PY', name: 'Puducherry', utgst: false },
+  { code: '35', abbreviation: 'AN', name: 'Andaman and Nicobar Islands', utgst: true },
+  { code: '36', abbreviation: 'TS', name: 'Telangana', utgst: false },
+  { code: '37', abbreviation: 'AP', name: 'Andhra Pradesh', utgst: false },
+  { code: '38', abbreviation: 'LA', name: 'Ladakh', utgst: true },
+];
+
+/**
+ * Alternative spellings seen in addresses
+ */
+const STATE_ALIASES: Record<string, string> = {
+  orissa: '21',
+  pondicherry: '34',
+  uttaranchal: '05',
+  newdelhi: '07',
+  nctofdelhi: '07',
+  daman: '26',
+  damananddiu: '26',
+  dadraandnagarhaveli: '26',
+  andamanandnicobar: '35',
+  ut: '05',
+  tg: '36',
+};
+
+const normalise = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Resolve a GST state from a state code (e.g. "29"), abbreviation (e.g. "KA") or name
+ */
+export function resolveGstState(value?: string | null): GstState | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const key = normalise(value);
+  if (!key) {
+    return undefined;
+  }
+
+  const code = /^\d{1,2}$/.test(key) ? key.padStart(2, '0') : STATE_ALIASES[key];
+
+  return GST_STATES.find(state =>
+    state.code === code ||
+    normalise(state.abbreviation) === key ||
+    normalise(state.name) === key
+  );
+}
@@ -0,0 +1,80 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { TaxService } from './tax.service';
+import { CreateTaxClassDto } from './dto/create-tax-class.dto';
+import { UpdateTaxClassDto } from './dto/update-tax-class.dto';
+import { CalculateTaxDto } from './dto/calculate-tax.dto';
+import { GST_STATES } from './gst-states';
+import { Public } from '../auth/decorators/public.decorator';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+
+@Controller('tax')
+export class TaxController {
+  constructor(private readonly taxService: TaxService) {}
+
+  @Get('classes')
+  @Public()
+  async findAllClasses() {
+    return this.taxService.findAllClasses();
+  }
+
+  @Post('classes')
+  @RequirePermissions({ resource: 'tax', action: 'create' })
+  async createClass(@Body() createTaxClassDto: CreateTaxClassDto) {
+    return this.taxService.createClass(createTaxClassDto);
+  }
+
+  @Get('classes/:id')
+  @Public()
+  async findClass(@Param('id') id: string) {
+    return this.taxService.findClass(id);
+  }
+
+  @Patch('classes/:id')
+  @RequirePermissions({ resource: 'tax', action: 'update' })
+  async updateClass(
+    @Param('id') id: string,
+    @Body() updateTaxClassDto: UpdateTaxClassDto,
+  ) {
+    return this.taxService.updateClass(id, updateTaxClassDto);
+  }
+
+  @Delete('classes/:id')
+  @RequirePermissions({ resource: 'tax', action: 'delete' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async removeClass(@Param('id') id: string) {
+    await this.taxService.removeClass(id);
+  }
+
+  @Get('states')
+  @Public()
+  getStates() {
+    return GST_STATES;
+  }
+
+  @Post('calculate')
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  async calculate(@Body() calculateTaxDto: CalculateTaxDto) {
+    return this.taxService.calculate(
+      calculateTaxDto.items.map(item => ({
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: item.quantity,
+        unitPrice: new Prisma.Decimal(item.unitPrice),
+        discount: item.discount !== undefined ? new Prisma.Decimal(item.discount) : undefined,
+      })),
+      calculateTaxDto.destinationState,
+    );
+  }
+}
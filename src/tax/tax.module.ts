@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { TaxService } from './tax.service';
+import { TaxController } from './tax.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [TaxController],
+  providers: [TaxService],
+  exports: [TaxService],
+})
+export class TaxModule {}
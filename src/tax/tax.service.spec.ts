@@ -0,0 +1,194 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { TaxService } from './tax.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { ConfigService } from '../config/config.service';
+
+const GST_5 = { id: 'gst-5', name: 'GST 5%', gstRate: new Prisma.Decimal(5) };
+const GST_12 = { id: 'gst-12', name: 'GST 12%', gstRate: new Prisma.Decimal(12) };
+const GST_18 = { id: 'gst-18', name: 'GST 18%', gstRate: new Prisma.Decimal(18) };
+
+const catalogue = [
+  { id: 'urea-45kg', hsnCode: '3102', taxClass: GST_5 },
+  { id: 'chlorpyrifos-1l', hsnCode: '3808', taxClass: GST_18 },
+  { id: 'knapsack-sprayer', hsnCode: '8424', taxClass: GST_18 },
+  { id: 'paddy-seed-10kg', hsnCode: '1209', taxClass: null },
+];
+
+const sprayerVariants = [
+  { id: 'knapsack-sprayer-16l', hsnCode: '84244100', taxClass: GST_12 },
+];
+
+describe('TaxService', () => {
+  let taxService: TaxService;
+  let settings: Record<string, unknown>;
+  let prisma: {
+    product: { findMany: jest.Mock };
+    productVariant: { findMany: jest.Mock };
+    taxClass: { findFirst: jest.Mock };
+  };
+
+  beforeEach(async () => {
+    settings = { TAX_SELLER_STATE: 'KA' };
+    prisma = {
+      product: { findMany: jest.fn().mockResolvedValue(catalogue) },
+      productVariant: { findMany: jest.fn().mockResolvedValue(sprayerVariants) },
+      taxClass: { findFirst: jest.fn().mockResolvedValue(null) },
+    };
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaxService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: unknown) =>
+              Promise.resolve(key in settings ? settings[key] : defaultValue)),
+          },
+        },
+      ],
+    }).compile();
+
+    taxService = app.get<TaxService>(TaxService);
+  });
+
+  describe('calculate', () => {
+    it('should split tax into CGST and SGST for a same-state supply', async () => {
+      const breakdown = await taxService.calculate([
+        { productId: 'chlorpyrifos-1l', quantity: 3, unitPrice: new Prisma.Decimal('99.99') },
+      ], 'Karnataka');
+
+      expect(breakdown.supplyType).toBe('INTRA_STATE');
+      expect(breakdown.usesUtgst).toBe(false);
+
+      const [pesticide] = breakdown.lines;
+      expect(pesticide.taxableValue.toFixed(2)).toBe('299.97');
+      expect(pesticide.taxAmount.toFixed(2)).toBe('53.99');
+      // The odd paisa goes to CGST, so the halves still add up to the tax
+      expect(pesticide.cgst.toFixed(2)).toBe('27.00');
+      expect(pesticide.sgst.toFixed(2)).toBe('26.99');
+      expect(pesticide.igst.toFixed(2)).toBe('0.00');
+      expect(pesticide.total.toFixed(2)).toBe('353.96');
+    });
+
+    it('should charge only IGST for an inter-state supply', async () => {
+      const breakdown = await taxService.calculate([
+        { productId: 'urea-45kg', quantity: 4, unitPrice: new Prisma.Decimal('266.50') },
+      ], '27');
+
+      expect(breakdown.supplyType).toBe('INTER_STATE');
+      expect(breakdown.placeOfSupply.name).toBe('Maharashtra');
+      expect(breakdown.totals.cgst.toFixed(2)).toBe('0.00');
+      expect(breakdown.totals.sgst.toFixed(2)).toBe('0.00');
+      expect(breakdown.totals.igst.toFixed(2)).toBe('53.30');
+      expect(breakdown.totals.grandTotal.toFixed(2)).toBe('1119.30');
+    });
+
+    it('should levy UTGST within a union territory without a legislature', async () => {
+      settings.TAX_SELLER_STATE = 'Chandigarh';
+
+      const breakdown = await taxService.calculate([
+        { productId: 'urea-45kg', quantity: 1, unitPrice: new Prisma.Decimal('266.50') },
+      ], 'CH');
+
+      expect(breakdown.supplyType).toBe('INTRA_STATE');
+      expect(breakdown.usesUtgst).toBe(true);
+    });
+
+    it('should add tax on top of exclusive prices after discounts, using the variant class', async () => {
+      const breakdown = await taxService.calculate([
+        { productId: 'chlorpyrifos-1l', quantity: 3, unitPrice: new Prisma.Decimal('99.99') },
+        {
+          productId: 'knapsack-sprayer',
+          variantId: 'knapsack-sprayer-16l',
+          quantity: 1,
+          unitPrice: new Prisma.Decimal(2500),
+          discount: new Prisma.Decimal(250),
+        },
+      ], 'KA');
+
+      const sprayer = breakdown.lines[1];
+      expect(sprayer.hsnCode).toBe('84244100');
+      expect(sprayer.gstRate.toFixed(0)).toBe('12');
+      expect(sprayer.taxableValue.toFixed(2)).toBe('2250.00');
+      expect(sprayer.cgst.toFixed(2)).toBe('135.00');
+      expect(sprayer.sgst.toFixed(2)).toBe('135.00');
+
+      expect(breakdown.totals.taxableValue.toFixed(2)).toBe('2549.97');
+      expect(breakdown.totals.cgst.toFixed(2)).toBe('162.00');
+      expect(breakdown.totals.sgst.toFixed(2)).toBe('161.99');
+      expect(breakdown.totals.taxTotal.toFixed(2)).toBe('323.99');
+      expect(breakdown.totals.grandTotal.toFixed(2)).toBe('2873.96');
+    });
+
+    it('should back tax out of inclusive prices without changing what the customer pays', async () => {
+      settings.TAX_PRICES_INCLUDE_TAX = 'true';
+
+      const breakdown = await taxService.calculate([
+        { productId: 'urea-45kg', quantity: 1, unitPrice: new Prisma.Decimal('262.50') },
+        { productId: 'chlorpyrifos-1l', quantity: 1, unitPrice: new Prisma.Decimal(100) },
+        {
+          productId: 'knapsack-sprayer',
+          variantId: 'knapsack-sprayer-16l',
+          quantity: 1,
+          unitPrice: new Prisma.Decimal(2800),
+          discount: new Prisma.Decimal(560),
+        },
+      ], 'MH');
+
+      expect(breakdown.pricesIncludeTax).toBe(true);
+      expect(breakdown.lines.map(line => line.taxableValue.toFixed(2))).toEqual(['250.00', '84.75', '2000.00']);
+      expect(breakdown.lines.map(line => line.igst.toFixed(2))).toEqual(['12.50', '15.25', '240.00']);
+      expect(breakdown.lines.map(line => line.total.toFixed(2))).toEqual(['262.50', '100.00', '2240.00']);
+      expect(breakdown.totals.grandTotal.toFixed(2)).toBe('2602.50');
+    });
+
+    it('should tax the same price differently when prices include tax', async () => {
+      const pesticide = [{ productId: 'chlorpyrifos-1l', quantity: 1, unitPrice: new Prisma.Decimal(118) }];
+
+      const exclusive = await taxService.calculate(pesticide, 'KA');
+      settings.TAX_PRICES_INCLUDE_TAX = true;
+      const inclusive = await taxService.calculate(pesticide, 'KA');
+
+      expect(exclusive.totals.taxableValue.toFixed(2)).toBe('118.00');
+      expect(exclusive.totals.grandTotal.toFixed(2)).toBe('139.24');
+      expect(inclusive.totals.taxableValue.toFixed(2)).toBe('100.00');
+      expect(inclusive.totals.grandTotal.toFixed(2)).toBe('118.00');
+    });
+
+    it('should fall back to the default tax class and never discount a line below zero', async () => {
+      prisma.taxClass.findFirst.mockResolvedValue(GST_5);
+
+      const breakdown = await taxService.calculate([
+        { productId: 'paddy-seed-10kg', quantity: 2, unitPrice: new Prisma.Decimal(600), discount: new Prisma.Decimal(5000) },
+      ], 'KA');
+
+      const [seed] = breakdown.lines;
+      expect(seed.gstRate.toFixed(0)).toBe('5');
+      expect(seed.discount.toFixed(2)).toBe('1200.00');
+      expect(seed.taxableValue.toFixed(2)).toBe('0.00');
+      expect(seed.taxAmount.toFixed(2)).toBe('0.00');
+    });
+
+    it('should summarise lines by HSN code and rate', async () => {
+      const breakdown = await taxService.calculate([
+        { productId: 'urea-45kg', quantity: 2, unitPrice: new Prisma.Decimal(250) },
+        { productId: 'urea-45kg', quantity: 1, unitPrice: new Prisma.Decimal(250) },
+        { productId: 'chlorpyrifos-1l', quantity: 1, unitPrice: new Prisma.Decimal(400) },
+      ], 'MH');
+
+      expect(breakdown.hsnSummary.map(group => group.hsnCode)).toEqual(['3102', '3808']);
+      expect(breakdown.hsnSummary[0].taxableValue.toFixed(2)).toBe('750.00');
+      expect(breakdown.hsnSummary[0].igst.toFixed(2)).toBe('37.50');
+      expect(breakdown.hsnSummary[1].taxTotal.toFixed(2)).toBe('72.00');
+    });
+
+    it('should reject an unknown place of supply', async () => {
+      await expect(taxService.calculate([
+        { productId: 'urea-45kg', quantity: 1, unitPrice: new Prisma.Decimal(250) },
+      ], 'Atlantis')).rejects.toThrow(BadRequestException);
+    });
+  });
+});
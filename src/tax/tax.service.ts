@@ -0,0 +1,361 @@
+import { Injectable, Logger, NotFoundException, BadRequestException, InternalServerErrorException } from '@nestjs/common';
+import { Prisma, TaxClass } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ConfigService } from '../config/config.service';
+import { CreateTaxClassDto } from './dto/create-tax-class.dto';
+import { UpdateTaxClassDto } from './dto/update-tax-class.dto';
+import { GstState, resolveGstState } from './gst-states';
+
+export type SupplyType = 'INTRA_STATE' | 'INTER_STATE';
+
+/**
+ * A priced line to compute tax for
+ */
+export interface TaxLineInput {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+  unitPrice: Prisma.Decimal;
+  discount?: Prisma.Decimal;
+}
+
+export interface TaxLineResult {
+  productId: string;
+  variantId: string | null;
+  quantity: number;
+  hsnCode: string | null;
+  gstRate: Prisma.Decimal;
+  grossAmount: Prisma.Decimal;
+  discount: Prisma.Decimal;
+  taxableValue: Prisma.Decimal;
+  cgst: Prisma.Decimal;
+  sgst: Prisma.Decimal;
+  igst: Prisma.Decimal;
+  taxAmount: Prisma.Decimal;
+  total: Prisma.Decimal;
+}
+
+export interface TaxTotals {
+  taxableValue: Prisma.Decimal;
+  cgst: Prisma.Decimal;
+  sgst: Prisma.Decimal;
+  igst: Prisma.Decimal;
+  taxTotal: Prisma.Decimal;
+  grandTotal: Prisma.Decimal;
+}
+
+export interface TaxBreakdown {
+  supplyType: SupplyType;
+  sellerState: GstState;
+  placeOfSupply: GstState;
+  /** Whether the intra-state component is UTGST rather than SGST */
+  usesUtgst: boolean;
+  pricesIncludeTax: boolean;
+  lines: TaxLineResult[];
+  hsnSummary: Array<Omit<TaxTotals, 'grandTotal'> & { hsnCode: string | null; gstRate: Prisma.Decimal }>;
+  totals: TaxTotals;
+}
+
+const ZERO = new Prisma.Decimal(0);
+
+@Injectable()
+export class TaxService {
+  private readonly logger = new Logger(TaxService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Create a tax class
+   */
+  async createClass(createTaxClassDto: CreateTaxClassDto) {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        if (createTaxClassDto.isDefault) {
+          await tx.taxClass.updateMany({
+            where: { isDefault: true },
+            data: { isDefault: false },
+          });
+        }
+
+        return tx.taxClass.create({
+          data: createTaxClassDto,
+        });
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new BadRequestException(`Tax class '${createTaxClassDto.name}' already exists`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get all tax classes
+   */
+  async findAllClasses() {
+    return this.prisma.taxClass.findMany({
+      orderBy: [{ gstRate: 'asc' }, { name: 'asc' }],
+      include: {
+        _count: {
+          select: {
+            products: true,
+            variants: true,
+          },
+        },
+      },
+    });
+  }
+
+  /**
+   * Get a tax class by ID
+   */
+  async findClass(id: string) {
+    const taxClass = await this.prisma.taxClass.findUnique({
+      where: { id },
+    });
+
+    if (!taxClass) {
+      throw new NotFoundException(`Tax class with ID ${id} not found`);
+    }
+
+    return taxClass;
+  }
+
+  /**
+   * Update a tax class
+   */
+  async updateClass(id: string, updateTaxClassDto: UpdateTaxClassDto) {
+    await this.findClass(id);
+
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        if (updateTaxClassDto.isDefault) {
+          await tx.taxClass.updateMany({
+            where: { isDefault: true, id: { not: id } },
+            data: { isDefault: false },
+          });
+        }
+
+        return tx.taxClass.update({
+          where: { id },
+          data: updateTaxClassDto,
+        });
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new BadRequestException(`Tax class '${updateTaxClassDto.name}' already exists`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a tax class; products using it fall back to the default class
+   */
+  async removeClass(id: string) {
+    await this.findClass(id);
+
+    return this.prisma.taxClass.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Compute GST for a set of lines shipped to a destination state
+   */
+  async calculate(
+    lines: TaxLineInput[],
+    destinationState: string,
+    tx?: Prisma.TransactionClient,
+  ): Promise<TaxBreakdown> {
+    const client = tx ?? this.prisma;
+
+    const sellerState = await this.getSellerState();
+    const placeOfSupply = resolveGstState(destinationState);
+
+    if (!placeOfSupply) {
+      throw new BadRequestException(`Unknown state '${destinationState}'`);
+    }
+
+    const pricesIncludeTax = await this.pricesIncludeTax();
+    const supplyType: SupplyType = sellerState.code === placeOfSupply.code ? 'INTRA_STATE' : 'INTER_STATE';
+
+    // Load tax data for every product and variant in the lines
+    const productIds = [...new Set(lines.map(line => line.productId))];
+    const variantIds = [...new Set(lines.map(line => line.variantId).filter((id): id is string => !!id))];
+
+    const [products, variants, defaultClass] = await Promise.all([
+      client.product.findMany({
+        where: { id: { in: productIds } },
+        select: { id: true, hsnCode: true, taxClass: true },
+      }),
+      client.productVariant.findMany({
+        where: { id: { in: variantIds } },
+        select: { id: true, hsnCode: true, taxClass: true },
+      }),
+      client.taxClass.findFirst({
+        where: { isDefault: true },
+      }),
+    ]);
+
+    const results = lines.map(line => {
+      const product = products.find(p => p.id === line.productId);
+      const variant = line.variantId ? variants.find(v => v.id === line.variantId) : undefined;
+
+      if (!product) {
+        throw new BadRequestException(`Product with ID ${line.productId} not found`);
+      }
+
+      const taxClass: TaxClass | null = variant?.taxClass ?? product.taxClass ?? defaultClass;
+      const hsnCode = variant?.hsnCode ?? product.hsnCode ?? null;
+
+      return this.calculateLine(line, taxClass?.gstRate ?? ZERO, hsnCode, supplyType, pricesIncludeTax);
+    });
+
+    return {
+      supplyType,
+      sellerState,
+      placeOfSupply,
+      usesUtgst: supplyType === 'INTRA_STATE' && placeOfSupply.utgst,
+      pricesIncludeTax,
+      lines: results,
+      hsnSummary: this.summariseByHsn(results),
+      totals: this.sumTotals(results),
+    };
+  }
+
+  /**
+   * Compute tax for a single line
+   */
+  private calculateLine(
+    line: TaxLineInput,
+    gstRate: Prisma.Decimal,
+    hsnCode: string | null,
+    supplyType: SupplyType,
+    pricesIncludeTax: boolean,
+  ): TaxLineResult {
+    const grossAmount = line.unitPrice.mul(line.quantity);
+    const discount = Prisma.Decimal.min(line.discount ?? ZERO, grossAmount);
+    const netAmount = grossAmount.minus(discount);
+
+    let taxableValue: Prisma.Decimal;
+    let taxAmount: Prisma.Decimal;
+
+    if (pricesIncludeTax) {
+      // Back the tax out of a tax-inclusive amount
+      taxableValue = netAmount.mul(100).div(gstRate.plus(100)).toDecimalPlaces(2);
+      taxAmount = netAmount.minus(taxableValue);
+    } else {
+      taxableValue = netAmount.toDecimalPlaces(2);
+      taxAmount = taxableValue.mul(gstRate).div(100).toDecimalPlaces(2);
+    }
+
+    let cgst = ZERO;
+    let sgst = ZERO;
+    let igst = ZERO;
+
+    if (supplyType === 'INTRA_STATE') {
+      // Split equally between the central and state (or UT) components
+      cgst = taxAmount.div(2).toDecimalPlaces(2);
+      sgst = taxAmount.minus(cgst);
+    } else {
+      igst = taxAmount;
+    }
+
+    return {
+      productId: line.productId,
+      variantId: line.variantId ?? null,
+      quantity: line.quantity,
+      hsnCode,
+      gstRate,
+      grossAmount,
+      discount,
+      taxableValue,
+      cgst,
+      sgst,
+      igst,
+      taxAmount,
+      total: taxableValue.plus(taxAmount),
+    };
+  }
+
+  /**
+   * Group line results by HSN code and rate, as required on GST invoices
+   */
+  private summariseByHsn(lines: TaxLineResult[]): TaxBreakdown['hsnSummary'] {
+    const groups = new Map<string, TaxBreakdown['hsnSummary'][number]>();
+
+    for (const line of lines) {
+      const key = `${line.hsnCode ?? ''}|${line.gstRate.toString()}`;
+      const group = groups.get(key) ?? {
+        hsnCode: line.hsnCode,
+        gstRate: line.gstRate,
+        taxableValue: ZERO,
+        cgst: ZERO,
+        sgst: ZERO,
+        igst: ZERO,
+        taxTotal: ZERO,
+      };
+
+      group.taxableValue = group.taxableValue.plus(line.taxableValue);
+      group.cgst = group.cgst.plus(line.cgst);
+      group.sgst = group.sgst.plus(line.sgst);
+      group.igst = group.igst.plus(line.igst);
+      group.taxTotal = group.taxTotal.plus(line.taxAmount);
+
+      groups.set(key, group);
+    }
+
+    return [...groups.values()];
+  }
+
+  /**
+   * Sum line results into order-level totals
+   */
+  private sumTotals(lines: TaxLineResult[]): TaxTotals {
+    return lines.reduce(
+      (totals, line) => ({
+        taxableValue: totals.taxableValue.plus(line.taxableValue),
+        cgst: totals.cgst.plus(line.cgst),
+        sgst: totals.sgst.plus(line.sgst),
+        igst: totals.igst.plus(line.igst),
+        taxTotal: totals.taxTotal.plus(line.taxAmount),
+        grandTotal: totals.grandTotal.plus(line.total),
+      }),
+      {
+        taxableValue: ZERO,
+        cgst: ZERO,
+        sgst: ZERO,
+        igst: ZERO,
+        taxTotal: ZERO,
+        grandTotal: ZERO,
+      },
+    );
+  }
+
+  /**
+   * Resolve the seller's GST state from configuration
+   */
+  async getSellerState(): Promise<GstState> {
+    const configured = await this.configService.get<string>('TAX_SELLER_STATE');
+    const state = resolveGstState(configured);
+
+    if (!state) {
+      this.logger.error(`TAX_SELLER_STATE is not configured or invalid: ${configured}`);
+      throw new InternalServerErrorException('Seller state for tax calculation is not configured');
+    }
+
+    return state;
+  }
+
+  /**
+   * Whether catalog prices already include GST
+   */
+  private async pricesIncludeTax(): Promise<boolean> {
+    const value = await this.configService.get<boolean | string>('TAX_PRICES_INCLUDE_TAX', false);
+    return value === true || value === 'true';
+  }
+}
@@ -0,0 +1,90 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsBoolean,
+  IsNumber,
+  Matches,
+  Min,
+  Max,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { PINCODE_PATTERN } from '../../shipping/dto/create-shipping-zone.dto';
+import { GSTIN_PATTERN } from '../../order/dto/order-address.dto';
+
+export class CreateAddressDto {
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  label?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  fullName: string;
+
+  @IsString()
+  @IsNotEmpty()
+  phone: string;
+
+  @IsString()
+  @IsOptional()
+  line1?: string;
+
+  @IsString()
+  @IsOptional()
+  line2?: string;
+
+  /** Nearby point of reference used by delivery partners, e.g. "behind the panchayat office" */
+  @IsString()
+  @IsOptional()
+  landmark?: string;
+
+  @IsString()
+  @IsOptional()
+  village?: string;
+
+  @IsString()
+  @IsOptional()
+  taluk?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  district: string;
+
+  /** State name, abbreviation or GST state code */
+  @IsString()
+  @IsNotEmpty()
+  state: string;
+
+  @IsString()
+  @Matches(PINCODE_PATTERN, { message: 'pincode must be a valid 6-digit pincode' })
+  pincode: string;
+
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  @IsOptional()
+  latitude?: number;
+
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  @IsOptional()
+  longitude?: number;
+
+  @IsString()
+  @IsOptional()
+  @Matches(GSTIN_PATTERN, { message: 'gstin must be a valid 15-character GSTIN' })
+  gstin?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  isDefaultShipping?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  isDefaultBilling?: boolean;
+}
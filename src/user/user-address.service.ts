@@ -0,0 +1,247 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Address, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { resolveGstState } from '../tax/gst-states';
+import { PINCODE_PATTERN } from '../shipping/dto/create-shipping-zone.dto';
+import { OrderAddressDto } from '../order/dto/order-address.dto';
+import { CreateAddressDto } from './dto/create-address.dto';
+import { UpdateAddressDto } from './dto/update-address.dto';
+
+export type AddressType = 'shipping' | 'billing';
+
+@Injectable()
+export class UserAddressService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Get a user's address book, defaults first
+   */
+  async findAll(userId: string) {
+    return this.prisma.address.findMany({
+      where: { userId },
+      orderBy: [
+        { isDefaultShipping: 'desc' },
+        { isDefaultBilling: 'desc' },
+        { createdAt: 'desc' },
+      ],
+    });
+  }
+
+  /**
+   * Get one of a user's addresses
+   */
+  async findOne(userId: string, id: string) {
+    const address = await this.prisma.address.findFirst({
+      where: { id, userId },
+    });
+
+    if (!address) {
+      throw new NotFoundException(`Address with ID ${id} not found`);
+    }
+
+    return address;
+  }
+
+  /**
+   * Get the user's default address of a type
+   */
+  async findDefault(userId: string, type: AddressType) {
+    return this.prisma.address.findFirst({
+      where: {
+        userId,
+        ...(type === 'shipping' ? { isDefaultShipping: true } : { isDefaultBilling: true }),
+      },
+    });
+  }
+
+  /**
+   * Add an address; the first address becomes the default for shipping and billing
+   */
+  async create(userId: string, createAddressDto: CreateAddressDto) {
+    const data = this.normalize(createAddressDto);
+    this.validateCoordinates(data.latitude, data.longitude);
+
+    return this.prisma.$transaction(async (tx) => {
+      const count = await tx.address.count({ where: { userId } });
+      const isDefaultShipping = count === 0 || !!data.isDefaultShipping;
+      const isDefaultBilling = count === 0 || !!data.isDefaultBilling;
+
+      await this.clearDefaults(tx, userId, isDefaultShipping, isDefaultBilling);
+
+      return tx.address.create({
+        data: {
+          ...data,
+          userId,
+          isDefaultShipping,
+          isDefaultBilling,
+        },
+      });
+    });
+  }
+
+  /**
+   * Update an address
+   */
+  async update(userId: string, id: string, updateAddressDto: UpdateAddressDto) {
+    const existing = await this.findOne(userId, id);
+    const data = this.normalize(updateAddressDto);
+
+    this.validateCoordinates(
+      data.latitude !== undefined ? data.latitude : existing.latitude,
+      data.longitude !== undefined ? data.longitude : existing.longitude,
+    );
+
+    return this.prisma.$transaction(async (tx) => {
+      await this.clearDefaults(tx, userId, !!data.isDefaultShipping, !!data.isDefaultBilling, id);
+
+      return tx.address.update({
+        where: { id },
+        data,
+      });
+    });
+  }
+
+  /**
+   * Delete an address, handing its default flags to the most recent remaining address
+   */
+  async remove(userId: string, id: string) {
+    const address = await this.findOne(userId, id);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.address.delete({ where: { id } });
+
+      if (!address.isDefaultShipping && !address.isDefaultBilling) {
+        return;
+      }
+
+      const replacement = await tx.address.findFirst({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      if (replacement) {
+        await tx.address.update({
+          where: { id: replacement.id },
+          data: {
+            ...(address.isDefaultShipping && { isDefaultShipping: true }),
+            ...(address.isDefaultBilling && { isDefaultBilling: true }),
+          },
+        });
+      }
+    });
+  }
+
+  /**
+   * Make an address the default for shipping, billing or both
+   */
+  async setDefault(userId: string, id: string, types: AddressType[]) {
+    if (types.length === 0 || types.some(type => type !== 'shipping' && type !== 'billing')) {
+      throw new BadRequestException("type must be 'shipping', 'billing' or both");
+    }
+
+    return this.update(userId, id, {
+      ...(types.includes('shipping') && { isDefaultShipping: true }),
+      ...(types.includes('billing') && { isDefaultBilling: true }),
+    });
+  }
+
+  /**
+   * Snapshot an address in the shape stored on orders
+   */
+  toOrderAddress(address: Address): OrderAddressDto {
+    return {
+      fullName: address.fullName,
+      phone: address.phone,
+      line1: address.line1 || [address.village, address.landmark].filter(Boolean).join(', ') || address.district,
+      line2: address.line2 ?? undefined,
+      landmark: address.landmark ?? undefined,
+      village: address.village ?? undefined,
+      taluk: address.taluk ?? undefined,
+      district: address.district,
+      city: address.village || address.taluk || address.district,
+      state: address.state,
+      postalCode: address.pincode,
+      country: address.country,
+      latitude: address.latitude ?? undefined,
+      longitude: address.longitude ?? undefined,
+      gstin: address.gstin ?? undefined,
+    };
+  }
+
+  /**
+   * Trim input, check the pincode and store the state under its canonical name
+   */
+  private normalize<T extends UpdateAddressDto>(dto: T): T {
+    const data = { ...dto };
+
+    for (const key of Object.keys(data) as Array<keyof T>) {
+      if (typeof data[key] === 'string') {
+        (data as any)[key] = (data[key] as string).trim();
+      }
+    }
+
+    if (data.pincode !== undefined && !PINCODE_PATTERN.test(data.pincode)) {
+      throw new BadRequestException('pincode must be a valid 6-digit pincode');
+    }
+
+    if (data.state !== undefined) {
+      const state = resolveGstState(data.state);
+
+      if (!state) {
+        throw new BadRequestException(`Unknown state '${data.state}'`);
+      }
+
+      data.state = state.name;
+    }
+
+    if (data.gstin) {
+      data.gstin = data.gstin.toUpperCase();
+    }
+
+    return data;
+  }
+
+  /**
+   * Coordinates are optional but must be given as a pair
+   */
+  private validateCoordinates(latitude?: number | null, longitude?: number | null) {
+    if ((latitude == null) !== (longitude == null)) {
+      throw new BadRequestException('latitude and longitude must be provided together');
+    }
+
+    if (latitude != null && (latitude < -90 || latitude > 90)) {
+      throw new BadRequestException('latitude must be between -90 and 90');
+    }
+
+    if (longitude != null && (longitude < -180 || longitude > 180)) {
+      throw new BadRequestException('longitude must be between -180 and 180');
+    }
+  }
+
+  /**
+   * Unset existing defaults before another address takes them over
+   */
+  private async clearDefaults(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    shipping: boolean,
+    billing: boolean,
+    exceptId?: string,
+  ) {
+    const except = exceptId ? { id: { not: exceptId } } : {};
+
+    if (shipping) {
+      await tx.address.updateMany({
+        where: { userId, isDefaultShipping: true, ...except },
+        data: { isDefaultShipping: false },
+      });
+    }
+
+    if (billing) {
+      await tx.address.updateMany({
+        where: { userId, isDefaultBilling: true, ...except },
+        data: { isDefaultBilling: false },
+      });
+    }
+  }
+}
@@ -25,6 +25,9 @@ import { Request } from 'express';
 import * as bcrypt from 'bcrypt';
 import { PermissionService } from '../permission/permission.service';
 import { CacheService } from '../cache/cache.service';
+import { UserAddressService } from './user-address.service';
+import { CreateAddressDto } from './dto/create-address.dto';
+import { UpdateAddressDto } from './dto/update-address.dto';
 
 // Define request user interface to match JWT payload
 interface RequestWithUser extends Request {
@@ -99,6 +102,7 @@ export class UserController {
     private readonly prisma: PrismaService,
     private readonly permissionService: PermissionService,
     private readonly cacheService: CacheService,
+    private readonly addressService: UserAddressService,
   ) {}
 
   // Get current user profile
@@ -182,6 +186,66 @@ export class UserController {
     };
   }
 
+  // Get current user's saved addresses
+  @Get('profile/addresses')
+  @UseGuards(JwtAuthGuard)
+  async getAddresses(@Req() req: RequestWithUser) {
+    return this.addressService.findAll(req.user.sub);
+  }
+
+  // Add an address to current user's address book
+  @Post('profile/addresses')
+  @UseGuards(JwtAuthGuard)
+  async createAddress(
+    @Req() req: RequestWithUser,
+    @Body() createAddressDto: CreateAddressDto,
+  ) {
+    return this.addressService.create(req.user.sub, createAddressDto);
+  }
+
+  // Get one of current user's addresses
+  @Get('profile/addresses/:addressId')
+  @UseGuards(JwtAuthGuard)
+  async getAddress(
+    @Req() req: RequestWithUser,
+    @Param('addressId') addressId: string,
+  ) {
+    return this.addressService.findOne(req.user.sub, addressId);
+  }
+
+  // Update one of current user's addresses
+  @Put('profile/addresses/:addressId')
+  @UseGuards(JwtAuthGuard)
+  async updateAddress(
+    @Req() req: RequestWithUser,
+    @Param('addressId') addressId: string,
+    @Body() updateAddressDto: UpdateAddressDto,
+  ) {
+    return this.addressService.update(req.user.sub, addressId, updateAddressDto);
+  }
+
+  // Make an address the default for shipping and/or billing
+  @Put('profile/addresses/:addressId/default')
+  @UseGuards(JwtAuthGuard)
+  async setDefaultAddress(
+    @Req() req: RequestWithUser,
+    @Param('addressId') addressId: string,
+    @Body() body: { types?: ('shipping' | 'billing')[] },
+  ) {
+    return this.addressService.setDefault(req.user.sub, addressId, body.types ?? ['shipping', 'billing']);
+  }
+
+  // Delete one of current user's addresses
+  @Delete('profile/addresses/:addressId')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteAddress(
+    @Req() req: RequestWithUser,
+    @Param('addressId') addressId: string,
+  ): Promise<void> {
+    await this.addressService.remove(req.user.sub, addressId);
+  }
+
   // Get current user permissions
   @Get('permissions')
   @UseGuards(JwtAuthGuard)
@@ -1,5 +1,6 @@
 import { Module } from '@nestjs/common';
 import { UserService } from './user.service';
+import { UserAddressService } from './user-address.service';
 import { UserController } from './user.controller';
 import { PrismaModule } from '../prisma/prisma.module';
 import { RoleModule } from '../role/role.module';
@@ -9,7 +10,7 @@ import { CacheModule } from '../cache/cache.module';
 @Module({
   imports: [PrismaModule, RoleModule, PermissionModule, CacheModule],
   controllers: [UserController],
-  providers: [UserService],
-  exports: [UserService],
+  providers: [UserService, UserAddressService],
+  exports: [UserService, UserAddressService],
 })
 export class UserModule {} 
\ No newline at end of file
@@ -0,0 +1,79 @@
+/**
+ * Parses RFC 4180 CSV text into rows of cells
+ * @param text The CSV content; a leading byte order mark is ignored
+ * @param delimiter The cell separator, a comma by default
+ * @returns One array of raw cell strings per record, with fully empty lines dropped
+ */
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char === '\r') {
+      if (input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Formats one CSV record, quoting cells that contain delimiters, quotes or line breaks
+ * @param cells The values to write; null and undefined become empty cells
+ * @returns The record without a trailing line break
+ */
+export function toCsvRow(cells: Array<string | number | boolean | null | undefined>, delimiter = ','): string {
+  return cells
+    .map(cell => {
+      const value = cell === null || cell === undefined ? '' : String(cell);
+      return /[",\r\n]/.test(value) || value.includes(delimiter)
+        ? `"${value.replace(/"/g, '""')}"`
+        : value;
+    })
+    .join(delimiter);
+}
@@ -0,0 +1,60 @@
+/**
+ * File extension used when storing each supported MIME type
+ */
+export const MIME_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'image/avif': '.avif',
+  'video/mp4': '.mp4',
+  'video/webm': '.webm',
+  'application/pdf': '.pdf',
+  'model/gltf-binary': '.glb',
+};
+
+/**
+ * Detect a file's MIME type from its leading bytes rather than trusting the
+ * client-supplied name or Content-Type
+ * @param buffer The file contents, or at least its first 32 bytes
+ * @returns The detected type, or null when the format is not recognised
+ */
+export function sniffMimeType(buffer: Buffer): string | null {
+  const ascii = (start: number, end: number) => buffer.subarray(start, end).toString('latin1');
+
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') {
+    return 'image/gif';
+  }
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  if (ascii(4, 8) === 'ftyp') {
+    const brand = ascii(8, 12);
+    return brand === 'avif' || brand === 'avis' ? 'image/avif' : 'video/mp4';
+  }
+  if (buffer.length >= 4 && buffer.readUInt32BE(0) === 0x1a45dfa3) {
+    return 'video/webm';
+  }
+  if (ascii(0, 5) === '%PDF-') {
+    return 'application/pdf';
+  }
+  if (ascii(0, 4) === 'glTF') {
+    return 'model/gltf-binary';
+  }
+
+  return null;
+}
+
+/**
+ * Look up the MIME type of a stored file from its extension
+ */
+export function mimeTypeFromKey(key: string): string | undefined {
+  const extension = key.slice(key.lastIndexOf('.')).toLowerCase();
+  return Object.keys(MIME_EXTENSIONS).find(type => MIME_EXTENSIONS[type] === extension);
+}
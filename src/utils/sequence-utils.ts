@@ -0,0 +1,67 @@
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+
+/**
+ * Builds the prefix of a number sequence that restarts every day
+ * @param code The document code, e.g. "ORD"
+ * @param now The day to number for, in local time
+ * @returns The code followed by the date as YYMMDD, e.g. "ORD-250301-"
+ */
+export function dailySequencePrefix(code: string, now = new Date()): string {
+  const date = [now.getFullYear() % 100, now.getMonth() + 1, now.getDate()]
+    .map(part => String(part).padStart(2, '0'))
+    .join('');
+
+  return `${code}-${date}-`;
+}
+
+/**
+ * Continues a sequence from its highest number
+ * @param prefix The sequence prefix from dailySequencePrefix
+ * @param last The highest number issued with this prefix so far, if any
+ * @returns The next number, with the sequence padded to four digits
+ */
+export function nextSequenceNumber(prefix: string, last?: string | null): string {
+  const previous = last ? parseInt(last.slice(prefix.length), 10) || 0 : 0;
+
+  return `${prefix}${String(previous + 1).padStart(4, '0')}`;
+}
+
+/**
+ * Runs a transaction that issues a sequence number. A concurrent transaction
+ * can take the same number and trip the unique constraint; the whole
+ * transaction is then rolled back, so it is run again with the next number
+ * @param run Runs the transaction
+ * @param field The unique column holding the number
+ * @param label What is being numbered, for the error when every attempt clashes
+ * @param attempts How many times to run the transaction
+ * @returns The transaction's result
+ */
+export async function retryOnSequenceClash<T>(
+  run: () => Promise<T>,
+  field: string,
+  label: string,
+  attempts = 3,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      const target = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002'
+        ? error.meta?.target
+        : undefined;
+      // The target is the list of columns, or the constraint name on some databases
+      const clash = Array.isArray(target)
+        ? target.includes(field)
+        : typeof target === 'string' && target.includes(field);
+
+      if (!clash) {
+        throw error;
+      }
+
+      if (attempt >= attempts) {
+        throw new BadRequestException(`Could not allocate ${label}, please retry`);
+      }
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import {
+  IsString,
+  IsOptional,
+  IsNotEmpty,
+  IsArray,
+  IsInt,
+  Min,
+  ArrayMinSize,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class StockTransferItemDto {
+  @IsString()
+  @IsOptional()
+  productId?: string;
+
+  @IsString()
+  @IsOptional()
+  variantId?: string;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  quantity: number;
+
+  /** Move one lot; otherwise lots are moved first expiry first */
+  @IsString()
+  @IsOptional()
+  lotId?: string;
+}
+
+export class CreateStockTransferDto {
+  @IsString()
+  @IsNotEmpty()
+  fromWarehouseId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  toWarehouseId: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => StockTransferItemDto)
+  items: StockTransferItemDto[];
+
+  @IsString()
+  @IsOptional()
+  note?: string;
+}
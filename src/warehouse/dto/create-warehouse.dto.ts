@@ -0,0 +1,55 @@
+import {
+  IsString,
+  IsOptional,
+  IsNotEmpty,
+  IsBoolean,
+  IsInt,
+  Matches,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { PINCODE_PATTERN } from '../../shipping/dto/create-shipping-zone.dto';
+
+export class CreateWarehouseDto {
+  /** Short unique code such as BLR-01 */
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsString()
+  @IsOptional()
+  addressLine?: string;
+
+  @IsString()
+  @IsOptional()
+  city?: string;
+
+  @IsString()
+  @IsOptional()
+  district?: string;
+
+  @IsString()
+  @IsOptional()
+  state?: string;
+
+  /** Used to find the warehouse nearest to a delivery pincode */
+  @IsString()
+  @Matches(PINCODE_PATTERN, { message: 'postalCode must be a valid 6-digit pincode' })
+  postalCode: string;
+
+  @IsString()
+  @IsOptional()
+  phone?: string;
+
+  @Type(() => Number)
+  @IsInt()
+  @IsOptional()
+  priority?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
@@ -0,0 +1,33 @@
+import {
+  IsString,
+  IsOptional,
+  IsInt,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class SetWarehouseStockDto {
+  /** Product without variants; use variantId for variants */
+  @IsString()
+  @IsOptional()
+  productId?: string;
+
+  @IsString()
+  @IsOptional()
+  variantId?: string;
+
+  /** Quantity available to sell at this warehouse */
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  quantity: number;
+
+  @IsString()
+  @IsOptional()
+  binLocation?: string;
+
+  /** Why the stock changed, kept in the stock ledger */
+  @IsString()
+  @IsOptional()
+  reason?: string;
+}
@@ -0,0 +1,28 @@
+import {
+  IsOptional,
+  IsNumber,
+  IsString,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class StockTransferQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  limit?: number = 10;
+
+  /** Transfers into or out of this warehouse */
+  @IsOptional()
+  @IsString()
+  warehouseId?: string;
+}
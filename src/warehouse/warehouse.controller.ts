@@ -0,0 +1,91 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { WarehouseService } from './warehouse.service';
+import { CreateWarehouseDto } from './dto/create-warehouse.dto';
+import { UpdateWarehouseDto } from './dto/update-warehouse.dto';
+import { SetWarehouseStockDto } from './dto/set-warehouse-stock.dto';
+import { CreateStockTransferDto } from './dto/create-stock-transfer.dto';
+import { StockTransferQueryDto } from './dto/stock-transfer-query.dto';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@Controller('warehouses')
+export class WarehouseController {
+  constructor(private readonly warehouseService: WarehouseService) {}
+
+  @Get()
+  @RequirePermissions({ resource: 'inventory', action: 'read' })
+  async findAll() {
+    return this.warehouseService.findAll();
+  }
+
+  @Post()
+  @RequirePermissions({ resource: 'inventory', action: 'create' })
+  async create(@Body() createWarehouseDto: CreateWarehouseDto) {
+    return this.warehouseService.create(createWarehouseDto);
+  }
+
+  @Get('transfers')
+  @RequirePermissions({ resource: 'inventory', action: 'read' })
+  async findTransfers(@Query() query: StockTransferQueryDto) {
+    return this.warehouseService.findTransfers(query);
+  }
+
+  @Post('transfers')
+  @RequirePermissions({ resource: 'inventory', action: 'update' })
+  async transfer(
+    @Body() createTransferDto: CreateStockTransferDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.warehouseService.transfer(createTransferDto, user?.sub);
+  }
+
+  @Get(':id')
+  @RequirePermissions({ resource: 'inventory', action: 'read' })
+  async findOne(@Param('id') id: string) {
+    return this.warehouseService.findOne(id);
+  }
+
+  @Patch(':id')
+  @RequirePermissions({ resource: 'inventory', action: 'update' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateWarehouseDto: UpdateWarehouseDto,
+  ) {
+    return this.warehouseService.update(id, updateWarehouseDto);
+  }
+
+  @Delete(':id')
+  @RequirePermissions({ resource: 'inventory', action: 'delete' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@Param('id') id: string) {
+    await this.warehouseService.remove(id);
+  }
+
+  @Get(':id/stock')
+  @RequirePermissions({ resource: 'inventory', action: 'read' })
+  async getStock(@Param('id') id: string) {
+    return this.warehouseService.getStock(id);
+  }
+
+  @Put(':id/stock')
+  @RequirePermissions({ resource: 'inventory', action: 'update' })
+  async setStock(
+    @Param('id') id: string,
+    @Body() setStockDto: SetWarehouseStockDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.warehouseService.setStock(id, setStockDto, user?.sub);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { WarehouseService } from './warehouse.service';
+import { WarehouseController } from './warehouse.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { ProductModule } from '../product/product.module';
+
+@Module({
+  imports: [PrismaModule, ProductModule],
+  controllers: [WarehouseController],
+  providers: [WarehouseService],
+  exports: [WarehouseService],
+})
+export class WarehouseModule {}
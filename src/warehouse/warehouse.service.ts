@@ -0,0 +1,468 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Prisma, ProductType, StockMovementType } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ProductInventoryService } from '../product/product-inventory.service';
+import { ProductStockLedgerService, StockMovementEntry } from '../product/product-stock-ledger.service';
+import { ProductLotService } from '../product/product-lot.service';
+import { PINCODE_PATTERN } from '../shipping/dto/create-shipping-zone.dto';
+import { CreateWarehouseDto } from './dto/create-warehouse.dto';
+import { UpdateWarehouseDto } from './dto/update-warehouse.dto';
+import { SetWarehouseStockDto } from './dto/set-warehouse-stock.dto';
+import { CreateStockTransferDto } from './dto/create-stock-transfer.dto';
+import { StockTransferQueryDto } from './dto/stock-transfer-query.dto';
+
+const stockItemInclude = {
+  inventory: {
+    select: {
+      id: true,
+      product: { select: { id: true, name: true, sku: true } },
+      variant: { select: { id: true, name: true, sku: true, product: { select: { id: true, name: true } } } },
+    },
+  },
+} satisfies Prisma.WarehouseStockInclude;
+
+const transferInclude = {
+  fromWarehouse: { select: { id: true, code: true, name: true } },
+  toWarehouse: { select: { id: true, code: true, name: true } },
+  items: {
+    include: {
+      inventory: {
+        select: {
+          productId: true,
+          variantId: true,
+          product: { select: { name: true, sku: true } },
+          variant: { select: { name: true, sku: true } },
+        },
+      },
+    },
+  },
+} satisfies Prisma.StockTransferInclude;
+
+@Injectable()
+export class WarehouseService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly inventoryService: ProductInventoryService,
+    private readonly ledgerService: ProductStockLedgerService,
+    private readonly lotService: ProductLotService,
+  ) {}
+
+  /**
+   * Create a warehouse
+   */
+  async create(createWarehouseDto: CreateWarehouseDto) {
+    this.validatePostalCode(createWarehouseDto.postalCode);
+
+    try {
+      return await this.prisma.warehouse.create({
+        data: {
+          ...createWarehouseDto,
+          code: createWarehouseDto.code.trim().toUpperCase(),
+        },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new BadRequestException(`Warehouse '${createWarehouseDto.code}' already exists`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get all warehouses with their stock totals
+   */
+  async findAll() {
+    const warehouses = await this.prisma.warehouse.findMany({
+      orderBy: [{ priority: 'desc' }, { name: 'asc' }],
+    });
+    const totals = await this.prisma.warehouseStock.groupBy({
+      by: ['warehouseId'],
+      _sum: { quantity: true, reservedQuantity: true },
+      _count: true,
+    });
+    const totalsById = new Map(totals.map(total => [total.warehouseId, total]));
+
+    return warehouses.map(warehouse => {
+      const total = totalsById.get(warehouse.id);
+      return {
+        ...warehouse,
+        items: total?._count ?? 0,
+        quantity: total?._sum.quantity ?? 0,
+        reservedQuantity: total?._sum.reservedQuantity ?? 0,
+      };
+    });
+  }
+
+  /**
+   * Get a warehouse by ID
+   */
+  async findOne(id: string) {
+    const warehouse = await this.prisma.warehouse.findUnique({
+      where: { id },
+    });
+
+    if (!warehouse) {
+      throw new NotFoundException(`Warehouse with ID ${id} not found`);
+    }
+
+    return warehouse;
+  }
+
+  /**
+   * Update a warehouse
+   */
+  async update(id: string, updateWarehouseDto: UpdateWarehouseDto) {
+    await this.findOne(id);
+
+    if (updateWarehouseDto.postalCode !== undefined) {
+      this.validatePostalCode(updateWarehouseDto.postalCode);
+    }
+
+    try {
+      return await this.prisma.warehouse.update({
+        where: { id },
+        data: {
+          ...updateWarehouseDto,
+          code: updateWarehouseDto.code?.trim().toUpperCase(),
+        },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new BadRequestException(`Warehouse '${updateWarehouseDto.code}' already exists`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an empty warehouse. Warehouses with transfer history can only be deactivated
+   */
+  async remove(id: string) {
+    await this.findOne(id);
+
+    const [held, transfers] = await Promise.all([
+      this.prisma.warehouseStock.count({
+        where: { warehouseId: id, OR: [{ quantity: { gt: 0 } }, { reservedQuantity: { gt: 0 } }] },
+      }),
+      this.prisma.stockTransfer.count({
+        where: { OR: [{ fromWarehouseId: id }, { toWarehouseId: id }] },
+      }),
+    ]);
+
+    if (held > 0) {
+      throw new BadRequestException('Warehouse still holds stock. Please transfer it to another warehouse first.');
+    }
+
+    if (transfers > 0) {
+      throw new BadRequestException('Warehouse has transfer history. Please deactivate it instead.');
+    }
+
+    return this.prisma.warehouse.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Get the stock held at a warehouse
+   */
+  async getStock(id: string) {
+    const warehouse = await this.findOne(id);
+    const stocks = await this.prisma.warehouseStock.findMany({
+      where: { warehouseId: id },
+      include: stockItemInclude,
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    return {
+      warehouse,
+      items: stocks.map(stock => ({
+        id: stock.id,
+        inventoryId: stock.inventoryId,
+        productId: stock.inventory.product?.id ?? stock.inventory.variant?.product.id ?? null,
+        variantId: stock.inventory.variant?.id ?? null,
+        name: stock.inventory.variant
+          ? `${stock.inventory.variant.product.name} - ${stock.inventory.variant.name}`
+          : stock.inventory.product?.name ?? null,
+        sku: stock.inventory.variant?.sku ?? stock.inventory.product?.sku ?? null,
+        quantity: stock.quantity,
+        reservedQuantity: stock.reservedQuantity,
+        binLocation: stock.binLocation,
+        updatedAt: stock.updatedAt,
+      })),
+    };
+  }
+
+  /**
+   * Set the quantity of a product or variant available at a warehouse.
+   * The item's overall stock becomes the total over its warehouses
+   */
+  async setStock(id: string, setStockDto: SetWarehouseStockDto, userId?: string) {
+    await this.findOne(id);
+
+    if (!Number.isInteger(setStockDto.quantity) || setStockDto.quantity < 0) {
+      throw new BadRequestException('quantity must be a whole number of zero or more');
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const inventory = await this.resolveInventory(setStockDto, tx);
+      const stocked = await tx.warehouseStock.count({ where: { inventoryId: inventory.id } });
+      const previous = await tx.warehouseStock.findUnique({
+        where: { warehouseId_inventoryId: { warehouseId: id, inventoryId: inventory.id } },
+      });
+
+      // Lots held before the item was stocked in warehouses move into this one with the rest of its stock
+      if (stocked === 0) {
+        await tx.stockLot.updateMany({
+          where: { inventoryId: inventory.id, warehouseId: null },
+          data: { warehouseId: id },
+        });
+      }
+
+      const lotted = await tx.stockLot.aggregate({
+        where: { inventoryId: inventory.id, warehouseId: id },
+        _sum: { quantity: true },
+      });
+      if (setStockDto.quantity < (lotted._sum.quantity ?? 0)) {
+        throw new BadRequestException(
+          `${lotted._sum.quantity} units are held in lots here. Please write off lot stock with a movement instead.`,
+        );
+      }
+
+      const stock = await tx.warehouseStock.upsert({
+        where: { warehouseId_inventoryId: { warehouseId: id, inventoryId: inventory.id } },
+        update: {
+          quantity: setStockDto.quantity,
+          binLocation: setStockDto.binLocation,
+        },
+        create: {
+          warehouseId: id,
+          inventoryId: inventory.id,
+          quantity: setStockDto.quantity,
+          // Reservations made before the item was stocked in warehouses stay counted
+          reservedQuantity: stocked === 0 ? inventory.reservedQuantity : 0,
+          binLocation: setStockDto.binLocation,
+        },
+      });
+
+      const movement = { inventoryId: inventory.id, reason: setStockDto.reason, userId };
+      const entries: StockMovementEntry[] = [];
+      let opening = previous?.quantity ?? 0;
+
+      // Stock held before the item was stocked in warehouses moves into this one first
+      if (stocked === 0) {
+        entries.push(
+          { ...movement, type: StockMovementType.TRANSFER, quantity: -inventory.quantity, reservedQuantity: -inventory.reservedQuantity },
+          { ...movement, type: StockMovementType.TRANSFER, warehouseId: id, quantity: inventory.quantity, reservedQuantity: inventory.reservedQuantity },
+        );
+        opening = inventory.quantity;
+      }
+
+      entries.push({ ...movement, type: StockMovementType.ADJUSTMENT, warehouseId: id, quantity: setStockDto.quantity - opening });
+      await this.ledgerService.record(entries, tx);
+
+      const totals = await this.inventoryService.syncWarehouseTotals(inventory.id, tx);
+
+      return {
+        ...stock,
+        totalQuantity: totals.quantity,
+        totalReservedQuantity: totals.reservedQuantity,
+      };
+    });
+  }
+
+  /**
+   * Move available stock from one warehouse to another
+   */
+  async transfer(createTransferDto: CreateStockTransferDto, userId?: string) {
+    const { fromWarehouseId, toWarehouseId, items, note } = createTransferDto;
+
+    if (fromWarehouseId === toWarehouseId) {
+      throw new BadRequestException('Source and destination warehouses must be different');
+    }
+
+    if (!Array.isArray(items) || items.length === 0) {
+      throw new BadRequestException('At least one item is required');
+    }
+
+    const [source, destination] = await Promise.all([this.findOne(fromWarehouseId), this.findOne(toWarehouseId)]);
+
+    if (!destination.isActive) {
+      throw new BadRequestException(`Warehouse ${destination.code} is inactive`);
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const lines: { inventoryId: string; quantity: number }[] = [];
+      const entries: StockMovementEntry[] = [];
+
+      for (const item of items) {
+        if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+          throw new BadRequestException('Each item quantity must be a whole number of at least 1');
+        }
+
+        const inventory = await this.resolveInventory(item, tx, false);
+        if (lines.some(line => line.inventoryId === inventory.id)) {
+          throw new BadRequestException(`${item.variantId ?? item.productId} is listed more than once`);
+        }
+
+        const from = await tx.warehouseStock.findUnique({
+          where: { warehouseId_inventoryId: { warehouseId: fromWarehouseId, inventoryId: inventory.id } },
+        });
+
+        // Reserved stock belongs to orders and stays where it is
+        if (!from || from.quantity < item.quantity) {
+          throw new BadRequestException(
+            `Only ${from?.quantity ?? 0} of ${item.variantId ?? item.productId} available at ${source.code}`,
+          );
+        }
+
+        // Only take the stock while it is still there, in case an order reserved it meanwhile
+        const taken = await tx.warehouseStock.updateMany({
+          where: { id: from.id, quantity: { gte: item.quantity } },
+          data: { quantity: { decrement: item.quantity } },
+        });
+        if (taken.count === 0) {
+          throw new BadRequestException(
+            `Not enough of ${item.variantId ?? item.productId} available at ${source.code}`,
+          );
+        }
+
+        // So does stock in expired or blocked lots, unless the lot is named
+        const moves = await this.lotService.transfer(inventory.id, from, toWarehouseId, item.quantity, item.lotId, tx);
+        if (!moves) {
+          throw new BadRequestException(
+            item.lotId
+              ? `Lot ${item.lotId} holds less than ${item.quantity} at ${source.code}`
+              : `Not enough of ${item.variantId ?? item.productId} outside expired or blocked lots at ${source.code}`,
+          );
+        }
+
+        await tx.warehouseStock.upsert({
+          where: { warehouseId_inventoryId: { warehouseId: toWarehouseId, inventoryId: inventory.id } },
+          update: { quantity: { increment: item.quantity } },
+          create: { warehouseId: toWarehouseId, inventoryId: inventory.id, quantity: item.quantity },
+        });
+
+        lines.push({ inventoryId: inventory.id, quantity: item.quantity });
+        for (const move of moves) {
+          const movement = { inventoryId: inventory.id, type: StockMovementType.TRANSFER, reason: note, userId };
+          entries.push(
+            { ...movement, warehouseId: fromWarehouseId, lotId: move.fromLotId, quantity: -move.quantity },
+            { ...movement, warehouseId: toWarehouseId, lotId: move.toLotId, quantity: move.quantity },
+          );
+        }
+      }
+
+      const transfer = await tx.stockTransfer.create({
+        data: {
+          fromWarehouseId,
+          toWarehouseId,
+          note,
+          createdBy: userId,
+          items: { create: lines },
+        },
+        include: transferInclude,
+      });
+
+      await this.ledgerService.record(entries.map(entry => ({ ...entry, reference: transfer.id })), tx);
+
+      return transfer;
+    });
+  }
+
+  /**
+   * List stock transfers, newest first
+   */
+  async findTransfers(query: StockTransferQueryDto) {
+    const page = Number(query.page) || 1;
+    const limit = Math.min(Number(query.limit) || 10, 100);
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.StockTransferWhereInput = query.warehouseId
+      ? { OR: [{ fromWarehouseId: query.warehouseId }, { toWarehouseId: query.warehouseId }] }
+      : {};
+
+    const [transfers, total] = await Promise.all([
+      this.prisma.stockTransfer.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        include: transferInclude,
+      }),
+      this.prisma.stockTransfer.count({ where }),
+    ]);
+
+    return {
+      data: transfers,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Find the inventory record of a stockable product or variant, creating it when allowed
+   */
+  private async resolveInventory(
+    target: { productId?: string; variantId?: string },
+    tx: Prisma.TransactionClient,
+    create = true,
+  ) {
+    if (target.variantId) {
+      const variant = await tx.productVariant.findUnique({
+        where: { id: target.variantId },
+        include: { inventory: true },
+      });
+
+      if (!variant) {
+        throw new NotFoundException(`Variant with ID ${target.variantId} not found`);
+      }
+
+      if (variant.inventory || !create) {
+        return variant.inventory ?? this.notStocked(target.variantId);
+      }
+
+      return tx.productInventory.create({ data: { variantId: variant.id } });
+    }
+
+    if (!target.productId) {
+      throw new BadRequestException('Either productId or variantId must be provided');
+    }
+
+    const product = await tx.product.findUnique({
+      where: { id: target.productId },
+      include: { inventory: true },
+    });
+
+    if (!product) {
+      throw new NotFoundException(`Product with ID ${target.productId} not found`);
+    }
+
+    if (product.hasVariants) {
+      throw new BadRequestException(`Product has variants. Please stock each variant instead.`);
+    }
+
+    if (product.type === ProductType.BUNDLE) {
+      throw new BadRequestException('Bundle stock is computed from its components. Please stock the components instead.');
+    }
+
+    if (product.inventory || !create) {
+      return product.inventory ?? this.notStocked(target.productId);
+    }
+
+    return tx.productInventory.create({ data: { productId: product.id } });
+  }
+
+  private notStocked(id: string): never {
+    throw new BadRequestException(`${id} has no stock to transfer`);
+  }
+
+  private validatePostalCode(postalCode: string) {
+    if (!PINCODE_PATTERN.test(postalCode ?? '')) {
+      throw new BadRequestException('postalCode must be a valid 6-digit pincode');
+    }
+  }
+}